@@ -3,22 +3,45 @@
  * 
  * This endpoint receives LaTeX content and returns a DOCX file
  * generated by Pandoc with proper manuscript formatting.
- * Uses NEJM citation style for medical journal submissions.
+ * Uses the citation style (CSL) of the requested journal profile,
+ * falling back to NEJM when the profile's CSL file is not installed.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { writeFile, readFile, unlink, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { randomUUID } from 'crypto';
+import { getJournalProfile } from '@/lib/exporters/journal-profiles';
 
 const execAsync = promisify(exec);
 
-// Path to NEJM CSL file and reference document
-const NEJM_CSL_PATH = join(process.cwd(), 'public', 'pandoc-assets', 'nejm.csl');
-const REFERENCE_DOC_PATH = join(process.cwd(), 'public', 'pandoc-assets', 'reference.docx');
+// Path to CSL files and reference document
+const PANDOC_ASSETS_DIR = join(process.cwd(), 'public', 'pandoc-assets');
+const NEJM_CSL_PATH = join(PANDOC_ASSETS_DIR, 'nejm.csl');
+const REFERENCE_DOC_PATH = join(PANDOC_ASSETS_DIR, 'reference.docx');
+
+/**
+ * Resolve the CSL file for a journal profile.
+ * Only nejm.csl ships with the app; other CSL files (named as in the official
+ * CSL style repository) can be dropped into public/pandoc-assets.
+ * Numbered styles fall back to nejm.csl; author-year styles have no fallback.
+ */
+function resolveCslPath(journalProfileId?: string): string | null {
+    const { cslFile, marker } = getJournalProfile(journalProfileId).citation;
+    const cslPath = join(PANDOC_ASSETS_DIR, cslFile);
+    if (existsSync(cslPath)) {
+        return cslPath;
+    }
+    if (marker === 'author-year') {
+        return null;
+    }
+    console.warn(`CSL file "${cslFile}" not found in pandoc-assets, falling back to nejm.csl`);
+    return NEJM_CSL_PATH;
+}
 
 export async function POST(request: NextRequest) {
     const tempDir = join(tmpdir(), 'pandoc-convert', randomUUID());
@@ -29,7 +52,7 @@ export async function POST(request: NextRequest) {
 
     try {
         // Parse request body
-        const { latex, filename = 'manuscript', images = [] } = await request.json();
+        const { latex, filename = 'manuscript', images = [], journalProfileId } = await request.json();
 
         if (!latex || typeof latex !== 'string') {
             return NextResponse.json(
@@ -38,6 +61,14 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        const cslPath = resolveCslPath(journalProfileId);
+        if (!cslPath) {
+            return NextResponse.json(
+                { error: `CSL file for ${getJournalProfile(journalProfileId).citation.name} style is not installed` },
+                { status: 422 }
+            );
+        }
+
         // Create temp directory
         await mkdir(tempDir, { recursive: true });
 
@@ -795,7 +826,7 @@ ${authorBlock}
                     ...commonArgs,
                     '--citeproc',
                     `--bibliography="${bibPath}"`,
-                    `--csl="${NEJM_CSL_PATH}"`,
+                    `--csl="${cslPath}"`,
                 ].join(' ');
 
                 console.log('Running Pandoc (citeproc):', citeprocCmd);
@@ -3,11 +3,11 @@
 
 import NovelEditor, { NovelEditorHandle } from "@/components/editor/NovelEditor";
 import { useParams } from "next/navigation";
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { db } from "@/lib/db";
 import { useLiveQuery } from "dexie-react-hooks";
 import { useProjectStore } from "@/hooks/useProject";
-import { Scene, Act, Chapter, ProjectImage } from "@/lib/db/schema";
+import { Scene, Act, Chapter, ProjectImage, ProjectTable, ReviewerConfig } from "@/lib/db/schema";
 import { v4 as uuidv4 } from 'uuid';
 import { Button } from "@/components/ui/button";
 import { Plus, Save, ChevronLeft, ChevronRight, Sparkles, Loader2, Settings, GripVertical } from "lucide-react";
@@ -16,14 +16,18 @@ import { BottomPanel } from "@/components/writer/BottomPanel";
 
 
 import { AIWorkspace } from "@/components/writer/AIWorkspace";
-import { extractTextFromContent } from "@/lib/editor-utils";
+import { extractTextFromContent, textToContent } from "@/lib/editor-utils";
+import { applyPendingHunks } from "@/lib/agents/hunks";
+import { recordManuscriptVersion } from "@/lib/agents/versions";
+import { compactCitations, convertProjectCitations } from "@/lib/references/citation-keys";
 
 export default function WritePage() {
     const params = useParams();
     const novelId = params.id as string;
-    const { activeSceneId, setActiveScene } = useProjectStore();
+    const { activeSceneId, setActiveScene, pendingHunks, removePendingHunks } = useProjectStore();
     const [status, setStatus] = useState<"saved" | "saving" | "unsaved">("saved");
     const saveTimeoutRef = useRef<NodeJS.Timeout>(null);
+    const latestContentRef = useRef<unknown>(null);
     const editorRef = useRef<NovelEditorHandle>(null);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     const [isAIWorkspaceOpen, setIsAIWorkspaceOpen] = useState(false);
@@ -164,6 +168,7 @@ export default function WritePage() {
     const handleUpdate = useCallback((content: any) => {
         // Immediate local update for AI Workspace sync
         setCurrentContent(content);
+        latestContentRef.current = content;
 
         if (!activeSceneId) return;
 
@@ -195,6 +200,75 @@ export default function WritePage() {
         }, 1000);
     }, [activeSceneId]);
 
+    // Replace the editor content with agent-produced plain text
+    const handleUpdateManuscript = (text: string) => {
+        const content = textToContent(text);
+        handleUpdate(content);
+        setRemoteTrigger(prev => prev + 1);
+
+        // Compact citation mode: move inline BibTeX written by the agents into the library
+        if (novelId && novel?.settings?.citationMode === 'keys') {
+            void compactCitations(novelId, text).then(({ text: compacted, converted }) => {
+                // Skip if the manuscript changed again while the entries were imported
+                if (converted === 0 || latestContentRef.current !== content) return;
+                handleUpdate(textToContent(compacted));
+                setRemoteTrigger(prev => prev + 1);
+            });
+        }
+    };
+
+    const scenePendingHunks = useMemo(
+        () => pendingHunks.filter(h => h.sceneId === activeSceneId),
+        [pendingHunks, activeSceneId]
+    );
+
+    const handleAcceptHunks = async (ids: string[]) => {
+        const accepted = scenePendingHunks.filter(h => ids.includes(h.id));
+        if (accepted.length === 0) return;
+
+        const text = extractTextFromContent(currentContent ?? activeScene?.content);
+        handleUpdateManuscript(applyPendingHunks(text, accepted));
+        removePendingHunks(accepted.map(h => h.id));
+
+        // Record the accepted edits in the history, one version per run of hunks from the same agent.
+        // The editor already holds the accepted text, so a failure only loses the history entry.
+        try {
+            const state = activeSceneId ? await db.agent_state.where({ sceneId: activeSceneId }).first() : undefined;
+            let previous = text;
+            let start = 0;
+            while (start < accepted.length) {
+                const agent = accepted[start].agent;
+                let end = start;
+                while (end < accepted.length && accepted[end].agent === agent) end++;
+                const group = accepted.slice(start, end);
+                const content = applyPendingHunks(previous, group);
+
+                await recordManuscriptVersion(
+                    { userId: state?.userId || '', novelId, sceneId: activeSceneId },
+                    previous,
+                    {
+                        agent,
+                        action: 'accept_hunks',
+                        content,
+                        operations: group.map(h => h.operation),
+                        passIndex: state?.passIndex,
+                        runId: state?.runCheckpoint?.runId,
+                        summary: `Accepted ${group.length} proposed change${group.length === 1 ? '' : 's'}`
+                    }
+                );
+                previous = content;
+                start = end;
+            }
+        } catch (error) {
+            console.error('[WritePage] Failed to record accepted changes:', error);
+            alert(`The changes were applied, but saving them to the manuscript history failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    const handleRejectHunks = (ids: string[]) => {
+        removePendingHunks(ids);
+    };
+
     const handleAnalyze = async () => {
         if (editorRef.current) {
             setIsAnalyzing(true);
@@ -228,6 +302,71 @@ export default function WritePage() {
         });
     };
 
+    const handleUpdateTables = async (tables: ProjectTable[]) => {
+        if (!novelId || !novel) return;
+        await db.novels.update(novelId, {
+            'settings.tables': tables,
+            lastModified: Date.now()
+        });
+    };
+
+    const handleUpdateJournalProfile = async (journalProfileId: string) => {
+        if (!novelId || !novel) return;
+        // Key-path update so it doesn't clobber settings written by handleUpdateImages
+        await db.novels.update(novelId, {
+            'settings.journalProfileId': journalProfileId,
+            lastModified: Date.now()
+        });
+    };
+
+    const handleUpdateCitationMode = async (citationMode: 'inline' | 'keys') => {
+        if (!novelId || !novel) return;
+        if ((novel.settings?.citationMode || 'inline') === citationMode) return;
+
+        // Save pending editor changes first so the conversion sees them
+        if (saveTimeoutRef.current) {
+            clearTimeout(saveTimeoutRef.current);
+            saveTimeoutRef.current = null;
+        }
+        if (activeSceneId && currentContent) {
+            await db.scenes.update(activeSceneId, { content: currentContent, lastModified: Date.now() });
+        }
+
+        const result = await convertProjectCitations(novelId, citationMode);
+        await db.novels.update(novelId, {
+            'settings.citationMode': citationMode,
+            lastModified: Date.now()
+        });
+
+        // Reload the open scene into the editor
+        const scene = activeSceneId ? await db.scenes.get(activeSceneId) : undefined;
+        if (scene) {
+            setCurrentContent(scene.content);
+            latestContentRef.current = scene.content;
+            setRemoteTrigger(prev => prev + 1);
+        }
+
+        if (result.unknownKeys.length > 0) {
+            alert(`Converted ${result.citations} citations in ${result.scenes} scenes. These keys are not in the reference library and were left as [@key]: ${result.unknownKeys.join(', ')}`);
+        }
+    };
+
+    const handleUpdateDisabledActions = async (disabledActions: string[]) => {
+        if (!novelId || !novel) return;
+        await db.novels.update(novelId, {
+            'settings.disabledActions': disabledActions,
+            lastModified: Date.now()
+        });
+    };
+
+    const handleUpdateReviewerPanel = async (reviewerPanel: ReviewerConfig[]) => {
+        if (!novelId || !novel) return;
+        await db.novels.update(novelId, {
+            'settings.reviewerPanel': reviewerPanel,
+            lastModified: Date.now()
+        });
+    };
+
     const handleDeleteScene = async () => {
         if (!activeSceneId) return;
 
@@ -382,6 +521,9 @@ export default function WritePage() {
                                     remoteUpdateTrigger={remoteTrigger}
                                     onUpdate={handleUpdate}
                                     sceneId={activeScene.id}
+                                    pendingHunks={scenePendingHunks}
+                                    onAcceptHunks={handleAcceptHunks}
+                                    onRejectHunks={handleRejectHunks}
                                 />
                             )}
                         </div>
@@ -409,22 +551,7 @@ export default function WritePage() {
                             className="flex-1 border-l shadow-xl z-10"
                             onClose={() => setIsAIWorkspaceOpen(false)}
                             currentManuscript={extractTextFromContent(currentContent ?? activeScene?.content)}
-                            onUpdateManuscript={(text) => {
-                                // Convert plain text back to ProseMirror JSON format
-                                const paragraphs = text.split('\n\n').filter(p => p.trim());
-                                const content = {
-                                    type: 'doc',
-                                    content: paragraphs.map(para => ({
-                                        type: 'paragraph',
-                                        content: [{
-                                            type: 'text',
-                                            text: para
-                                        }]
-                                    }))
-                                };
-                                handleUpdate(content);
-                                setRemoteTrigger(prev => prev + 1);
-                            }}
+                            onUpdateManuscript={handleUpdateManuscript}
                             sceneId={activeSceneId || ""}
                             agentState={agentState}
                             novelId={novelId}
@@ -439,8 +566,18 @@ export default function WritePage() {
                     onOpenChange={setIsSettingsOpen}
                     currentTitle={activeScene.title}
                     currentImages={novel?.settings?.images}
+                    currentTables={novel?.settings?.tables}
+                    currentJournalProfileId={novel?.settings?.journalProfileId}
+                    currentDisabledActions={novel?.settings?.disabledActions}
+                    currentReviewerPanel={novel?.settings?.reviewerPanel}
+                    currentCitationMode={novel?.settings?.citationMode}
                     onRename={handleRenameScene}
                     onUpdateImages={handleUpdateImages}
+                    onUpdateTables={handleUpdateTables}
+                    onUpdateJournalProfile={handleUpdateJournalProfile}
+                    onUpdateDisabledActions={handleUpdateDisabledActions}
+                    onUpdateReviewerPanel={handleUpdateReviewerPanel}
+                    onUpdateCitationMode={handleUpdateCitationMode}
                     onDelete={handleDeleteScene}
                 />
             )}
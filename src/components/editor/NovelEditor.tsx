@@ -7,18 +7,24 @@ import Highlight from '@tiptap/extension-highlight';
 import BubbleMenuExtension from '@tiptap/extension-bubble-menu';
 import { useState, useRef, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
 import { useParams } from 'next/navigation';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '@/lib/db';
 import { AhoCorasick } from '@/lib/ai/scanner';
 import { Button } from '@/components/ui/button';
-import { ScanSearch, Sparkles, Loader2, RefreshCw, BookPlus } from 'lucide-react';
+import { ScanSearch, Sparkles, Loader2, RefreshCw, BookPlus, Check, X } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { EntityMark } from '@/components/editor/extensions/EntityMark';
 import { SlashCommand, getSuggestionItems, renderItems } from '@/components/editor/extensions/SlashCommand';
+import { CitationCommand } from '@/components/editor/extensions/CitationCommand';
+import { PendingHunkHighlight, pendingHunkPluginKey } from '@/components/editor/extensions/PendingHunkHighlight';
+import { CitationStatusHighlight, citationStatusPluginKey } from '@/components/editor/extensions/CitationStatusHighlight';
+import { getReferences } from '@/lib/references/library';
 import Placeholder from '@tiptap/extension-placeholder';
 import { RewriteDialog } from './RewriteDialog';
 import { useTaskQueue } from '@/components/providers/TaskQueueProvider';
 import CharacterCount from '@tiptap/extension-character-count';
 import { countWordsExcludingCitations } from '@/lib/word-count';
+import { PendingHunk } from '@/lib/agents/types';
 
 interface NovelEditorProps {
     initialContent?: any;
@@ -26,12 +32,18 @@ interface NovelEditorProps {
     remoteUpdateTrigger?: number;
     onUpdate?: (content: any) => void;
     sceneId: string;
+    // Propose-only agent edits awaiting review
+    pendingHunks?: PendingHunk[];
+    onAcceptHunks?: (ids: string[]) => void;
+    onRejectHunks?: (ids: string[]) => void;
 }
 
 export interface NovelEditorHandle {
     handleAnalyze: () => Promise<void>;
 }
 
+const NO_PENDING_HUNKS: PendingHunk[] = [];
+
 const getColorForCategory = (cat: string) => {
     switch (cat) {
         case 'character': return '#0891b2'; // Cyan-600
@@ -43,7 +55,7 @@ const getColorForCategory = (cat: string) => {
     }
 };
 
-const NovelEditor = forwardRef<NovelEditorHandle, NovelEditorProps>(({ initialContent, content, remoteUpdateTrigger, onUpdate, sceneId }, ref) => {
+const NovelEditor = forwardRef<NovelEditorHandle, NovelEditorProps>(({ initialContent, content, remoteUpdateTrigger, onUpdate, sceneId, pendingHunks = NO_PENDING_HUNKS, onAcceptHunks, onRejectHunks }, ref) => {
     const params = useParams();
     const novelId = params.id as string;
     const [isScanning, setIsScanning] = useState(false);
@@ -63,10 +75,12 @@ const NovelEditor = forwardRef<NovelEditorHandle, NovelEditorProps>(({ initialCo
                 wordCounter: (text) => countWordsExcludingCitations(text),
             }),
             EntityMark,
+            PendingHunkHighlight,
+            CitationStatusHighlight,
             Highlight.configure({ multicolor: true }),
             BubbleMenuExtension,
             Placeholder.configure({
-                placeholder: "Type '/' for commands or start writing...",
+                placeholder: "Type '/' for commands, '[@' to cite from the reference library, or start writing...",
             }),
             SlashCommand.configure({
                 suggestion: {
@@ -94,6 +108,10 @@ const NovelEditor = forwardRef<NovelEditorHandle, NovelEditorProps>(({ initialCo
                     render: renderItems,
                 },
             }),
+            CitationCommand.configure({
+                novelId,
+                suggestion: { render: renderItems },
+            }),
         ],
         content: initialContent || '<p>Start writing...</p>',
         editorProps: {
@@ -244,6 +262,19 @@ const NovelEditor = forwardRef<NovelEditorHandle, NovelEditorProps>(({ initialCo
         }
     }, [remoteUpdateTrigger, editor, content]);
 
+    // Render pending hunks as inline suggestions
+    useEffect(() => {
+        if (!editor) return;
+        editor.view.dispatch(editor.state.tr.setMeta(pendingHunkPluginKey, pendingHunks));
+    }, [editor, pendingHunks]);
+
+    // Mark citations as verified, mismatched or unknown against the reference library
+    const referenceLibrary = useLiveQuery(() => novelId ? getReferences(novelId) : [], [novelId]);
+    useEffect(() => {
+        if (!editor || !referenceLibrary) return;
+        editor.view.dispatch(editor.state.tr.setMeta(citationStatusPluginKey, referenceLibrary));
+    }, [editor, referenceLibrary]);
+
     // Better to use useEffect for restoration after editor instance is available
     useEffect(() => {
         if (!editor || !sceneId) return;
@@ -801,6 +832,45 @@ const NovelEditor = forwardRef<NovelEditorHandle, NovelEditorProps>(({ initialCo
 
     return (
         <div className="w-full max-w-4xl mx-auto min-h-screen flex flex-col relative">
+            {/* Pending agent edits (propose-only mode) */}
+            {pendingHunks.length > 0 && (
+                <div className="sticky top-0 z-10 mx-4 mb-2 border rounded-md bg-background/95 backdrop-blur-sm shadow-sm text-xs">
+                    <div className="flex items-center justify-between px-3 py-2 border-b">
+                        <span className="font-semibold">
+                            {pendingHunks.length} suggested change{pendingHunks.length === 1 ? '' : 's'}
+                        </span>
+                        <div className="flex gap-1">
+                            <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => onAcceptHunks?.(pendingHunks.map(h => h.id))}>
+                                <Check className="w-3 h-3 mr-1" />
+                                Accept all
+                            </Button>
+                            <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => onRejectHunks?.(pendingHunks.map(h => h.id))}>
+                                <X className="w-3 h-3 mr-1" />
+                                Reject all
+                            </Button>
+                        </div>
+                    </div>
+                    <div className="max-h-48 overflow-y-auto divide-y">
+                        {pendingHunks.map(hunk => (
+                            <div key={hunk.id} className="flex items-start gap-2 px-3 py-2">
+                                <div className="flex-1 min-w-0 space-y-1">
+                                    <div className="text-muted-foreground">
+                                        {hunk.agent}{'reason' in hunk.operation && hunk.operation.reason ? ` · ${hunk.operation.reason}` : ''}
+                                    </div>
+                                    <div className="line-clamp-2 line-through text-red-600 dark:text-red-400">{hunk.operation.find}</div>
+                                    <div className="line-clamp-2 text-emerald-700 dark:text-emerald-400">{hunk.operation.replace}</div>
+                                </div>
+                                <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="Accept" onClick={() => onAcceptHunks?.([hunk.id])}>
+                                    <Check className="w-3 h-3" />
+                                </Button>
+                                <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="Reject" onClick={() => onRejectHunks?.([hunk.id])}>
+                                    <X className="w-3 h-3" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
             <EditorContent editor={editor} className="flex-1" />
             <div className="sticky bottom-4 right-4 self-end z-10 px-3 py-1.5 bg-background/80 backdrop-blur-sm border rounded-full shadow-sm text-xs font-medium text-muted-foreground mr-4 mb-4 transition-all hover:bg-background hover:shadow-md">
                 {editor.storage.characterCount.words()} words
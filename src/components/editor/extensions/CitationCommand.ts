@@ -0,0 +1,68 @@
+import { Editor, Extension, Range } from '@tiptap/core'
+import Suggestion, { SuggestionOptions } from '@tiptap/suggestion'
+import { PluginKey } from '@tiptap/pm/state'
+import { BookOpen } from 'lucide-react'
+import { db } from '@/lib/db'
+import { getReferences, formatInlineCitation } from '@/lib/references/library'
+
+export const citationCommandPluginKey = new PluginKey('citationCommand')
+
+interface CitationItem {
+    title: string
+    icon: typeof BookOpen
+    command: (props: { editor: Editor; range: Range }) => void
+}
+
+/**
+ * Typing "[@" opens a menu of reference library entries; choosing one inserts
+ * it as an inline BibTeX citation, or as a [@key] marker in compact citation
+ * mode. Configure with the project's novelId.
+ */
+export const CitationCommand = Extension.create<{ novelId: string; suggestion: Omit<SuggestionOptions<CitationItem, CitationItem>, 'editor'> }>({
+    name: 'citationCommand',
+
+    addOptions() {
+        return {
+            novelId: '',
+            suggestion: {
+                char: '[@',
+                pluginKey: citationCommandPluginKey,
+                command: ({ editor, range, props }) => {
+                    props.command({ editor, range })
+                },
+            },
+        }
+    },
+
+    addProseMirrorPlugins() {
+        const novelId = this.options.novelId
+
+        return [
+            Suggestion({
+                editor: this.editor,
+                items: async ({ query }): Promise<CitationItem[]> => {
+                    if (!novelId) return []
+                    const needle = query.toLowerCase()
+                    const [entries, novel] = await Promise.all([getReferences(novelId), db.novels.get(novelId)])
+                    const compact = novel?.settings?.citationMode === 'keys'
+
+                    return entries
+                        .filter(entry =>
+                            entry.key.toLowerCase().includes(needle) ||
+                            entry.title.toLowerCase().includes(needle) ||
+                            entry.authors.some(author => author.toLowerCase().startsWith(needle))
+                        )
+                        .slice(0, 10)
+                        .map(entry => ({
+                            title: `${entry.key} · ${entry.title.length > 50 ? `${entry.title.slice(0, 50)}...` : entry.title}`,
+                            icon: BookOpen,
+                            command: ({ editor, range }) => {
+                                editor.chain().focus().deleteRange(range).insertContent(compact ? `[@${entry.key}]` : formatInlineCitation(entry)).run()
+                            },
+                        }))
+                },
+                ...this.options.suggestion,
+            }),
+        ]
+    },
+})
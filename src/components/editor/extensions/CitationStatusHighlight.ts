@@ -0,0 +1,89 @@
+import { Extension } from '@tiptap/core'
+import { Plugin, PluginKey } from '@tiptap/pm/state'
+import { Decoration, DecorationSet } from '@tiptap/pm/view'
+import { Node as ProseMirrorNode } from '@tiptap/pm/model'
+import { collectBlockText } from './PendingHunkHighlight'
+import { ReferenceEntry } from '@/lib/db/schema'
+import { CitationStatus, verifyCitations } from '@/lib/references/verification'
+
+export const citationStatusPluginKey = new PluginKey<CitationStatusState>('citationStatusHighlight')
+
+interface CitationStatusState {
+    library: ReferenceEntry[];
+    decorations: DecorationSet;
+}
+
+const STATUS_CLASSES: Record<CitationStatus, string> = {
+    verified: 'bg-emerald-100 dark:bg-emerald-900/30',
+    mismatched: 'bg-amber-100 dark:bg-amber-900/30 underline decoration-wavy decoration-amber-500',
+    unknown: 'bg-red-100 dark:bg-red-900/30 underline decoration-wavy decoration-red-500',
+}
+
+const STATUS_LABELS: Record<CitationStatus, string> = {
+    verified: 'Verified against the reference library',
+    mismatched: 'Differs from the reference library',
+    unknown: 'Not found in the reference library',
+}
+
+const buildDecorations = (doc: ProseMirrorNode, library: ReferenceEntry[]): DecorationSet => {
+    if (library.length === 0) return DecorationSet.empty;
+    const decorations: Decoration[] = [];
+
+    doc.descendants((node, pos) => {
+        if (!node.isTextblock) return true;
+        const { text, positions } = collectBlockText(node, pos);
+
+        for (const check of verifyCitations(text, library)) {
+            const title = [STATUS_LABELS[check.status], ...check.differences].join('\n');
+            let index = text.indexOf(check.citation);
+            while (index >= 0) {
+                const from = positions[index];
+                const to = positions[index + check.citation.length - 1] + 1;
+                decorations.push(Decoration.inline(from, to, {
+                    class: STATUS_CLASSES[check.status],
+                    title,
+                    'data-citation-status': check.status,
+                }));
+                index = text.indexOf(check.citation, index + check.citation.length);
+            }
+        }
+        return false;
+    });
+
+    return DecorationSet.create(doc, decorations);
+}
+
+/**
+ * Colors inline citations by whether they match the project's reference
+ * library (verified, mismatched or unknown); hovering shows the differences.
+ * Update the library with `tr.setMeta(citationStatusPluginKey, entries)`.
+ */
+export const CitationStatusHighlight = Extension.create({
+    name: 'citationStatusHighlight',
+
+    addProseMirrorPlugins() {
+        return [
+            new Plugin<CitationStatusState>({
+                key: citationStatusPluginKey,
+                state: {
+                    init: () => ({ library: [], decorations: DecorationSet.empty }),
+                    apply: (tr, prev) => {
+                        const library: ReferenceEntry[] | undefined = tr.getMeta(citationStatusPluginKey)
+                        if (library) {
+                            return { library, decorations: buildDecorations(tr.doc, library) }
+                        }
+                        if (tr.docChanged) {
+                            return { library: prev.library, decorations: buildDecorations(tr.doc, prev.library) }
+                        }
+                        return prev
+                    },
+                },
+                props: {
+                    decorations(state) {
+                        return citationStatusPluginKey.getState(state)?.decorations
+                    },
+                },
+            }),
+        ]
+    },
+})
@@ -0,0 +1,99 @@
+import { Extension } from '@tiptap/core'
+import { Plugin, PluginKey } from '@tiptap/pm/state'
+import { Decoration, DecorationSet } from '@tiptap/pm/view'
+import { Node as ProseMirrorNode } from '@tiptap/pm/model'
+import { PendingHunk } from '@/lib/agents/types'
+import { getHunkAnchor } from '@/lib/agents/hunks'
+
+export const pendingHunkPluginKey = new PluginKey<PendingHunkState>('pendingHunkHighlight')
+
+interface PendingHunkState {
+    hunks: PendingHunk[];
+    decorations: DecorationSet;
+}
+
+// Map each character of a textblock's text to its document position,
+// so matches can span marks (e.g. entity highlights split text nodes)
+export const collectBlockText = (block: ProseMirrorNode, blockPos: number) => {
+    let text = '';
+    const positions: number[] = [];
+    block.forEach((child, offset) => {
+        if (!child.isText || !child.text) return;
+        for (let i = 0; i < child.text.length; i++) {
+            positions.push(blockPos + 1 + offset + i);
+        }
+        text += child.text;
+    });
+    return { text, positions };
+}
+
+const buildDecorations = (doc: ProseMirrorNode, hunks: PendingHunk[]): DecorationSet => {
+    const decorations: Decoration[] = [];
+    const remaining = hunks
+        .map(hunk => ({ hunk, anchor: getHunkAnchor(hunk) }))
+        .filter(({ anchor }) => anchor.length > 0);
+
+    doc.descendants((node, pos) => {
+        if (!node.isTextblock) return true;
+        const { text, positions } = collectBlockText(node, pos);
+
+        for (let i = remaining.length - 1; i >= 0; i--) {
+            const { hunk, anchor } = remaining[i];
+            const index = text.indexOf(anchor);
+            if (index < 0) continue;
+
+            const from = positions[index];
+            const to = positions[index + anchor.length - 1] + 1;
+            decorations.push(Decoration.inline(from, to, {
+                class: 'bg-red-100 dark:bg-red-900/30 line-through decoration-red-500',
+                'data-hunk-id': hunk.id,
+            }));
+            decorations.push(Decoration.widget(to, () => {
+                const span = document.createElement('span')
+                span.className = 'bg-emerald-100 dark:bg-emerald-900/30 whitespace-pre-wrap'
+                span.setAttribute('data-hunk-id', hunk.id)
+                span.textContent = hunk.operation.replace
+                return span
+            }, { key: `hunk-${hunk.id}`, side: 1 }));
+            remaining.splice(i, 1);
+        }
+        return false;
+    });
+
+    return DecorationSet.create(doc, decorations);
+}
+
+/**
+ * Renders propose-only agent edits as inline suggestions: the text a hunk
+ * would replace is struck through and the replacement is shown after it.
+ * Update the hunks with `tr.setMeta(pendingHunkPluginKey, hunks)`.
+ */
+export const PendingHunkHighlight = Extension.create({
+    name: 'pendingHunkHighlight',
+
+    addProseMirrorPlugins() {
+        return [
+            new Plugin<PendingHunkState>({
+                key: pendingHunkPluginKey,
+                state: {
+                    init: () => ({ hunks: [], decorations: DecorationSet.empty }),
+                    apply: (tr, prev) => {
+                        const hunks: PendingHunk[] | undefined = tr.getMeta(pendingHunkPluginKey)
+                        if (hunks) {
+                            return { hunks, decorations: buildDecorations(tr.doc, hunks) }
+                        }
+                        if (tr.docChanged) {
+                            return { hunks: prev.hunks, decorations: buildDecorations(tr.doc, prev.hunks) }
+                        }
+                        return prev
+                    },
+                },
+                props: {
+                    decorations(state) {
+                        return pendingHunkPluginKey.getState(state)?.decorations
+                    },
+                },
+            }),
+        ]
+    },
+})
@@ -7,7 +7,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useProjectStore } from "@/hooks/useProject";
 import { createClient } from "@/lib/supabase/client"; // [NEW] Sync support
-import { Settings, Lock, Key, CheckCircle, Star, Trash2, ChevronDown, Plus, FileText, X } from "lucide-react";
+import { Settings, Lock, Key, CheckCircle, Star, Trash2, ChevronDown, Plus, FileText, X, Download, Upload } from "lucide-react";
+import { AIProviderFactory } from "@/lib/ai/providers";
+import { LLMMode, parseFixture } from "@/lib/ai/fixtures";
+import { MODEL_CONTEXT_TOKENS, DEFAULT_CONTEXT_TOKENS } from "@/lib/ai/usage";
 import {
     Dialog,
     DialogContent,
@@ -35,6 +38,14 @@ export default function SettingsDialog() {
     const [newExampleName, setNewExampleName] = useState("");
     const [newExampleContent, setNewExampleContent] = useState("");
 
+    // Record/Replay State
+    const [llmMode, setLlmMode] = useState<LLMMode>('live');
+    const [recordedCount, setRecordedCount] = useState(0);
+    const [hasFixture, setHasFixture] = useState(false);
+
+    // Context limit overrides edited in this session (model ID -> tokens, "" clears)
+    const [contextLimits, setContextLimits] = useState<Record<string, string>>({});
+
     // [NEW] Attempt to get current novel context just for UI labeling, not logic
     const params = useParams();
     const novelId = params?.id as string | undefined;
@@ -47,6 +58,9 @@ export default function SettingsDialog() {
 
     const loadSettings = async () => {
         setIsLoading(true);
+        setLlmMode(AIProviderFactory.getMode());
+        setRecordedCount(AIProviderFactory.recorder.size);
+        setHasFixture(AIProviderFactory.hasFixture());
         try {
             // 1. Check Supabase (Cloud) if logged in
             const supabase = createClient();
@@ -148,11 +162,40 @@ export default function SettingsDialog() {
         }
     }, [provider, savedModels]);
 
+    // Model whose context limit is edited (OpenRouter uses the model typed in above)
+    const contextModelId = provider === 'openrouter' && model ? model : AIProviderFactory.getModelId(provider);
+    const contextLimit = contextLimits[contextModelId]
+        ?? (typeof window !== 'undefined' ? localStorage.getItem(`novel-architect-context-tokens-${contextModelId}`) || '' : '');
+
+    const handleDownloadFixture = () => {
+        const fixture = AIProviderFactory.recorder.toFixture();
+        const blob = new Blob([JSON.stringify(fixture, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `llm-fixture-${new Date(fixture.createdAt).toISOString().replace(/[:.]/g, '-')}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleLoadFixture = async (file: File) => {
+        try {
+            const fixture = parseFixture(await file.text());
+            AIProviderFactory.loadFixture(fixture);
+            setHasFixture(true);
+            alert(`Loaded fixture with ${fixture.entries.length} recorded responses.`);
+        } catch (e) {
+            console.error("Failed to load fixture:", e);
+            alert("Failed to load fixture: " + (e instanceof Error ? e.message : String(e)));
+        }
+    };
+
     const handleSave = async () => {
         setIsLoading(true);
         try {
             // 1. Save locally
-            if (provider !== 'ollama') {
+            AIProviderFactory.setMode(llmMode);
+            if (provider !== 'ollama' && llmMode !== 'replay') {
                 if (!apiKey) {
                     alert("API Key is required for cloud providers.");
                     setIsLoading(false);
@@ -164,6 +207,13 @@ export default function SettingsDialog() {
             // Update LocalStorage (Global)
             localStorage.setItem(`novel-architect-model-${provider}`, model);
             localStorage.setItem('novel-architect-provider', provider);
+            for (const [modelId, tokens] of Object.entries(contextLimits)) {
+                if (parseInt(tokens, 10) > 0) {
+                    localStorage.setItem(`novel-architect-context-tokens-${modelId}`, String(parseInt(tokens, 10)));
+                } else {
+                    localStorage.removeItem(`novel-architect-context-tokens-${modelId}`);
+                }
+            }
             // Save writing examples to localStorage as fallback
             localStorage.setItem('novel-architect-writing-examples', JSON.stringify(writingExamples));
 
@@ -358,6 +408,85 @@ export default function SettingsDialog() {
                         </div>
                     )}
 
+                    <div className="grid grid-cols-4 items-center gap-4">
+                        <label className="text-right text-sm font-medium">Context Limit</label>
+                        <div className="col-span-3 space-y-1">
+                            <Input
+                                type="number"
+                                min={1000}
+                                value={contextLimit}
+                                onChange={(e) => setContextLimits(prev => ({ ...prev, [contextModelId]: e.target.value }))}
+                                placeholder={String(MODEL_CONTEXT_TOKENS[contextModelId] ?? MODEL_CONTEXT_TOKENS[contextModelId.split('/').pop() || contextModelId] ?? DEFAULT_CONTEXT_TOKENS)}
+                                disabled={isLoading}
+                            />
+                            <p className="text-xs text-muted-foreground">
+                                Tokens for {contextModelId}. Longer manuscripts are sent to the Critic and Reviser section by section.
+                            </p>
+                        </div>
+                    </div>
+
+                    {/* Record/Replay Section */}
+                    <div className="border-t pt-4 mt-4 space-y-3">
+                        <div className="grid grid-cols-4 items-center gap-4">
+                            <label className="text-right text-sm font-medium">LLM Mode</label>
+                            <select
+                                className="col-span-3 flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors"
+                                value={llmMode}
+                                onChange={(e) => setLlmMode(e.target.value as LLMMode)}
+                                disabled={isLoading}
+                            >
+                                <option value="live">Live</option>
+                                <option value="record">Record (live + save responses)</option>
+                                <option value="replay">Replay (offline, from fixture)</option>
+                            </select>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Record stores every agent prompt and response so a run can be replayed offline without API keys.
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={handleDownloadFixture}
+                                disabled={recordedCount === 0}
+                            >
+                                <Download className="h-3 w-3 mr-1" />
+                                Download fixture ({recordedCount})
+                            </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                    AIProviderFactory.recorder.clear();
+                                    setRecordedCount(0);
+                                }}
+                                disabled={recordedCount === 0}
+                            >
+                                <Trash2 className="h-3 w-3 mr-1" />
+                                Clear recording
+                            </Button>
+                            <Button variant="outline" size="sm" asChild>
+                                <label className="cursor-pointer">
+                                    <Upload className="h-3 w-3 mr-1" />
+                                    {hasFixture ? "Replace fixture" : "Load fixture"}
+                                    <input
+                                        type="file"
+                                        accept="application/json,.json"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0];
+                                            if (file) handleLoadFixture(file);
+                                            e.target.value = "";
+                                        }}
+                                    />
+                                </label>
+                            </Button>
+                        </div>
+                        {llmMode === 'replay' && !hasFixture && (
+                            <p className="text-xs text-destructive">Load a fixture before running agents in replay mode.</p>
+                        )}
+                    </div>
+
                     {/* Writing Examples (Sample Papers) Section */}
                     <div className="border-t pt-4 mt-4">
                         <div className="flex items-center justify-between mb-3">
@@ -2,18 +2,35 @@
 "use client";
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useLiveQuery } from "dexie-react-hooks";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox-input";
 import { VariableInspector } from './VariableInspector';
+import { ManuscriptHistoryDialog } from './ManuscriptHistoryDialog';
+import { ReviewerResponsePanel } from './ReviewerResponsePanel';
+import { ReferenceLibraryDialog } from './ReferenceLibraryDialog';
+import { PromptOverridesDialog } from './PromptOverridesDialog';
+import { RunTimelineDialog } from './RunTimelineDialog';
+import { CitationVerificationPanel } from './CitationVerificationPanel';
+import { SectionBudgetPanel } from './SectionBudgetPanel';
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { db } from "@/lib/db";
-import { AgentState } from "@/lib/db/schema";
+import { AgentState, ReviewerComment } from "@/lib/db/schema";
 import { v4 as uuidv4 } from 'uuid';
 import { AgentLogView } from './AgentLogView';
-import { LogEntry } from '@/lib/agents/types';
+import { LogEntry, HistoryEntry } from '@/lib/agents/types';
+import { isResumable } from '@/lib/agents/checkpoint';
+import { analyzeAbbreviations } from '@/lib/agents/abbreviations';
+import { getPlanSections, getSectionBudgets } from '@/lib/agents/word_budgets';
+import { generateLongtable, tableToCsv } from '@/lib/tables/longtable';
+import { formatUsage } from '@/lib/ai/usage';
+import { getReferences } from '@/lib/references/library';
+import { CitationCheck, verifyCitations, replaceWithLibraryCitation } from '@/lib/references/verification';
 import { extractTextFromContent } from "@/lib/editor-utils";
 import { countWordsExcludingCitations } from "@/lib/word-count";
-import { exportToLatex } from "@/lib/export";
+import { exportToLatex, exportToWord, exportResponseLetter, getJournalProfile, validateCrossReferences, formatCrossReferenceIssues, hasSupplementary } from "@/lib/export";
+import type { ManuscriptPart } from "@/lib/export";
 import { useProjectStore } from "@/hooks/useProject";
 import { createClient } from "@/lib/supabase/client";
 
@@ -33,15 +50,20 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
 
     // Single Action Revise State
     const [revisionInstruction, setRevisionInstruction] = useState("");
+    const [proposeOnly, setProposeOnly] = useState(false);
+    const [useLibraryVersions, setUseLibraryVersions] = useState(false);
     const manuscriptRef = useRef(currentManuscript || "");
 
-    const { addLog, setLogs, logs, setLogsOpen } = useProjectStore();
+    const { addLog, setLogs, logs, setLogsOpen, addPendingHunks } = useProjectStore();
 
     // "AI Write" State - Initialize from DB prop if available
     const [instructions, setInstructions] = useState(agentState?.instructions || "");
     const [maxPasses, setMaxPasses] = useState(agentState?.maxPasses || 1);
     const [minScore, setMinScore] = useState(agentState?.minScore || 0.8);
     const [maxHunks, setMaxHunks] = useState(agentState?.maxHunks || 5);
+    const [writerConcurrency, setWriterConcurrency] = useState(agentState?.writerConcurrency || 3);
+    const [maxTokens, setMaxTokens] = useState<number | undefined>(agentState?.maxTokens);
+    const [maxCost, setMaxCost] = useState<number | undefined>(agentState?.maxCost);
 
     // "AI Reference" State
     const [maxTargets, setMaxTargets] = useState(agentState?.maxTargets || 10);
@@ -147,7 +169,10 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
                 setMaxPasses(agentState.maxPasses);
                 setMinScore(agentState.minScore);
                 setMaxHunks(agentState.maxHunks || 5);
+                setWriterConcurrency(agentState.writerConcurrency || 3);
                 setMaxTargets(agentState.maxTargets || 10);
+                setMaxTokens(agentState.maxTokens);
+                setMaxCost(agentState.maxCost);
             }
         }
     }, [agentState]);
@@ -161,7 +186,10 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
                 maxPasses,
                 minScore,
                 maxHunks,
+                writerConcurrency,
                 maxTargets,
+                maxTokens,
+                maxCost,
                 history: newHistory || logs,
                 lastModified: Date.now()
             };
@@ -185,7 +213,7 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
         } catch (error) {
             console.error("Failed to save agent state:", error);
         }
-    }, [instructions, maxPasses, minScore, maxHunks, maxTargets, sceneId, novelId, logs]);
+    }, [instructions, maxPasses, minScore, maxHunks, writerConcurrency, maxTargets, maxTokens, maxCost, sceneId, novelId, logs]);
 
     // Debounced Save
     useEffect(() => {
@@ -198,7 +226,7 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
         return () => {
             if (saveTimeout.current) clearTimeout(saveTimeout.current);
         };
-    }, [instructions, maxPasses, minScore, maxHunks, maxTargets, saveAgentState]);
+    }, [instructions, maxPasses, minScore, maxHunks, writerConcurrency, maxTargets, maxTokens, maxCost, saveAgentState]);
 
     const handleInputChange = (setter: React.Dispatch<React.SetStateAction<any>>, value: any) => {
         setter(value);
@@ -210,6 +238,14 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
     const manuscriptWordCount = manuscriptText
         ? countWordsExcludingCitations(manuscriptText)
         : 0;
+    const abbreviationReport = analyzeAbbreviations(manuscriptText);
+    const reviewerComments = agentState?.reviewerComments || [];
+    const referenceLibrary = useLiveQuery(() => getReferences(novelId), [novelId]) || [];
+    const citationChecks = verifyCitations(manuscriptText, referenceLibrary);
+    const sectionBudgets = getSectionBudgets(getPlanSections(agentState), manuscriptText);
+    const lastPanelCritique = ((agentState?.actionHistory || []) as HistoryEntry[])
+        .filter(entry => entry.reviewerScores)
+        .pop();
 
     // Variables for Inspector - Derived directly from state/props
     const variables = activeTab === "write" ? {
@@ -217,7 +253,8 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
             instructions,
             maxPasses,
             minScore,
-            maxHunks
+            maxHunks,
+            writerConcurrency
         },
         system: {
             current_manuscript: manuscriptText || "(empty)",
@@ -247,6 +284,7 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
     };
 
     const hasHistory = (agentState?.history?.length || 0) > 0;
+    const resumableRun = isResumable(agentState?.runCheckpoint) ? agentState?.runCheckpoint : undefined;
 
     const resolveManuscript = useCallback(async () => {
         const local = manuscriptRef.current || fallbackManuscript || "";
@@ -270,7 +308,15 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
     }, [fallbackManuscript, sceneId]);
 
 
-    const handleStartWrite = async () => {
+    const handleRevertManuscript = (text: string) => {
+        manuscriptRef.current = text;
+        setFallbackManuscript(text);
+        if (onUpdateManuscript) {
+            onUpdateManuscript(text);
+        }
+    };
+
+    const handleStartWrite = async (resume: boolean = false) => {
         if (!instructions.trim()) {
             alert('Please provide instructions for the AI writer');
             return;
@@ -335,7 +381,10 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
                 getCurrentManuscript,
                 updateManuscript,
                 onLog,
-                selectedExample?.content // Pass sample paper content
+                selectedExample?.content, // Pass sample paper content
+                resume,
+                proposeOnly ? 'propose' : 'apply',
+                addPendingHunks
             );
 
             console.log('[AIWorkspace] Workflow complete. Final manuscript length:', finalManuscript.length);
@@ -387,7 +436,8 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
                 maxTargets,
                 getCurrentManuscript,
                 updateManuscript,
-                onLog
+                onLog,
+                { useLibraryVersions }
             );
 
             console.log("Citation scan complete.", result);
@@ -409,6 +459,16 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
         }
     };
 
+    const handleReplaceCitation = async (check: CitationCheck) => {
+        const manuscript = await resolveManuscript();
+        const updated = replaceWithLibraryCitation(manuscript, check);
+        if (updated === manuscript) return;
+
+        manuscriptRef.current = updated;
+        setFallbackManuscript(updated);
+        if (onUpdateManuscript) onUpdateManuscript(updated);
+    };
+
     const handleSingleRevise = async () => {
         if (!revisionInstruction.trim()) {
             alert('Please provide revision instructions');
@@ -449,7 +509,9 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
                 revisionInstruction,
                 getCurrentManuscript,
                 updateManuscript,
-                onLog
+                onLog,
+                proposeOnly ? 'propose' : 'apply',
+                addPendingHunks
             );
 
             console.log('[AIWorkspace] Single action revise complete.');
@@ -471,6 +533,115 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
         }
     };
 
+    const saveReviewerComments = async (comments: ReviewerComment[]) => {
+        // Comments live on the agent state row; create it first for a new scene
+        let existing = await db.agent_state.where({ sceneId }).first();
+        if (!existing) {
+            await saveAgentState();
+            existing = await db.agent_state.where({ sceneId }).first();
+        }
+        if (existing) {
+            await db.agent_state.update(existing.id, { reviewerComments: comments, lastModified: Date.now() });
+        }
+    };
+
+    const handleImportDecisionLetter = async (text: string) => {
+        const { splitDecisionLetter } = await import('@/lib/agents/reviewer_response');
+        const comments = splitDecisionLetter(text);
+        if (comments.length === 0) {
+            alert('No reviewer comments found in the decision letter');
+            return;
+        }
+        if (reviewerComments.length > 0 && !confirm(`Replace the ${reviewerComments.length} tracked comments with ${comments.length} imported comments?`)) {
+            return;
+        }
+        await saveReviewerComments(comments);
+    };
+
+    const handleImportDecisionLetterFile = async (file: File) => {
+        try {
+            const { readDecisionLetter } = await import('@/lib/agents/reviewer_response');
+            await handleImportDecisionLetter(await readDecisionLetter(file));
+        } catch (error) {
+            console.error('[AIWorkspace] Decision letter import error:', error);
+            alert(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    const handleReviewerCommentStatus = async (id: string, status: ReviewerComment['status']) => {
+        await saveReviewerComments(reviewerComments.map(c => (c.id === id ? { ...c, status } : c)));
+    };
+
+    const handleAddressReviewerComments = async () => {
+        const manuscript = await resolveManuscript();
+        if (!manuscript.trim()) {
+            alert('No manuscript content to revise');
+            return;
+        }
+
+        setIsRunning(true);
+        setLogsOpen(true);
+
+        const currentRunLogs = [...logs];
+
+        try {
+            const { runReviewerResponse } = await import('@/lib/agents/reviewer_response');
+
+            const getCurrentManuscript = async () => resolveManuscript();
+
+            const updateManuscript = async (text: string) => {
+                manuscriptRef.current = text;
+                setFallbackManuscript(text);
+                if (onUpdateManuscript) onUpdateManuscript(text);
+            };
+
+            const onLog = (log: LogEntry) => {
+                isDirty.current = true;
+                currentRunLogs.push(log);
+                addLog(log);
+            };
+
+            await runReviewerResponse(novelId, sceneId, getCurrentManuscript, updateManuscript, onLog);
+
+            console.log('[AIWorkspace] Reviewer response complete.');
+
+        } catch (error) {
+            console.error('[AIWorkspace] Reviewer response error:', error);
+            const errorLog: LogEntry = {
+                id: uuidv4(),
+                timestamp: Date.now(),
+                agent: 'System',
+                type: 'error',
+                content: `Error: ${error instanceof Error ? error.message : String(error)}`
+            };
+            currentRunLogs.push(errorLog);
+            addLog(errorLog);
+        } finally {
+            await saveAgentState(currentRunLogs);
+            setIsRunning(false);
+        }
+    };
+
+    const handleExportResponseLetter = async () => {
+        try {
+            const novel = await db.novels.get(novelId);
+            const title = novel?.title || 'Manuscript';
+            const blob = await exportResponseLetter(reviewerComments, { title });
+
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `${title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_response_to_reviewers.docx`;
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('[AIWorkspace] Response letter export error:', error);
+            alert(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
     const handleExport = async () => {
         const manuscript = await resolveManuscript();
         if (!manuscript.trim()) {
@@ -486,18 +657,26 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
             const novel = await db.novels.get(novelId);
             const title = novel?.title || 'Manuscript';
             const images = novel?.settings?.images || [];
+            const journalProfile = getJournalProfile(novel?.settings?.journalProfileId);
+            // Resolves [@key] citation markers (compact citation mode)
+            const library = await getReferences(novelId);
             const sanitizedTitle = title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
 
+            // Check cross-references once for every document below: refuse errors, let the author decide on warnings
+            const crossReferenceIssues = validateCrossReferences(manuscript, images);
+            const crossReferenceErrors = crossReferenceIssues.filter(issue => issue.severity === 'error');
+            if (crossReferenceErrors.length > 0) {
+                alert(`Export blocked by broken figure/table cross-references:\n${formatCrossReferenceIssues(crossReferenceErrors)}`);
+                return;
+            }
+            if (crossReferenceIssues.length > 0
+                && !confirm(`Figure/table cross-reference warnings:\n${formatCrossReferenceIssues(crossReferenceIssues)}\n\nExport anyway?`)) {
+                return;
+            }
+
             // Create ZIP file
             const zip = new JSZip();
 
-            // === LaTeX Export ===
-            const texContent = exportToLatex(manuscript, {
-                title: title,
-                correspondence: ''
-            });
-            zip.file(`${sanitizedTitle}.tex`, texContent);
-
             // Add figures folder with images
             if (images.length > 0) {
                 const figuresFolder = zip.folder('figures');
@@ -512,57 +691,91 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
                 }
             }
 
+            // Add uploaded tables (source data, plus the generated LaTeX once captioned)
+            const tables = novel?.settings?.tables || [];
+            if (tables.length > 0) {
+                const tablesFolder = zip.folder('tables');
+                if (tablesFolder) {
+                    for (const table of tables) {
+                        tablesFolder.file(`${table.label}.csv`, tableToCsv(table));
+                        if (table.caption) {
+                            tablesFolder.file(`${table.label}.tex`, generateLongtable(table, table.caption));
+                        }
+                    }
+                }
+            }
+
             // Prepare images payload for API calls
             const imagesPayload = images.map(img => ({
                 name: img.name,
                 data: img.data
             }));
 
-            // === PDF Export (via LaTeX compilation API) ===
-            try {
-                const pdfResponse = await fetch('/api/compile-latex', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        latex: texContent,
-                        filename: sanitizedTitle,
-                        images: imagesPayload
-                    })
-                });
+            // The main manuscript, plus <supplementary> material as a second S-numbered document
+            const parts: ManuscriptPart[] = hasSupplementary(manuscript) ? ['main', 'supplementary'] : ['main'];
+            for (const part of parts) {
+                const filename = part === 'main' ? sanitizedTitle : `${sanitizedTitle}_supplementary`;
 
-                if (pdfResponse.ok) {
-                    const pdfBlob = await pdfResponse.blob();
-                    zip.file(`${sanitizedTitle}.pdf`, pdfBlob);
-                    console.log('[AIWorkspace] PDF compilation successful');
-                } else {
-                    const error = await pdfResponse.json();
-                    console.warn('[AIWorkspace] PDF compilation failed:', error.error);
-                    // Continue without PDF - don't fail the entire export
+                // === LaTeX Export ===
+                const texContent = exportToLatex(manuscript, {
+                    title: title,
+                    correspondence: ''
+                }, journalProfile, library, part);
+                zip.file(`${filename}.tex`, texContent);
+
+                // === PDF Export (via LaTeX compilation API) ===
+                try {
+                    const pdfResponse = await fetch('/api/compile-latex', {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({
+                            latex: texContent,
+                            filename,
+                            images: imagesPayload
+                        })
+                    });
+
+                    if (pdfResponse.ok) {
+                        const pdfBlob = await pdfResponse.blob();
+                        zip.file(`${filename}.pdf`, pdfBlob);
+                        console.log(`[AIWorkspace] PDF compilation successful (${part})`);
+                    } else {
+                        const error = await pdfResponse.json();
+                        console.warn(`[AIWorkspace] PDF compilation failed (${part}):`, error.error);
+                        // Continue without PDF - don't fail the entire export
+                    }
+                } catch (pdfErr) {
+                    console.warn(`[AIWorkspace] PDF compilation error (${part}):`, pdfErr);
+                    // Continue without PDF
                 }
-            } catch (pdfErr) {
-                console.warn('[AIWorkspace] PDF compilation error:', pdfErr);
-                // Continue without PDF
-            }
 
-            // === Word Export (via Pandoc API) ===
-            const wordResponse = await fetch('/api/convert-to-word', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    latex: texContent,
-                    filename: sanitizedTitle,
-                    images: imagesPayload
-                })
-            });
-
-            if (!wordResponse.ok) {
-                const error = await wordResponse.json();
-                throw new Error(error.error || 'Word conversion failed');
+                // === Word Export (via Pandoc API, client-side converter as fallback) ===
+                let wordBlob: Blob;
+                try {
+                    const wordResponse = await fetch('/api/convert-to-word', {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({
+                            latex: texContent,
+                            filename,
+                            images: imagesPayload,
+                            journalProfileId: journalProfile.id
+                        })
+                    });
+
+                    if (!wordResponse.ok) {
+                        const error = await wordResponse.json();
+                        throw new Error(error.error || 'Word conversion failed');
+                    }
+                    wordBlob = await wordResponse.blob();
+                } catch (wordErr) {
+                    // No Pandoc (or CSL file) on the server: render citations in the browser instead
+                    console.warn('[AIWorkspace] Pandoc conversion failed, using built-in Word export:', wordErr);
+                    wordBlob = await exportToWord(manuscript, { title }, journalProfile, library, part);
+                }
+                zip.file(`${filename}.docx`, wordBlob);
             }
 
-            const wordBlob = await wordResponse.blob();
-            zip.file(`${sanitizedTitle}.docx`, wordBlob);
-
             // Generate and download the ZIP
             const zipBlob = await zip.generateAsync({ type: 'blob' });
             const url = URL.createObjectURL(zipBlob);
@@ -574,7 +787,7 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
             document.body.removeChild(a);
             URL.revokeObjectURL(url);
 
-            console.log(`[AIWorkspace] Export complete: .tex, .pdf, .docx, and ${images.length} figures`);
+            console.log(`[AIWorkspace] Export complete: .tex, .pdf, .docx${parts.length > 1 ? ' (with supplement)' : ''}, and ${images.length} figures`);
         } catch (error) {
             console.error('[AIWorkspace] Export error:', error);
             alert(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -647,7 +860,7 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
                                     onChange={(e) => handleInputChange(setMinScore, parseFloat(e.target.value))}
                                 />
                             </div>
-                            <div className="space-y-2 col-span-2">
+                            <div className="space-y-2">
                                 <label className="text-sm font-medium">Search/Replace Limit (Max Hunks)</label>
                                 <Input
                                     type="number"
@@ -657,6 +870,42 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
                                     onChange={(e) => handleInputChange(setMaxHunks, parseInt(e.target.value))}
                                 />
                             </div>
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Parallel Writers</label>
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    max={10}
+                                    value={isNaN(writerConcurrency) ? "" : writerConcurrency}
+                                    onChange={(e) => handleInputChange(setWriterConcurrency, parseInt(e.target.value))}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Max Tokens (per run)</label>
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    step={10000}
+                                    placeholder="Unlimited"
+                                    value={maxTokens === undefined || isNaN(maxTokens) ? "" : maxTokens}
+                                    onChange={(e) => handleInputChange(setMaxTokens, e.target.value === "" ? undefined : parseInt(e.target.value))}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Max Cost (USD, per run)</label>
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    placeholder="Unlimited"
+                                    value={maxCost === undefined || isNaN(maxCost) ? "" : maxCost}
+                                    onChange={(e) => handleInputChange(setMaxCost, e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                                />
+                            </div>
+                            <div className="col-span-2 text-xs text-muted-foreground space-y-0.5">
+                                <div>Last run: {formatUsage(agentState?.runUsage)}</div>
+                                <div>All runs: {formatUsage(agentState?.totalUsage)}</div>
+                            </div>
 
                             {/* Sample Paper Selection */}
                             {writingExamples.length > 0 && (
@@ -679,12 +928,50 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
                             )}
                         </div>
 
-                        <div className="pt-4">
-                            <Button className="w-full" onClick={handleStartWrite} disabled={isRunning}>
-                                {isRunning ? "Agent Running..." : (hasHistory ? "Resume Agent" : "Start Agent")}
+                        <div className="flex items-start gap-2">
+                            <Checkbox
+                                id="propose-only-agent"
+                                checked={proposeOnly}
+                                onCheckedChange={(c: boolean | 'indeterminate') => setProposeOnly(c === true)}
+                            />
+                            <label htmlFor="propose-only-agent" className="text-sm leading-tight">
+                                Propose only
+                                <span className="block text-xs text-muted-foreground">
+                                    Stop at the first Writer or Reviser step and show its edits as suggestions in the editor to accept or reject.
+                                </span>
+                            </label>
+                        </div>
+
+                        <div className="pt-4 space-y-2">
+                            {resumableRun && !isRunning && (
+                                <>
+                                    <Button className="w-full" onClick={() => handleStartWrite(true)}>
+                                        Resume run (step {resumableRun.loopCount}{resumableRun.lastDecision ? `: ${resumableRun.lastDecision.action}` : ''})
+                                    </Button>
+                                    {resumableRun.status === 'failed' && resumableRun.error && (
+                                        <p className="text-xs text-destructive">
+                                            Last run failed: {resumableRun.error}
+                                        </p>
+                                    )}
+                                    {resumableRun.status === 'stopped' && resumableRun.error && (
+                                        <p className="text-xs text-muted-foreground">
+                                            Last run stopped: {resumableRun.error}. Raise the budget to continue.
+                                        </p>
+                                    )}
+                                </>
+                            )}
+                            <Button
+                                className="w-full"
+                                variant={resumableRun && !isRunning ? "outline" : "default"}
+                                onClick={() => handleStartWrite()}
+                                disabled={isRunning}
+                            >
+                                {isRunning ? "Agent Running..." : (hasHistory ? "Start New Run" : "Start Agent")}
                             </Button>
                         </div>
 
+                        <SectionBudgetPanel budgets={sectionBudgets} />
+
                         <div className="pt-4 border-t space-y-3">
                             <label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Context Data</label>
                             <div className="grid grid-cols-2 gap-2">
@@ -722,6 +1009,39 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
                                     title="Agent History"
                                     trigger={<Button variant="outline" size="sm" className="w-full text-xs h-8">Full History</Button>}
                                 />
+                                <VariableInspector
+                                    variables={{
+                                        issues: abbreviationReport.issues,
+                                        abbreviations: abbreviationReport.abbreviations,
+                                        fix_operations: abbreviationReport.operations
+                                    }}
+                                    title="Abbreviations"
+                                    trigger={<Button variant="outline" size="sm" className="w-full text-xs h-8">Abbreviations ({abbreviationReport.issues.length})</Button>}
+                                />
+                                <VariableInspector
+                                    variables={{
+                                        reviewer_scores: lastPanelCritique?.reviewerScores ?? null,
+                                        summary: lastPanelCritique?.summary ?? null
+                                    }}
+                                    title="Reviewer Scores (latest panel critique)"
+                                    trigger={<Button variant="outline" size="sm" className="w-full text-xs h-8">Reviewer Scores</Button>}
+                                />
+                                <ManuscriptHistoryDialog
+                                    novelId={novelId}
+                                    sceneId={sceneId}
+                                    userId={agentState?.userId}
+                                    getCurrentManuscript={resolveManuscript}
+                                    onRevert={handleRevertManuscript}
+                                    trigger={<Button variant="outline" size="sm" className="w-full text-xs h-8 col-span-2" disabled={isRunning}>Version History</Button>}
+                                />
+                                <PromptOverridesDialog
+                                    novelId={novelId}
+                                    trigger={<Button variant="outline" size="sm" className="w-full text-xs h-8 col-span-2" disabled={isRunning}>Agent Prompts</Button>}
+                                />
+                                <RunTimelineDialog
+                                    trace={agentState?.runTrace}
+                                    trigger={<Button variant="outline" size="sm" className="w-full text-xs h-8 col-span-2">Run Timeline</Button>}
+                                />
                                 <VariableInspector
                                     variables={variables}
                                     title="Full Context"
@@ -747,16 +1067,40 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
                             </p>
                         </div>
 
+                        <div className="flex items-start gap-2">
+                            <Checkbox
+                                id="propose-only"
+                                checked={proposeOnly}
+                                onCheckedChange={(c: boolean | 'indeterminate') => setProposeOnly(c === true)}
+                            />
+                            <label htmlFor="propose-only" className="text-sm leading-tight">
+                                Propose only
+                                <span className="block text-xs text-muted-foreground">
+                                    Show the edits as suggestions in the editor to accept or reject instead of applying them.
+                                </span>
+                            </label>
+                        </div>
+
                         <div className="pt-4">
                             <Button
                                 className="w-full"
                                 onClick={handleSingleRevise}
                                 disabled={isRunning || !revisionInstruction.trim()}
                             >
-                                {isRunning ? "Revising..." : "Apply Revision"}
+                                {isRunning ? "Revising..." : (proposeOnly ? "Propose Revision" : "Apply Revision")}
                             </Button>
                         </div>
 
+                        <ReviewerResponsePanel
+                            comments={reviewerComments}
+                            isRunning={isRunning}
+                            onImportText={handleImportDecisionLetter}
+                            onImportFile={handleImportDecisionLetterFile}
+                            onStatusChange={handleReviewerCommentStatus}
+                            onAddress={handleAddressReviewerComments}
+                            onExport={handleExportResponseLetter}
+                        />
+
                         <div className="pt-4 border-t space-y-3">
                             <label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Context Data</label>
                             <div className="grid grid-cols-2 gap-2">
@@ -793,12 +1137,33 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
                             />
                         </div>
 
+                        <div className="flex items-start gap-2">
+                            <Checkbox
+                                id="use-library-versions"
+                                checked={useLibraryVersions}
+                                onCheckedChange={(c: boolean | 'indeterminate') => setUseLibraryVersions(c === true)}
+                            />
+                            <label htmlFor="use-library-versions" className="text-sm leading-tight">
+                                Use library versions
+                                <span className="block text-xs text-muted-foreground">
+                                    Replace generated citations that differ from an imported reference with the imported entry.
+                                </span>
+                            </label>
+                        </div>
+
                         <div className="pt-4">
                             <Button className="w-full" variant="secondary" onClick={handleScanReferences}>
                                 Scan References
                             </Button>
                         </div>
 
+                        <CitationVerificationPanel
+                            checks={citationChecks}
+                            libraryEmpty={referenceLibrary.length === 0}
+                            isRunning={isRunning}
+                            onReplace={(check) => void handleReplaceCitation(check)}
+                        />
+
                         <div className="pt-4 border-t space-y-3">
                             <label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Citation Data</label>
                             <div className="grid grid-cols-2 gap-2">
@@ -812,6 +1177,10 @@ export function AIWorkspace({ className, onClose, currentManuscript = "", onUpda
                                     title="Citation Targets"
                                     trigger={<Button variant="outline" size="sm" className="w-full text-xs h-8">Targets</Button>}
                                 />
+                                <ReferenceLibraryDialog
+                                    novelId={novelId}
+                                    trigger={<Button variant="outline" size="sm" className="w-full text-xs h-8 col-span-2">Reference Library</Button>}
+                                />
                                 <VariableInspector
                                     variables={{ ...variables, mode: "Reference" }}
                                     title="Full Context"
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef } from 'react';
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { LogEntry } from "@/lib/agents/types";
+import { formatDuration } from "@/lib/agents/run_trace";
 import { cn } from "@/lib/utils";
 
 interface AgentLogViewProps {
@@ -8,7 +9,7 @@ interface AgentLogViewProps {
     className?: string;
 }
 
-const AGENT_COLORS: Record<string, string> = {
+export const AGENT_COLORS: Record<string, string> = {
     System: "bg-gray-100 text-gray-900 border-gray-200 dark:bg-gray-800/50 dark:text-gray-300 dark:border-gray-700",
     Manager: "bg-purple-100 text-purple-900 border-purple-200 dark:bg-purple-900/30 dark:text-purple-100 dark:border-purple-800",
     Planner: "bg-indigo-100 text-indigo-900 border-indigo-200 dark:bg-indigo-900/30 dark:text-indigo-100 dark:border-indigo-800",
@@ -18,7 +19,7 @@ const AGENT_COLORS: Record<string, string> = {
     Formatter: "bg-cyan-100 text-cyan-900 border-cyan-200 dark:bg-cyan-900/30 dark:text-cyan-100 dark:border-cyan-800",
 };
 
-const DEFAULT_AGENT_COLOR = "bg-zinc-100 text-zinc-900 border-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:border-zinc-700";
+export const DEFAULT_AGENT_COLOR = "bg-zinc-100 text-zinc-900 border-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:border-zinc-700";
 
 export function AgentLogView({ logs, className }: AgentLogViewProps) {
     const scrollRef = useRef<HTMLDivElement>(null);
@@ -57,7 +58,18 @@ export function AgentLogView({ logs, className }: AgentLogViewProps) {
                         <div key={log.id || `log-${index}`} className={cn("flex flex-col border rounded-lg overflow-hidden text-sm shadow-sm", style)}>
                             <div className="px-3 py-1.5 border-b border-inherit/20 bg-inherit/30 flex justify-between items-center text-xs font-semibold uppercase tracking-wider opacity-80">
                                 <span>{label}</span>
-                                <span className="font-mono opacity-70">{formatTime(log.timestamp)}</span>
+                                <span className="font-mono opacity-70">
+                                    {log.usage && (
+                                        <span className="normal-case tracking-normal mr-2" title={log.usage.model}>
+                                            {log.usage.inputTokens.toLocaleString()} in / {log.usage.outputTokens.toLocaleString()} out
+                                            {log.usage.priced ? ` · $${log.usage.cost.toFixed(4)}` : ''}
+                                        </span>
+                                    )}
+                                    {log.durationMs !== undefined && (
+                                        <span className="normal-case tracking-normal mr-2">{formatDuration(log.durationMs)}</span>
+                                    )}
+                                    {formatTime(log.timestamp)}
+                                </span>
                             </div>
                             <div className="p-3 whitespace-pre-wrap break-words font-mono text-xs leading-relaxed opacity-90">
                                 {log.content}
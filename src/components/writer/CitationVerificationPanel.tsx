@@ -0,0 +1,63 @@
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { CitationCheck, CitationStatus, summarizeCitationChecks } from "@/lib/references/verification";
+
+interface CitationVerificationPanelProps {
+    checks: CitationCheck[];
+    libraryEmpty: boolean;
+    isRunning: boolean;
+    onReplace: (check: CitationCheck) => void;
+}
+
+const STATUS_STYLES: Record<CitationStatus, string> = {
+    verified: "text-emerald-600 dark:text-emerald-400",
+    mismatched: "text-amber-600 dark:text-amber-400",
+    unknown: "text-red-600 dark:text-red-400",
+};
+
+export function CitationVerificationPanel({ checks, libraryEmpty, isRunning, onReplace }: CitationVerificationPanelProps) {
+    const flagged = checks.filter(check => check.status !== 'verified');
+
+    return (
+        <div className="pt-4 border-t space-y-3">
+            <label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Citation Check</label>
+
+            {libraryEmpty ? (
+                <p className="text-xs text-muted-foreground italic">
+                    Import references into the library to check citations against them.
+                </p>
+            ) : checks.length === 0 ? (
+                <p className="text-xs text-muted-foreground italic">No inline citations in the manuscript.</p>
+            ) : (
+                <>
+                    <p className="text-xs text-muted-foreground">{summarizeCitationChecks(checks)}.</p>
+                    <div className="space-y-2">
+                        {flagged.map(check => (
+                            <div key={check.citation} className="rounded-md border p-2 space-y-1">
+                                <div className="flex items-center justify-between gap-2 text-xs">
+                                    <span className="font-mono truncate">{check.key || check.title}</span>
+                                    <span className={cn("font-semibold shrink-0", STATUS_STYLES[check.status])}>{check.status}</span>
+                                </div>
+                                {check.title && <p className="text-xs text-muted-foreground line-clamp-2">{check.title}</p>}
+                                {check.differences.map(difference => (
+                                    <p key={difference} className="text-xs text-muted-foreground">• {difference}</p>
+                                ))}
+                                {check.status === 'mismatched' && check.entry && (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="w-full text-xs h-7"
+                                        disabled={isRunning}
+                                        onClick={() => onReplace(check)}
+                                    >
+                                        Use Library Version ({check.entry.key})
+                                    </Button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
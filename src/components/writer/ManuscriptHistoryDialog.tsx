@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { useLiveQuery } from "dexie-react-hooks";
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { ManuscriptVersion } from "@/lib/db/schema";
+import { getManuscriptVersions, recordManuscriptVersion } from "@/lib/agents/versions";
+import { diffLines } from "@/lib/diff";
+
+interface ManuscriptHistoryDialogProps {
+    novelId: string;
+    sceneId?: string | null;
+    userId?: string;
+    getCurrentManuscript: () => Promise<string>;
+    onRevert: (text: string) => void;
+    trigger?: React.ReactNode;
+}
+
+const ROW_STYLES = {
+    same: { left: "", right: "" },
+    added: { left: "bg-muted/40", right: "bg-emerald-100 dark:bg-emerald-900/30" },
+    removed: { left: "bg-red-100 dark:bg-red-900/30", right: "bg-muted/40" },
+    changed: { left: "bg-red-100 dark:bg-red-900/30", right: "bg-emerald-100 dark:bg-emerald-900/30" },
+};
+
+export function ManuscriptHistoryDialog({ novelId, sceneId, userId = '', getCurrentManuscript, onRevert, trigger }: ManuscriptHistoryDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    const versions = useLiveQuery(
+        () => open ? getManuscriptVersions(novelId, sceneId) : Promise.resolve([] as ManuscriptVersion[]),
+        [open, novelId, sceneId]
+    ) || [];
+
+    // Newest first in the list; default selection is the latest version
+    const ordered = [...versions].reverse();
+    const selectedIndex = versions.findIndex(v => v.id === selectedId);
+    const index = selectedIndex >= 0 ? selectedIndex : versions.length - 1;
+    const selected = versions[index];
+    const previous = index > 0 ? versions[index - 1] : undefined;
+
+    const rows = selected ? diffLines(previous?.content || '', selected.content) : [];
+
+    const handleRevert = async (version: ManuscriptVersion) => {
+        if (!confirm(`Revert the manuscript to the ${version.agent} version from ${new Date(version.createdAt).toLocaleString()}?`)) {
+            return;
+        }
+        const current = await getCurrentManuscript();
+        onRevert(version.content);
+        await recordManuscriptVersion(
+            { userId, novelId, sceneId },
+            current,
+            {
+                agent: 'User',
+                action: 'revert',
+                content: version.content,
+                passIndex: version.passIndex,
+                summary: `Reverted to ${version.agent} version (${version.action}) from ${new Date(version.createdAt).toLocaleString()}`
+            }
+        );
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                {trigger || (
+                    <Button variant="outline" size="sm" className="w-full">
+                        Version History
+                    </Button>
+                )}
+            </DialogTrigger>
+            <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle>Manuscript Version History</DialogTitle>
+                    <DialogDescription>
+                        Each agent step is recorded with the operations it applied. Select a version to compare it with the one before it.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {versions.length === 0 ? (
+                    <div className="text-muted-foreground italic text-sm py-8 text-center">
+                        No versions recorded yet. Versions are saved after each agent edit.
+                    </div>
+                ) : (
+                    <div className="flex flex-1 min-h-0 gap-4">
+                        {/* Version list */}
+                        <ScrollArea className="w-64 shrink-0 border rounded-md">
+                            <div className="p-2 space-y-1">
+                                {ordered.map(version => (
+                                    <button
+                                        key={version.id}
+                                        onClick={() => setSelectedId(version.id)}
+                                        className={cn(
+                                            "w-full text-left rounded-md px-2 py-1.5 text-xs transition-colors",
+                                            version.id === selected?.id ? "bg-accent" : "hover:bg-accent/50"
+                                        )}
+                                    >
+                                        <div className="flex justify-between font-semibold">
+                                            <span>{version.agent}</span>
+                                            <span className="font-mono text-muted-foreground">pass {version.passIndex}</span>
+                                        </div>
+                                        <div className="text-muted-foreground truncate">{version.action}</div>
+                                        <div className="text-muted-foreground font-mono">
+                                            {new Date(version.createdAt).toLocaleString()}
+                                        </div>
+                                    </button>
+                                ))}
+                            </div>
+                        </ScrollArea>
+
+                        {/* Diff view */}
+                        {selected && (
+                            <div className="flex flex-col flex-1 min-w-0 min-h-0 gap-2">
+                                <div className="flex items-start justify-between gap-4 shrink-0">
+                                    <div className="text-sm min-w-0">
+                                        <div className="font-medium">
+                                            {selected.agent} · {selected.action} · pass {selected.passIndex}
+                                        </div>
+                                        {selected.summary && (
+                                            <div className="text-xs text-muted-foreground truncate">{selected.summary}</div>
+                                        )}
+                                        <div className="text-xs text-muted-foreground">
+                                            {selected.operations.length} operation{selected.operations.length === 1 ? '' : 's'} applied
+                                        </div>
+                                    </div>
+                                    <Button size="sm" variant="outline" onClick={() => void handleRevert(selected)}>
+                                        Revert to this version
+                                    </Button>
+                                </div>
+
+                                <div className="grid grid-cols-2 text-xs font-semibold text-muted-foreground shrink-0">
+                                    <span>{previous ? `Before (${previous.agent})` : 'Before (empty)'}</span>
+                                    <span>After ({selected.agent})</span>
+                                </div>
+
+                                <ScrollArea className="flex-1 border rounded-md">
+                                    <div className="font-mono text-xs">
+                                        {rows.map((row, i) => (
+                                            <div key={i} className="grid grid-cols-2 border-b border-border/40">
+                                                <div className={cn("px-2 py-0.5 whitespace-pre-wrap break-words border-r", ROW_STYLES[row.type].left)}>
+                                                    {row.left ?? ''}
+                                                </div>
+                                                <div className={cn("px-2 py-0.5 whitespace-pre-wrap break-words", ROW_STYLES[row.type].right)}>
+                                                    {row.right ?? ''}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </ScrollArea>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Input } from "@/components/ui/input";
+import { Plus, X } from "lucide-react";
+import { ProjectTable, TableAlignment } from "@/lib/db/schema";
+import { importTableFile } from "@/lib/tables/parsers";
+import { guessAlignments, suggestTableLabel } from "@/lib/tables/longtable";
+import { v4 as uuidv4 } from "uuid";
+
+interface ProjectTablesEditorProps {
+    tables: ProjectTable[];
+    onChange: (tables: ProjectTable[]) => void;
+}
+
+const PREVIEW_ROWS = 4;
+
+const ALIGNMENT_LABELS: Record<TableAlignment, string> = { l: "Left", c: "Center", r: "Right" };
+
+export function ProjectTablesEditor({ tables, onChange }: ProjectTablesEditorProps) {
+    const [isImporting, setIsImporting] = useState(false);
+
+    const updateTable = (id: string, updates: Partial<ProjectTable>) => {
+        onChange(tables.map(table => table.id === id ? { ...table, ...updates } : table));
+    };
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = "";
+        if (files.length === 0) return;
+
+        setIsImporting(true);
+        try {
+            const imported: ProjectTable[] = [];
+            const labels = tables.map(table => table.label);
+
+            for (const file of files) {
+                const sheets = await importTableFile(file);
+                if (sheets.length === 0) {
+                    alert(`${file.name} has no table data.`);
+                    continue;
+                }
+                for (const sheet of sheets) {
+                    const name = sheets.length > 1 || sheet.name !== file.name ? `${file.name} (${sheet.name})` : file.name;
+                    const label = suggestTableLabel(sheets.length > 1 ? sheet.name : file.name, labels);
+                    labels.push(label);
+                    imported.push({
+                        id: uuidv4(),
+                        name,
+                        label,
+                        rows: sheet.rows,
+                        headerRows: 1,
+                        alignments: guessAlignments(sheet.rows, 1),
+                        footnotes: []
+                    });
+                }
+            }
+
+            if (imported.length > 0) onChange([...tables, ...imported]);
+        } catch (error) {
+            alert(`Table import failed: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <div className="grid gap-3">
+            {tables.map(table => (
+                <div key={table.id} className="rounded-md border p-2 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs font-medium truncate" title={table.name}>{table.name}</span>
+                        <button
+                            onClick={() => onChange(tables.filter(t => t.id !== table.id))}
+                            className="text-muted-foreground hover:text-destructive p-1"
+                            title="Remove"
+                        >
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                        <label className="text-xs text-muted-foreground">
+                            Label (tab:…)
+                            <Input
+                                className="h-7 text-xs font-mono mt-1"
+                                value={table.label}
+                                onChange={(e) => updateTable(table.id, { label: e.target.value.replace(/[^A-Za-z0-9:-]/g, '') })}
+                            />
+                        </label>
+                        <label className="text-xs text-muted-foreground">
+                            Header rows
+                            <Input
+                                type="number"
+                                min={0}
+                                max={table.rows.length}
+                                className="h-7 text-xs mt-1"
+                                value={table.headerRows}
+                                onChange={(e) => updateTable(table.id, {
+                                    headerRows: Math.min(table.rows.length, Math.max(0, parseInt(e.target.value) || 0))
+                                })}
+                            />
+                        </label>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="text-xs border-collapse">
+                            <thead>
+                                <tr>
+                                    {table.alignments.map((alignment, column) => (
+                                        <th key={column} className="p-1">
+                                            <select
+                                                className="h-6 rounded border border-input bg-transparent text-xs"
+                                                value={alignment}
+                                                onChange={(e) => updateTable(table.id, {
+                                                    alignments: table.alignments.map((a, i) => i === column ? e.target.value as TableAlignment : a)
+                                                })}
+                                            >
+                                                {(Object.keys(ALIGNMENT_LABELS) as TableAlignment[]).map(option => (
+                                                    <option key={option} value={option}>{ALIGNMENT_LABELS[option]}</option>
+                                                ))}
+                                            </select>
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {table.rows.slice(0, Math.max(PREVIEW_ROWS, table.headerRows + 1)).map((row, rowIndex) => (
+                                    <tr key={rowIndex} className={rowIndex < table.headerRows ? "font-semibold bg-muted" : ""}>
+                                        {row.map((cell, column) => (
+                                            <td key={column} className="border px-1 max-w-[8rem] truncate" title={cell}>{cell}</td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {table.rows.length > PREVIEW_ROWS && (
+                            <p className="text-xs text-muted-foreground mt-1">{table.rows.length} rows in total</p>
+                        )}
+                    </div>
+
+                    <label className="text-xs text-muted-foreground block">
+                        Footnotes (one per line)
+                        <textarea
+                            className="w-full min-h-[48px] p-1 mt-1 rounded-md border text-xs bg-transparent"
+                            value={table.footnotes.join("\n")}
+                            onChange={(e) => updateTable(table.id, { footnotes: e.target.value.split("\n") })}
+                        />
+                    </label>
+                </div>
+            ))}
+
+            <div className="relative rounded-md border border-dashed flex items-center justify-center py-3 hover:bg-accent cursor-pointer transition-colors">
+                <input
+                    type="file"
+                    accept=".csv,.tsv,.txt,.xlsx"
+                    multiple
+                    className="absolute inset-0 opacity-0 cursor-pointer z-10"
+                    disabled={isImporting}
+                    onChange={(e) => void handleUpload(e)}
+                />
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Plus className="h-4 w-4" />
+                    {isImporting ? "Importing..." : "Add Table (CSV or Excel)"}
+                </div>
+            </div>
+        </div>
+    );
+}
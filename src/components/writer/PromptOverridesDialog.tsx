@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { useLiveQuery } from "dexie-react-hooks";
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { PromptOverride } from "@/lib/db/schema";
+import {
+    PROMPT_DEFINITIONS,
+    PromptDefinition,
+    getPromptOverrides,
+    getPromptVersion,
+    resetPromptOverride,
+    savePromptOverride,
+    validatePromptTemplate
+} from "@/lib/agents/prompt_overrides";
+
+interface PromptOverridesDialogProps {
+    novelId: string;
+    trigger?: React.ReactNode;
+}
+
+function PromptEditor({ novelId, definition, override }: { novelId: string; definition: PromptDefinition; override?: PromptOverride }) {
+    const [draft, setDraft] = useState(override?.template ?? definition.defaultTemplate);
+    const [error, setError] = useState<string | null>(null);
+
+    const validation = validatePromptTemplate(definition.id, draft);
+    const isDirty = draft !== (override?.template ?? definition.defaultTemplate);
+
+    const handleSave = async () => {
+        try {
+            await savePromptOverride(novelId, definition.id, draft);
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleReset = async () => {
+        if (override && !confirm(`Discard this project's override of ${definition.id} and use the default prompt?`)) return;
+        await resetPromptOverride(novelId, definition.id);
+        setDraft(definition.defaultTemplate);
+        setError(null);
+    };
+
+    return (
+        <div className="flex flex-col flex-1 min-w-0 min-h-0 gap-3">
+            <div className="grid grid-cols-2 gap-3 flex-1 min-h-0">
+                <div className="flex flex-col min-h-0 gap-1">
+                    <label className="text-xs font-medium">Default</label>
+                    <textarea
+                        className="flex-1 p-2 rounded-md border text-xs font-mono bg-muted resize-none"
+                        value={definition.defaultTemplate}
+                        readOnly
+                    />
+                </div>
+                <div className="flex flex-col min-h-0 gap-1">
+                    <label className="text-xs font-medium">
+                        Project override {override ? `(version ${getPromptVersion(override.template)})` : '(none, using default)'}
+                    </label>
+                    <textarea
+                        className="flex-1 p-2 rounded-md border text-xs font-mono bg-transparent resize-none"
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                    />
+                </div>
+            </div>
+
+            <div className="text-xs space-y-1 shrink-0">
+                {definition.resolved ? (
+                    <p className="text-muted-foreground font-mono">
+                        {'{name}  {name|default:"text"}  {#if name}...{:else}...{/if}  {#each planned_sections as section}{section.section_title}{/each}'}
+                    </p>
+                ) : (
+                    <p className="text-muted-foreground">This prompt is sent as written; {'{placeholders}'} are not filled in.</p>
+                )}
+                {validation.error && <p className="text-destructive">{validation.error}</p>}
+                {validation.unknown.length > 0 && (
+                    <p className="text-destructive">
+                        Unknown variables (not filled in by the {definition.agent} agent): {validation.unknown.map(name => `{${name}}`).join(', ')}
+                    </p>
+                )}
+                {validation.missing.length > 0 && (
+                    <p className="text-amber-600">
+                        Missing variables used by the default prompt: {validation.missing.map(name => `{${name}}`).join(', ')}
+                    </p>
+                )}
+                {error && <p className="text-destructive">{error}</p>}
+            </div>
+
+            <div className="flex justify-between shrink-0">
+                <Button size="sm" variant="outline" onClick={() => void handleReset()} disabled={!override && !isDirty}>
+                    Reset to Default
+                </Button>
+                <Button size="sm" onClick={() => void handleSave()} disabled={!isDirty || Boolean(validation.error) || validation.unknown.length > 0 || !draft.trim()}>
+                    Save Override
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+export function PromptOverridesDialog({ novelId, trigger }: PromptOverridesDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [selectedId, setSelectedId] = useState<string>(PROMPT_DEFINITIONS[0].id);
+
+    const overrides = useLiveQuery(
+        () => open ? getPromptOverrides(novelId) : Promise.resolve([] as PromptOverride[]),
+        [open, novelId]
+    ) || [];
+
+    const selected = PROMPT_DEFINITIONS.find(definition => definition.id === selectedId) || PROMPT_DEFINITIONS[0];
+    const selectedOverride = overrides.find(override => override.promptId === selected.id);
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                {trigger || (
+                    <Button variant="outline" size="sm" className="w-full">
+                        Prompts
+                    </Button>
+                )}
+            </DialogTrigger>
+            <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle>Agent Prompts</DialogTitle>
+                    <DialogDescription>
+                        Override the built-in prompts for this project. Variables are checked against the context each agent fills in; every run records the prompt versions it used.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex flex-1 min-h-0 gap-4">
+                    {/* Prompt list */}
+                    <ScrollArea className="w-72 shrink-0 border rounded-md">
+                        <div className="p-2 space-y-1">
+                            {PROMPT_DEFINITIONS.map(definition => {
+                                const isOverridden = overrides.some(override => override.promptId === definition.id);
+                                return (
+                                    <button
+                                        key={definition.id}
+                                        onClick={() => setSelectedId(definition.id)}
+                                        className={cn(
+                                            "w-full text-left rounded-md px-2 py-1.5 text-xs transition-colors",
+                                            definition.id === selected.id ? "bg-accent" : "hover:bg-accent/50"
+                                        )}
+                                    >
+                                        <div className="font-mono font-semibold truncate">{definition.id}</div>
+                                        <div className="text-muted-foreground">
+                                            {definition.agent} · {definition.role}{isOverridden ? ' · overridden' : ''}
+                                        </div>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </ScrollArea>
+
+                    {/* Side-by-side editor */}
+                    <PromptEditor
+                        key={`${selected.id}-${selectedOverride?.lastModified ?? 'default'}`}
+                        novelId={novelId}
+                        definition={selected}
+                        override={selectedOverride}
+                    />
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import { useLiveQuery } from "dexie-react-hooks";
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { ReferenceEntry } from "@/lib/db/schema";
+import { getReferences, importReferenceFile, updateReference, deleteReference, formatInlineCitation, formatReferenceSummary } from "@/lib/references/library";
+
+interface ReferenceLibraryDialogProps {
+    novelId: string;
+    trigger?: React.ReactNode;
+}
+
+const TEXT_FIELDS: Array<{ field: keyof ReferenceEntry; label: string }> = [
+    { field: 'key', label: 'Citation Key' },
+    { field: 'type', label: 'Type' },
+    { field: 'year', label: 'Year' },
+    { field: 'journal', label: 'Journal / Book Title' },
+    { field: 'volume', label: 'Volume' },
+    { field: 'issue', label: 'Issue' },
+    { field: 'pages', label: 'Pages' },
+    { field: 'publisher', label: 'Publisher' },
+    { field: 'doi', label: 'DOI' },
+    { field: 'pmid', label: 'PMID' },
+    { field: 'url', label: 'URL' },
+];
+
+function ReferenceEditor({ entry, onDeleted }: { entry: ReferenceEntry; onDeleted: () => void }) {
+    const [draft, setDraft] = useState(entry);
+    const [authors, setAuthors] = useState(entry.authors.join('\n'));
+    const [tags, setTags] = useState(entry.tags.join(', '));
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSave = async () => {
+        try {
+            await updateReference({
+                ...draft,
+                authors: authors.split('\n').map(a => a.trim()).filter(Boolean),
+                tags: Array.from(new Set(tags.split(',').map(t => t.trim()).filter(Boolean)))
+            });
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!confirm(`Delete "${entry.title}" from the reference library?`)) return;
+        await deleteReference(entry.id);
+        onDeleted();
+    };
+
+    const setField = (field: keyof ReferenceEntry, value: string) => {
+        setDraft(prev => ({ ...prev, [field]: value || undefined }));
+    };
+
+    return (
+        <div className="flex flex-col flex-1 min-w-0 min-h-0 gap-3">
+            <ScrollArea className="flex-1 border rounded-md">
+                <div className="p-3 space-y-3">
+                    <div className="space-y-1">
+                        <label className="text-xs font-medium">Title</label>
+                        <Input value={draft.title} onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))} />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-xs font-medium">Authors (one per line, &quot;Last, First&quot;)</label>
+                        <textarea
+                            className="w-full min-h-[80px] p-2 rounded-md border text-sm bg-transparent"
+                            value={authors}
+                            onChange={(e) => setAuthors(e.target.value)}
+                        />
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                        {TEXT_FIELDS.map(({ field, label }) => (
+                            <div key={field} className="space-y-1">
+                                <label className="text-xs font-medium">{label}</label>
+                                <Input
+                                    value={(draft[field] as string | undefined) || ''}
+                                    onChange={(e) => setField(field, e.target.value)}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-xs font-medium">Tags (comma-separated)</label>
+                        <Input value={tags} onChange={(e) => setTags(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-xs font-medium">Notes</label>
+                        <textarea
+                            className="w-full min-h-[60px] p-2 rounded-md border text-sm bg-transparent"
+                            value={draft.notes || ''}
+                            onChange={(e) => setField('notes', e.target.value)}
+                        />
+                    </div>
+                    {draft.abstract && (
+                        <div className="space-y-1">
+                            <label className="text-xs font-medium">Abstract</label>
+                            <p className="text-xs text-muted-foreground">{draft.abstract}</p>
+                        </div>
+                    )}
+                    <div className="space-y-1">
+                        <label className="text-xs font-medium">Inline citation</label>
+                        <p className="text-xs font-mono break-all text-muted-foreground">{formatInlineCitation(entry)}</p>
+                    </div>
+                </div>
+            </ScrollArea>
+
+            {error && <p className="text-xs text-destructive">{error}</p>}
+            <div className="flex justify-between gap-2 shrink-0">
+                <Button size="sm" variant="destructive" onClick={() => void handleDelete()}>Delete</Button>
+                <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => void navigator.clipboard.writeText(formatInlineCitation(entry))}>
+                        Copy Citation
+                    </Button>
+                    <Button size="sm" onClick={() => void handleSave()}>Save</Button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export function ReferenceLibraryDialog({ novelId, trigger }: ReferenceLibraryDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [search, setSearch] = useState("");
+    const [tagFilter, setTagFilter] = useState("");
+    const [importStatus, setImportStatus] = useState<string | null>(null);
+
+    const entries = useLiveQuery(
+        () => open ? getReferences(novelId) : Promise.resolve([] as ReferenceEntry[]),
+        [open, novelId]
+    ) || [];
+
+    const allTags = Array.from(new Set(entries.flatMap(entry => entry.tags))).sort();
+    const needle = search.trim().toLowerCase();
+    const filtered = entries.filter(entry =>
+        (!tagFilter || entry.tags.includes(tagFilter)) &&
+        (!needle ||
+            entry.key.toLowerCase().includes(needle) ||
+            entry.title.toLowerCase().includes(needle) ||
+            entry.authors.some(author => author.toLowerCase().includes(needle)) ||
+            entry.doi?.includes(needle) ||
+            entry.pmid === needle)
+    );
+    const selected = entries.find(entry => entry.id === selectedId);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+
+        for (const file of files) {
+            try {
+                const result = await importReferenceFile(novelId, file);
+                setImportStatus(`${file.name}: ${result.total} found, ${result.added} added, ${result.merged} merged with existing entries.`);
+            } catch (err) {
+                setImportStatus(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+            }
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                {trigger || (
+                    <Button variant="outline" size="sm" className="w-full">
+                        Reference Library
+                    </Button>
+                )}
+            </DialogTrigger>
+            <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle>Reference Library</DialogTitle>
+                    <DialogDescription>
+                        Import .bib, .ris or CSL-JSON files; duplicates are merged by DOI, PMID and title. Type &quot;[@&quot; in the editor to cite an entry by key.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex items-center gap-2 shrink-0">
+                    <Input
+                        placeholder="Search key, title, author, DOI..."
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                    />
+                    <select
+                        className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+                        value={tagFilter}
+                        onChange={(e) => setTagFilter(e.target.value)}
+                    >
+                        <option value="">All tags</option>
+                        {allTags.map(tag => (
+                            <option key={tag} value={tag}>{tag}</option>
+                        ))}
+                    </select>
+                    <div className="relative shrink-0">
+                        <input
+                            type="file"
+                            accept=".bib,.bibtex,.ris,.json"
+                            multiple
+                            className="absolute inset-0 opacity-0 cursor-pointer z-10"
+                            onChange={(e) => void handleFileChange(e)}
+                        />
+                        <Button size="sm" variant="outline">Import File</Button>
+                    </div>
+                </div>
+                {importStatus && <p className="text-xs text-muted-foreground shrink-0">{importStatus}</p>}
+
+                {entries.length === 0 ? (
+                    <div className="text-muted-foreground italic text-sm py-8 text-center">
+                        The library is empty. Import a reference file to get started.
+                    </div>
+                ) : (
+                    <div className="flex flex-1 min-h-0 gap-4">
+                        {/* Entry list */}
+                        <ScrollArea className="w-80 shrink-0 border rounded-md">
+                            <div className="p-2 space-y-1">
+                                {filtered.map(entry => (
+                                    <button
+                                        key={entry.id}
+                                        onClick={() => setSelectedId(entry.id)}
+                                        className={cn(
+                                            "w-full text-left rounded-md px-2 py-1.5 text-xs transition-colors",
+                                            entry.id === selected?.id ? "bg-accent" : "hover:bg-accent/50"
+                                        )}
+                                    >
+                                        <div className="font-mono font-semibold truncate">{entry.key}</div>
+                                        <div className="text-muted-foreground line-clamp-2">{formatReferenceSummary(entry)}</div>
+                                        {entry.tags.length > 0 && (
+                                            <div className="text-muted-foreground truncate">#{entry.tags.join(' #')}</div>
+                                        )}
+                                    </button>
+                                ))}
+                                {filtered.length === 0 && (
+                                    <div className="text-muted-foreground italic text-xs p-2">No matching entries.</div>
+                                )}
+                            </div>
+                        </ScrollArea>
+
+                        {/* Entry editor */}
+                        {selected ? (
+                            <ReferenceEditor key={`${selected.id}-${selected.lastModified}`} entry={selected} onDeleted={() => setSelectedId(null)} />
+                        ) : (
+                            <div className="flex-1 text-muted-foreground italic text-sm py-8 text-center">
+                                Select an entry to view or edit it.
+                            </div>
+                        )}
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
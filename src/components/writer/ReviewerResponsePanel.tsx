@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { ReviewerComment } from "@/lib/db/schema";
+
+interface ReviewerResponsePanelProps {
+    comments: ReviewerComment[];
+    isRunning: boolean;
+    onImportText: (text: string) => void;
+    onImportFile: (file: File) => void;
+    onStatusChange: (id: string, status: ReviewerComment['status']) => void;
+    onAddress: () => void;
+    onExport: () => void;
+}
+
+const STATUS_LABELS: Record<ReviewerComment['status'], string> = {
+    open: 'Open',
+    addressed: 'Addressed',
+    no_change: 'No change',
+    skipped: 'Skipped',
+};
+
+export function ReviewerResponsePanel({ comments, isRunning, onImportText, onImportFile, onStatusChange, onAddress, onExport }: ReviewerResponsePanelProps) {
+    const [letter, setLetter] = useState("");
+    const openCount = comments.filter(c => c.status === 'open').length;
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onImportFile(file);
+        e.target.value = '';
+    };
+
+    return (
+        <div className="pt-4 border-t space-y-3">
+            <label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Reviewer Response</label>
+            <textarea
+                className="w-full min-h-[100px] p-2 rounded-md border text-sm bg-transparent"
+                placeholder="Paste the decision letter here..."
+                value={letter}
+                onChange={(e) => setLetter(e.target.value)}
+            />
+            <div className="grid grid-cols-2 gap-2">
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full text-xs h-8"
+                    onClick={() => onImportText(letter)}
+                    disabled={isRunning || !letter.trim()}
+                >
+                    Import Pasted Letter
+                </Button>
+                <div className="relative">
+                    <input
+                        type="file"
+                        accept=".docx,.txt,.md"
+                        className="absolute inset-0 opacity-0 cursor-pointer z-10"
+                        onChange={handleFileChange}
+                        disabled={isRunning}
+                    />
+                    <Button variant="outline" size="sm" className="w-full text-xs h-8" disabled={isRunning}>
+                        Import .docx / .txt
+                    </Button>
+                </div>
+            </div>
+
+            {comments.length > 0 && (
+                <div className="space-y-2">
+                    {comments.map(comment => (
+                        <div key={comment.id} className="rounded-md border p-2 space-y-1">
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-xs font-medium">{comment.reviewer}, comment {comment.number}</span>
+                                <select
+                                    className="h-7 rounded-md border border-input bg-transparent px-2 text-xs"
+                                    value={comment.status}
+                                    onChange={(e) => onStatusChange(comment.id, e.target.value as ReviewerComment['status'])}
+                                    disabled={isRunning}
+                                >
+                                    {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                                        <option key={value} value={value}>{label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <p className="text-xs text-muted-foreground line-clamp-3">{comment.text}</p>
+                            {comment.changeSummary && (
+                                <p className="text-xs"><span className="font-medium">Change:</span> {comment.changeSummary}</p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+                <Button
+                    size="sm"
+                    className="w-full text-xs h-8"
+                    onClick={onAddress}
+                    disabled={isRunning || openCount === 0}
+                >
+                    {isRunning ? "Addressing..." : `Address Open Comments (${openCount})`}
+                </Button>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full text-xs h-8"
+                    onClick={onExport}
+                    disabled={isRunning || comments.length === 0}
+                >
+                    Export Response Letter (.docx)
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { RunTrace, RunTraceSpan } from "@/lib/db/schema";
+import {
+    formatDuration,
+    getSpanDuration,
+    getTimelineRows,
+    getTraceBounds,
+    summarizeRunTrace
+} from "@/lib/agents/run_trace";
+import { AGENT_COLORS, DEFAULT_AGENT_COLOR } from './AgentLogView';
+
+interface RunTimelineDialogProps {
+    trace?: RunTrace;
+    trigger?: React.ReactNode;
+}
+
+const AXIS_TICKS = [0, 0.25, 0.5, 0.75, 1];
+
+/**
+ * Tooltip text for a timeline bar.
+ */
+function describeSpan(span: RunTraceSpan, now: number): string {
+    const lines = [`${span.name} - ${formatDuration(getSpanDuration(span, now))}${span.status === 'running' ? ' (running)' : ''}`];
+    if (span.reasoning) lines.push(span.reasoning);
+    if (span.model) lines.push(`Model: ${span.model}${span.replayed ? ' (replayed)' : ''}`);
+    if (span.inputTokens !== undefined) {
+        lines.push(`${span.inputTokens.toLocaleString()} in / ${(span.outputTokens || 0).toLocaleString()} out · $${(span.cost || 0).toFixed(4)}`);
+    }
+    if ((span.attempt ?? 1) > 1) lines.push(`Retry (attempt ${span.attempt})`);
+    if (span.invalidOutput) lines.push(`Invalid output: ${span.invalidOutput}`);
+    for (const [agent, count] of Object.entries(span.failedOperations || {})) {
+        lines.push(`${agent}: ${count} find/replace operation${count === 1 ? '' : 's'} matched nothing`);
+    }
+    if (span.error) lines.push(`Error: ${span.error}`);
+    return lines.join('\n');
+}
+
+export function RunTimelineDialog({ trace, trigger }: RunTimelineDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [now, setNow] = useState(() => Date.now());
+
+    // Running spans grow while the dialog is open
+    const isRunning = trace?.spans.some(span => span.status === 'running') ?? false;
+    useEffect(() => {
+        if (!open || !isRunning) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [open, isRunning]);
+
+    const rows = trace ? getTimelineRows(trace) : [];
+    const stats = trace ? summarizeRunTrace(trace, now) : [];
+    const { start, end } = trace ? getTraceBounds(trace, now) : { start: now, end: now + 1 };
+    const total = end - start;
+    const steps = rows.filter(row => row.span.kind === 'step').length;
+    const calls = rows.length - steps;
+
+    return (
+        <Dialog open={open} onOpenChange={(value) => { setOpen(value); setNow(Date.now()); }}>
+            <DialogTrigger asChild>
+                {trigger || (
+                    <Button variant="outline" size="sm" className="w-full">
+                        Run Timeline
+                    </Button>
+                )}
+            </DialogTrigger>
+            <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle>Run Timeline</DialogTitle>
+                    <DialogDescription>
+                        {rows.length > 0
+                            ? `${formatDuration(total)} · ${steps} manager step${steps === 1 ? '' : 's'} · ${calls} agent call${calls === 1 ? '' : 's'}`
+                            : 'No run recorded yet. Start the agent to record a timeline.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {rows.length > 0 && (
+                    <div className="flex flex-col flex-1 min-h-0 gap-4">
+                        {/* Per-agent aggregates */}
+                        <div className="shrink-0 overflow-x-auto">
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="border-b text-muted-foreground text-left">
+                                        <th className="py-1 pr-2 font-medium">Agent</th>
+                                        <th className="py-1 px-2 font-medium text-right">Calls</th>
+                                        <th className="py-1 px-2 font-medium text-right">Total time</th>
+                                        <th className="py-1 px-2 font-medium text-right">Slowest call</th>
+                                        <th className="py-1 px-2 font-medium text-right">Tokens (in / out)</th>
+                                        <th className="py-1 px-2 font-medium text-right">Cost</th>
+                                        <th className="py-1 px-2 font-medium text-right">Parse retries</th>
+                                        <th className="py-1 px-2 font-medium text-right">Failed edits</th>
+                                        <th className="py-1 pl-2 font-medium text-right">Errors</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {stats.map(stat => (
+                                        <tr key={stat.agent} className="border-b last:border-0">
+                                            <td className="py-1 pr-2 font-medium">{stat.agent}</td>
+                                            <td className="py-1 px-2 text-right">{stat.calls}</td>
+                                            <td className="py-1 px-2 text-right">
+                                                {formatDuration(stat.totalMs)}
+                                                <span className="text-muted-foreground"> ({Math.round(stat.totalMs / total * 100)}%)</span>
+                                            </td>
+                                            <td className="py-1 px-2 text-right">{formatDuration(stat.maxMs)}</td>
+                                            <td className="py-1 px-2 text-right">{stat.inputTokens.toLocaleString()} / {stat.outputTokens.toLocaleString()}</td>
+                                            <td className="py-1 px-2 text-right">${stat.cost.toFixed(4)}</td>
+                                            <td className={cn("py-1 px-2 text-right", stat.retries > 0 && "text-amber-600 font-semibold")}>
+                                                {stat.retries}{stat.invalidOutputs > stat.retries ? ` (+${stat.invalidOutputs - stat.retries} gave up)` : ''}
+                                            </td>
+                                            <td className={cn("py-1 px-2 text-right", stat.failedOperations > 0 && "text-amber-600 font-semibold")}>{stat.failedOperations}</td>
+                                            <td className={cn("py-1 pl-2 text-right", stat.errors > 0 && "text-destructive font-semibold")}>{stat.errors}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {/* Gantt-style trace */}
+                        <div className="flex text-[10px] text-muted-foreground shrink-0">
+                            <div className="w-56 shrink-0" />
+                            <div className="relative flex-1 h-3 mr-3">
+                                {AXIS_TICKS.map(tick => (
+                                    <span
+                                        key={tick}
+                                        className={cn("absolute", tick === 1 ? "-translate-x-full" : tick > 0 && "-translate-x-1/2")}
+                                        style={{ left: `${tick * 100}%` }}
+                                    >
+                                        {formatDuration(tick * total)}
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+                        <ScrollArea className="flex-1 min-h-0 border rounded-md">
+                            <div className="p-2 space-y-0.5">
+                                {rows.map(({ span, depth }) => {
+                                    const left = (span.startedAt - start) / total * 100;
+                                    const width = getSpanDuration(span, now) / total * 100;
+                                    const failedOperations = Object.values(span.failedOperations || {}).reduce((sum, count) => sum + count, 0);
+                                    return (
+                                        <div key={span.id} className="flex items-center h-6 text-xs" title={describeSpan(span, now)}>
+                                            <div className={cn("w-56 shrink-0 truncate pr-2", depth > 0 ? "pl-4 text-muted-foreground" : "font-semibold")}>
+                                                {span.name}
+                                                {(span.attempt ?? 1) > 1 && <span className="text-amber-600"> · retry</span>}
+                                                {failedOperations > 0 && <span className="text-amber-600"> · {failedOperations} failed edit{failedOperations === 1 ? '' : 's'}</span>}
+                                            </div>
+                                            <div className="relative flex-1 h-full mr-1">
+                                                <div
+                                                    className={cn(
+                                                        "absolute top-1 bottom-1 rounded-sm border",
+                                                        span.kind === 'step' ? AGENT_COLORS.Manager : AGENT_COLORS[span.name] || DEFAULT_AGENT_COLOR,
+                                                        span.kind === 'step' && "opacity-60",
+                                                        (span.status === 'error' || span.invalidOutput) && "ring-2 ring-destructive",
+                                                        span.status === 'running' && "animate-pulse"
+                                                    )}
+                                                    style={{ left: `${left}%`, width: `max(${width}%, 2px)` }}
+                                                />
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </ScrollArea>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -9,8 +9,13 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox-input";
 import { Trash2, Plus, X, Upload, Pencil, Check } from "lucide-react";
-import { ProjectImage } from "@/lib/db/schema";
+import { ProjectImage, ProjectTable, ReviewerConfig } from "@/lib/db/schema";
+import { listJournalProfiles, DEFAULT_JOURNAL_PROFILE_ID } from "@/lib/exporters/journal-profiles";
+import { MANAGER_ACTIONS } from "@/lib/agents/actions";
+import { REVIEWER_PERSONAS } from "@/lib/agents/reviewers";
+import { ProjectTablesEditor } from "./ProjectTablesEditor";
 import { v4 as uuidv4 } from "uuid";
 
 interface SceneSettingsDialogProps {
@@ -18,8 +23,18 @@ interface SceneSettingsDialogProps {
     onOpenChange: (open: boolean) => void;
     currentTitle: string;
     currentImages?: ProjectImage[];
+    currentTables?: ProjectTable[];
+    currentJournalProfileId?: string;
+    currentDisabledActions?: string[];
+    currentReviewerPanel?: ReviewerConfig[];
+    currentCitationMode?: 'inline' | 'keys';
     onRename: (newTitle: string) => Promise<void>;
     onUpdateImages: (images: ProjectImage[]) => Promise<void>;
+    onUpdateTables: (tables: ProjectTable[]) => Promise<void>;
+    onUpdateJournalProfile: (journalProfileId: string) => Promise<void>;
+    onUpdateDisabledActions: (disabledActions: string[]) => Promise<void>;
+    onUpdateReviewerPanel: (reviewerPanel: ReviewerConfig[]) => Promise<void>;
+    onUpdateCitationMode: (citationMode: 'inline' | 'keys') => Promise<void>;
     onDelete: () => Promise<void>;
 }
 
@@ -28,12 +43,27 @@ export function SceneSettingsDialog({
     onOpenChange,
     currentTitle,
     currentImages,
+    currentTables,
+    currentJournalProfileId,
+    currentDisabledActions,
+    currentReviewerPanel,
+    currentCitationMode,
     onRename,
     onUpdateImages,
+    onUpdateTables,
+    onUpdateJournalProfile,
+    onUpdateDisabledActions,
+    onUpdateReviewerPanel,
+    onUpdateCitationMode,
     onDelete
 }: SceneSettingsDialogProps) {
     const [title, setTitle] = useState(currentTitle);
     const [images, setImages] = useState<ProjectImage[]>(currentImages || []);
+    const [tables, setTables] = useState<ProjectTable[]>(currentTables || []);
+    const [journalProfileId, setJournalProfileId] = useState(currentJournalProfileId || DEFAULT_JOURNAL_PROFILE_ID);
+    const [disabledActions, setDisabledActions] = useState<string[]>(currentDisabledActions || []);
+    const [reviewerPanel, setReviewerPanel] = useState<ReviewerConfig[]>(currentReviewerPanel || []);
+    const [citationMode, setCitationMode] = useState(currentCitationMode || 'inline');
     const [isDeleting, setIsDeleting] = useState(false);
     const [editingImageId, setEditingImageId] = useState<string | null>(null);
     const [editingName, setEditingName] = useState("");
@@ -43,16 +73,39 @@ export function SceneSettingsDialog({
     useEffect(() => {
         setTitle(currentTitle);
         setImages(currentImages || []);
-    }, [currentTitle, currentImages]);
+        setTables(currentTables || []);
+        setJournalProfileId(currentJournalProfileId || DEFAULT_JOURNAL_PROFILE_ID);
+        setDisabledActions(currentDisabledActions || []);
+        setReviewerPanel(currentReviewerPanel || []);
+        setCitationMode(currentCitationMode || 'inline');
+    }, [currentTitle, currentImages, currentTables, currentJournalProfileId, currentDisabledActions, currentReviewerPanel, currentCitationMode]);
 
     const handleSave = async () => {
         await Promise.all([
             onRename(title),
             onUpdateImages(images)
         ]);
+        // Images replace the whole settings object, so update the profile afterwards
+        await onUpdateJournalProfile(journalProfileId);
+        await onUpdateTables(tables);
+        await onUpdateDisabledActions(disabledActions);
+        await onUpdateReviewerPanel(reviewerPanel);
+        await onUpdateCitationMode(citationMode);
         onOpenChange(false);
     };
 
+    const getReviewerConfig = (id: string): ReviewerConfig => {
+        const persona = REVIEWER_PERSONAS.find(p => p.id === id)!;
+        return reviewerPanel.find(c => c.id === id) || { id, enabled: false, weight: persona.defaultWeight };
+    };
+
+    const updateReviewerConfig = (id: string, updates: Partial<ReviewerConfig>) => {
+        setReviewerPanel(prev => [
+            ...prev.filter(c => c.id !== id),
+            { ...getReviewerConfig(id), ...updates }
+        ]);
+    };
+
     const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const files = e.target.files;
         if (files && files.length > 0) {
@@ -135,6 +188,122 @@ export function SceneSettingsDialog({
                         />
                     </div>
 
+                    <div className="grid gap-2">
+                        <label htmlFor="journal-profile" className="text-sm font-medium leading-none">
+                            Target Journal
+                        </label>
+                        <select
+                            id="journal-profile"
+                            className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors"
+                            value={journalProfileId}
+                            onChange={(e) => setJournalProfileId(e.target.value)}
+                        >
+                            {listJournalProfiles().map(profile => (
+                                <option key={profile.id} value={profile.id}>{profile.name}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-muted-foreground">
+                            Controls export preamble, citation style, and the limits the agents enforce.
+                        </p>
+                    </div>
+
+                    <div className="grid gap-2">
+                        <label htmlFor="citation-mode" className="text-sm font-medium leading-none">
+                            Citation Storage
+                        </label>
+                        <select
+                            id="citation-mode"
+                            className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors"
+                            value={citationMode}
+                            onChange={(e) => setCitationMode(e.target.value as 'inline' | 'keys')}
+                        >
+                            <option value="inline">Inline BibTeX entries</option>
+                            <option value="keys">Citation keys ([@key], entries in the reference library)</option>
+                        </select>
+                        <p className="text-xs text-muted-foreground">
+                            Changing this converts the citations in every scene. Citation keys keep the manuscript and agent prompts short; exports resolve them from the reference library.
+                        </p>
+                    </div>
+
+                    <div className="grid gap-2">
+                        <label className="text-sm font-medium leading-none">
+                            Agent Actions
+                        </label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {MANAGER_ACTIONS.filter(action => !action.required).map(action => (
+                                <div key={action.name} className="flex items-center gap-2">
+                                    <Checkbox
+                                        id={`action-${action.name}`}
+                                        checked={!disabledActions.includes(action.name)}
+                                        onCheckedChange={(c: boolean | 'indeterminate') => setDisabledActions(prev => c === true
+                                            ? prev.filter(name => name !== action.name)
+                                            : [...prev, action.name])}
+                                    />
+                                    <label htmlFor={`action-${action.name}`} className="text-xs font-mono">
+                                        {action.name}
+                                    </label>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Actions the Manager may choose in this project (e.g. turn off process_images for text-only manuscripts).
+                        </p>
+                    </div>
+
+                    <div className="grid gap-2">
+                        <label className="text-sm font-medium leading-none">
+                            Reviewer Panel
+                        </label>
+                        <div className="grid gap-2">
+                            {REVIEWER_PERSONAS.map(persona => {
+                                const config = getReviewerConfig(persona.id);
+                                return (
+                                    <div key={persona.id} className="flex items-center gap-2">
+                                        <Checkbox
+                                            id={`reviewer-${persona.id}`}
+                                            checked={config.enabled}
+                                            onCheckedChange={(c: boolean | 'indeterminate') => updateReviewerConfig(persona.id, { enabled: c === true })}
+                                        />
+                                        <label htmlFor={`reviewer-${persona.id}`} className="text-xs w-28 shrink-0">
+                                            {persona.name}
+                                        </label>
+                                        <Input
+                                            type="number"
+                                            min={0}
+                                            step={0.1}
+                                            className="h-7 w-16 text-xs"
+                                            title="Weight"
+                                            value={config.weight}
+                                            disabled={!config.enabled}
+                                            onChange={(e) => updateReviewerConfig(persona.id, { weight: parseFloat(e.target.value) || 0 })}
+                                        />
+                                        <Input
+                                            className="h-7 text-xs"
+                                            placeholder="Global model"
+                                            title="Model (optional)"
+                                            value={config.model || ""}
+                                            disabled={!config.enabled}
+                                            onChange={(e) => updateReviewerConfig(persona.id, { model: e.target.value })}
+                                        />
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            Enabled reviewers critique separately and their scores are combined by weight. With none enabled, a single Critic is used.
+                        </p>
+                    </div>
+
+                    <div className="grid gap-2">
+                        <label className="text-sm font-medium leading-none">
+                            Project Tables
+                        </label>
+                        <ProjectTablesEditor tables={tables} onChange={setTables} />
+                        <p className="text-xs text-muted-foreground">
+                            Uploaded tables are converted to LaTeX longtables by code; the agents only write the caption and the in-text reference.
+                        </p>
+                    </div>
+
                     <div className="grid gap-2">
                         <label className="text-sm font-medium leading-none">
                             Project Images (Book Source Material)
@@ -0,0 +1,54 @@
+import { cn } from "@/lib/utils"
+import { SectionBudget, SectionBudgetStatus, WORD_BUDGET_TOLERANCE } from "@/lib/agents/word_budgets";
+
+interface SectionBudgetPanelProps {
+    budgets: SectionBudget[];
+}
+
+const STATUS_STYLES: Record<SectionBudgetStatus, string> = {
+    within: "text-emerald-600 dark:text-emerald-400",
+    over: "text-red-600 dark:text-red-400",
+    under: "text-amber-600 dark:text-amber-400",
+    missing: "text-muted-foreground",
+};
+
+const STATUS_LABELS: Record<SectionBudgetStatus, string> = {
+    within: "on budget",
+    over: "over",
+    under: "under",
+    missing: "not written",
+};
+
+export function SectionBudgetPanel({ budgets }: SectionBudgetPanelProps) {
+    return (
+        <div className="pt-4 border-t space-y-3">
+            <label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Section Word Budgets</label>
+
+            {budgets.length === 0 ? (
+                <p className="text-xs text-muted-foreground italic">Generate a section plan to track word budgets.</p>
+            ) : (
+                <>
+                    <div className="space-y-1">
+                        {budgets.map(budget => (
+                            <div key={budget.title} className="flex items-center justify-between gap-2 text-xs">
+                                <span className="truncate" title={budget.title}>{budget.title}</span>
+                                <span className="shrink-0 tabular-nums">
+                                    {budget.status !== 'missing' && <>{budget.actual} / </>}{budget.target}
+                                    <span className={cn("ml-2 font-semibold", STATUS_STYLES[budget.status])}>
+                                        {STATUS_LABELS[budget.status]}
+                                        {(budget.status === 'over' || budget.status === 'under') && (
+                                            <> ({budget.difference > 0 ? '+' : ''}{budget.difference})</>
+                                        )}
+                                    </span>
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        Sections more than {Math.round(WORD_BUDGET_TOLERANCE * 100)}% over or under budget are offered to the Reviser for trimming or expansion.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { PendingHunk } from '@/lib/agents/types';
 
 interface ProjectState {
     activeSceneId: string | null;
@@ -9,6 +10,8 @@ interface ProjectState {
     // Logs State
     logs: any[]; // Using any[] for now to avoid circular dependency, but should be LogEntry[]
     isLogsOpen: boolean;
+    // Propose-only agent edits awaiting review in the editor
+    pendingHunks: PendingHunk[];
 
     setActiveScene: (id: string | null) => void;
     toggleSidebar: () => void;
@@ -19,6 +22,10 @@ interface ProjectState {
     addLog: (log: any) => void;
     toggleLogs: () => void;
     setLogsOpen: (isOpen: boolean) => void;
+
+    // Pending Hunk Actions
+    addPendingHunks: (hunks: PendingHunk[]) => void;
+    removePendingHunks: (ids: string[]) => void;
 }
 
 export const useProjectStore = create<ProjectState>()(
@@ -29,6 +36,7 @@ export const useProjectStore = create<ProjectState>()(
             activeAiModel: 'gpt-4-turbo',
             logs: [],
             isLogsOpen: true,
+            pendingHunks: [],
 
             setActiveScene: (id) => set({ activeSceneId: id }),
             toggleSidebar: () => set((state) => ({ isSidebarOpen: !state.isSidebarOpen })),
@@ -38,6 +46,9 @@ export const useProjectStore = create<ProjectState>()(
             addLog: (log) => set((state) => ({ logs: [...state.logs, log] })),
             toggleLogs: () => set((state) => ({ isLogsOpen: !state.isLogsOpen })),
             setLogsOpen: (isOpen) => set({ isLogsOpen: isOpen }),
+
+            addPendingHunks: (hunks) => set((state) => ({ pendingHunks: [...state.pendingHunks, ...hunks] })),
+            removePendingHunks: (ids) => set((state) => ({ pendingHunks: state.pendingHunks.filter(h => !ids.includes(h.id)) })),
         }),
         {
             name: 'novel-architect-storage', // unique name
@@ -45,7 +56,8 @@ export const useProjectStore = create<ProjectState>()(
                 isSidebarOpen: state.isSidebarOpen,
                 activeAiModel: state.activeAiModel,
                 activeSceneId: state.activeSceneId,
-                isLogsOpen: state.isLogsOpen
+                isLogsOpen: state.isLogsOpen,
+                pendingHunks: state.pendingHunks
                 // Logs are NOT persisted here, they rely on DB or runtime
             }),
         }
@@ -0,0 +1,409 @@
+/**
+ * Abbreviation Analyzer - Rule-based checks for abbreviation usage.
+ *
+ * Rules (from the journal style the Manager enforces):
+ * - Spell a term out at first mention, followed by its abbreviation in parentheses
+ * - Use only the abbreviation after it is defined, and never redefine it
+ * - Do not abbreviate terms used fewer than three times
+ *
+ * Stand-alone parts (title page/abstract, figure legends, tables, supplementary
+ * sections) are read independently, so they are analyzed separately and may define
+ * abbreviations again. References and citations are never analyzed.
+ */
+
+import { ReviseOperation } from './types';
+import { splitManuscriptSections } from './variables';
+
+export type AbbreviationIssueKind =
+    | 'undefined'
+    | 'used_before_definition'
+    | 'redefined'
+    | 'long_form_after_definition'
+    | 'underused';
+
+/**
+ * One abbreviation rule violation in the main text.
+ */
+export interface AbbreviationIssue {
+    abbreviation: string;
+    kind: AbbreviationIssueKind;
+    /** Section title where the issue occurs */
+    section: string;
+    message: string;
+    /** Fix operations; empty when the issue needs a manual edit (e.g. unknown long form) */
+    operations: ReviseOperation[];
+}
+
+/**
+ * Usage summary of one abbreviation.
+ */
+export interface AbbreviationEntry {
+    abbreviation: string;
+    longForm?: string;
+    /** Section of the first main-text definition */
+    definedIn?: string;
+    /** Section of the first main-text use (including the definition) */
+    firstUseIn?: string;
+    /** Main-text uses, including definitions */
+    uses: number;
+    usesBySection: Record<string, number>;
+    /** Stand-alone parts that define the abbreviation themselves */
+    standAloneDefinitions: string[];
+}
+
+export interface AbbreviationReport {
+    abbreviations: AbbreviationEntry[];
+    issues: AbbreviationIssue[];
+    /** All fix operations, last in the document first (the order to apply them) */
+    operations: ReviseOperation[];
+}
+
+type RegionKind = 'main' | 'stand-alone' | 'excluded';
+
+interface Region {
+    kind: RegionKind;
+    start: number;
+    end: number;
+    label: string;
+    /** True for top-level manuscript sections */
+    section?: boolean;
+}
+
+interface Definition {
+    abbreviation: string;
+    longForm: string;
+    /** Offset of the long form */
+    start: number;
+    /** Offset after the closing parenthesis */
+    end: number;
+    /** Offset and length of the abbreviation inside the parentheses */
+    abbrStart: number;
+}
+
+interface Occurrence {
+    index: number;
+    text: string;
+}
+
+/** Abbreviations readers know without a definition */
+const WELL_KNOWN = new Set([
+    'USA', 'UK', 'EU', 'UN', 'WHO', 'DNA', 'RNA', 'mRNA', 'HIV', 'AIDS', 'COVID', 'SARS', 'CoV',
+    'COVID-19', 'SARS-CoV-2', 'ID', 'OK', 'PhD', 'MD', 'MSc', 'BSc', 'BMI', 'IQ', 'TV', 'PC', 'AM', 'PM', 'BC', 'AD',
+    'LaTeX', 'TeX', 'URL', 'PDF', 'DOI', 'ORCID', 'ISBN', 'ISSN'
+]);
+
+/** Abbreviation-like tokens: at least two capitals/digits, optional plural "s" */
+const ABBREVIATION = /[A-Z][A-Za-z0-9-]*[A-Z0-9]s?/;
+
+const STAND_ALONE_SECTION = /supplement|appendix|appendices/i;
+const EXCLUDED_SECTION = /^(references|bibliography|literature cited)$/i;
+
+/**
+ * Find the long form for an abbreviation in the text before its parentheses
+ * (Schwartz & Hearst, 2003): match the abbreviation's characters right to left,
+ * with the first character starting a word.
+ * @returns Offset of the long form within candidate, or -1
+ */
+function findLongFormStart(abbreviation: string, candidate: string): number {
+    let s = abbreviation.length - 1;
+    let l = candidate.length - 1;
+
+    while (s >= 0) {
+        const c = abbreviation[s].toLowerCase();
+        if (!/[a-z0-9]/.test(c)) {
+            s--;
+            continue;
+        }
+        while ((l >= 0 && candidate[l].toLowerCase() !== c) || (s === 0 && l > 0 && /[a-z0-9]/i.test(candidate[l - 1]))) {
+            l--;
+        }
+        if (l < 0) return -1;
+        l--;
+        s--;
+    }
+
+    return candidate.slice(0, l + 1).search(/\S*$/);
+}
+
+/**
+ * Strip a plural "s" from an abbreviation (RCTs → RCT).
+ */
+function singular(abbreviation: string): string {
+    return /[A-Z0-9]s$/.test(abbreviation) ? abbreviation.slice(0, -1) : abbreviation;
+}
+
+/**
+ * Find the end of a brace group starting at an opening brace.
+ */
+function matchBrace(text: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        if (text[i] === '{' && text[i - 1] !== '\\') depth++;
+        if (text[i] === '}' && text[i - 1] !== '\\' && --depth === 0) return i + 1;
+    }
+    return text.length;
+}
+
+/**
+ * Split the manuscript into main-text, stand-alone and excluded regions.
+ * Nested regions are listed after their parents so later entries win.
+ */
+function findRegions(manuscript: string): Region[] {
+    const regions: Region[] = [];
+    let cursor = 0;
+
+    for (const section of splitManuscriptSections(manuscript)) {
+        const start = manuscript.indexOf(section.text, cursor);
+        const end = start + section.text.length;
+        cursor = end;
+
+        const kind: RegionKind = EXCLUDED_SECTION.test(section.title)
+            ? 'excluded'
+            : section.title === 'Front matter' || STAND_ALONE_SECTION.test(section.title) ? 'stand-alone' : 'main';
+        regions.push({ kind, start, end, label: section.title === 'Front matter' ? 'Title page and abstract' : section.title, section: true });
+    }
+
+    // Figure legends and tables
+    for (const match of manuscript.matchAll(/\\caption\{/g)) {
+        regions.push({ kind: 'stand-alone', start: match.index!, end: matchBrace(manuscript, match.index! + match[0].length - 1), label: 'Figure legend' });
+    }
+    for (const match of manuscript.matchAll(/\\begin\{(longtable|tabular\*?|table\*?)\}[\s\S]*?\\end\{\1\}/g)) {
+        regions.push({ kind: 'stand-alone', start: match.index!, end: match.index! + match[0].length, label: 'Table' });
+    }
+
+    // Citations, bibliography, headings, labels and URLs are never analyzed
+    const excluded = [
+        /\[\[[\s\S]*?\]\]/g,
+        /\[@[A-Za-z][\w:.-]*\]/g,
+        /@\w+\{[^\n]*\}/g,
+        /\\begin\{thebibliography\}[\s\S]*?\\end\{thebibliography\}/g,
+        /\\(?:(?:sub)*section\*?|label|ref|eqref|cite\w*|url|href|includegraphics|begin|end|affil(?:\[[^\]]*\])?)\{[^}]*\}/g,
+        /(?<!\\)%[^\n]*/g,
+        /<\/?main_text>/g,
+        /<\/?supplementary>/g
+    ];
+    for (const pattern of excluded) {
+        for (const match of manuscript.matchAll(pattern)) {
+            regions.push({ kind: 'excluded', start: match.index!, end: match.index! + match[0].length, label: '' });
+        }
+    }
+
+    return regions;
+}
+
+/**
+ * Get the innermost region containing an offset.
+ */
+function regionAt(regions: Region[], index: number): Region | undefined {
+    for (let i = regions.length - 1; i >= 0; i--) {
+        if (index >= regions[i].start && index < regions[i].end) return regions[i];
+    }
+    return undefined;
+}
+
+/**
+ * Find "Long Form (ABBR)" definitions.
+ */
+function findDefinitions(manuscript: string): Definition[] {
+    const definitions: Definition[] = [];
+
+    for (const match of manuscript.matchAll(/\(([^()\n]{2,12})\)/g)) {
+        const inner = match[1].trim();
+        if (!new RegExp(`^${ABBREVIATION.source}$`).test(inner)) continue;
+
+        const abbreviation = singular(inner);
+        const before = manuscript.slice(Math.max(0, match.index! - 300), match.index!);
+        const trimmed = before.trimEnd();
+        const words = [...trimmed.matchAll(/\S+/g)];
+        const maxWords = Math.min(abbreviation.length + 5, abbreviation.length * 2);
+        if (words.length === 0) continue;
+
+        const candidateOffset = words[Math.max(0, words.length - maxWords)].index!;
+        const candidate = trimmed.slice(candidateOffset);
+        const offset = findLongFormStart(abbreviation, candidate);
+        if (offset < 0) continue;
+
+        const longForm = candidate.slice(offset);
+        if (longForm.length <= abbreviation.length || /[(){}\\\n]|[.;:!?]\s/.test(longForm)) continue;
+
+        const start = match.index! - before.length + candidateOffset + offset;
+        definitions.push({
+            abbreviation,
+            longForm,
+            start,
+            end: match.index! + match[0].length,
+            abbrStart: match.index! + 1 + match[1].indexOf(inner)
+        });
+    }
+
+    return definitions;
+}
+
+/**
+ * Build a find/replace operation for one span, widening the find text by whole
+ * words until it is unique in the manuscript.
+ * @returns Operation, or null if no unique anchor was found
+ */
+function spanOperation(manuscript: string, start: number, end: number, replacement: string, reason: string): ReviseOperation | null {
+    let s = start;
+    let e = end;
+
+    for (let attempt = 0; attempt < 12; attempt++) {
+        const find = manuscript.slice(s, e);
+        if (manuscript.indexOf(find) === s && manuscript.indexOf(find, s + 1) === -1) {
+            return {
+                find,
+                replace: manuscript.slice(s, start) + replacement + manuscript.slice(end, e),
+                reason
+            };
+        }
+        while (s > 0 && /\s/.test(manuscript[s - 1])) s--;
+        while (s > 0 && !/\s/.test(manuscript[s - 1])) s--;
+        while (e < manuscript.length && /\s/.test(manuscript[e])) e++;
+        while (e < manuscript.length && !/\s/.test(manuscript[e])) e++;
+    }
+
+    return null;
+}
+
+/**
+ * Escape a string for use in a RegExp.
+ */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Analyze abbreviation usage in a manuscript.
+ * @param manuscript Manuscript text
+ * @returns Per-abbreviation summary, rule violations and fix operations
+ */
+export function analyzeAbbreviations(manuscript: string): AbbreviationReport {
+    const regions = findRegions(manuscript);
+    const sectionOf = (index: number) => regions.find(r => r.section && index >= r.start && index < r.end)?.label ?? '';
+    const kindAt = (index: number) => regionAt(regions, index)?.kind ?? 'main';
+
+    const definitions = findDefinitions(manuscript).filter(def => kindAt(def.abbrStart) !== 'excluded');
+    const mainDefinitions = definitions.filter(def => kindAt(def.abbrStart) === 'main');
+    const definitionAt = new Map(definitions.map(def => [def.abbrStart, def]));
+
+    // Candidate abbreviations: everything defined, plus undefined abbreviation-like tokens in the main text
+    const tokens = new Set(definitions.map(def => def.abbreviation));
+    for (const match of manuscript.matchAll(new RegExp(`(?<![\\w\\\\-])${ABBREVIATION.source}(?![\\w-])`, 'g'))) {
+        const token = singular(match[0]);
+        if (kindAt(match.index!) !== 'main' || WELL_KNOWN.has(token)) continue;
+        if (/^[IVXLC]+$/.test(token) || token.length > 8 || !/[A-Z].*[A-Z]/.test(token)) continue;
+        tokens.add(token);
+    }
+
+    // Offsets of the fixed spans, so operations can be ordered last to first
+    const positions = new Map<ReviseOperation, number>();
+    const span = (start: number, end: number, replacement: string, reason: string) => {
+        const operation = spanOperation(manuscript, start, end, replacement, reason);
+        if (operation) positions.set(operation, start);
+        return operation;
+    };
+
+    const abbreviations: AbbreviationEntry[] = [];
+    const issues: AbbreviationIssue[] = [];
+
+    for (const abbreviation of [...tokens].sort()) {
+        const usePattern = new RegExp(`(?<![\\w\\\\-])${escapeRegExp(abbreviation)}s?(?![\\w-])`, 'g');
+        const uses: Occurrence[] = [...manuscript.matchAll(usePattern)]
+            .filter(m => kindAt(m.index!) === 'main')
+            .map(m => ({ index: m.index!, text: m[0] }));
+
+        const ownDefinitions = mainDefinitions.filter(def => def.abbreviation === abbreviation);
+        const standAloneDefinitions = definitions.filter(def => def.abbreviation === abbreviation && kindAt(def.abbrStart) === 'stand-alone');
+        const longForm = ownDefinitions[0]?.longForm ?? standAloneDefinitions[0]?.longForm;
+
+        const usesBySection: Record<string, number> = {};
+        for (const use of uses) {
+            const section = sectionOf(use.index);
+            usesBySection[section] = (usesBySection[section] || 0) + 1;
+        }
+
+        abbreviations.push({
+            abbreviation,
+            longForm,
+            definedIn: ownDefinitions[0] ? sectionOf(ownDefinitions[0].start) : undefined,
+            firstUseIn: uses[0] ? sectionOf(uses[0].index) : undefined,
+            uses: uses.length,
+            usesBySection,
+            standAloneDefinitions: [...new Set(standAloneDefinitions.map(def => regionAt(regions, def.abbrStart)!.label))]
+        });
+
+        if (uses.length === 0) continue;
+
+        const issue = (kind: AbbreviationIssueKind, index: number, message: string, operations: Array<ReviseOperation | null>) => {
+            issues.push({ abbreviation, kind, section: sectionOf(index), message, operations: operations.filter((op): op is ReviseOperation => op !== null) });
+        };
+        const expand = (use: Occurrence) => longForm! + (use.text.endsWith('s') && !abbreviation.endsWith('s') ? 's' : '');
+
+        // Fewer than three uses: spell the term out everywhere instead
+        if (uses.length < 3) {
+            if (!longForm) {
+                issue('underused', uses[0].index, `${abbreviation} is used ${uses.length} time(s), is never defined, and should be spelled out`, []);
+                continue;
+            }
+            issue('underused', uses[0].index, `${abbreviation} is used ${uses.length} time(s); spell out "${longForm}" instead of abbreviating`, uses.map(use => {
+                const def = definitionAt.get(use.index);
+                return def
+                    ? span(def.start, def.end, def.longForm, `Remove abbreviation ${abbreviation} (used fewer than three times)`)
+                    : span(use.index, use.index + use.text.length, expand(use), `Spell out ${abbreviation} (used fewer than three times)`);
+            }));
+            continue;
+        }
+
+        const firstDefinition = ownDefinitions[0];
+
+        if (!firstDefinition) {
+            issue('undefined', uses[0].index, longForm
+                ? `${abbreviation} is not defined in the main text; define it at first use as "${longForm} (${abbreviation})"`
+                : `${abbreviation} is used but never defined; spell it out at first mention`,
+                longForm ? [span(uses[0].index, uses[0].index + uses[0].text.length, `${longForm} (${uses[0].text})`, `Define ${abbreviation} at first use`)] : []);
+        } else if (uses[0].index < firstDefinition.abbrStart) {
+            issue('used_before_definition', uses[0].index, `${abbreviation} is used before it is defined in ${sectionOf(firstDefinition.start)}`, [
+                span(uses[0].index, uses[0].index + uses[0].text.length, `${firstDefinition.longForm} (${uses[0].text})`, `Define ${abbreviation} at first use`),
+                span(firstDefinition.start, firstDefinition.end, abbreviation, `${abbreviation} is already defined earlier`)
+            ]);
+        }
+
+        for (const def of ownDefinitions.slice(1)) {
+            issue('redefined', def.start, `${abbreviation} is defined again`, [
+                span(def.start, def.end, abbreviation, `${abbreviation} is already defined`)
+            ]);
+        }
+
+        // Long form spelled out after the abbreviation has been defined
+        const definedAt = firstDefinition ? Math.min(firstDefinition.abbrStart, uses[0].index) : uses[0].index;
+        if (longForm) {
+            const longPattern = new RegExp(`(?<!\\w)${escapeRegExp(longForm).replace(/\s+/g, '\\s+')}(?!\\w)(?!\\s*\\()`, 'gi');
+            for (const match of manuscript.matchAll(longPattern)) {
+                if (match.index! <= definedAt || kindAt(match.index!) !== 'main') continue;
+                issue('long_form_after_definition', match.index!, `"${match[0]}" is spelled out after ${abbreviation} was defined`, [
+                    span(match.index!, match.index! + match[0].length, abbreviation, `Use ${abbreviation} after its definition`)
+                ]);
+            }
+        }
+    }
+
+    return {
+        abbreviations,
+        issues,
+        // Applying from the end keeps each find unique: inserted text only lands after earlier anchors
+        operations: issues.flatMap(issue => issue.operations).sort((a, b) => positions.get(b)! - positions.get(a)!)
+    };
+}
+
+/**
+ * Summarize an abbreviation report for logs and history.
+ * @param report Abbreviation report
+ * @returns One line per issue
+ */
+export function formatAbbreviationIssues(report: AbbreviationReport): string {
+    if (report.issues.length === 0) return 'No abbreviation issues found.';
+    return report.issues
+        .map(issue => `- [${issue.kind}] ${issue.section}: ${issue.message}${issue.operations.length === 0 ? ' (needs manual edit)' : ''}`)
+        .join('\n');
+}
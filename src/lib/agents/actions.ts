@@ -0,0 +1,661 @@
+/**
+ * Manager Actions - Registry of the actions the Manager agent can choose.
+ *
+ * Each action declares its name, prompt description, parameter schema,
+ * precondition and handler. The Manager prompt's action list and decision
+ * schema are generated from the registry, and projects can disable actions
+ * in their settings.
+ */
+
+import { z } from 'zod';
+import { AgentRuntime } from './runtime';
+import { resolveVariables, formatArrayAsMarkdown } from './variables';
+import { AgentContext, PlanSection, ManagerDecisionSchema, EditMode, PendingHunk } from './types';
+import { VersionEntry } from './versions';
+import { runFormatter } from './formatter';
+import { runPlanner } from './planner';
+import { runWriter, runParallelWriters, getNextSectionToWrite, getRemainingSections } from './writer';
+import { runCritic } from './critic';
+import { runReviser, applyReviseOperations } from './reviser';
+import { createPendingHunks } from './hunks';
+import { runFigureProcessor, getUncitedImages } from './figure_processor';
+import { runTableProcessor, runUploadedTableProcessor, getUninsertedTables } from './table_processor';
+import { analyzeAbbreviations, formatAbbreviationIssues } from './abbreviations';
+import { fixManuscript, formatLintSummary } from '../manuscript-lint';
+import { getPlanSections, getSectionBudgets, getOutOfBudgetSections, buildBudgetActionItems, formatSectionBudgets } from './word_budgets';
+import { updateProjectTable } from '../tables/project-tables';
+import { AgentState, ProjectImage, ProjectTable } from '@/lib/db/schema';
+
+/**
+ * Run state carried across manager steps (and saved in checkpoints).
+ * Handlers update it in place.
+ */
+export interface ManagerRunState {
+    manuscript: string;
+    lastCritiqueScore?: number;
+    lastCritiqueSummary?: string;
+    lastActionItems: string[];
+    reviserRequestedContinue: boolean;
+}
+
+/**
+ * What preconditions can inspect at the start of a manager step.
+ */
+export interface ManagerStepState {
+    runtime: AgentRuntime;
+    /** Agent state at the start of the step */
+    state: AgentState;
+    run: ManagerRunState;
+    images: ProjectImage[];
+    /** Uploaded CSV/XLSX tables */
+    tables: ProjectTable[];
+    maxPasses: number;
+    minScore: number;
+}
+
+/**
+ * What handlers receive when their action is chosen.
+ */
+export interface ManagerActionContext extends ManagerStepState {
+    /** Agent context built for this step */
+    context: AgentContext;
+    /**
+     * Save an edited manuscript: updates run.manuscript, the editor and version history.
+     */
+    commitManuscript: (manuscript: string, version: Omit<VersionEntry, 'content' | 'passIndex' | 'runId'>) => Promise<void>;
+    /** 'propose' hands Writer and Reviser edits to proposeHunks instead of committing them */
+    editMode: EditMode;
+    /**
+     * Queue proposed edits for review in the editor.
+     */
+    proposeHunks: (hunks: PendingHunk[]) => void;
+    /**
+     * Checkpoint run state in the middle of a long step.
+     */
+    checkpoint: () => Promise<void>;
+}
+
+/**
+ * A manager action.
+ */
+export interface ManagerAction<P extends z.ZodType = z.ZodType> {
+    name: string;
+    /** Shown to the Manager in the action list; may use {variables} from the agent context */
+    description: string;
+    /** Schema of decision.parameters */
+    parameters: P;
+    /** Actions that cannot be disabled in project settings */
+    required?: boolean;
+    /**
+     * Check whether the action can run now.
+     * @returns Reason it cannot, or null if available
+     */
+    precondition?: (step: ManagerStepState) => string | null;
+    /**
+     * Run the action.
+     * @returns finished: true to end the workflow
+     */
+    handler: (ctx: ManagerActionContext, params: z.infer<P>) => Promise<{ finished?: boolean } | void>;
+}
+
+/**
+ * Define an action with its handler parameters inferred from the schema.
+ */
+function defineAction<P extends z.ZodType>(action: ManagerAction<P>): ManagerAction {
+    return action as unknown as ManagerAction;
+}
+
+/**
+ * Hand an action's proposed edits to the editor for review and end the run:
+ * the manuscript is unchanged until they are accepted, so later steps would
+ * only propose the same edits again.
+ */
+function proposeForReview(
+    runtime: AgentRuntime,
+    proposeHunks: ManagerActionContext['proposeHunks'],
+    action: string,
+    hunks: PendingHunk[]
+): { finished: true } {
+    proposeHunks(hunks);
+    runtime['emitLog']({
+        agent: 'Manager',
+        type: 'info',
+        content: `${action} proposed ${hunks.length} change${hunks.length === 1 ? '' : 's'} for review in the editor. Accept or reject them, then run the agent again.`
+    });
+    return { finished: true };
+}
+
+/**
+ * Auto-fix mechanical formatting issues (dashes, headings, wrapper, affiliations)
+ * so critique-revision passes are not spent on them. In propose mode the
+ * manuscript only changes through accepted hunks, so the fixes are only reported.
+ */
+async function applyLintFixes(
+    runtime: AgentRuntime,
+    run: ManagerRunState,
+    commitManuscript: ManagerActionContext['commitManuscript'],
+    editMode: EditMode
+): Promise<void> {
+    const result = fixManuscript(run.manuscript);
+    if (result.manuscript === run.manuscript) return;
+
+    if (editMode === 'propose') {
+        runtime['emitLog']({
+            agent: 'ManuscriptLint',
+            type: 'info',
+            content: `Found ${result.fixed.length} auto-fixable formatting issue(s), not applied in propose-only mode:\n${formatLintSummary(result.fixed)}`
+        });
+        return;
+    }
+
+    runtime['emitLog']({
+        agent: 'ManuscriptLint',
+        type: 'info',
+        content: `Auto-fixed ${result.fixed.length} formatting issue(s):\n${formatLintSummary(result.fixed)}`
+    });
+
+    await commitManuscript(result.manuscript, {
+        agent: 'ManuscriptLint',
+        action: 'lint_fix',
+        operations: result.fixed.map(({ rule, line, message }) => ({ rule, line, message })),
+        summary: `Auto-fixed ${result.fixed.length} formatting issue(s)`
+    });
+}
+
+const NO_PARAMETERS = z.object({});
+
+/**
+ * All manager actions, in the order they are listed to the Manager.
+ */
+export const MANAGER_ACTIONS: ManagerAction[] = [
+    defineAction({
+        name: 'generate_format_guidance',
+        description: 'Always run this first, if format guidance is missing.',
+        parameters: NO_PARAMETERS,
+        handler: async ({ runtime, context }) => {
+            await runFormatter(runtime, context);
+        }
+    }),
+
+    defineAction({
+        name: 'process_images',
+        description: 'Process an uncited image. Always use this tool when there are images not properly cited in current manuscript (you know that by seeing there are image filenames not properly cited in the manuscript; a proper citation of image must include an inline Figure~\\ref{fig:<label>} reference in the text AND a \\begin{figure}...\\end{figure} environment block; this is the only allowed way to cite images). Parameter: {"image_filename": "filename.png"}. Note: send one image to process_images agent at each time. Only process_image agent can process images. You should never send images to other agents. Figure number (e.g., Figure 1) is not required to be in the manuscript (LaTax compiler will assign it automatically).',
+        parameters: z.object({ image_filename: z.string().optional() }),
+        precondition: ({ run, images }) => getUncitedImages(run.manuscript, images).length > 0
+            ? null
+            : 'All images are already cited in manuscript',
+        handler: async ({ runtime, context, run, images, commitManuscript }, params) => {
+            const uncited = getUncitedImages(run.manuscript, images);
+
+            // Use Manager's chosen image_filename, or fallback to first uncited
+            const requestedFilename = params.image_filename;
+            let img = requestedFilename
+                ? uncited.find(i => i.name === requestedFilename) || images.find(i => i.name === requestedFilename)
+                : uncited[0];
+
+            if (!img) {
+                runtime['emitLog']({
+                    agent: 'Manager',
+                    type: 'info',
+                    content: `Image "${requestedFilename}" not found. Using first uncited image.`
+                });
+                img = uncited[0];
+            }
+
+            runtime['emitLog']({
+                agent: 'FigureProcessor',
+                type: 'info',
+                content: `Processing image: ${img.name}`
+            });
+
+            const result = await runFigureProcessor(runtime, context, img);
+
+            // Apply find/replace to manuscript
+            if (result.find && result.replace) {
+                await commitManuscript(run.manuscript.replace(result.find, result.replace), {
+                    agent: 'FigureProcessor',
+                    action: 'process_images',
+                    operations: [{ find: result.find, replace: result.replace }],
+                    summary: `Integrated figure: ${img.name}`
+                });
+            }
+        }
+    }),
+
+    defineAction({
+        name: 'process_tables',
+        description: 'Convert a raw table to LaTeX longtable format. Use this when there are raw tables in instructions or current_manuscript not properly formatted as LaTeX. Parameter: {"raw_table": "<paste the entire raw table text here>"}. Properly formatted tables MUST use longtable environment wrapped in ThreePartTable, with inline Table~\\ref{tab:<label>} reference in the text.',
+        parameters: z.object({ raw_table: z.string().trim().min(1) }),
+        handler: async ({ runtime, context, run, commitManuscript }, params) => {
+            const rawTable = params.raw_table;
+
+            runtime['emitLog']({
+                agent: 'TableProcessor',
+                type: 'info',
+                content: `Processing raw table (${rawTable.substring(0, 50)}...)`
+            });
+
+            const tableResult = await runTableProcessor(runtime, context, rawTable);
+
+            // Apply find/replace to manuscript
+            if (tableResult.find && tableResult.replace) {
+                await commitManuscript(run.manuscript.replace(tableResult.find, tableResult.replace), {
+                    agent: 'TableProcessor',
+                    action: 'process_tables',
+                    operations: [{ find: tableResult.find, replace: tableResult.replace }],
+                    summary: 'Integrated table'
+                });
+            }
+        }
+    }),
+
+    defineAction({
+        name: 'insert_uploaded_table',
+        description: 'Insert an uploaded table (CSV/Excel) into the manuscript. The LaTeX longtable is generated from the uploaded data; the Table Processor only writes the caption and the inline Table~\\ref{tab:<label>} reference. Use this instead of "process_tables" for uploaded tables, once the section that should cite the table is drafted. Parameter: {"table_label": "<label>"}. Insert one table at a time.',
+        parameters: z.object({ table_label: z.string().optional() }),
+        precondition: ({ run, tables }) => !run.manuscript.trim()
+            ? 'Manuscript is empty'
+            : getUninsertedTables(run.manuscript, tables).length > 0
+                ? null
+                : 'All uploaded tables are already in manuscript',
+        handler: async ({ runtime, context, run, tables, commitManuscript }, params) => {
+            const uninserted = getUninsertedTables(run.manuscript, tables);
+            const requested = params.table_label?.trim().replace(/^tab:/, '');
+            let table = requested ? uninserted.find(t => t.label === requested || t.name === requested) : uninserted[0];
+
+            if (!table) {
+                runtime['emitLog']({
+                    agent: 'Manager',
+                    type: 'info',
+                    content: `Table "${requested}" not found among uninserted tables. Using ${uninserted[0].label}.`
+                });
+                table = uninserted[0];
+            }
+
+            const result = await runUploadedTableProcessor(runtime, context, table, run.manuscript);
+            await commitManuscript(result.manuscript, {
+                agent: 'TableProcessor',
+                action: 'insert_uploaded_table',
+                operations: [result.operation],
+                summary: `Inserted uploaded table: ${table.name}`
+            });
+            await updateProjectTable(runtime['novelId'], table.id, { caption: result.caption });
+        }
+    }),
+
+    defineAction({
+        name: 'generate_plan',
+        description: 'Create or update the section outline. Always use this after format guidance, images and tables are handled. Use this if the plan is missing/empty.',
+        parameters: NO_PARAMETERS,
+        handler: async ({ runtime, context }) => {
+            await runPlanner(runtime, context);
+        }
+    }),
+
+    defineAction({
+        name: 'write_section',
+        description: 'Draft a specific section. Parameter: {"section_title": "Section Title"}.',
+        parameters: z.object({ section_title: z.string().optional() }),
+        precondition: ({ state }) => getPlanSections(state).length > 0 ? null : 'No section plan yet',
+        handler: async ({ runtime, state, run, commitManuscript, editMode, proposeHunks }, params) => {
+            const sections = getPlanSections(state);
+
+            const normalizeTitle = (title: string) => (
+                title
+                    .trim()
+                    .toLowerCase()
+                    .replace(/^[\d\s.\-–—)]+/, '')
+                    .replace(/\s+/g, ' ')
+            );
+
+            const requestedTitle = params.section_title?.trim();
+            let nextSection: PlanSection | null = null;
+
+            if (requestedTitle) {
+                const requestedNormalized = normalizeTitle(requestedTitle);
+                nextSection = sections.find(section => normalizeTitle(section.section_title) === requestedNormalized)
+                    || sections.find(section => {
+                        const candidate = normalizeTitle(section.section_title);
+                        return candidate.includes(requestedNormalized) || requestedNormalized.includes(candidate);
+                    })
+                    || null;
+            }
+
+            if (!nextSection) {
+                if (requestedTitle) {
+                    runtime['emitLog']({
+                        agent: 'Manager',
+                        type: 'info',
+                        content: `Requested section "${requestedTitle}" not found in plan. Falling back to next missing section.`
+                    });
+                }
+
+                // Find next section by checking what's missing from the manuscript
+                nextSection = getNextSectionToWrite(sections, run.manuscript);
+            }
+
+            if (!nextSection) {
+                runtime['emitLog']({
+                    agent: 'Manager',
+                    type: 'info',
+                    content: 'No more sections to write'
+                });
+                return;
+            }
+
+            // Build context with section details
+            const writerContext = await runtime.buildContext(run.manuscript, {
+                section_title: nextSection.section_title,
+                section_summary: nextSection.section_summary,
+                section_word_count: nextSection.section_word_count
+            });
+
+            // Write the section
+            const writeResult = await runWriter(runtime, writerContext, run.manuscript, editMode);
+            if (editMode === 'propose') {
+                return proposeForReview(runtime, proposeHunks, 'write_section', writeResult.hunks);
+            }
+            await commitManuscript(writeResult.manuscript, {
+                agent: 'Writer',
+                action: 'write_section',
+                operations: writeResult.operations,
+                summary: `Drafted section: ${nextSection.section_title}`
+            });
+        }
+    }),
+
+    defineAction({
+        name: 'draft_remaining_sections',
+        description: 'Draft all planned sections missing from the manuscript at once (in parallel, against the current plan). Use this instead of repeated "write_section" when several independent sections are missing.',
+        parameters: NO_PARAMETERS,
+        precondition: ({ state, run }) => getPlanSections(state).length === 0
+            ? 'No section plan yet'
+            : getRemainingSections(getPlanSections(state), run.manuscript).length > 0 ? null : 'All planned sections are drafted',
+        handler: async ({ runtime, state, run, commitManuscript, editMode, proposeHunks }) => {
+            const remaining = getRemainingSections(getPlanSections(state), run.manuscript);
+
+            if (remaining.length === 0) {
+                runtime['emitLog']({
+                    agent: 'Manager',
+                    type: 'info',
+                    content: 'No more sections to write'
+                });
+                return;
+            }
+
+            const draftResult = await runParallelWriters(runtime, remaining, run.manuscript, state.writerConcurrency || 3, editMode);
+            if (editMode === 'propose') {
+                return proposeForReview(runtime, proposeHunks, 'draft_remaining_sections', draftResult.hunks);
+            }
+            await commitManuscript(draftResult.manuscript, {
+                agent: 'Writer',
+                action: 'draft_remaining_sections',
+                operations: draftResult.operations,
+                summary: `Drafted sections: ${draftResult.drafted.join(', ')}` +
+                    (draftResult.collisions.length > 0 ? ` (${draftResult.collisions.length} collisions)` : '')
+            });
+        }
+    }),
+
+    defineAction({
+        name: 'fit_section_budgets',
+        description: 'Trim or expand drafted sections whose word count is outside their planned budget (see the section word budgets). Sends the Reviser one deterministic instruction per section with the current and target word counts.',
+        parameters: NO_PARAMETERS,
+        precondition: ({ state, run }) => getOutOfBudgetSections(getSectionBudgets(getPlanSections(state), run.manuscript)).length > 0
+            ? null
+            : 'All drafted sections are within their word budgets',
+        handler: async ({ runtime, state, run, commitManuscript, editMode, proposeHunks }) => {
+            const budgets = getSectionBudgets(getPlanSections(state), run.manuscript);
+            const actionItems = buildBudgetActionItems(budgets);
+
+            runtime['emitLog']({
+                agent: 'Manager',
+                type: 'info',
+                content: `Fitting ${actionItems.length} section(s) to their word budgets:\n${formatSectionBudgets(getOutOfBudgetSections(budgets))}`
+            });
+
+            const reviseContext = await runtime.buildContext(run.manuscript, {
+                critique_summary: 'Some sections are outside their planned word budgets.',
+                action_items: formatArrayAsMarkdown(actionItems)
+            });
+
+            const result = await runReviser(runtime, reviseContext, run.manuscript, editMode);
+            if (editMode === 'propose') {
+                return proposeForReview(runtime, proposeHunks, 'fit_section_budgets', result.hunks);
+            }
+            await commitManuscript(result.manuscript, {
+                agent: 'Reviser',
+                action: 'fit_section_budgets',
+                operations: result.operations,
+                summary: `Fitted ${actionItems.length} section(s) to their word budgets`
+            });
+        }
+    }),
+
+    defineAction({
+        name: 'critique_and_improve_manuscript',
+        description: 'Run autonomous critique -> revise -> critique cycles until the score meets the target ({min_score}) or the allowed critique-revision cycles (max passes: {max_passes}) are exhausted.',
+        parameters: NO_PARAMETERS,
+        precondition: ({ state, maxPasses }) => (state.passIndex || 0) < maxPasses
+            ? null
+            : `Max critique-revision cycles reached (${state.passIndex}/${maxPasses})`,
+        handler: async ({ runtime, state, run, maxPasses, minScore, commitManuscript, checkpoint, editMode, proposeHunks }) => {
+            // Capture pass index before starting a critique cycle
+            let passIndex = state.passIndex || 0;
+
+            // Allow up to 3 critique-revision cycles per Manager decision, or until global max passes
+            let internalLoops = 0;
+            const MAX_INTERNAL_LOOPS = 3;
+
+            while (passIndex < maxPasses && internalLoops < MAX_INTERNAL_LOOPS) {
+                // Leave budget handling to the main loop
+                if (await runtime.checkBudget()) {
+                    break;
+                }
+
+                runtime['emitLog']({
+                    agent: 'Manager',
+                    type: 'info',
+                    content: `Starting critique-revision cycle ${passIndex + 1} of ${maxPasses}.`
+                });
+
+                // Fix mechanical issues, then critique the current manuscript
+                await applyLintFixes(runtime, run, commitManuscript, editMode);
+                const critiqueContext = await runtime.buildContext(run.manuscript);
+                const critique = await runCritic(runtime, critiqueContext);
+                run.lastCritiqueScore = critique.score;
+                run.lastCritiqueSummary = critique.critic_summary;
+                run.lastActionItems = critique.action_items;
+
+                const needsRevision = (critique.score < minScore) && (critique.action_items.length > 0);
+
+                if (needsRevision) {
+                    // Revise based on critique feedback
+                    const reviseContext = await runtime.buildContext(run.manuscript, {
+                        critique_score: critique.score,
+                        critique_summary: critique.critic_summary,
+                        action_items: formatArrayAsMarkdown(critique.action_items)
+                    });
+
+                    const reviseResult = await runReviser(runtime, reviseContext, run.manuscript, editMode);
+                    if (editMode === 'propose') {
+                        await runtime.updateState({ passIndex: passIndex + 1 });
+                        return proposeForReview(runtime, proposeHunks, 'critique_and_improve_manuscript', reviseResult.hunks);
+                    }
+                    await commitManuscript(reviseResult.manuscript, {
+                        agent: 'Reviser',
+                        action: 'critique_and_improve_manuscript',
+                        operations: reviseResult.operations,
+                        summary: `Revised after critique (score ${critique.score.toFixed(2)})`
+                    });
+
+                    // Re-critique to capture updated score and action items within the same cycle
+                    await applyLintFixes(runtime, run, commitManuscript, editMode);
+                    const followupContext = await runtime.buildContext(run.manuscript);
+                    const followupCritique = await runCritic(runtime, followupContext);
+                    run.lastCritiqueScore = followupCritique.score;
+                    run.lastCritiqueSummary = followupCritique.critic_summary;
+                    run.lastActionItems = followupCritique.action_items;
+                }
+
+                // Track cycle completion (critique + optional revision)
+                passIndex += 1;
+                internalLoops += 1;
+                await runtime.updateState({ passIndex });
+
+                // Checkpoint critique state mid-step (the manager step itself is not complete yet)
+                await checkpoint();
+
+                if (passIndex >= maxPasses) {
+                    runtime['emitLog']({
+                        agent: 'Manager',
+                        type: 'info',
+                        content: `Max critique-revision cycles reached (${passIndex}/${maxPasses}).`
+                    });
+                    break;
+                }
+
+                // Stop if target is met or no actionable items remain
+                if ((run.lastCritiqueScore >= minScore) || (run.lastActionItems.length === 0)) {
+                    break;
+                }
+            }
+        }
+    }),
+
+    defineAction({
+        name: 'fix_abbreviations',
+        description: 'Apply rule-based abbreviation fixes: define at first mention, do not redefine, use only the abbreviation after its definition, and spell out terms used fewer than three times. No LLM call; stand-alone sections (abstract, figure legends, tables, supplementary) are exempt.',
+        parameters: NO_PARAMETERS,
+        precondition: ({ run }) => analyzeAbbreviations(run.manuscript).operations.length > 0
+            ? null
+            : 'No automatic abbreviation fixes available',
+        handler: async ({ runtime, run, commitManuscript, editMode, proposeHunks }) => {
+            const report = analyzeAbbreviations(run.manuscript);
+
+            // Operations are ordered last to first; skip any whose anchor an earlier fix changed
+            let manuscript = run.manuscript;
+            const applied = report.operations.filter(operation => {
+                if (!manuscript.includes(operation.find)) return false;
+                manuscript = applyReviseOperations(manuscript, [operation]);
+                return true;
+            });
+
+            // Propose-only: the fixes use the reviser's matching, so they are queued as Reviser hunks
+            if (editMode === 'propose') {
+                runtime['emitLog']({
+                    agent: 'AbbreviationAnalyzer',
+                    type: 'info',
+                    content: `Proposing ${applied.length} of ${report.operations.length} abbreviation fixes.\n${formatAbbreviationIssues(report)}`
+                });
+                return proposeForReview(runtime, proposeHunks, 'fix_abbreviations', createPendingHunks('Reviser', applied, runtime['sceneId']));
+            }
+
+            runtime['emitLog']({
+                agent: 'AbbreviationAnalyzer',
+                type: 'info',
+                content: `Applied ${applied.length} of ${report.operations.length} abbreviation fixes.\n${formatAbbreviationIssues(report)}`
+            });
+
+            await commitManuscript(manuscript, {
+                agent: 'AbbreviationAnalyzer',
+                action: 'fix_abbreviations',
+                operations: applied,
+                summary: `Applied ${applied.length} abbreviation fixes`
+            });
+        }
+    }),
+
+    // Keep for manual/targeted usage
+    defineAction({
+        name: 'revise_manuscript',
+        description: 'Apply a specific, targeted revision to the manuscript. Optionally pass {"action_items": ["..."]} to direct edits—useful after critique cycles are used up.',
+        parameters: z.object({ action_items: z.union([z.array(z.string()), z.string()]).optional() }),
+        handler: async ({ runtime, run, commitManuscript, editMode, proposeHunks }, params) => {
+            const rawActionItems = params.action_items;
+            const requestedActionItems = Array.isArray(rawActionItems)
+                ? rawActionItems
+                : (typeof rawActionItems === 'string' && rawActionItems.trim().length > 0)
+                    ? [rawActionItems.trim()]
+                    : undefined;
+
+            const actionItemsForReviser = requestedActionItems && requestedActionItems.length > 0
+                ? requestedActionItems
+                : run.lastActionItems;
+
+            const reviseContext = await runtime.buildContext(run.manuscript, {
+                critique_score: run.lastCritiqueScore,
+                critique_summary: run.lastCritiqueSummary,
+                action_items: formatArrayAsMarkdown(actionItemsForReviser)
+            });
+
+            const result = await runReviser(runtime, reviseContext, run.manuscript, editMode);
+            run.reviserRequestedContinue = result.shouldContinue;
+            run.lastActionItems = actionItemsForReviser;
+
+            if (editMode === 'propose') {
+                return proposeForReview(runtime, proposeHunks, 'revise_manuscript', result.hunks);
+            }
+
+            await commitManuscript(result.manuscript, {
+                agent: 'Reviser',
+                action: 'revise_manuscript',
+                operations: result.operations,
+                summary: `Targeted revision (${actionItemsForReviser.length} action items)`
+            });
+        }
+    }),
+
+    defineAction({
+        name: 'finish',
+        description: 'If the manuscript is complete and meets quality standards.',
+        parameters: NO_PARAMETERS,
+        required: true,
+        handler: async ({ runtime, run }) => {
+            runtime['emitLog']({
+                agent: 'Manager',
+                type: 'info',
+                content: 'Manuscript complete!'
+            });
+
+            await runtime.addHistory(
+                'finish',
+                `Workflow completed. Final score: ${run.lastCritiqueScore?.toFixed(2) || 'N/A'}`,
+                true
+            );
+
+            return { finished: true };
+        }
+    })
+];
+
+/**
+ * Get the actions enabled for a project.
+ * @param disabledActions Action names disabled in project settings
+ * @returns Enabled actions in registry order (required actions are always enabled)
+ */
+export function getEnabledActions(disabledActions: string[] = []): ManagerAction[] {
+    return MANAGER_ACTIONS.filter(action => action.required || !disabledActions.includes(action.name));
+}
+
+/**
+ * Format actions as the numbered "Available Actions" list in the Manager prompt.
+ * @param actions Actions available for this step
+ * @param context Agent context (resolves {variables} in descriptions)
+ * @returns Markdown list
+ */
+export function formatActionList(actions: ManagerAction[], context: Partial<AgentContext>): string {
+    return actions
+        .map((action, i) => `- ${i + 1}. "${action.name}": ${resolveVariables(action.description, context)}`)
+        .join('\n');
+}
+
+/**
+ * Build the Manager decision schema restricted to the given actions.
+ * @param actions Actions available for this step
+ * @returns Decision schema whose action is one of the action names
+ */
+export function buildDecisionSchema(actions: ManagerAction[]) {
+    const names = actions.map(action => action.name) as [string, ...string[]];
+    return ManagerDecisionSchema.extend({ action: z.enum(names) });
+}
@@ -0,0 +1,29 @@
+/**
+ * Run Checkpoints - Helpers for resuming interrupted manager workflow runs.
+ */
+
+import { RunCheckpoint } from '@/lib/db/schema';
+
+/**
+ * Hash manuscript text so a resumed run can detect edits made since the checkpoint.
+ * Uses 32-bit FNV-1a; collisions only cost a missed "manuscript changed" notice.
+ * @param text Manuscript text
+ * @returns Hex hash suffixed with the text length
+ */
+export function hashManuscript(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${(hash >>> 0).toString(16).padStart(8, '0')}-${text.length}`;
+}
+
+/**
+ * Check whether a checkpoint belongs to a run that can be resumed.
+ * @param checkpoint Checkpoint from agent state
+ * @returns True if the run was interrupted (not completed) after at least one step
+ */
+export function isResumable(checkpoint?: RunCheckpoint | null): checkpoint is RunCheckpoint {
+    return Boolean(checkpoint && checkpoint.status !== 'completed' && checkpoint.loopCount > 0);
+}
@@ -4,9 +4,7 @@
 
 import { AgentRuntime } from './runtime';
 import { resolveVariables } from './variables';
-import { validateKeys } from './parser';
-import { CITATION_GENERATOR_SYSTEM_PROMPT, CITATION_GENERATOR_PROMPT } from './prompts';
-import { AgentContext, CitationGeneratorOutput } from './types';
+import { AgentContext, CitationGeneratorOutput, CitationGeneratorOutputSchema } from './types';
 import { executeWithJSONRetry } from './json_retry';
 
 /**
@@ -20,20 +18,22 @@ export async function runCitationGenerator(
     context: AgentContext
 ): Promise<CitationGeneratorOutput> {
     // Resolve variables
-    const userPrompt = resolveVariables(CITATION_GENERATOR_PROMPT, context);
+    const userPrompt = resolveVariables(await runtime.getPrompt('CITATION_GENERATOR_PROMPT'), context);
+    const systemPrompt = await runtime.getPrompt('CITATION_GENERATOR_SYSTEM_PROMPT');
 
-    // Execute agent (requires online to find citations) with JSON parse retry
-    const { output } = await executeWithJSONRetry<CitationGeneratorOutput>(
+    // Execute agent (requires online to find citations) with schema validation retry
+    const { output } = await executeWithJSONRetry(
         runtime,
-        () => runtime.executeAgent(
-            CITATION_GENERATOR_SYSTEM_PROMPT,
-            userPrompt,
+        (feedback) => runtime.executeAgent(
+            systemPrompt,
+            userPrompt + feedback,
             true, // requiresOnline
-            'CitationGenerator'
+            'CitationGenerator',
+            CitationGeneratorOutputSchema
         ),
-        'CitationGenerator'
+        'CitationGenerator',
+        CitationGeneratorOutputSchema
     );
-    validateKeys(output, ['updated_sentence']);
 
     return output;
 }
@@ -4,9 +4,7 @@
 
 import { AgentRuntime } from './runtime';
 import { resolveVariables } from './variables';
-import { validateKeys } from './parser';
-import { CITATION_ORCHESTRATOR_SYSTEM_PROMPT, CITATION_ORCHESTRATOR_PROMPT } from './prompts';
-import { AgentContext, CitationOrchestratorOutput } from './types';
+import { AgentContext, CitationOrchestratorOutput, CitationOrchestratorOutputSchema } from './types';
 import { executeWithJSONRetry } from './json_retry';
 
 /**
@@ -43,38 +41,28 @@ export async function runCitationOrchestrator(
         };
 
         // Resolve variables
-        const userPrompt = resolveVariables(CITATION_ORCHESTRATOR_PROMPT, stepContext);
+        const userPrompt = resolveVariables(await runtime.getPrompt('CITATION_ORCHESTRATOR_PROMPT'), stepContext);
+        const systemPrompt = await runtime.getPrompt('CITATION_ORCHESTRATOR_SYSTEM_PROMPT');
 
         // Execute agent
-        const { output } = await executeWithJSONRetry<CitationOrchestratorOutput>(
+        const { output } = await executeWithJSONRetry(
             runtime,
-            () => runtime.executeAgent(
-                CITATION_ORCHESTRATOR_SYSTEM_PROMPT,
-                userPrompt,
+            (feedback) => runtime.executeAgent(
+                systemPrompt,
+                userPrompt + feedback,
                 false, // requiresOnline
-                'CitationOrchestrator'
+                'CitationOrchestrator',
+                CitationOrchestratorOutputSchema
             ),
-            'CitationOrchestrator'
+            'CitationOrchestrator',
+            CitationOrchestratorOutputSchema
         );
 
-        // Validate output structure
-        if (!output.citation_targets || !Array.isArray(output.citation_targets)) {
-            // Stop if malformed
-            break;
-        }
-
         if (output.citation_targets.length === 0) {
             // Stop if no new targets found
             break;
         }
 
-        validateKeys(output.citation_targets[0], [
-            'sentence_citation_target',
-            'section_title_citation_target',
-            'reason_citation_target',
-            'evidence_type_citation_target'
-        ]);
-
         let newUniqueCount = 0;
         for (const target of output.citation_targets) {
             // Check for duplicates in allTargets
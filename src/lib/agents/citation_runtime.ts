@@ -3,8 +3,13 @@
  */
 
 import { AgentRuntime } from './runtime';
+import { CitationTarget } from './types';
+import { ReferenceEntry } from '@/lib/db/schema';
 import { runCitationOrchestrator } from './citation_orchestrator';
 import { runCitationGenerator } from './citation_generator';
+import { getReferences, rankReferences, expandLibraryCitations, formatReferenceSummary } from '@/lib/references/library';
+import { applyCitationMode } from '@/lib/references/citation-keys';
+import { CitationCheck, verifyCitations, replaceWithLibraryCitation, summarizeCitationChecks } from '@/lib/references/verification';
 
 /**
  * Result of the citation scan/update process.
@@ -17,9 +22,33 @@ export interface CitationScanResult {
         original: string;
         updated: string;
         reason: string;
+        citations: CitationCheck[]; // Citations in the updated sentence, checked against the reference library
     }[];
 }
 
+/**
+ * Options for the citation workflow.
+ */
+export interface CitationWorkflowOptions {
+    // Replace generated citations that match a library entry but differ from it with the library version
+    useLibraryVersions?: boolean;
+}
+
+/**
+ * Format the library entries that best match a citation target for the generator prompt.
+ */
+function formatLibraryMatches(library: ReferenceEntry[], target: CitationTarget): string {
+    const matches = rankReferences(library, [
+        target.sentence_citation_target,
+        target.context_before_citation_target,
+        target.context_after_citation_target
+    ].filter(Boolean).join(' '));
+
+    return matches.length > 0
+        ? matches.map(entry => `- ${entry.key}: ${formatReferenceSummary(entry)}`).join('\n')
+        : 'No matching library entries.';
+}
+
 /**
  * Run the full citation scanning and generation pipeline.
  * @param novelId Novel ID
@@ -28,6 +57,7 @@ export interface CitationScanResult {
  * @param getCurrentManuscript Function to get current manuscript text
  * @param updateManuscript Function to update manuscript text
  * @param onLog Callback for log entries
+ * @param options Workflow options
  * @returns Result of the operation
  */
 export async function runCitationWorkflow(
@@ -36,7 +66,8 @@ export async function runCitationWorkflow(
     maxTargets: number,
     getCurrentManuscript: () => Promise<string>,
     updateManuscript: (text: string) => Promise<void>,
-    onLog?: (log: any) => void
+    onLog?: (log: any) => void,
+    options: CitationWorkflowOptions = {}
 ): Promise<CitationScanResult> {
     const runtime = new AgentRuntime(novelId, sceneId);
     if (onLog) {
@@ -84,6 +115,9 @@ export async function runCitationWorkflow(
         existingCitations: []
     });
 
+    // The project's reference library; the generator may cite its entries by key
+    let library = await getReferences(novelId);
+
     const changes: CitationScanResult['changes'] = [];
     let citationsApplied = 0;
 
@@ -105,12 +139,44 @@ export async function runCitationWorkflow(
             reason_citation_target: target.reason_citation_target,
             section_title_citation_target: target.section_title_citation_target,
             evidence_type_citation_target: target.evidence_type_citation_target,
-            existing_citations: verifiedCitations.join('\n') // Override with verified set
+            existing_citations: verifiedCitations.join('\n'), // Override with verified set
+            library_references: formatLibraryMatches(library, target)
         });
 
         try {
             const generatorResult = await runCitationGenerator(runtime, generatorContext);
 
+            // Expand [[@key]] library citations into full inline BibTeX
+            const expansion = expandLibraryCitations(generatorResult.updated_sentence, library);
+            if (expansion.unknownKeys.length > 0) {
+                runtime['emitLog']({
+                    agent: 'CitationGenerator',
+                    type: 'error',
+                    content: `Cited unknown library key(s): ${expansion.unknownKeys.join(', ')}. Skipping this target.`
+                });
+                continue;
+            }
+            generatorResult.updated_sentence = expansion.text;
+
+            // Check the citations against the library; the model may have invented them
+            let citationChecks = verifyCitations(generatorResult.updated_sentence, library);
+            if (options.useLibraryVersions) {
+                for (const check of citationChecks.filter(c => c.status === 'mismatched')) {
+                    generatorResult.updated_sentence = replaceWithLibraryCitation(generatorResult.updated_sentence, check);
+                }
+                citationChecks = verifyCitations(generatorResult.updated_sentence, library);
+            }
+            if (library.length > 0 && citationChecks.length > 0) {
+                const flagged = citationChecks.filter(check => check.status !== 'verified');
+                runtime['emitLog']({
+                    agent: 'System',
+                    type: flagged.length > 0 ? 'error' : 'info',
+                    content: `Citation check: ${summarizeCitationChecks(citationChecks)}.` + flagged
+                        .map(check => `\n- ${check.status}: ${check.key || check.title}${check.differences.length > 0 ? ` (${check.differences.join('; ')})` : ''}`)
+                        .join('')
+                });
+            }
+
             // Extract verified citations from the result
             const newCitations = generatorResult.updated_sentence.match(/@\w+\{[^}]+\}/g) || [];
             if (newCitations.length > 0) {
@@ -135,10 +201,15 @@ export async function runCitationWorkflow(
                         generatorResult.updated_sentence
                     );
 
+                    // In key mode the new entries join the library and later targets see [@key] markers
+                    currentManuscript = await applyCitationMode(novelId, currentManuscript);
+                    library = await getReferences(novelId);
+
                     changes.push({
                         original: target.sentence_citation_target,
                         updated: generatorResult.updated_sentence,
-                        reason: target.reason_citation_target
+                        reason: target.reason_citation_target,
+                        citations: citationChecks
                     });
 
                     citationsApplied++;
@@ -1,16 +1,130 @@
 /**
  * Critic Agent - Reviews manuscript for quality and adherence to requirements.
+ * With a reviewer panel configured, each reviewer critiques separately and the
+ * results are aggregated.
  */
 
 import { AgentRuntime } from './runtime';
-import { resolveVariables } from './variables';
-import { validateKeys, parseNumber } from './parser';
-import { CRITIC_SYSTEM_PROMPT, CRITIC_PROMPT } from './prompts';
-import { AgentContext, CriticOutput } from './types';
+import { resolveVariables, splitManuscriptSections, buildScopedManuscript, groupSectionsByTokens, scopeContextToSections } from './variables';
+import { AgentContext, CriticOutput, CriticOutputSchema } from './types';
 import { executeWithJSONRetry } from './json_retry';
+import { PanelReviewer, aggregateReviews } from './reviewers';
+import { countPromptTokens } from '@/lib/ai/usage';
+
+/**
+ * Get the system prompt for the Critic or one panel reviewer.
+ */
+async function getSystemPrompt(runtime: AgentRuntime, reviewer?: PanelReviewer): Promise<string> {
+    const criticPrompt = await runtime.getPrompt('CRITIC_SYSTEM_PROMPT');
+    return reviewer ? `${criticPrompt}\n${await runtime.getPrompt(reviewer.promptId)}` : criticPrompt;
+}
+
+/**
+ * Run one critique call.
+ * @param runtime Agent runtime instance
+ * @param context Agent context with variables
+ * @param reviewer Panel reviewer (omit for the single Critic)
+ * @returns Validated critic output
+ */
+async function critique(runtime: AgentRuntime, context: AgentContext, reviewer?: PanelReviewer): Promise<CriticOutput> {
+    // Resolve the prompt with variables
+    const userPrompt = resolveVariables(await runtime.getPrompt('CRITIC_PROMPT'), context);
+    const systemPrompt = await getSystemPrompt(runtime, reviewer);
+
+    // Execute agent (offline acceptable - reviewing existing text) with schema validation retry
+    const { output } = await executeWithJSONRetry(
+        runtime,
+        (feedback) => runtime.executeAgent(
+            systemPrompt,
+            userPrompt + feedback,
+            false, // requiresOnline
+            'Critic',
+            CriticOutputSchema,
+            reviewer?.model
+        ),
+        'Critic',
+        CriticOutputSchema
+    );
+
+    return output;
+}
+
+/**
+ * Merge section-scoped critiques into one critique of the whole manuscript.
+ * The score is the word-weighted mean of the part scores; summaries are
+ * labelled with their sections and duplicate action items are dropped.
+ * @param parts Critique of each section group with its section titles and word count
+ * @returns Merged critic output
+ */
+export function mergeCriticOutputs(
+    parts: Array<{ sections: string[]; wordCount: number; output: CriticOutput }>
+): CriticOutput {
+    const totalWords = parts.reduce((sum, part) => sum + Math.max(part.wordCount, 1), 0);
+    const score = parts.reduce((sum, part) => sum + part.output.score * Math.max(part.wordCount, 1), 0) / totalWords;
+
+    return {
+        critic_summary: parts
+            .map(part => `[${part.sections.join(', ')}] ${part.output.critic_summary}`)
+            .join('\n\n'),
+        score,
+        action_items: Array.from(new Set(parts.flatMap(part => part.output.action_items)))
+    };
+}
+
+/**
+ * Critique the whole manuscript as the Critic or one panel reviewer.
+ * When the prompt exceeds the model's token ceiling, the manuscript is
+ * critiqued in groups of sections (each with an outline of the rest) and
+ * the results are merged.
+ * @param runtime Agent runtime instance
+ * @param context Agent context with variables
+ * @param reviewer Panel reviewer (omit for the single Critic)
+ * @returns Critic output for the whole manuscript
+ */
+async function reviewManuscript(
+    runtime: AgentRuntime,
+    context: AgentContext,
+    reviewer?: PanelReviewer
+): Promise<CriticOutput> {
+    // 1. Decide between a whole-manuscript and a section-scoped critique
+    const systemPrompt = await getSystemPrompt(runtime, reviewer);
+    const template = await runtime.getPrompt('CRITIC_PROMPT');
+    const limit = runtime.getContextLimit(reviewer?.model);
+    const promptTokens = countPromptTokens(systemPrompt) + countPromptTokens(resolveVariables(template, context));
+    const sections = splitManuscriptSections(context.current_manuscript);
+
+    if (promptTokens <= limit || sections.length <= 1) {
+        return critique(runtime, context, reviewer);
+    }
+
+    // 2. Size section groups to fit next to the prompt and the outline of the other sections
+    const overhead = countPromptTokens(systemPrompt)
+        + countPromptTokens(resolveVariables(template, { ...context, current_manuscript: buildScopedManuscript(sections, []) }));
+    const groups = groupSectionsByTokens(sections, Math.max(limit - overhead, 1));
+
+    runtime['emitLog']({
+        agent: 'Critic',
+        type: 'info',
+        content: `${reviewer ? `${reviewer.name}: m` : 'M'}anuscript prompt is ~${promptTokens.toLocaleString()} tokens (limit ${limit.toLocaleString()}); critiquing ${groups.length} section groups separately.`
+    });
+
+    // 3. Critique each group, then merge
+    const parts = [];
+    for (const group of groups) {
+        parts.push({
+            sections: group.map(index => sections[index].title),
+            wordCount: group.reduce((sum, index) => sum + sections[index].wordCount, 0),
+            output: await critique(runtime, scopeContextToSections(context, sections, group), reviewer)
+        });
+    }
+    return mergeCriticOutputs(parts);
+}
 
 /**
  * Execute the Critic agent to review the manuscript.
+ * With a reviewer panel configured in the project settings, every reviewer
+ * critiques the manuscript and the critiques are aggregated into a weighted
+ * score; per-reviewer scores are stored in the run history.
  * @param runtime Agent runtime instance
  * @param context Agent context with variables
  * @returns Critic output with score, summary, and action items
@@ -19,35 +133,55 @@ export async function runCritic(
     runtime: AgentRuntime,
     context: AgentContext
 ): Promise<CriticOutput> {
-    // Resolve the prompt with variables
-    const userPrompt = resolveVariables(CRITIC_PROMPT, context);
+    const panel = await runtime.getReviewerPanel();
 
-    // Execute agent (offline acceptable - reviewing existing text) with JSON parse retry
-    const { output } = await executeWithJSONRetry<CriticOutput>(
-        runtime,
-        () => runtime.executeAgent(
-            CRITIC_SYSTEM_PROMPT,
-            userPrompt,
-            false, // requiresOnline
-            'Critic'
-        ),
-        'Critic'
-    );
-    validateKeys(output, ['critic_summary', 'score', 'action_items']);
+    if (panel.length === 0) {
+        const output = await reviewManuscript(runtime, context);
 
-    // Ensure score is a number
-    output.score = parseNumber(output.score, 0);
+        // Add to history
+        await runtime.addHistory(
+            'critique_manuscript',
+            `Critique score: ${output.score.toFixed(2)}. ${output.action_items.length} action items identified.`,
+            true
+        );
 
-    // Ensure action_items is an array
-    if (!Array.isArray(output.action_items)) {
-        output.action_items = [];
+        return output;
     }
 
-    // Add to history
+    // Reviewers run concurrently; a failed reviewer is left out of the aggregate
+    const results = await Promise.allSettled(panel.map(reviewer => reviewManuscript(runtime, context, reviewer)));
+    const reviews = panel.flatMap((reviewer, i) => {
+        const result = results[i];
+        if (result.status === 'fulfilled') return [{ reviewer, output: result.value }];
+
+        runtime['emitLog']({
+            agent: 'Critic',
+            type: 'error',
+            content: `${reviewer.name} review failed: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`
+        });
+        return [];
+    });
+
+    if (reviews.length === 0) {
+        throw (results[0] as PromiseRejectedResult).reason;
+    }
+
+    const { output, scores } = aggregateReviews(reviews);
+
+    runtime['emitLog']({
+        agent: 'Critic',
+        type: 'info',
+        content: `Reviewer panel score: ${output.score.toFixed(2)}\n${scores
+            .map(score => `- ${score.reviewer}: ${score.score.toFixed(2)} (weight ${score.weight}, ${score.actionItems} action items)`)
+            .join('\n')}`
+    });
+
     await runtime.addHistory(
         'critique_manuscript',
-        `Critique score: ${output.score.toFixed(2)}. ${output.action_items.length} action items identified.`,
-        true
+        `Panel critique score: ${output.score.toFixed(2)} (${scores.map(score => `${score.reviewer} ${score.score.toFixed(2)}`).join(', ')}). ${output.action_items.length} action items identified.`,
+        true,
+        reviews.length < panel.length ? `${panel.length - reviews.length} reviewer(s) failed` : undefined,
+        scores
     );
 
     return output;
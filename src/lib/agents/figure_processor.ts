@@ -4,9 +4,7 @@
 
 import { AgentRuntime } from './runtime';
 import { resolveVariables } from './variables';
-import { validateKeys } from './parser';
-import { FIGURE_PROCESSOR_SYSTEM_PROMPT, FIGURE_PROCESSOR_PROMPT } from './prompts';
-import { AgentContext, FigureProcessorOutput } from './types';
+import { AgentContext, FigureProcessorOutput, FigureProcessorOutputSchema } from './types';
 import { ProjectImage } from '@/lib/db/schema';
 import { executeWithJSONRetry } from './json_retry';
 
@@ -36,20 +34,21 @@ export async function runFigureProcessor(
     };
 
     // Resolve the prompt with variables
-    const userPrompt = resolveVariables(FIGURE_PROCESSOR_PROMPT, figureContext as any);
+    const userPrompt = resolveVariables(await runtime.getPrompt('FIGURE_PROCESSOR_PROMPT'), figureContext as any);
+    const systemPrompt = await runtime.getPrompt('FIGURE_PROCESSOR_SYSTEM_PROMPT');
 
-    // Execute agent with image (requires online for vision capability) with JSON parse retry
-    const { output } = await executeWithJSONRetry<FigureProcessorOutput>(
+    // Execute agent with image (requires online for vision capability) with schema validation retry
+    const { output } = await executeWithJSONRetry(
         runtime,
-        () => runtime.executeAgentWithImage(
-            FIGURE_PROCESSOR_SYSTEM_PROMPT,
-            userPrompt,
+        (feedback) => runtime.executeAgentWithImage(
+            systemPrompt,
+            userPrompt + feedback,
             image.data, // Base64 image data
             'FigureProcessor'
         ),
-        'FigureProcessor'
+        'FigureProcessor',
+        FigureProcessorOutputSchema
     );
-    validateKeys(output, ['figure_caption', 'find', 'replace']);
 
     runtime['emitLog']({
         agent: 'FigureProcessor',
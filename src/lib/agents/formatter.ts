@@ -4,7 +4,6 @@
 
 import { AgentRuntime } from './runtime';
 import { resolveVariables } from './variables';
-import { FORMATTER_SYSTEM_PROMPT, FORMATTER_PROMPT } from './prompts';
 import { AgentContext } from './types';
 
 /**
@@ -18,11 +17,12 @@ export async function runFormatter(
     context: AgentContext
 ): Promise<string> {
     // Resolve the prompt with variables
-    const userPrompt = resolveVariables(FORMATTER_PROMPT, context);
+    const userPrompt = resolveVariables(await runtime.getPrompt('FORMATTER_PROMPT'), context);
+    const systemPrompt = await runtime.getPrompt('FORMATTER_SYSTEM_PROMPT');
 
     // Execute agent (requires online for web search)
-    const response = await runtime.executeAgent(
-        FORMATTER_SYSTEM_PROMPT,
+    const { response } = await runtime.executeAgent(
+        systemPrompt,
         userPrompt,
         true, // requiresOnline
         'Formatter'
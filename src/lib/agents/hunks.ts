@@ -0,0 +1,64 @@
+/**
+ * Pending Hunks - Propose-only edits awaiting user review.
+ * Accepted hunks go through the same matching logic the agents use when applying directly.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { applyWriteOperations } from './writer';
+import { applyReviseOperations } from './reviser';
+import { PendingHunk, WriteOperation, ReviseOperation } from './types';
+
+/**
+ * Wrap agent operations as pending hunks.
+ * @param agent Agent that proposed the operations
+ * @param operations Find/replace operations
+ * @param sceneId Scene the operations target
+ * @returns Pending hunks in operation order
+ */
+export function createPendingHunks(
+    agent: 'Writer' | 'Reviser',
+    operations: WriteOperation[] | ReviseOperation[],
+    sceneId?: string
+): PendingHunk[] {
+    const createdAt = Date.now();
+    return operations.map(operation => ({
+        id: uuidv4(),
+        sceneId,
+        createdAt,
+        agent,
+        operation
+    }) as PendingHunk);
+}
+
+/**
+ * Apply accepted hunks to the manuscript, in order.
+ * Writer hunks use the writer's multi-tier matching (append fallback);
+ * Reviser hunks use the reviser's exact/fuzzy matching (skip on no match).
+ * @param manuscript Current manuscript text
+ * @param hunks Accepted hunks
+ * @returns Updated manuscript
+ */
+export function applyPendingHunks(manuscript: string, hunks: PendingHunk[]): string {
+    let updated = manuscript;
+
+    for (const hunk of hunks) {
+        updated = hunk.agent === 'Writer'
+            ? applyWriteOperations(updated, [hunk.operation])
+            : applyReviseOperations(updated, [hunk.operation]);
+    }
+
+    return updated;
+}
+
+/**
+ * Get the text a hunk should be anchored to in the editor: the first
+ * non-empty line of its find text (editor blocks are single paragraphs).
+ * @param hunk Pending hunk
+ * @returns Anchor text, or empty string if the hunk has no find text
+ */
+export function getHunkAnchor(hunk: PendingHunk): string {
+    return hunk.operation.find
+        .split('\n')
+        .map(line => line.trim())
+        .find(line => line.length > 0) || '';
+}
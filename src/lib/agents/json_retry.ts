@@ -1,32 +1,74 @@
 /**
  * Helper utilities for resilient agent execution.
- * Retries an agent call when JSON parsing fails, to handle occasional malformed LLM output.
+ * Validates agent JSON output against its schema and retries with the
+ * validation errors fed back to the model, to handle malformed LLM output.
  */
 
+import { z } from 'zod';
+import { NoObjectGeneratedError } from 'ai';
 import { parseJSON } from './parser';
 import type { AgentRuntime } from './runtime';
+import type { AgentCallResult } from './types';
+
+/** Longest excerpt of a rejected structured-output response fed back to the model */
+const MAX_REJECTED_TEXT = 2000;
 
 /**
- * Execute an agent call that returns JSON and retry on parse failure.
+ * Describe why an attempt's output was rejected.
+ * @param error Parse or validation error, or the provider's NoObjectGeneratedError
+ */
+function describeError(error: unknown): string {
+    if (NoObjectGeneratedError.isInstance(error)) {
+        const cause = error.cause instanceof Error ? error.cause.message : error.message;
+        const text = error.text
+            ? `\n\nYour response was:\n${error.text.substring(0, MAX_REJECTED_TEXT)}${error.text.length > MAX_REJECTED_TEXT ? '...' : ''}`
+            : '';
+        return `${cause}${text}`;
+    }
+    return error instanceof z.ZodError
+        ? z.prettifyError(error)
+        : error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Build the note appended to the user prompt when retrying after invalid output.
+ * @param details Description of the rejected output (from describeError)
+ * @returns Feedback text for the model
+ */
+function buildRetryFeedback(details: string): string {
+    return `\n\nYour previous response was rejected:\n${details}\n\nReturn ONLY a corrected JSON object with the required keys and types.`;
+}
+
+/**
+ * Execute an agent call that returns JSON, validate it against a schema, and
+ * retry on parse or validation failure. Providers with native structured output
+ * validate the object themselves; their NoObjectGeneratedError is retried the
+ * same way. Other call failures (network, authentication) are not retried.
  * @param runtime Agent runtime instance
- * @param call Function that executes the agent and returns raw text
+ * @param call Function that executes the agent and returns its result; receives
+ *             feedback to append to the user prompt (empty on the first attempt)
  * @param agentName Name of the agent (for logging/history)
- * @param maxRetries Number of retry attempts on parse failure (default: 1)
- * @returns Parsed output and raw response text
+ * @param schema Zod schema of the agent output
+ * @param maxRetries Number of retry attempts on parse/validation failure (default: 2)
+ * @returns Validated output and raw response text
  */
 export async function executeWithJSONRetry<T>(
     runtime: AgentRuntime,
-    call: () => Promise<string>,
+    call: (feedback: string) => Promise<AgentCallResult>,
     agentName: string,
-    maxRetries: number = 1
+    schema: z.ZodType<T>,
+    maxRetries: number = 2
 ): Promise<{ output: T; raw: string }> {
     let lastError: unknown;
+    let feedback = '';
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
-        const response = await call();
+        let result: AgentCallResult | undefined;
 
         try {
-            const parsed = parseJSON<T>(response);
+            result = await call(feedback);
+            const output = schema.parse(parseJSON<unknown>(result.response));
+            runtime.traceAttempt(result.callId, attempt);
 
             if (attempt > 0) {
                 await runtime.addHistory(
@@ -36,15 +78,23 @@ export async function executeWithJSONRetry<T>(
                 );
             }
 
-            return { output: parsed, raw: response };
+            return { output, raw: result.response };
         } catch (error) {
+            // The call itself failed for a reason other than invalid output
+            if (result === undefined && !NoObjectGeneratedError.isInstance(error)) {
+                throw error;
+            }
+
             lastError = error;
+            const details = describeError(error);
+            feedback = buildRetryFeedback(details);
 
+            runtime.traceAttempt(result?.callId, attempt, details);
             await runtime.addHistory(
                 'agent_parse_error',
-                `${agentName} parse failed on attempt ${attempt + 1}`,
+                `${agentName} output invalid on attempt ${attempt + 1}`,
                 false,
-                error instanceof Error ? error.message : String(error)
+                details
             );
 
             if (attempt === maxRetries) {
@@ -2,47 +2,51 @@
  * Manager Agent - Central orchestrator that decides the next action.
  */
 
+import { z } from 'zod';
 import { AgentRuntime } from './runtime';
 import { resolveVariables, formatArrayAsMarkdown } from './variables';
-import { validateKeys } from './parser';
-import { MANAGER_SYSTEM_PROMPT, MANAGER_PROMPT } from './prompts';
-import { AgentContext, ManagerDecision, PlanSection, CriticOutput } from './types';
-import { runFormatter } from './formatter';
-import { runPlanner } from './planner';
-import { runWriter, getNextSectionToWrite } from './writer';
-import { runCritic } from './critic';
-import { runReviser } from './reviser';
-import { runFigureProcessor, getUncitedImages } from './figure_processor';
-import { runTableProcessor } from './table_processor';
+import { AgentContext, ManagerDecision, EditMode, PendingHunk } from './types';
+import { getEnabledActions, formatActionList, buildDecisionSchema, ManagerAction, ManagerRunState, ManagerStepState } from './actions';
 import { db } from '@/lib/db';
-import { ProjectImage } from '@/lib/db/schema';
+import { ProjectImage, RunCheckpoint } from '@/lib/db/schema';
 import { executeWithJSONRetry } from './json_retry';
+import { getPlanSections, getSectionBudgets, formatSectionBudgets } from './word_budgets';
+import { getUninsertedTables, formatUploadedTables } from './table_processor';
+import { hashManuscript, isResumable } from './checkpoint';
+import { applyCitationMode } from '@/lib/references/citation-keys';
+import { v4 as uuidv4 } from 'uuid';
 
 /**
  * Get the next action from the Manager agent.
  * @param runtime Agent runtime instance
- * @param context Agent context with current state
+ * @param context Agent context with current state (including available_actions)
+ * @param actions Actions the Manager may choose this step
  * @returns Manager decision
  */
 async function getNextAction(
     runtime: AgentRuntime,
-    context: AgentContext
+    context: AgentContext,
+    actions: ManagerAction[]
 ): Promise<ManagerDecision> {
-    // Resolve the prompt with variables
-    const userPrompt = resolveVariables(MANAGER_PROMPT, context);
+    const decisionSchema = buildDecisionSchema(actions);
 
-    // Execute manager agent (offline acceptable - decision making) with JSON parse retry
-    const { output } = await executeWithJSONRetry<ManagerDecision>(
+    // Resolve the prompts with variables (system prompt carries journal profile rules)
+    const systemPrompt = resolveVariables(await runtime.getPrompt('MANAGER_SYSTEM_PROMPT'), context);
+    const userPrompt = resolveVariables(await runtime.getPrompt('MANAGER_PROMPT'), context);
+
+    // Execute manager agent (offline acceptable - decision making) with schema validation retry
+    const { output } = await executeWithJSONRetry(
         runtime,
-        () => runtime.executeAgent(
-            MANAGER_SYSTEM_PROMPT,
-            userPrompt,
+        (feedback) => runtime.executeAgent(
+            systemPrompt,
+            userPrompt + feedback,
             false, // requiresOnline
-            'Manager'
+            'Manager',
+            decisionSchema
         ),
-        'Manager'
+        'Manager',
+        decisionSchema
     );
-    validateKeys(output, ['action', 'reasoning']);
 
     return output;
 }
@@ -57,6 +61,10 @@ async function getNextAction(
  * @param getCurrentManuscript Function to get current manuscript text
  * @param updateManuscript Function to update manuscript text
  * @param onLog Callback for log entries
+ * @param samplePaper Optional sample paper for the formatter
+ * @param resume Continue from the last checkpoint instead of starting a new run
+ * @param mode 'apply' edits the manuscript; 'propose' hands Writer/Reviser edits to onProposeHunks and ends the run
+ * @param onProposeHunks Callback receiving pending hunks in propose mode
  * @returns Final manuscript text
  */
 export async function runManagerWorkflow(
@@ -69,7 +77,10 @@ export async function runManagerWorkflow(
     getCurrentManuscript: () => Promise<string>,
     updateManuscript: (text: string) => Promise<void>,
     onLog?: (log: any) => void,
-    samplePaper?: string // Optional sample paper for formatter
+    samplePaper?: string, // Optional sample paper for formatter
+    resume: boolean = false,
+    mode: EditMode = 'apply',
+    onProposeHunks?: (hunks: PendingHunk[]) => void
 ): Promise<string> {
     // Create runtime
     const runtime = new AgentRuntime(novelId, sceneId);
@@ -80,322 +91,213 @@ export async function runManagerWorkflow(
     }
 
     // Get or create state
-    await runtime.getOrCreateState(instructions, maxPasses, minScore);
+    const initialState = await runtime.getOrCreateState(instructions, maxPasses, minScore);
 
     // Get current manuscript
-    let currentManuscript = await getCurrentManuscript();
+    const currentManuscript = await getCurrentManuscript();
 
-    // Variables for tracking critique/revision state
-    let lastCritiqueScore: number | undefined;
-    let lastCritiqueSummary: string | undefined;
-    let lastActionItems: string[] = [];
-    let reviserRequestedContinue = false;
+    // Actions enabled for this project
+    const novel = await db.novels.get(novelId);
+    const actions = getEnabledActions(novel?.settings?.disabledActions);
+    const tables = novel?.settings?.tables || [];
 
-    // Main loop
-    let loopCount = 0;
-    const MAX_LOOPS = 50; // Safety limit
-
-    while (loopCount < MAX_LOOPS) {
-        loopCount++;
-
-        // Build context
-        const context = await runtime.buildContext(currentManuscript, {
-            critique_score: lastCritiqueScore,
-            critique_summary: lastCritiqueSummary,
-            action_items: formatArrayAsMarkdown(lastActionItems),
-            images: images.map(img => img.name).join(', '),
-            sample_paper: samplePaper // Pass sample paper for formatter
-        });
-
-        // Get next action from manager
-        const decision = await getNextAction(runtime, context);
+    // Restore the previous run's checkpoint if resuming
+    const previous = resume && isResumable(initialState.runCheckpoint)
+        ? initialState.runCheckpoint
+        : undefined;
 
+    if (resume && !previous) {
         runtime['emitLog']({
             agent: 'Manager',
             type: 'info',
-            content: `Decision: ${decision.action} - ${decision.reasoning}`
+            content: 'No interrupted run to resume. Starting a new run.'
         });
+    }
 
-        // Execute the chosen action
-        switch (decision.action) {
-            case 'generate_format_guidance': {
-                await runFormatter(runtime, context);
-                break;
-            }
-
-            case 'generate_plan': {
-                await runPlanner(runtime, context);
-                break;
-            }
-
-            case 'process_images': {
-                const uncited = getUncitedImages(currentManuscript, images);
-                if (uncited.length === 0) {
-                    runtime['emitLog']({
-                        agent: 'Manager',
-                        type: 'info',
-                        content: 'All images are already cited in manuscript'
-                    });
-                    break;
-                }
-
-                // Use Manager's chosen image_filename, or fallback to first uncited
-                const requestedFilename = decision.parameters?.image_filename;
-                let img = requestedFilename
-                    ? uncited.find(i => i.name === requestedFilename) || images.find(i => i.name === requestedFilename)
-                    : uncited[0];
-
-                if (!img) {
-                    runtime['emitLog']({
-                        agent: 'Manager',
-                        type: 'info',
-                        content: `Image "${requestedFilename}" not found. Using first uncited image.`
-                    });
-                    img = uncited[0];
-                }
-
-                runtime['emitLog']({
-                    agent: 'FigureProcessor',
-                    type: 'info',
-                    content: `Processing image: ${img.name}`
-                });
+    // Manuscript and critique/revision state, updated by action handlers
+    const run: ManagerRunState = {
+        manuscript: currentManuscript,
+        lastCritiqueScore: previous?.lastCritiqueScore,
+        lastCritiqueSummary: previous?.lastCritiqueSummary,
+        lastActionItems: previous?.lastActionItems ?? [],
+        reviserRequestedContinue: previous?.reviserRequestedContinue ?? false
+    };
+    let lastDecision: RunCheckpoint['lastDecision'] = previous?.lastDecision;
 
-                const result = await runFigureProcessor(runtime, context, img);
+    // Main loop
+    let loopCount = previous?.loopCount ?? 0;
+    const MAX_LOOPS = 50; // Safety limit
 
-                // Apply find/replace to manuscript
-                if (result.find && result.replace) {
-                    currentManuscript = currentManuscript.replace(result.find, result.replace);
-                    await updateManuscript(currentManuscript);
-                }
-                break;
-            }
+    if (previous) {
+        runtime['emitLog']({
+            agent: 'Manager',
+            type: 'info',
+            content: `Resuming run after step ${previous.loopCount}${previous.lastDecision ? ` (${previous.lastDecision.action})` : ''}.`
+        });
 
-            case 'process_tables': {
-                const rawTable = decision.parameters?.raw_table;
-                if (!rawTable || typeof rawTable !== 'string' || rawTable.trim().length === 0) {
-                    runtime['emitLog']({
-                        agent: 'Manager',
-                        type: 'error',
-                        content: 'No raw_table provided in parameters for process_tables action'
-                    });
-                    break;
-                }
+        // The editor copy wins: it may hold user edits made after the checkpoint
+        if (hashManuscript(currentManuscript) !== previous.manuscriptHash) {
+            runtime['emitLog']({
+                agent: 'Manager',
+                type: 'info',
+                content: 'Manuscript changed since the last checkpoint. Continuing with the current editor content.'
+            });
+        }
+    }
 
+    const runId = previous?.runId ?? uuidv4();
+    const startedAt = previous?.startedAt ?? Date.now();
+    let lastCheckpoint!: RunCheckpoint;
+
+    /**
+     * Persist loop-local state so an interrupted run can continue from here.
+     * @param status Run status to record
+     * @param completedLoops Number of fully completed manager steps
+     * @param error Failure or stop reason
+     */
+    const saveCheckpoint = async (status: RunCheckpoint['status'], completedLoops: number, error?: string) => {
+        lastCheckpoint = {
+            runId,
+            status,
+            loopCount: completedLoops,
+            lastDecision,
+            manuscriptHash: hashManuscript(run.manuscript),
+            lastCritiqueScore: run.lastCritiqueScore,
+            lastCritiqueSummary: run.lastCritiqueSummary,
+            lastActionItems: run.lastActionItems,
+            reviserRequestedContinue: run.reviserRequestedContinue,
+            error,
+            startedAt,
+            updatedAt: Date.now()
+        };
+        await runtime.updateState({ runCheckpoint: lastCheckpoint });
+    };
+
+    // Token/cost totals accumulate across resumes of the same run
+    if (!previous) {
+        await runtime.startUsageRun(runId);
+    }
+    await runtime.startTrace(runId);
+    await saveCheckpoint('running', loopCount);
+
+    try {
+        while (loopCount < MAX_LOOPS) {
+            // Stop before the next step once the run's budget is used up
+            const budgetReason = await runtime.checkBudget();
+            if (budgetReason) {
                 runtime['emitLog']({
-                    agent: 'TableProcessor',
+                    agent: 'System',
                     type: 'info',
-                    content: `Processing raw table (${rawTable.substring(0, 50)}...)`
+                    content: `${budgetReason}. Stopping workflow.`
                 });
 
-                const tableResult = await runTableProcessor(runtime, context, rawTable);
-
-                // Apply find/replace to manuscript
-                if (tableResult.find && tableResult.replace) {
-                    currentManuscript = currentManuscript.replace(tableResult.find, tableResult.replace);
-                    await updateManuscript(currentManuscript);
-                }
-                break;
-            }
-
-            case 'write_section': {
-                // Get the section to write
-                const state = await db.agent_state.get(runtime['stateId']!);
-                const sectionPlan = state?.sectionPlan;
-
-                if (!sectionPlan) {
-                    throw new Error('No section plan available for writing');
-                }
-
-                const sections: PlanSection[] = Array.isArray(sectionPlan)
-                    ? sectionPlan
-                    : sectionPlan.sections || [];
-
-                const normalizeTitle = (title: string) => (
-                    title
-                        .trim()
-                        .toLowerCase()
-                        .replace(/^[\d\s.\-–—)]+/, '')
-                        .replace(/\s+/g, ' ')
+                await runtime.addHistory(
+                    'budget_reached',
+                    `Workflow stopped: ${budgetReason}`,
+                    false
                 );
 
-                const requestedTitle = decision.parameters?.section_title?.trim();
-                let nextSection: PlanSection | null = null;
-
-                if (requestedTitle) {
-                    const requestedNormalized = normalizeTitle(requestedTitle);
-                    nextSection = sections.find(section => normalizeTitle(section.section_title) === requestedNormalized)
-                        || sections.find(section => {
-                            const candidate = normalizeTitle(section.section_title);
-                            return candidate.includes(requestedNormalized) || requestedNormalized.includes(candidate);
-                        })
-                        || null;
-                }
-
-                if (!nextSection) {
-                    if (requestedTitle) {
-                        runtime['emitLog']({
-                            agent: 'Manager',
-                            type: 'info',
-                            content: `Requested section "${requestedTitle}" not found in plan. Falling back to next missing section.`
-                        });
-                    }
-
-                    // Find next section by checking what's missing from the manuscript
-                    nextSection = getNextSectionToWrite(sections, currentManuscript);
-                }
-
-                if (!nextSection) {
-                    runtime['emitLog']({
-                        agent: 'Manager',
-                        type: 'info',
-                        content: 'No more sections to write'
-                    });
-                    break;
-                }
-
-                // Build context with section details
-                const writerContext = await runtime.buildContext(currentManuscript, {
-                    section_title: nextSection.section_title,
-                    section_summary: nextSection.section_summary,
-                    section_word_count: nextSection.section_word_count
-                });
-
-                // Write the section
-                currentManuscript = await runWriter(runtime, writerContext, currentManuscript);
-
-                // Update manuscript in UI/DB
-                await updateManuscript(currentManuscript);
-
-                break;
-            }
-
-            case 'critique_and_improve_manuscript': {
-                // Capture pass index before starting a critique cycle
-                const state = await db.agent_state.get(runtime['stateId']!);
-                let passIndex = state?.passIndex || 0;
-
-                if (passIndex >= maxPasses) {
-                    runtime['emitLog']({
-                        agent: 'Manager',
-                        type: 'info',
-                        content: `Max critique-revision cycles reached (${passIndex}/${maxPasses}). Skipping critique cycle.`
-                    });
-                    break;
-                }
-
-                // Allow up to 3 critique-revision cycles per Manager decision, or until global max passes
-                let internalLoops = 0;
-                const MAX_INTERNAL_LOOPS = 3;
-
-                while (passIndex < maxPasses && internalLoops < MAX_INTERNAL_LOOPS) {
-                    runtime['emitLog']({
-                        agent: 'Manager',
-                        type: 'info',
-                        content: `Starting critique-revision cycle ${passIndex + 1} of ${maxPasses}.`
-                    });
-
-                    // Critique the current manuscript
-                    const critiqueContext = await runtime.buildContext(currentManuscript);
-                    const critique = await runCritic(runtime, critiqueContext);
-                    lastCritiqueScore = critique.score;
-                    lastCritiqueSummary = critique.critic_summary;
-                    lastActionItems = critique.action_items;
-
-                    const needsRevision = (lastCritiqueScore < minScore) && (lastActionItems.length > 0);
-
-                    if (needsRevision) {
-                        // Revise based on critique feedback
-                        const reviseContext = await runtime.buildContext(currentManuscript, {
-                            critique_score: lastCritiqueScore,
-                            critique_summary: lastCritiqueSummary,
-                            action_items: formatArrayAsMarkdown(lastActionItems)
-                        });
-
-                        const reviseResult = await runReviser(runtime, reviseContext, currentManuscript);
-                        currentManuscript = reviseResult.manuscript;
-                        await updateManuscript(currentManuscript);
-
-                        // Re-critique to capture updated score and action items within the same cycle
-                        const followupContext = await runtime.buildContext(currentManuscript);
-                        const followupCritique = await runCritic(runtime, followupContext);
-                        lastCritiqueScore = followupCritique.score;
-                        lastCritiqueSummary = followupCritique.critic_summary;
-                        lastActionItems = followupCritique.action_items;
-                    }
-
-                    // Track cycle completion (critique + optional revision)
-                    passIndex += 1;
-                    internalLoops += 1;
-                    await runtime.updateState({ passIndex });
-
-                    if (passIndex >= maxPasses) {
-                        runtime['emitLog']({
-                            agent: 'Manager',
-                            type: 'info',
-                            content: `Max critique-revision cycles reached (${passIndex}/${maxPasses}).`
-                        });
-                        break;
-                    }
-
-                    // Stop if target is met or no actionable items remain
-                    if ((lastCritiqueScore >= minScore) || (lastActionItems.length === 0)) {
-                        break;
-                    }
-                }
-
-                break;
+                // Resumable once the budget is raised
+                await saveCheckpoint('stopped', loopCount, budgetReason);
+                return run.manuscript;
             }
 
-            // Keep for manual/targeted usage
-            case 'revise_manuscript': {
-                const rawActionItems = decision.parameters?.action_items;
-                const requestedActionItems = Array.isArray(rawActionItems)
-                    ? rawActionItems
-                    : (typeof rawActionItems === 'string' && rawActionItems.trim().length > 0)
-                        ? [rawActionItems.trim()]
-                        : undefined;
-
-                const actionItemsForReviser = requestedActionItems && requestedActionItems.length > 0
-                    ? requestedActionItems
-                    : lastActionItems;
-
-                const reviseContext = await runtime.buildContext(currentManuscript, {
-                    critique_score: lastCritiqueScore,
-                    critique_summary: lastCritiqueSummary,
-                    action_items: formatArrayAsMarkdown(actionItemsForReviser)
-                });
-
-                const result = await runReviser(runtime, reviseContext, currentManuscript);
-                currentManuscript = result.manuscript;
-                reviserRequestedContinue = result.shouldContinue;
-                lastActionItems = actionItemsForReviser;
-
-                // Update manuscript in UI/DB
-                await updateManuscript(currentManuscript);
-
-                break;
-            }
-
-            case 'finish': {
+            loopCount++;
+            await runtime.startStep(`Step ${loopCount}`);
+
+            // Offer only the enabled actions whose preconditions hold
+            const step: ManagerStepState = {
+                runtime,
+                state: (await db.agent_state.get(runtime['stateId']!))!,
+                run,
+                images,
+                tables,
+                maxPasses,
+                minScore
+            };
+            const available = actions.filter(action => !action.precondition?.(step));
+
+            // Build context
+            const context = await runtime.buildContext(run.manuscript, {
+                critique_score: run.lastCritiqueScore,
+                critique_summary: run.lastCritiqueSummary,
+                action_items: formatArrayAsMarkdown(run.lastActionItems),
+                images: images.map(img => img.name).join(', '),
+                uploaded_tables: formatUploadedTables(getUninsertedTables(run.manuscript, tables)),
+                sample_paper: samplePaper, // Pass sample paper for formatter
+                section_budgets: formatSectionBudgets(getSectionBudgets(getPlanSections(step.state), run.manuscript))
+            });
+            context.available_actions = formatActionList(available, context);
+
+            // Get next action from manager
+            const decision = await getNextAction(runtime, context, available);
+            runtime.describeStep(decision.action, decision.reasoning);
+
+            runtime['emitLog']({
+                agent: 'Manager',
+                type: 'info',
+                content: `Decision: ${decision.action} - ${decision.reasoning}`
+            });
+
+            // Execute the chosen action (the decision schema only allows available actions)
+            const action = available.find(a => a.name === decision.action)!;
+            const params = action.parameters.safeParse(decision.parameters ?? {});
+
+            let stepError: string | undefined;
+
+            if (!params.success) {
+                stepError = `Invalid parameters for ${action.name}: ${z.prettifyError(params.error)}`;
                 runtime['emitLog']({
                     agent: 'Manager',
-                    type: 'info',
-                    content: 'Manuscript complete!'
+                    type: 'error',
+                    content: stepError
                 });
-
-                await runtime.addHistory(
-                    'finish',
-                    `Workflow completed. Final score: ${lastCritiqueScore?.toFixed(2) || 'N/A'}`,
-                    true
-                );
-
-                return currentManuscript;
+            } else {
+                const result = await action.handler({
+                    ...step,
+                    context,
+                    commitManuscript: async (edited, version) => {
+                        // Later steps work on the text as saved (compact [@key] citations in key mode)
+                        const manuscript = await applyCitationMode(novelId, edited);
+                        const previousManuscript = run.manuscript;
+                        run.manuscript = manuscript;
+
+                        // Update manuscript in UI/DB
+                        await updateManuscript(manuscript);
+                        await runtime.recordVersion(previousManuscript, { ...version, content: manuscript });
+                    },
+                    checkpoint: () => saveCheckpoint('running', loopCount - 1),
+                    editMode: mode,
+                    proposeHunks: (hunks) => onProposeHunks?.(hunks)
+                }, params.data);
+
+                if (result?.finished) {
+                    lastDecision = { action: decision.action, parameters: decision.parameters, reasoning: decision.reasoning };
+                    await runtime.endStep();
+                    await saveCheckpoint('completed', loopCount);
+
+                    return run.manuscript;
+                }
             }
 
-            default: {
-                throw new Error(`Unknown action: ${decision.action}`);
-            }
+            // Step complete - checkpoint before asking the manager again
+            lastDecision = { action: decision.action, parameters: decision.parameters, reasoning: decision.reasoning };
+            await runtime.endStep(stepError);
+            await saveCheckpoint('running', loopCount);
         }
+    } catch (error) {
+        await runtime.endStep(error instanceof Error ? error.message : String(error));
+
+        // Keep the last completed step so the run can be resumed, but record the failure
+        await runtime.updateState({
+            runCheckpoint: {
+                ...lastCheckpoint,
+                status: 'failed',
+                error: error instanceof Error ? error.message : String(error),
+                updatedAt: Date.now()
+            }
+        });
+        throw error;
     }
 
     // Safety limit reached
@@ -411,5 +313,8 @@ export async function runManagerWorkflow(
         false
     );
 
-    return currentManuscript;
+    // Nothing left to resume once the safety limit is hit
+    await saveCheckpoint('completed', loopCount);
+
+    return run.manuscript;
 }
@@ -4,9 +4,7 @@
 
 import { AgentRuntime } from './runtime';
 import { resolveVariables } from './variables';
-import { validateKeys } from './parser';
-import { PLANNER_SYSTEM_PROMPT, PLANNER_PROMPT } from './prompts';
-import { AgentContext, PlannerOutput, PlanSection } from './types';
+import { AgentContext, PlanSection, PlannerOutputSchema } from './types';
 import { executeWithJSONRetry } from './json_retry';
 
 /**
@@ -21,25 +19,22 @@ export async function runPlanner(
     context: AgentContext
 ): Promise<PlanSection[]> {
     // Resolve the prompt with variables
-    const userPrompt = resolveVariables(PLANNER_PROMPT, context);
+    const userPrompt = resolveVariables(await runtime.getPrompt('PLANNER_PROMPT'), context);
+    const systemPrompt = await runtime.getPrompt('PLANNER_SYSTEM_PROMPT');
 
-    // Execute agent (requires online for research) with JSON parse retry
-    const { output } = await executeWithJSONRetry<PlannerOutput>(
+    // Execute agent (requires online for research) with schema validation retry
+    const { output } = await executeWithJSONRetry(
         runtime,
-        () => runtime.executeAgent(
-            PLANNER_SYSTEM_PROMPT,
-            userPrompt,
+        (feedback) => runtime.executeAgent(
+            systemPrompt,
+            userPrompt + feedback,
             true, // requiresOnline
-            'Planner'
+            'Planner',
+            PlannerOutputSchema
         ),
-        'Planner'
+        'Planner',
+        PlannerOutputSchema
     );
-    validateKeys(output, ['sections']);
-
-    // Validate each section has required fields
-    for (const section of output.sections) {
-        validateKeys(section, ['section_title', 'section_summary', 'section_word_count']);
-    }
 
     // Update state with the new plan
     // sectionsDrafted starts empty - manager will determine completion from manuscript
@@ -0,0 +1,197 @@
+/**
+ * Prompt Overrides - Per-project replacements for the built-in agent prompts.
+ *
+ * Any prompt in prompts.ts can be overridden for one project (stored in the
+ * prompt_overrides table and synced). Overrides are checked against the
+ * variables their agent fills in: an unknown {placeholder} would reach the
+ * model verbatim, and a placeholder the default uses but the override drops
+ * leaves the agent without that context. Each run records the version of the
+ * prompts it used (see getPromptVersion).
+ */
+
+import { db } from '@/lib/db';
+import { PromptOverride } from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+import * as PROMPTS from './prompts';
+import { AGENT_CONTEXT_KEYS } from './types';
+import { checkTemplate, templateVariables } from './prompt_template';
+
+/**
+ * Name of a built-in prompt constant, e.g. 'CRITIC_PROMPT'.
+ */
+export type PromptId = keyof typeof PROMPTS;
+
+/**
+ * A built-in prompt that can be overridden.
+ */
+export interface PromptDefinition {
+    id: PromptId;
+    /** Agent that sends the prompt */
+    agent: string;
+    /** System prompts set the agent's role; user prompts carry the task and the context */
+    role: 'system' | 'user';
+    /** Whether {placeholders} are filled in; other prompts are sent as written */
+    resolved: boolean;
+    /** Variables the agent adds to AgentContext for this prompt */
+    extraVariables?: string[];
+    defaultTemplate: string;
+}
+
+/**
+ * Result of validating a prompt template.
+ */
+export interface PromptValidation {
+    /** Placeholders the agent does not fill in (sent to the model verbatim) */
+    unknown: string[];
+    /** Placeholders of the default prompt that the template no longer uses */
+    missing: string[];
+    /** Syntax error, e.g. an unclosed {#if} block */
+    error?: string;
+}
+
+/** Version recorded for runs that used the built-in prompt */
+export const DEFAULT_PROMPT_VERSION = 'default';
+
+const PROMPT_USAGE: Record<PromptId, Omit<PromptDefinition, 'id' | 'defaultTemplate'>> = {
+    MANAGER_SYSTEM_PROMPT: { agent: 'Manager', role: 'system', resolved: true },
+    MANAGER_PROMPT: { agent: 'Manager', role: 'user', resolved: true },
+    FORMATTER_SYSTEM_PROMPT: { agent: 'Formatter', role: 'system', resolved: false },
+    FORMATTER_PROMPT: { agent: 'Formatter', role: 'user', resolved: true },
+    FIGURE_PROCESSOR_SYSTEM_PROMPT: { agent: 'FigureProcessor', role: 'system', resolved: false },
+    FIGURE_PROCESSOR_PROMPT: { agent: 'FigureProcessor', role: 'user', resolved: true, extraVariables: ['image_filename'] },
+    TABLE_PROCESSOR_SYSTEM_PROMPT: { agent: 'TableProcessor', role: 'system', resolved: false },
+    TABLE_PROCESSOR_PROMPT: { agent: 'TableProcessor', role: 'user', resolved: true, extraVariables: ['raw_table'] },
+    TABLE_CAPTION_SYSTEM_PROMPT: { agent: 'TableProcessor', role: 'system', resolved: false },
+    TABLE_CAPTION_PROMPT: { agent: 'TableProcessor', role: 'user', resolved: true, extraVariables: ['table_name', 'table_label', 'table_data'] },
+    PLANNER_SYSTEM_PROMPT: { agent: 'Planner', role: 'system', resolved: false },
+    PLANNER_PROMPT: { agent: 'Planner', role: 'user', resolved: true },
+    WRITER_SYSTEM_PROMPT: { agent: 'Writer', role: 'system', resolved: false },
+    WRITER_PROMPT: { agent: 'Writer', role: 'user', resolved: true },
+    CRITIC_SYSTEM_PROMPT: { agent: 'Critic', role: 'system', resolved: false },
+    CRITIC_PROMPT: { agent: 'Critic', role: 'user', resolved: true },
+    METHODOLOGIST_REVIEWER_PROMPT: { agent: 'Critic (Methodologist)', role: 'system', resolved: false },
+    STATISTICIAN_REVIEWER_PROMPT: { agent: 'Critic (Statistician)', role: 'system', resolved: false },
+    CLINICAL_EDITOR_REVIEWER_PROMPT: { agent: 'Critic (Clinical Editor)', role: 'system', resolved: false },
+    LANGUAGE_EDITOR_REVIEWER_PROMPT: { agent: 'Critic (Language Editor)', role: 'system', resolved: false },
+    REVISER_SYSTEM_PROMPT: { agent: 'Reviser', role: 'system', resolved: false },
+    REVISER_PROMPT: { agent: 'Reviser', role: 'user', resolved: true },
+    RESPONSE_WRITER_SYSTEM_PROMPT: { agent: 'ResponseWriter', role: 'system', resolved: false },
+    RESPONSE_WRITER_PROMPT: { agent: 'ResponseWriter', role: 'user', resolved: true },
+    CITATION_ORCHESTRATOR_SYSTEM_PROMPT: { agent: 'CitationOrchestrator', role: 'system', resolved: false },
+    CITATION_ORCHESTRATOR_PROMPT: { agent: 'CitationOrchestrator', role: 'user', resolved: true },
+    CITATION_GENERATOR_SYSTEM_PROMPT: { agent: 'CitationGenerator', role: 'system', resolved: false },
+    CITATION_GENERATOR_PROMPT: { agent: 'CitationGenerator', role: 'user', resolved: true }
+};
+
+/**
+ * All overridable prompts, in prompts.ts order.
+ */
+export const PROMPT_DEFINITIONS: PromptDefinition[] = (Object.keys(PROMPT_USAGE) as PromptId[]).map(id => ({
+    id,
+    ...PROMPT_USAGE[id],
+    defaultTemplate: PROMPTS[id]
+}));
+
+/**
+ * Get a prompt's definition.
+ * @param id Prompt ID
+ * @throws Error if there is no such prompt
+ */
+export function getPromptDefinition(id: string): PromptDefinition {
+    const definition = PROMPT_DEFINITIONS.find(d => d.id === id);
+    if (!definition) throw new Error(`Unknown prompt: ${id}`);
+    return definition;
+}
+
+/**
+ * Validate a template against the variables its agent fills in.
+ * Placeholders that the default prompt already uses as literal text are allowed.
+ * @param id Prompt ID
+ * @param template Template to check
+ */
+export function validatePromptTemplate(id: PromptId, template: string): PromptValidation {
+    const definition = getPromptDefinition(id);
+    const variables = new Set<string>(definition.resolved ? [...AGENT_CONTEXT_KEYS, ...(definition.extraVariables || [])] : []);
+    const defaults = templateVariables(definition.defaultTemplate);
+
+    // Unresolved prompts are sent as written, so their syntax does not matter
+    const error = checkTemplate(template);
+    if (error) return definition.resolved ? { unknown: [], missing: [], error } : { unknown: [], missing: [] };
+
+    const used = templateVariables(template);
+    return {
+        unknown: used.filter(name => !variables.has(name) && !defaults.includes(name)),
+        missing: defaults.filter(name => variables.has(name) && !used.includes(name))
+    };
+}
+
+/**
+ * Short content hash identifying a prompt version (FNV-1a, 8 hex digits).
+ * @param template Prompt template
+ */
+export function getPromptVersion(template: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < template.length; i++) {
+        hash ^= template.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Get a project's prompt overrides.
+ * @param novelId Novel ID
+ */
+export async function getPromptOverrides(novelId: string): Promise<PromptOverride[]> {
+    return db.prompt_overrides.where('novelId').equals(novelId).toArray();
+}
+
+/**
+ * Get the prompt an agent should use: the project's override, or the built-in default.
+ * @param novelId Novel ID
+ * @param id Prompt ID
+ * @returns Template and its version (DEFAULT_PROMPT_VERSION for the built-in prompt)
+ */
+export async function resolvePrompt(novelId: string, id: PromptId): Promise<{ template: string; version: string }> {
+    const override = await db.prompt_overrides.where('[novelId+promptId]').equals([novelId, id]).first();
+    return override
+        ? { template: override.template, version: getPromptVersion(override.template) }
+        : { template: PROMPTS[id], version: DEFAULT_PROMPT_VERSION };
+}
+
+/**
+ * Save a project's override of a prompt. Saving the default text removes the override.
+ * @param novelId Novel ID
+ * @param id Prompt ID
+ * @param template New template
+ * @throws Error if the template is empty, malformed or uses placeholders the agent does not fill in
+ */
+export async function savePromptOverride(novelId: string, id: PromptId, template: string): Promise<void> {
+    if (!template.trim()) throw new Error('Prompt template is empty');
+    const { unknown, error } = validatePromptTemplate(id, template);
+    if (error) throw new Error(`Invalid template for ${id}: ${error}`);
+    if (unknown.length > 0) {
+        throw new Error(`Unknown placeholders in ${id}: ${unknown.map(name => `{${name}}`).join(', ')}`);
+    }
+
+    if (template === PROMPTS[id]) {
+        await resetPromptOverride(novelId, id);
+        return;
+    }
+
+    const existing = await db.prompt_overrides.where('[novelId+promptId]').equals([novelId, id]).first();
+    if (existing) {
+        await db.prompt_overrides.update(existing.id, { template, lastModified: Date.now() });
+    } else {
+        await db.prompt_overrides.add({ id: uuidv4(), novelId, promptId: id, template, createdAt: Date.now(), lastModified: Date.now() });
+    }
+}
+
+/**
+ * Remove a project's override, restoring the built-in prompt.
+ * @param novelId Novel ID
+ * @param id Prompt ID
+ */
+export async function resetPromptOverride(novelId: string, id: PromptId): Promise<void> {
+    await db.prompt_overrides.where('[novelId+promptId]').equals([novelId, id]).delete();
+}
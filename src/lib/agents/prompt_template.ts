@@ -0,0 +1,277 @@
+/**
+ * Prompt Templates - A small, safe template language for agent prompts.
+ *
+ * Syntax (a superset of the flat {placeholder} replacement prompts started with):
+ *   {name}                      Value of a context variable; {item.field} reads a field
+ *   {name|default:"text"}       Fallback text when the value is empty
+ *   {name|raw}                  Insert without escaping
+ *   {#if name}...{:else}...{/if}        Conditional; {#if !name} negates
+ *   {#each list as item}...{:else}...{/each}   Loop over an array; "as item, n"
+ *                               also binds n to the 1-based position
+ *
+ * Empty means undefined, null, false, a blank string or an empty array
+ * (numbers, including 0, are never empty). Placeholders for names that are
+ * not in the context are left as written, and braces directly after a LaTeX
+ * command or a word (\begin{figure}) are literal text.
+ *
+ * Injected values are escaped against the XML-style framing of the prompt:
+ * inside a <current_manuscript> ... </current_manuscript> block (tags on their
+ * own lines), a literal </current_manuscript> in the manuscript becomes
+ * &lt;/current_manuscript&gt; so it cannot end the block early.
+ */
+
+type VariableNode = { type: 'variable'; source: string; path: string[]; fallback?: string; raw: boolean; framing: string[] };
+type IfNode = { type: 'if'; path: string[]; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+type EachNode = { type: 'each'; path: string[]; item: string; position?: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+type TemplateNode = { type: 'text'; text: string } | VariableNode | IfNode | EachNode;
+
+type Scope = Record<string, unknown>[];
+
+const NAME = '[a-z][a-z0-9_]*';
+const PATH = `${NAME}(?:\\.${NAME})*`;
+
+const TOKEN_PATTERN = new RegExp(
+    `\\{(#if|#each|:else|/if|/each)(?:\\s+([^{}]*?))?\\s*\\}` +
+    `|(?<![\\w\\\\])\\{(${PATH})((?:\\|[a-z]+(?::"[^"{}]*")?)*)\\}`,
+    'g'
+);
+
+const FRAMING_TAG_PATTERN = /^[ \t]*<(\/?)([a-z][a-z0-9_]*)>[ \t]*$/gm;
+
+const IF_PATTERN = new RegExp(`^(!?)(${PATH})$`);
+const EACH_PATTERN = new RegExp(`^(${PATH})\\s+as\\s+(${NAME})(?:\\s*,\\s*(${NAME}))?$`);
+const FILTER_PATTERN = /\|([a-z]+)(?::"([^"{}]*)")?/g;
+
+/**
+ * Line number of an offset (for error messages).
+ */
+function lineAt(template: string, offset: number): number {
+    return template.slice(0, offset).split('\n').length;
+}
+
+/**
+ * Framing tags open at each offset: tags on their own line, e.g. <current_manuscript>.
+ */
+function framingTagsAt(template: string): (offset: number) => string[] {
+    const events = Array.from(template.matchAll(FRAMING_TAG_PATTERN), match => ({
+        offset: match.index ?? 0,
+        closing: match[1] === '/',
+        tag: match[2]
+    }));
+
+    return (offset: number) => {
+        const open: string[] = [];
+        for (const event of events) {
+            if (event.offset >= offset) break;
+            const index = open.lastIndexOf(event.tag);
+            if (event.closing) {
+                if (index !== -1) open.splice(index, 1);
+            } else if (index === -1) {
+                open.push(event.tag);
+            }
+        }
+        return open;
+    };
+}
+
+function parseVariable(template: string, source: string, path: string, filters: string, framing: string[], offset: number): VariableNode {
+    const node: VariableNode = { type: 'variable', source, path: path.split('.'), raw: false, framing };
+    for (const [, filter, argument] of filters.matchAll(FILTER_PATTERN)) {
+        if (filter === 'default' && argument !== undefined) {
+            node.fallback = argument;
+        } else if (filter === 'raw' && argument === undefined) {
+            node.raw = true;
+        } else {
+            throw new Error(`Unknown filter "${filter}" in ${source} on line ${lineAt(template, offset)}`);
+        }
+    }
+    return node;
+}
+
+/**
+ * Parse a template.
+ * @param template Template text
+ * @returns Template nodes
+ * @throws Error on malformed or unbalanced {#if}/{#each} blocks and unknown filters
+ */
+function parseTemplate(template: string): TemplateNode[] {
+    const framingAt = framingTagsAt(template);
+    const root: TemplateNode[] = [];
+    // Open blocks; nodes are appended to the innermost block's current branch
+    const stack: Array<{ node: IfNode | EachNode; offset: number; inElse: boolean }> = [];
+    const current = (): TemplateNode[] => {
+        const top = stack[stack.length - 1];
+        if (!top) return root;
+        if (top.inElse) return top.node.otherwise;
+        return top.node.type === 'if' ? top.node.then : top.node.body;
+    };
+
+    let last = 0;
+    for (const match of template.matchAll(TOKEN_PATTERN)) {
+        const offset = match.index ?? 0;
+        const [source, keyword, expression = '', path, filters = ''] = match;
+        if (offset > last) current().push({ type: 'text', text: template.slice(last, offset) });
+        last = offset + source.length;
+
+        if (path) {
+            current().push(parseVariable(template, source, path, filters, framingAt(offset), offset));
+            continue;
+        }
+
+        const line = lineAt(template, offset);
+        const top = stack[stack.length - 1];
+        if (keyword === '#if') {
+            const condition = expression.match(IF_PATTERN);
+            if (!condition) throw new Error(`Invalid condition in ${source} on line ${line}`);
+            const node: IfNode = { type: 'if', path: condition[2].split('.'), negate: condition[1] === '!', then: [], otherwise: [] };
+            current().push(node);
+            stack.push({ node, offset, inElse: false });
+        } else if (keyword === '#each') {
+            const loop = expression.match(EACH_PATTERN);
+            if (!loop) throw new Error(`Invalid loop in ${source} on line ${line} (expected {#each list as item})`);
+            const node: EachNode = { type: 'each', path: loop[1].split('.'), item: loop[2], position: loop[3], body: [], otherwise: [] };
+            current().push(node);
+            stack.push({ node, offset, inElse: false });
+        } else if (keyword === ':else') {
+            if (!top || top.inElse || expression) throw new Error(`Unexpected ${source} on line ${line}`);
+            top.inElse = true;
+        } else {
+            const expected = keyword === '/if' ? 'if' : 'each';
+            if (!top || top.node.type !== expected || expression) throw new Error(`Unexpected ${source} on line ${line}`);
+            stack.pop();
+        }
+    }
+
+    const unclosed = stack[stack.length - 1];
+    if (unclosed) {
+        throw new Error(`Unclosed {#${unclosed.node.type}} on line ${lineAt(template, unclosed.offset)}`);
+    }
+    if (last < template.length) root.push({ type: 'text', text: template.slice(last) });
+    return root;
+}
+
+/**
+ * Look up a dotted path. Returns found: false if the first name is not in scope.
+ */
+function lookup(scope: Scope, path: string[]): { found: boolean; value?: unknown } {
+    const frame = [...scope].reverse().find(f => Object.prototype.hasOwnProperty.call(f, path[0]));
+    if (!frame) return { found: false };
+
+    // Own properties only, so templates cannot reach prototype members
+    let value: unknown = frame[path[0]];
+    for (const key of path.slice(1)) {
+        value = value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key)
+            ? (value as Record<string, unknown>)[key]
+            : undefined;
+    }
+    return { found: true, value };
+}
+
+function isEmpty(value: unknown): boolean {
+    if (value === undefined || value === null || value === false) return true;
+    if (typeof value === 'string') return value.trim() === '';
+    if (Array.isArray(value)) return value.length === 0;
+    return false;
+}
+
+function stringify(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'object') return JSON.stringify(value, null, 2);
+    return String(value);
+}
+
+/**
+ * Neutralize the framing tags around a placeholder inside the injected text.
+ */
+function escapeFraming(text: string, tags: string[]): string {
+    return tags.reduce(
+        (escaped, tag) => escaped.split(`</${tag}>`).join(`&lt;/${tag}&gt;`).split(`<${tag}>`).join(`&lt;${tag}&gt;`),
+        text
+    );
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Scope): string {
+    let output = '';
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            output += node.text;
+        } else if (node.type === 'variable') {
+            const { found, value } = lookup(scope, node.path);
+            if (!found) {
+                output += node.source;
+            } else if (isEmpty(value) && node.fallback !== undefined) {
+                output += node.fallback;
+            } else {
+                const text = stringify(value);
+                output += node.raw ? text : escapeFraming(text, node.framing);
+            }
+        } else if (node.type === 'if') {
+            const truthy = !isEmpty(lookup(scope, node.path).value);
+            output += renderNodes(truthy !== node.negate ? node.then : node.otherwise, scope);
+        } else {
+            const { value } = lookup(scope, node.path);
+            const items = Array.isArray(value) ? value : [];
+            if (items.length === 0) {
+                output += renderNodes(node.otherwise, scope);
+                continue;
+            }
+            items.forEach((item, i) => {
+                const frame: Record<string, unknown> = { [node.item]: item };
+                if (node.position) frame[node.position] = i + 1;
+                output += renderNodes(node.body, [...scope, frame]);
+            });
+        }
+    }
+    return output;
+}
+
+/**
+ * Render a prompt template.
+ * @param template Template text
+ * @param context Variable values
+ * @returns Rendered prompt
+ * @throws Error if the template is malformed (see checkTemplate)
+ */
+export function renderTemplate(template: string, context: object): string {
+    return renderNodes(parseTemplate(template), [context as Record<string, unknown>]);
+}
+
+/**
+ * Check a template's syntax.
+ * @param template Template text
+ * @returns Error message, or null if the template is well-formed
+ */
+export function checkTemplate(template: string): string | null {
+    try {
+        parseTemplate(template);
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
+/**
+ * Context variables a template reads (in placeholders, conditions and loops),
+ * excluding loop variables.
+ * @param template Template text
+ * @returns Variable names in order of first use
+ * @throws Error if the template is malformed
+ */
+export function templateVariables(template: string): string[] {
+    const names = new Set<string>();
+    const visit = (nodes: TemplateNode[], locals: string[]) => {
+        for (const node of nodes) {
+            if (node.type === 'text') continue;
+            if (!locals.includes(node.path[0])) names.add(node.path[0]);
+            if (node.type === 'if') {
+                visit(node.then, locals);
+                visit(node.otherwise, locals);
+            } else if (node.type === 'each') {
+                visit(node.body, [...locals, node.item, ...(node.position ? [node.position] : [])]);
+                visit(node.otherwise, locals);
+            }
+        }
+    };
+    visit(parseTemplate(template), []);
+    return Array.from(names);
+}
@@ -0,0 +1,295 @@
+/**
+ * Reviewer Response - Resubmission workflow for real peer-review comments.
+ *
+ * A decision letter is split into individual comments that are tracked in agent
+ * state. Each open comment is addressed by the Reviser, then the Response Writer
+ * drafts the point-by-point reply, quoting the revised text.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import * as mammoth from 'mammoth';
+import { AgentRuntime } from './runtime';
+import { runReviser } from './reviser';
+import { resolveVariables, splitManuscriptSections, findRelevantSections, scopeContextToSections } from './variables';
+import { ReviewerComment } from '@/lib/db/schema';
+import { AgentContext, LogEntry, ReviseOperation, ResponseWriterOutput, ResponseWriterOutputSchema } from './types';
+import { executeWithJSONRetry } from './json_retry';
+import { countPromptTokens } from '@/lib/ai/usage';
+import { applyCitationMode } from '@/lib/references/citation-keys';
+
+const REVIEWER_HEADING = /^(?:reviewer|referee)\s*#?\s*(\d+)\b/i;
+const EDITOR_HEADING = /^((?:associate|academic|handling|deputy|statistical|section)\s+)?editors?\b/i;
+const SUBHEADING = /^(major|minor|general|specific|additional)\s+(comments?|issues?|points?|concerns?|remarks?)\s*:?$/i;
+const NUMBERED_ITEM = /^(?:\(?\d{1,2}[.)]|(?:comment|point|query|question)\s*#?\s*\d+\s*[:.)-]?|[-•*])\s+/i;
+
+/** Preamble paragraphs shorter than this are treated as greetings, not comments */
+const MIN_PREAMBLE_WORDS = 15;
+
+/** Longest revised-text excerpt quoted in the response letter */
+const MAX_EXCERPT_LENGTH = 600;
+
+/**
+ * Read a decision letter file as plain text (.docx via mammoth, anything else as text).
+ * @param file Uploaded file
+ * @returns Letter text
+ */
+export async function readDecisionLetter(file: File): Promise<string> {
+    if (file.name.toLowerCase().endsWith('.docx')) {
+        const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+        return result.value;
+    }
+    return file.text();
+}
+
+/**
+ * Get the reviewer name for a heading line, or null if the line is not a reviewer heading.
+ */
+function parseReviewerHeading(line: string): string | null {
+    const text = line.replace(/[*_#]/g, '').trim();
+    if (text.length > 80) return null;
+
+    const reviewer = text.match(REVIEWER_HEADING);
+    if (reviewer) return `Reviewer ${reviewer[1]}`;
+
+    const editor = text.match(EDITOR_HEADING);
+    if (editor && /^[^.?!]*:?\s*$/.test(text.slice(editor[0].length, editor[0].length + 40))) {
+        return editor[1] ? `${editor[1].trim().replace(/^\w/, c => c.toUpperCase())} Editor` : 'Editor';
+    }
+    return null;
+}
+
+/**
+ * Split one reviewer's text into comments: numbered or bulleted items, plus
+ * any substantial text before the first item.
+ */
+function splitReviewerBlock(lines: string[]): string[] {
+    const comments: string[] = [];
+    let preamble: string[] = [];
+    let current: string[] | null = null;
+
+    for (const line of lines) {
+        const trimmed = line.trim();
+        if (SUBHEADING.test(trimmed)) continue;
+
+        if (NUMBERED_ITEM.test(trimmed)) {
+            if (current) comments.push(current.join('\n'));
+            current = [trimmed.replace(NUMBERED_ITEM, '')];
+        } else if (current) {
+            current.push(trimmed);
+        } else {
+            preamble.push(trimmed);
+        }
+    }
+    if (current) comments.push(current.join('\n'));
+
+    // Without numbering, each paragraph is a comment
+    if (comments.length === 0) {
+        return preamble.join('\n').split(/\n\s*\n/)
+            .map(paragraph => paragraph.trim())
+            .filter(paragraph => paragraph.split(/\s+/).length >= MIN_PREAMBLE_WORDS);
+    }
+
+    preamble = preamble.filter(Boolean);
+    const preambleText = preamble.join('\n').trim();
+    return preambleText.split(/\s+/).length >= MIN_PREAMBLE_WORDS
+        ? [preambleText, ...comments]
+        : comments;
+}
+
+/**
+ * Split a decision letter into individual reviewer comments.
+ * Text is grouped under "Reviewer N" / "Editor" headings (the cover letter before
+ * the first heading is skipped), then split into numbered or bulleted items.
+ * @param letter Decision letter text
+ * @returns Open comments in letter order
+ */
+export function splitDecisionLetter(letter: string): ReviewerComment[] {
+    const lines = letter.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: Array<{ reviewer: string; lines: string[] }> = [];
+
+    for (const line of lines) {
+        const reviewer = parseReviewerHeading(line);
+        if (reviewer) {
+            blocks.push({ reviewer, lines: [] });
+        } else if (blocks.length > 0) {
+            blocks[blocks.length - 1].lines.push(line);
+        }
+    }
+
+    // No headings: the whole letter is one reviewer's comments
+    if (blocks.length === 0) {
+        blocks.push({ reviewer: 'Reviewer', lines });
+    }
+
+    return blocks.flatMap(block =>
+        splitReviewerBlock(block.lines).map((text, i) => ({
+            id: uuidv4(),
+            reviewer: block.reviewer,
+            number: i + 1,
+            text: text.replace(/[ \t]+/g, ' ').replace(/\n{2,}/g, '\n').trim(),
+            status: 'open' as const
+        }))
+    );
+}
+
+/**
+ * Format applied revise operations for the Response Writer prompt.
+ */
+function formatRevisionChanges(operations: ReviseOperation[]): string {
+    if (operations.length === 0) return 'No changes were made to the manuscript.';
+    return operations
+        .map((op, i) => `${i + 1}. Find: "${op.find}"\n   Replace: "${op.replace}"${op.reason ? `\n   Reason: ${op.reason}` : ''}`)
+        .join('\n');
+}
+
+/**
+ * Execute the Response Writer for one comment.
+ * @param runtime Agent runtime instance
+ * @param context Agent context with reviewer_comment and revision_changes set
+ * @returns Response and change summary
+ */
+async function runResponseWriter(runtime: AgentRuntime, context: AgentContext): Promise<ResponseWriterOutput> {
+    const template = await runtime.getPrompt('RESPONSE_WRITER_PROMPT');
+    const systemPrompt = await runtime.getPrompt('RESPONSE_WRITER_SYSTEM_PROMPT');
+    let userPrompt = resolveVariables(template, context);
+
+    // Over the model's token ceiling: send only the sections the comment and changes refer to
+    const limit = runtime.getContextLimit();
+    if (countPromptTokens(systemPrompt) + countPromptTokens(userPrompt) > limit) {
+        const sections = splitManuscriptSections(context.current_manuscript);
+        const relevant = findRelevantSections(sections, `${context.reviewer_comment}\n${context.revision_changes}`);
+        if (relevant.length > 0) {
+            userPrompt = resolveVariables(template, scopeContextToSections(context, sections, relevant));
+        }
+    }
+
+    const { output } = await executeWithJSONRetry(
+        runtime,
+        (feedback) => runtime.executeAgent(
+            systemPrompt,
+            userPrompt + feedback,
+            false, // requiresOnline
+            'ResponseWriter',
+            ResponseWriterOutputSchema
+        ),
+        'ResponseWriter',
+        ResponseWriterOutputSchema
+    );
+
+    return output;
+}
+
+/**
+ * Address each open reviewer comment: revise the manuscript, then draft the reply.
+ * Comments are saved to agent state after each one, so an interrupted run
+ * continues with the remaining open comments.
+ * @param novelId Novel ID
+ * @param sceneId Scene ID (optional)
+ * @param getCurrentManuscript Function to get current manuscript text
+ * @param updateManuscript Function to update manuscript text
+ * @param onLog Callback for log entries
+ * @returns All comments with their updated status and responses
+ */
+export async function runReviewerResponse(
+    novelId: string,
+    sceneId: string | undefined,
+    getCurrentManuscript: () => Promise<string>,
+    updateManuscript: (text: string) => Promise<void>,
+    onLog?: (log: LogEntry) => void
+): Promise<ReviewerComment[]> {
+    const runtime = new AgentRuntime(novelId, sceneId);
+    if (onLog) {
+        runtime.onLog(onLog);
+    }
+
+    // 1. Load the tracked comments
+    const state = await runtime.getOrCreateState('', 1, 0.8);
+    const comments = [...(state.reviewerComments || [])];
+    const open = comments.filter(comment => comment.status === 'open');
+    const runId = uuidv4();
+    await runtime.startUsageRun(runId);
+    await runtime.startTrace(runId);
+
+    runtime.log({
+        agent: 'System',
+        type: 'info',
+        content: `Addressing ${open.length} open reviewer comment${open.length === 1 ? '' : 's'}...`
+    });
+
+    let manuscript = await getCurrentManuscript();
+    let addressed = 0;
+
+    try {
+        for (const comment of open) {
+            const budgetReason = await runtime.checkBudget();
+            if (budgetReason) {
+                runtime.log({ agent: 'System', type: 'info', content: `${budgetReason}. Stopping; remaining comments stay open.` });
+                break;
+            }
+
+            const label = `${comment.reviewer}, comment ${comment.number}`;
+            await runtime.startStep(label);
+
+            try {
+                // 2. Revise the manuscript for this comment only
+                const reviseContext = await runtime.buildContext(manuscript, {
+                    action_items: `- ${comment.text}`,
+                    critique_summary: `Peer-review comment (${label}). Address only this comment.`
+                });
+                const revision = await runReviser(runtime, reviseContext, manuscript);
+
+                if (revision.manuscript !== manuscript) {
+                    const revised = await applyCitationMode(novelId, revision.manuscript);
+                    await updateManuscript(revised);
+                    await runtime.recordVersion(manuscript, {
+                        agent: 'Reviser',
+                        action: 'reviewer_response',
+                        content: revised,
+                        operations: revision.operations,
+                        summary: `Addressed ${label}`
+                    });
+                    manuscript = revised;
+                }
+
+                // 3. Draft the reply, citing the revised text that made it into the manuscript
+                const revisedText = revision.operations
+                    .map(op => op.replace.trim())
+                    .filter(text => text && manuscript.includes(text))
+                    .map(text => text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH)}...` : text);
+
+                const responseContext = await runtime.buildContext(manuscript, {
+                    reviewer_comment: `${label}:\n${comment.text}`,
+                    revision_changes: formatRevisionChanges(revision.operations)
+                });
+                const reply = await runResponseWriter(runtime, responseContext);
+
+                Object.assign(comment, {
+                    status: revisedText.length > 0 ? 'addressed' : 'no_change',
+                    response: reply.response,
+                    changeSummary: reply.change_summary,
+                    revisedText
+                });
+                addressed += 1;
+
+                await runtime.updateState({ reviewerComments: comments.map(c => (c.id === comment.id ? { ...comment } : c)) });
+
+                runtime.log({
+                    agent: 'ResponseWriter',
+                    type: 'info',
+                    content: `${label}: ${reply.change_summary}`
+                });
+            } catch (error) {
+                await runtime.endStep(error instanceof Error ? error.message : String(error));
+                throw error;
+            }
+            await runtime.endStep();
+        }
+    } finally {
+        // Calls are saved in batches; don't lose the last ones when the run stops
+        await runtime.flushTrace();
+    }
+
+    await runtime.addHistory('reviewer_response', `Addressed ${addressed} of ${open.length} open reviewer comments`, true);
+
+    return comments;
+}
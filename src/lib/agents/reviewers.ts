@@ -0,0 +1,93 @@
+/**
+ * Reviewer Panel - Critic personas and aggregation of their critiques.
+ *
+ * Each enabled reviewer critiques the manuscript with its own persona prompt
+ * (and optionally its own model); the panel's critiques are combined into one
+ * weighted CriticOutput so a single noisy score does not drive the workflow.
+ */
+
+import { ReviewerConfig } from '@/lib/db/schema';
+import { CriticOutput, ReviewerScore } from './types';
+import type { PromptId } from './prompt_overrides';
+
+/**
+ * A reviewer persona.
+ */
+export interface ReviewerPersona {
+    id: string;
+    name: string;
+    /** Prompt appended to the Critic system prompt */
+    promptId: PromptId;
+    defaultWeight: number;
+}
+
+/**
+ * An enabled reviewer with its project configuration.
+ */
+export interface PanelReviewer extends ReviewerPersona {
+    weight: number;
+    model?: string;
+}
+
+export const REVIEWER_PERSONAS: ReviewerPersona[] = [
+    { id: 'methodologist', name: 'Methodologist', promptId: 'METHODOLOGIST_REVIEWER_PROMPT', defaultWeight: 1 },
+    { id: 'statistician', name: 'Statistician', promptId: 'STATISTICIAN_REVIEWER_PROMPT', defaultWeight: 1 },
+    { id: 'clinical_editor', name: 'Clinical Editor', promptId: 'CLINICAL_EDITOR_REVIEWER_PROMPT', defaultWeight: 1 },
+    { id: 'language_editor', name: 'Language Editor', promptId: 'LANGUAGE_EDITOR_REVIEWER_PROMPT', defaultWeight: 0.5 }
+];
+
+/**
+ * Resolve the project's reviewer panel configuration.
+ * @param configs Reviewer configuration from project settings
+ * @returns Enabled reviewers with a positive weight, in persona order (empty = single Critic)
+ */
+export function getReviewerPanel(configs: ReviewerConfig[] = []): PanelReviewer[] {
+    return REVIEWER_PERSONAS.flatMap(persona => {
+        const config = configs.find(c => c.id === persona.id);
+        if (!config?.enabled || !(config.weight > 0)) return [];
+        return [{ ...persona, weight: config.weight, model: config.model?.trim() || undefined }];
+    });
+}
+
+/**
+ * Combine the panel's critiques into one critique.
+ * The score is the weighted mean of reviewer scores; summaries are labelled
+ * with the reviewer, and action items are deduplicated (ignoring case and
+ * spacing) with the lowest-scoring reviewers' items first.
+ * @param reviews Each reviewer with its critique
+ * @returns Aggregated critic output and per-reviewer scores for the run history
+ */
+export function aggregateReviews(
+    reviews: Array<{ reviewer: PanelReviewer; output: CriticOutput }>
+): { output: CriticOutput; scores: ReviewerScore[] } {
+    const totalWeight = reviews.reduce((sum, review) => sum + review.reviewer.weight, 0);
+    const score = reviews.reduce((sum, review) => sum + review.output.score * review.reviewer.weight, 0) / totalWeight;
+
+    const seen = new Set<string>();
+    const actionItems: string[] = [];
+    for (const review of [...reviews].sort((a, b) => a.output.score - b.output.score)) {
+        for (const item of review.output.action_items) {
+            const key = item.toLowerCase().replace(/\s+/g, ' ').replace(/[.\s]+$/, '').trim();
+            if (seen.has(key)) continue;
+            seen.add(key);
+            actionItems.push(item);
+        }
+    }
+
+    return {
+        output: {
+            critic_summary: reviews
+                .map(review => `[${review.reviewer.name}, score ${review.output.score.toFixed(2)}] ${review.output.critic_summary}`)
+                .join('\n\n'),
+            score,
+            action_items: actionItems
+        },
+        scores: reviews.map(review => ({
+            reviewer: review.reviewer.name,
+            score: review.output.score,
+            weight: review.reviewer.weight,
+            actionItems: review.output.action_items.length,
+            model: review.reviewer.model
+        }))
+    };
+}
@@ -3,20 +3,25 @@
  */
 
 import { AgentRuntime } from './runtime';
-import { resolveVariables, formatArrayAsMarkdown } from './variables';
-import { validateKeys } from './parser';
-import { REVISER_SYSTEM_PROMPT, REVISER_PROMPT } from './prompts';
-import { AgentContext, ReviserOutput } from './types';
+import { resolveVariables, formatArrayAsMarkdown, splitManuscriptSections, findRelevantSections, scopeContextToSections } from './variables';
+import { AgentContext, ReviserOutput, ReviseOperation, EditMode, PendingHunk, ReviserOutputSchema } from './types';
 import Fuse from 'fuse.js';
 import { executeWithJSONRetry } from './json_retry';
+import { createPendingHunks } from './hunks';
+import { countPromptTokens } from '@/lib/ai/usage';
 
 /**
  * Apply reviser operations to the manuscript using fuzzy matching.
  * @param manuscript Current manuscript text
  * @param operations Find/replace operations from reviser
+ * @param onUnmatched Called for each operation that matched nothing and was skipped (optional)
  * @returns Updated manuscript
  */
-function applyReviseOperations(manuscript: string, operations: ReviserOutput['operations']): string {
+export function applyReviseOperations(
+    manuscript: string,
+    operations: ReviserOutput['operations'],
+    onUnmatched?: (operation: ReviseOperation) => void
+): string {
     let updated = manuscript;
 
     for (const op of operations) {
@@ -71,6 +76,7 @@ function applyReviseOperations(manuscript: string, operations: ReviserOutput['op
                 updated = lines.join('\n');
             } else {
                 console.warn('[Reviser] Could not find match for:', find.substring(0, 100));
+                onUnmatched?.(op);
                 // Don't append - just skip this operation
             }
         }
@@ -84,39 +90,84 @@ function applyReviseOperations(manuscript: string, operations: ReviserOutput['op
  * @param runtime Agent runtime instance
  * @param context Agent context with variables (including critique_summary, action_items)
  * @param currentManuscript Current manuscript text
- * @returns Object with updated manuscript and whether to continue
+ * @param mode 'apply' edits the manuscript; 'propose' leaves it unchanged and returns pending hunks
+ * @returns Object with updated manuscript, whether to continue, the operations, and any pending hunks
  */
 export async function runReviser(
     runtime: AgentRuntime,
     context: AgentContext,
-    currentManuscript: string
-): Promise<{ manuscript: string; shouldContinue: boolean }> {
+    currentManuscript: string,
+    mode: EditMode = 'apply'
+): Promise<{ manuscript: string; shouldContinue: boolean; operations: ReviseOperation[]; hunks: PendingHunk[] }> {
     // Format action items as markdown list for prompt
     const actionItemsFormatted = context.action_items || '';
 
-    const contextWithFormatted = {
+    let contextWithFormatted: AgentContext = {
         ...context,
         action_items: actionItemsFormatted
     };
 
     // Resolve the prompt with variables
-    const userPrompt = resolveVariables(REVISER_PROMPT, contextWithFormatted);
+    const template = await runtime.getPrompt('REVISER_PROMPT');
+    const systemPrompt = await runtime.getPrompt('REVISER_SYSTEM_PROMPT');
+    let userPrompt = resolveVariables(template, contextWithFormatted);
+
+    // Over the model's token ceiling: send only the sections the critique refers to, plus an outline
+    const limit = runtime.getContextLimit();
+    const promptTokens = countPromptTokens(systemPrompt) + countPromptTokens(userPrompt);
+    if (promptTokens > limit) {
+        const sections = splitManuscriptSections(currentManuscript);
+        const relevant = findRelevantSections(sections, `${context.critique_summary || ''}\n${actionItemsFormatted}`);
+
+        if (relevant.length > 0 && relevant.length < sections.length) {
+            contextWithFormatted = scopeContextToSections(contextWithFormatted, sections, relevant);
+            userPrompt = resolveVariables(template, contextWithFormatted);
+            runtime['emitLog']({
+                agent: 'Reviser',
+                type: 'info',
+                content: `Manuscript prompt is ~${promptTokens.toLocaleString()} tokens (limit ${limit.toLocaleString()}); revising ${relevant.map(index => sections[index].title).join(', ')} only.`
+            });
+        } else {
+            runtime['emitLog']({
+                agent: 'Reviser',
+                type: 'info',
+                content: `Manuscript prompt is ~${promptTokens.toLocaleString()} tokens (limit ${limit.toLocaleString()}), but the action items do not name specific sections; sending the full manuscript.`
+            });
+        }
+    }
 
-    // Execute agent (online to enable affiliation verification and standardization) with JSON parse retry
-    const { output } = await executeWithJSONRetry<ReviserOutput>(
+    // Execute agent (online to enable affiliation verification and standardization) with schema validation retry
+    const { output } = await executeWithJSONRetry(
         runtime,
-        () => runtime.executeAgent(
-            REVISER_SYSTEM_PROMPT,
-            userPrompt,
+        (feedback) => runtime.executeAgent(
+            systemPrompt,
+            userPrompt + feedback,
             true, // requiresOnline - enables internet access for affiliation lookups
-            'Reviser'
+            'Reviser',
+            ReviserOutputSchema
         ),
-        'Reviser'
+        'Reviser',
+        ReviserOutputSchema
     );
-    validateKeys(output, ['status', 'operations']);
+
+    // Propose-only: leave the manuscript untouched and hand the operations back for review
+    if (mode === 'propose') {
+        await runtime.addHistory(
+            'revise_manuscript',
+            `Proposed ${output.operations.length} revisions for review. Status: ${output.status}. ${output.rationale || ''}`,
+            true
+        );
+
+        return {
+            manuscript: currentManuscript,
+            shouldContinue: output.status === 'continue',
+            operations: output.operations,
+            hunks: createPendingHunks('Reviser', output.operations, runtime['sceneId'])
+        };
+    }
 
     // Apply operations to manuscript
-    const updatedManuscript = applyReviseOperations(currentManuscript, output.operations);
+    const updatedManuscript = applyReviseOperations(currentManuscript, output.operations, () => runtime.recordFailedOperation('Reviser'));
 
     // Add to history
     await runtime.addHistory(
@@ -127,6 +178,8 @@ export async function runReviser(
 
     return {
         manuscript: updatedManuscript,
-        shouldContinue: output.status === 'continue'
+        shouldContinue: output.status === 'continue',
+        operations: output.operations,
+        hunks: []
     };
 }
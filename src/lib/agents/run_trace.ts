@@ -0,0 +1,118 @@
+/**
+ * Run Trace - Aggregates over a run's timeline of manager steps and agent calls.
+ * The spans are recorded by AgentRuntime (startTrace, startStep, executeAgent).
+ */
+
+import { RunTrace, RunTraceSpan } from '@/lib/db/schema';
+
+/**
+ * Per-agent performance over one run.
+ */
+export interface AgentRunStats {
+    agent: string;
+    calls: number;
+    totalMs: number;
+    maxMs: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+    retries: number; // Calls that were retries after invalid output
+    invalidOutputs: number; // Outputs rejected by parsing or schema validation
+    failedOperations: number; // Find/replace operations that matched nothing
+    errors: number; // Calls that threw
+}
+
+/**
+ * A timeline row: a span and its nesting depth (calls under their step).
+ */
+export interface TimelineRow {
+    span: RunTraceSpan;
+    depth: number;
+}
+
+/**
+ * Duration of a span; running spans last until now.
+ */
+export function getSpanDuration(span: RunTraceSpan, now: number = Date.now()): number {
+    return Math.max(0, (span.endedAt ?? now) - span.startedAt);
+}
+
+/**
+ * Start and end of the whole run.
+ */
+export function getTraceBounds(trace: RunTrace, now: number = Date.now()): { start: number; end: number } {
+    if (trace.spans.length === 0) return { start: now, end: now };
+    const start = Math.min(...trace.spans.map(span => span.startedAt));
+    const end = Math.max(...trace.spans.map(span => span.endedAt ?? now));
+    return { start, end: Math.max(end, start + 1) };
+}
+
+/**
+ * Order spans for the timeline: steps by start time, each followed by its calls.
+ * Calls made outside a step (e.g. by the reviewer response workflow) are top-level rows.
+ */
+export function getTimelineRows(trace: RunTrace): TimelineRow[] {
+    const byStart = [...trace.spans].sort((a, b) => a.startedAt - b.startedAt);
+    const stepIds = new Set(byStart.filter(span => span.kind === 'step').map(span => span.id));
+    const rows: TimelineRow[] = [];
+
+    for (const span of byStart) {
+        if (span.kind === 'call' && span.parentId && stepIds.has(span.parentId)) continue;
+        rows.push({ span, depth: 0 });
+        if (span.kind === 'step') {
+            rows.push(...byStart
+                .filter(call => call.kind === 'call' && call.parentId === span.id)
+                .map(call => ({ span: call, depth: 1 })));
+        }
+    }
+    return rows;
+}
+
+/**
+ * Aggregate agent calls per agent.
+ * @returns Stats sorted by total time, slowest agent first
+ */
+export function summarizeRunTrace(trace: RunTrace, now: number = Date.now()): AgentRunStats[] {
+    const stats = new Map<string, AgentRunStats>();
+    const get = (agent: string): AgentRunStats => {
+        let entry = stats.get(agent);
+        if (!entry) {
+            entry = { agent, calls: 0, totalMs: 0, maxMs: 0, inputTokens: 0, outputTokens: 0, cost: 0, retries: 0, invalidOutputs: 0, failedOperations: 0, errors: 0 };
+            stats.set(agent, entry);
+        }
+        return entry;
+    };
+
+    for (const span of trace.spans) {
+        if (span.kind === 'step') {
+            for (const [agent, count] of Object.entries(span.failedOperations || {})) {
+                get(agent).failedOperations += count;
+            }
+            continue;
+        }
+
+        const entry = get(span.name);
+        const duration = getSpanDuration(span, now);
+        entry.calls++;
+        entry.totalMs += duration;
+        entry.maxMs = Math.max(entry.maxMs, duration);
+        entry.inputTokens += span.inputTokens || 0;
+        entry.outputTokens += span.outputTokens || 0;
+        entry.cost += span.cost || 0;
+        if ((span.attempt ?? 1) > 1) entry.retries++;
+        if (span.invalidOutput) entry.invalidOutputs++;
+        if (span.status === 'error') entry.errors++;
+    }
+
+    return Array.from(stats.values()).sort((a, b) => b.totalMs - a.totalMs);
+}
+
+/**
+ * Format a duration for display, e.g. "850 ms", "12.3 s", "2 min 05 s".
+ */
+export function formatDuration(ms: number): string {
+    if (ms < 1000) return `${Math.round(ms)} ms`;
+    if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+    const seconds = Math.round(ms / 1000);
+    return `${Math.floor(seconds / 60)} min ${String(seconds % 60).padStart(2, '0')} s`;
+}
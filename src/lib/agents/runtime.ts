@@ -4,11 +4,20 @@
  */
 
 import { db } from '@/lib/db';
-import { AgentState } from '@/lib/db/schema';
+import { AgentState, RunTrace, RunTraceSpan } from '@/lib/db/schema';
 import { AIProviderFactory } from '@/lib/ai/providers';
+import { TokenUsage, measureUsage, addUsage, formatUsage, getContextTokenLimit } from '@/lib/ai/usage';
 import { resolveVariables, buildAgentContext } from './variables';
-import { AgentContext, LogEntry, HistoryEntry } from './types';
+import { JournalProfile, getJournalProfile } from '@/lib/exporters/journal-profiles';
+import { recordManuscriptVersion, VersionEntry } from './versions';
+import { AgentContext, AgentCallResult, LogEntry, HistoryEntry, ReviewerScore } from './types';
+import { PanelReviewer, getReviewerPanel } from './reviewers';
+import { PromptId, resolvePrompt } from './prompt_overrides';
 import { v4 as uuidv4 } from 'uuid';
+import type { z } from 'zod';
+
+// Agent calls within a step are saved to the run trace at most this often; step boundaries save immediately
+const TRACE_SAVE_DELAY_MS = 2000;
 
 /**
  * Agent Runtime class - executes agents and manages workflow state.
@@ -18,6 +27,16 @@ export class AgentRuntime {
     private sceneId?: string;
     private stateId?: string;
     private logCallbacks: Array<(log: LogEntry) => void> = [];
+    // Read-modify-write state updates run one at a time, since agents may run concurrently
+    private stateQueue: Promise<void> = Promise.resolve();
+    // Versions of the prompts used since the last history entry
+    private promptVersions: Record<string, string> = {};
+    // Timeline of the current run; calls are only traced after startTrace
+    private trace?: RunTrace;
+    // Manager step that new calls are nested under
+    private currentStep?: RunTraceSpan;
+    // Pending batched save of the run trace
+    private traceSaveTimer?: ReturnType<typeof setTimeout>;
 
     constructor(novelId: string, sceneId?: string) {
         this.novelId = novelId;
@@ -31,6 +50,13 @@ export class AgentRuntime {
         this.logCallbacks.push(callback);
     }
 
+    /**
+     * Log a workflow message to the registered callbacks.
+     */
+    log(log: Omit<LogEntry, 'id' | 'timestamp'>): void {
+        this.emitLog(log);
+    }
+
     /**
      * Emit a log entry to all registered callbacks.
      */
@@ -43,20 +69,28 @@ export class AgentRuntime {
         this.logCallbacks.forEach(cb => cb(entry));
     }
 
+    /**
+     * Get the AI provider from global settings.
+     */
+    private getProvider(): string {
+        return typeof window !== 'undefined'
+            ? localStorage.getItem('novel-architect-provider') || 'openrouter'
+            : 'openrouter';
+    }
+
     /**
      * Get AI model from global settings.
      * @param requiresOnline Whether the agent needs internet access (web search)
+     * @param modelId Model to use instead of the global model (optional)
      * @returns AI model instance
      */
-    private async getAIModel(requiresOnline: boolean = false) {
+    private async getAIModel(requiresOnline: boolean = false, modelId?: string) {
         // Get provider from localStorage (global settings)
-        const provider = typeof window !== 'undefined'
-            ? localStorage.getItem('novel-architect-provider') || 'openrouter'
-            : 'openrouter';
+        const provider = this.getProvider();
 
-        const model = typeof window !== 'undefined'
+        const model = modelId || (typeof window !== 'undefined'
             ? localStorage.getItem('novel-architect-model') || 'auto'
-            : 'auto';
+            : 'auto');
 
         this.emitLog({
             agent: 'System',
@@ -64,7 +98,265 @@ export class AgentRuntime {
             content: `Using AI provider: ${provider}, model: ${model}, online: ${requiresOnline}`
         });
 
-        return AIProviderFactory.getModel(provider);
+        return AIProviderFactory.getModel(provider, modelId);
+    }
+
+    /**
+     * Run an LLM call according to the provider mode: live, live + record,
+     * or served from the loaded replay fixture without calling the provider.
+     * Live calls are counted towards the run/project usage totals.
+     * @param agentName Name of the agent (fixture lookup key)
+     * @param modelId Model used for live calls (for cost estimates)
+     * @param systemPrompt System prompt
+     * @param userPrompt User prompt
+     * @param live Function performing the live provider call
+     * @param imageBase64 Image sent with the prompt (optional)
+     * @returns Raw LLM response text and its usage (undefined when replayed)
+     */
+    private async callModel(
+        agentName: string,
+        modelId: string,
+        systemPrompt: string,
+        userPrompt: string,
+        live: () => Promise<string>,
+        imageBase64?: string
+    ): Promise<{ response: string; usage?: TokenUsage }> {
+        const mode = AIProviderFactory.getMode();
+
+        if (mode === 'replay') {
+            const { response, exact } = await AIProviderFactory.getReplayProvider()
+                .respond(agentName, systemPrompt, userPrompt, imageBase64);
+            this.emitLog({
+                agent: 'System',
+                type: 'info',
+                content: exact
+                    ? `Replaying recorded ${agentName} response`
+                    : `No exact prompt match for ${agentName}; replaying its next recorded response`
+            });
+            return { response };
+        }
+
+        const response = await live();
+        if (mode === 'record') {
+            await AIProviderFactory.recorder.record(agentName, systemPrompt, userPrompt, response, imageBase64);
+        }
+
+        const usage = measureUsage(modelId, systemPrompt, userPrompt, response);
+        await this.recordUsage(usage);
+        return { response, usage };
+    }
+
+    /**
+     * Add a call's usage to the run and project totals in agent state.
+     * @param usage Usage of the call
+     */
+    private async recordUsage(usage: TokenUsage): Promise<void> {
+        if (!this.stateId) return;
+
+        await this.serializeStateUpdate(async () => {
+            const state = await db.agent_state.get(this.stateId!);
+            if (!state) return;
+
+            await this.updateState({
+                runUsage: addUsage(state.runUsage, usage),
+                totalUsage: addUsage(state.totalUsage, usage)
+            });
+        });
+    }
+
+    /**
+     * Queue a read-modify-write update of agent state behind any in flight.
+     * @param update Function that reads and updates the state
+     */
+    private serializeStateUpdate(update: () => Promise<void>): Promise<void> {
+        const next = this.stateQueue.then(update);
+        this.stateQueue = next.catch(() => undefined);
+        return next;
+    }
+
+    /**
+     * Reset the run usage totals at the start of a new workflow run.
+     * @param runId Workflow run ID
+     */
+    async startUsageRun(runId: string): Promise<void> {
+        await this.updateState({
+            runUsage: { runId, inputTokens: 0, outputTokens: 0, cost: 0, calls: 0 }
+        });
+    }
+
+    /**
+     * Check the current run's usage against the token/cost budget in agent state.
+     * @returns Reason the budget is exhausted, or null if the run may continue
+     */
+    async checkBudget(): Promise<string | null> {
+        if (!this.stateId) return null;
+
+        const state = await db.agent_state.get(this.stateId);
+        const usage = state?.runUsage;
+        if (!state || !usage) return null;
+
+        const tokens = usage.inputTokens + usage.outputTokens;
+        if (state.maxTokens && tokens >= state.maxTokens) {
+            return `Token budget reached (${tokens.toLocaleString()} of ${state.maxTokens.toLocaleString()} tokens; ${formatUsage(usage)})`;
+        }
+        if (state.maxCost && usage.cost >= state.maxCost) {
+            return `Cost budget reached ($${usage.cost.toFixed(4)} of $${state.maxCost.toFixed(2)}; ${formatUsage(usage)})`;
+        }
+        return null;
+    }
+
+    /**
+     * Start recording the run timeline. Resuming a run continues its trace.
+     * @param runId Workflow run ID
+     */
+    async startTrace(runId: string): Promise<void> {
+        const state = this.stateId ? await db.agent_state.get(this.stateId) : undefined;
+        this.trace = state?.runTrace?.runId === runId ? state.runTrace : { runId, spans: [] };
+
+        // Spans still running were cut off by the interruption being resumed from
+        for (const span of this.trace.spans) {
+            if (span.status !== 'running') continue;
+            span.status = 'error';
+            span.endedAt = span.startedAt;
+            span.error = 'Interrupted';
+        }
+        this.currentStep = undefined;
+        await this.saveTrace();
+    }
+
+    /**
+     * Persist the run timeline to agent state now, replacing any batched save.
+     */
+    private saveTrace(): Promise<void> {
+        clearTimeout(this.traceSaveTimer);
+        this.traceSaveTimer = undefined;
+
+        const runTrace = this.trace;
+        if (!runTrace || !this.stateId) return Promise.resolve();
+        return this.serializeStateUpdate(() => this.updateState({ runTrace }));
+    }
+
+    /**
+     * Save the run timeline now, e.g. when a workflow ends outside a step.
+     */
+    async flushTrace(): Promise<void> {
+        await this.saveTrace();
+    }
+
+    /**
+     * Persist the run timeline soon, batching the changes made by agent calls.
+     */
+    private scheduleTraceSave(): void {
+        if (!this.trace || this.traceSaveTimer) return;
+        this.traceSaveTimer = setTimeout(() => void this.saveTrace(), TRACE_SAVE_DELAY_MS);
+    }
+
+    /**
+     * Add a running span to the timeline.
+     * @returns The span, or undefined if no trace is being recorded
+     */
+    private openSpan(span: Pick<RunTraceSpan, 'kind' | 'name' | 'parentId'>): RunTraceSpan | undefined {
+        if (!this.trace) return undefined;
+
+        const entry: RunTraceSpan = { id: uuidv4(), status: 'running', startedAt: Date.now(), ...span };
+        this.trace.spans.push(entry);
+        this.scheduleTraceSave();
+        return entry;
+    }
+
+    /**
+     * Mark a span as finished.
+     * @param error Failure message (the span succeeded if unset)
+     */
+    private closeSpan(span: RunTraceSpan | undefined, error?: string): void {
+        if (!span) return;
+
+        span.endedAt = Date.now();
+        span.status = error === undefined ? 'success' : 'error';
+        if (error !== undefined) span.error = error;
+        this.scheduleTraceSave();
+    }
+
+    /**
+     * Finish a call span with the call's usage (none when replayed).
+     */
+    private closeCallSpan(span: RunTraceSpan | undefined, usage?: TokenUsage): void {
+        if (!span) return;
+
+        if (usage) {
+            span.inputTokens = usage.inputTokens;
+            span.outputTokens = usage.outputTokens;
+            span.cost = usage.cost;
+        } else {
+            span.replayed = true;
+        }
+        this.closeSpan(span);
+    }
+
+    /**
+     * Start a manager step; calls made until endStep are nested under it.
+     * @param name Step name until the manager has chosen an action
+     */
+    async startStep(name: string): Promise<void> {
+        this.currentStep = this.openSpan({ kind: 'step', name });
+        await this.saveTrace();
+    }
+
+    /**
+     * Name the current step after the manager's decision.
+     * @param action Chosen action
+     * @param reasoning Manager's reasoning
+     */
+    describeStep(action: string, reasoning: string): void {
+        if (!this.currentStep) return;
+        this.currentStep.name = action;
+        this.currentStep.reasoning = reasoning;
+    }
+
+    /**
+     * Finish the current step.
+     * @param error Failure message (the step succeeded if unset)
+     */
+    async endStep(error?: string): Promise<void> {
+        const step = this.currentStep;
+        this.currentStep = undefined;
+        this.closeSpan(step, error);
+        await this.saveTrace();
+    }
+
+    /**
+     * Count a find/replace operation that matched nothing in the current step.
+     * @param agent Agent that proposed the operation
+     */
+    recordFailedOperation(agent: string): void {
+        if (!this.currentStep) return;
+
+        const failed = this.currentStep.failedOperations ??= {};
+        failed[agent] = (failed[agent] || 0) + 1;
+    }
+
+    /**
+     * Record the outcome of one attempt of a schema-validated call.
+     * @param callId Trace span of the call (from executeAgent)
+     * @param attempt Attempt number (0-based)
+     * @param error Parse/validation error if the output was rejected
+     */
+    traceAttempt(callId: string | undefined, attempt: number, error?: string): void {
+        const span = callId ? this.trace?.spans.find(s => s.id === callId) : undefined;
+        if (!span) return;
+
+        span.attempt = attempt + 1;
+        if (error) span.invalidOutput = error;
+        this.scheduleTraceSave();
+    }
+
+    /**
+     * Get the prompt token ceiling for the configured model.
+     * Agents that inject the manuscript switch to section-scoped context above it.
+     * @param modelId Model used instead of the global model (optional)
+     */
+    getContextLimit(modelId?: string): number {
+        return getContextTokenLimit(modelId || AIProviderFactory.getModelId(this.getProvider()));
     }
 
     /**
@@ -73,14 +365,20 @@ export class AgentRuntime {
      * @param userPrompt User prompt with variables resolved
      * @param requiresOnline Whether the agent needs internet access
      * @param agentName Name of the agent for logging
-     * @returns Raw LLM response text
+     * @param schema Output schema; providers with native structured output generate a matching object
+     * @param modelOverride Model to use instead of the global model (optional)
+     * @returns Raw LLM response text (JSON text of the object for structured output) and the call's trace ID
      */
     async executeAgent(
         systemPrompt: string,
         userPrompt: string,
         requiresOnline: boolean,
-        agentName: string
-    ): Promise<string> {
+        agentName: string,
+        schema?: z.ZodType,
+        modelOverride?: string
+    ): Promise<AgentCallResult> {
+        const startedAt = Date.now();
+        const span = this.openSpan({ kind: 'call', parentId: this.currentStep?.id, name: agentName });
         try {
             this.emitLog({
                 agent: agentName as any,
@@ -89,35 +387,60 @@ export class AgentRuntime {
                 metadata: { systemPrompt, userPrompt }
             });
 
-            const model = await this.getAIModel(requiresOnline);
+            const provider = this.getProvider();
+            const modelId = modelOverride || AIProviderFactory.getModelId(provider);
+            if (span) span.model = modelId;
+            const { response, usage } = await this.callModel(agentName, modelId, systemPrompt, userPrompt, async () => {
+                const model = await this.getAIModel(requiresOnline, modelOverride);
+
+                // Native structured output; the object is re-validated with the schema by the caller
+                if (schema && AIProviderFactory.supportsStructuredOutput(provider)) {
+                    const { generateObject } = await import('ai');
+                    const result = await generateObject({
+                        model,
+                        schema,
+                        messages: [
+                            { role: 'system', content: systemPrompt },
+                            { role: 'user', content: userPrompt }
+                        ]
+                    });
+
+                    return JSON.stringify(result.object);
+                }
+
+                // Use the AI SDK generateText function
+                const { generateText } = await import('ai');
+                const result = await generateText({
+                    model,
+                    messages: [
+                        { role: 'system', content: systemPrompt },
+                        { role: 'user', content: userPrompt }
+                    ]
+                });
 
-            // Use the AI SDK generateText function
-            const { generateText } = await import('ai');
-            const result = await generateText({
-                model,
-                messages: [
-                    { role: 'system', content: systemPrompt },
-                    { role: 'user', content: userPrompt }
-                ]
+                return result.text;
             });
 
-            const response = result.text;
-
             this.emitLog({
                 agent: agentName as any,
                 type: 'output',
                 content: response.substring(0, 500) + (response.length > 500 ? '...' : ''),
-                metadata: { fullResponse: response }
+                metadata: { fullResponse: response },
+                usage,
+                durationMs: Date.now() - startedAt
             });
 
-            return response;
+            this.closeCallSpan(span, usage);
+            return { response, callId: span?.id };
         } catch (error) {
             const errorMsg = error instanceof Error ? error.message : String(error);
             this.emitLog({
                 agent: agentName as any,
                 type: 'error',
-                content: `Error executing ${agentName}: ${errorMsg}`
+                content: `Error executing ${agentName}: ${errorMsg}`,
+                durationMs: Date.now() - startedAt
             });
+            this.closeSpan(span, errorMsg);
             throw error;
         }
     }
@@ -128,14 +451,16 @@ export class AgentRuntime {
      * @param userPrompt User prompt with variables resolved
      * @param imageBase64 Base64 encoded image data
      * @param agentName Name of the agent for logging
-     * @returns Raw LLM response text
+     * @returns Raw LLM response text and the call's trace ID
      */
     async executeAgentWithImage(
         systemPrompt: string,
         userPrompt: string,
         imageBase64: string,
         agentName: string
-    ): Promise<string> {
+    ): Promise<AgentCallResult> {
+        const startedAt = Date.now();
+        const span = this.openSpan({ kind: 'call', parentId: this.currentStep?.id, name: agentName });
         try {
             this.emitLog({
                 agent: agentName as any,
@@ -144,76 +469,82 @@ export class AgentRuntime {
                 metadata: { systemPrompt, userPrompt: userPrompt.substring(0, 200) }
             });
 
-            // Get provider and API key
-            const provider = typeof window !== 'undefined'
-                ? localStorage.getItem('novel-architect-provider') || 'openrouter'
-                : 'openrouter';
-            const apiKey = localStorage.getItem(`novel-architect-key-${provider}`);
-            if (!apiKey) throw new Error(`No API key found for ${provider}`);
-
-            // Get model
+            // Get provider and model
+            const provider = this.getProvider();
             const model = typeof window !== 'undefined'
                 ? localStorage.getItem(`novel-architect-model-${provider}`) || 'google/gemini-2.0-flash-001'
                 : 'google/gemini-2.0-flash-001';
-
-            // Build image data URL
-            const imageDataUrl = imageBase64.startsWith('data:')
-                ? imageBase64
-                : `data:image/png;base64,${imageBase64}`;
-
-            // Use OpenAI-compatible format for OpenRouter
-            const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${apiKey}`,
-                    'Content-Type': 'application/json',
-                    'HTTP-Referer': typeof window !== 'undefined' ? window.location.origin : '',
-                    'X-Title': 'PaperArchitect'
-                },
-                body: JSON.stringify({
-                    model,
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        {
-                            role: 'user',
-                            content: [
-                                {
-                                    type: 'image_url',
-                                    image_url: {
-                                        url: imageDataUrl,
-                                        detail: 'auto'
-                                    }
-                                },
-                                { type: 'text', text: userPrompt }
-                            ]
-                        }
-                    ]
-                })
-            });
-
-            if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`OpenRouter API error: ${response.status} - ${errorText}`);
-            }
-
-            const data = await response.json();
-            const text = data.choices?.[0]?.message?.content || '';
+            if (span) span.model = model;
+
+            const { response: text, usage } = await this.callModel(agentName, model, systemPrompt, userPrompt, async () => {
+                // Get API key
+                const apiKey = localStorage.getItem(`novel-architect-key-${provider}`);
+                if (!apiKey) throw new Error(`No API key found for ${provider}`);
+
+                // Build image data URL
+                const imageDataUrl = imageBase64.startsWith('data:')
+                    ? imageBase64
+                    : `data:image/png;base64,${imageBase64}`;
+
+                // Use OpenAI-compatible format for OpenRouter
+                const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+                    method: 'POST',
+                    headers: {
+                        'Authorization': `Bearer ${apiKey}`,
+                        'Content-Type': 'application/json',
+                        'HTTP-Referer': typeof window !== 'undefined' ? window.location.origin : '',
+                        'X-Title': 'PaperArchitect'
+                    },
+                    body: JSON.stringify({
+                        model,
+                        messages: [
+                            { role: 'system', content: systemPrompt },
+                            {
+                                role: 'user',
+                                content: [
+                                    {
+                                        type: 'image_url',
+                                        image_url: {
+                                            url: imageDataUrl,
+                                            detail: 'auto'
+                                        }
+                                    },
+                                    { type: 'text', text: userPrompt }
+                                ]
+                            }
+                        ]
+                    })
+                });
+
+                if (!response.ok) {
+                    const errorText = await response.text();
+                    throw new Error(`OpenRouter API error: ${response.status} - ${errorText}`);
+                }
+
+                const data = await response.json();
+                return data.choices?.[0]?.message?.content || '';
+            }, imageBase64);
 
             this.emitLog({
                 agent: agentName as any,
                 type: 'output',
                 content: text.substring(0, 500) + (text.length > 500 ? '...' : ''),
-                metadata: { fullResponse: text }
+                metadata: { fullResponse: text },
+                usage,
+                durationMs: Date.now() - startedAt
             });
 
-            return text;
+            this.closeCallSpan(span, usage);
+            return { response: text, callId: span?.id };
         } catch (error) {
             const errorMsg = error instanceof Error ? error.message : String(error);
             this.emitLog({
                 agent: agentName as any,
                 type: 'error',
-                content: `Error executing ${agentName} with image: ${errorMsg}`
+                content: `Error executing ${agentName} with image: ${errorMsg}`,
+                durationMs: Date.now() - startedAt
             });
+            this.closeSpan(span, errorMsg);
             throw error;
         }
     }
@@ -261,6 +592,7 @@ export class AgentRuntime {
             minScore,
             maxHunks: 5,
             maxTargets: 10,
+            writerConcurrency: 3,
             passIndex: 0,
             history: [],
             actionHistory: [],
@@ -293,26 +625,45 @@ export class AgentRuntime {
         });
     }
 
+    /**
+     * Get a prompt template: the project's override, or the built-in default.
+     * The version used is recorded with the next history entry.
+     * @param id Prompt ID (name of the constant in prompts.ts)
+     */
+    async getPrompt(id: PromptId): Promise<string> {
+        const { template, version } = await resolvePrompt(this.novelId, id);
+        this.promptVersions[id] = version;
+        return template;
+    }
+
     /**
      * Add an entry to the history log.
+     * Records the versions of the prompts used since the previous entry.
+     * @param reviewerScores Per-reviewer scores of a panel critique (optional)
      */
-    async addHistory(action: string, summary: string, success: boolean, error?: string): Promise<void> {
+    async addHistory(action: string, summary: string, success: boolean, error?: string, reviewerScores?: ReviewerScore[]): Promise<void> {
         if (!this.stateId) return;
 
-        const state = await db.agent_state.get(this.stateId);
-        if (!state) return;
-
-        const history = state.actionHistory || [];
-        const entry: HistoryEntry = {
-            timestamp: Date.now(),
-            action,
-            summary,
-            success,
-            error
-        };
-
-        history.push(entry);
-        await this.updateState({ actionHistory: history });
+        await this.serializeStateUpdate(async () => {
+            const state = await db.agent_state.get(this.stateId!);
+            if (!state) return;
+
+            const history = state.actionHistory || [];
+            const promptVersions = this.promptVersions;
+            this.promptVersions = {};
+            const entry: HistoryEntry = {
+                timestamp: Date.now(),
+                action,
+                summary,
+                success,
+                error,
+                ...(reviewerScores && { reviewerScores }),
+                ...(Object.keys(promptVersions).length > 0 && { promptVersions })
+            };
+
+            history.push(entry);
+            await this.updateState({ actionHistory: history });
+        });
     }
 
     /**
@@ -328,6 +679,44 @@ export class AgentRuntime {
             throw new Error('State not found');
         }
 
-        return buildAgentContext(state, currentManuscript, ephemeralVars);
+        const novel = await db.novels.get(this.novelId);
+        const journalProfile = getJournalProfile(novel?.settings?.journalProfileId);
+        return buildAgentContext(state, currentManuscript, ephemeralVars, journalProfile, novel?.settings?.citationMode);
+    }
+
+    /**
+     * Record a manuscript version for an agent step, attributed to the current pass and run.
+     * @param previousContent Manuscript before the step
+     * @param entry Agent, action, resulting manuscript and applied operations
+     */
+    async recordVersion(previousContent: string, entry: Omit<VersionEntry, 'passIndex' | 'runId'>): Promise<void> {
+        if (!this.stateId) {
+            throw new Error('No state ID - call getOrCreateState first');
+        }
+
+        const state = await db.agent_state.get(this.stateId);
+        await recordManuscriptVersion(
+            { userId: state?.userId || '', novelId: this.novelId, sceneId: this.sceneId },
+            previousContent,
+            { ...entry, passIndex: state?.passIndex ?? 0, runId: state?.runCheckpoint?.runId }
+        );
+    }
+
+    /**
+     * Get the journal profile selected in the project's settings.
+     * @returns Journal profile (NEJM if none selected)
+     */
+    async getJournalProfile(): Promise<JournalProfile> {
+        const novel = await db.novels.get(this.novelId);
+        return getJournalProfile(novel?.settings?.journalProfileId);
+    }
+
+    /**
+     * Get the Critic reviewer panel configured in the project's settings.
+     * @returns Enabled reviewers (empty when the project uses a single Critic)
+     */
+    async getReviewerPanel(): Promise<PanelReviewer[]> {
+        const novel = await db.novels.get(this.novelId);
+        return getReviewerPanel(novel?.settings?.reviewerPanel);
     }
 }
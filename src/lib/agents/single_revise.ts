@@ -5,7 +5,8 @@
 
 import { AgentRuntime } from './runtime';
 import { runReviser } from './reviser';
-import { LogEntry } from './types';
+import { LogEntry, EditMode, PendingHunk } from './types';
+import { applyCitationMode } from '@/lib/references/citation-keys';
 
 /**
  * Execute a single targeted revision based on user instruction.
@@ -15,7 +16,9 @@ import { LogEntry } from './types';
  * @param getCurrentManuscript Function to get current manuscript text
  * @param updateManuscript Function to update manuscript text
  * @param onLog Callback for log entries
- * @returns Final manuscript text
+ * @param mode 'apply' edits the manuscript; 'propose' hands the edits to onProposeHunks instead
+ * @param onProposeHunks Callback receiving pending hunks in propose mode
+ * @returns Final manuscript text (unchanged in propose mode)
  */
 export async function runSingleRevise(
     novelId: string,
@@ -23,7 +26,9 @@ export async function runSingleRevise(
     instruction: string,
     getCurrentManuscript: () => Promise<string>,
     updateManuscript: (text: string) => Promise<void>,
-    onLog?: (log: LogEntry) => void
+    onLog?: (log: LogEntry) => void,
+    mode: EditMode = 'apply',
+    onProposeHunks?: (hunks: PendingHunk[]) => void
 ): Promise<string> {
     // Create runtime
     const runtime = new AgentRuntime(novelId, sceneId);
@@ -54,10 +59,28 @@ export async function runSingleRevise(
     });
 
     // Run reviser once
-    const result = await runReviser(runtime, context, currentManuscript);
+    const result = await runReviser(runtime, context, currentManuscript, mode);
+
+    if (mode === 'propose') {
+        onProposeHunks?.(result.hunks);
+        runtime['emitLog']({
+            agent: 'System',
+            type: 'info',
+            content: `Single action revision proposed ${result.hunks.length} change${result.hunks.length === 1 ? '' : 's'} for review in the editor.`
+        });
+        return currentManuscript;
+    }
 
     // Update manuscript
-    await updateManuscript(result.manuscript);
+    const revised = await applyCitationMode(novelId, result.manuscript);
+    await updateManuscript(revised);
+    await runtime.recordVersion(currentManuscript, {
+        agent: 'Reviser',
+        action: 'single_revise',
+        content: revised,
+        operations: result.operations,
+        summary: instruction.substring(0, 200)
+    });
 
     runtime['emitLog']({
         agent: 'System',
@@ -65,5 +88,5 @@ export async function runSingleRevise(
         content: 'Single action revision complete.'
     });
 
-    return result.manuscript;
+    return revised;
 }
@@ -1,13 +1,17 @@
 /**
  * Table Processor Agent - Converts raw tables into LaTeX longtable format.
+ *
+ * Uploaded tables (CSV/XLSX) skip the LLM table conversion: their longtable is
+ * generated by lib/tables/longtable and the agent only writes the caption and
+ * the in-text reference.
  */
 
 import { AgentRuntime } from './runtime';
 import { resolveVariables } from './variables';
-import { validateKeys } from './parser';
-import { TABLE_PROCESSOR_SYSTEM_PROMPT, TABLE_PROCESSOR_PROMPT } from './prompts';
-import { AgentContext, TableProcessorOutput } from './types';
+import { AgentContext, TableProcessorOutput, TableProcessorOutputSchema, TableCaptionOutputSchema } from './types';
 import { executeWithJSONRetry } from './json_retry';
+import { ProjectTable } from '@/lib/db/schema';
+import { generateLongtable, formatTablePreview } from '@/lib/tables/longtable';
 
 /**
  * Extended context for table processor that includes raw table data.
@@ -16,6 +20,15 @@ interface TableProcessorContext extends Partial<AgentContext> {
     raw_table: string;
 }
 
+/**
+ * Extended context for captioning an uploaded table.
+ */
+interface TableCaptionContext extends Partial<AgentContext> {
+    table_name: string;
+    table_label: string;
+    table_data: string;
+}
+
 /**
  * Execute the Table Processor agent to convert a raw table into LaTeX format.
  * @param runtime Agent runtime instance
@@ -35,20 +48,22 @@ export async function runTableProcessor(
     };
 
     // Resolve the prompt with variables
-    const userPrompt = resolveVariables(TABLE_PROCESSOR_PROMPT, tableContext as any);
+    const userPrompt = resolveVariables(await runtime.getPrompt('TABLE_PROCESSOR_PROMPT'), tableContext);
+    const systemPrompt = await runtime.getPrompt('TABLE_PROCESSOR_SYSTEM_PROMPT');
 
-    // Execute agent (offline - no vision required) with JSON parse retry
-    const { output } = await executeWithJSONRetry<TableProcessorOutput>(
+    // Execute agent (offline - no vision required) with schema validation retry
+    const { output } = await executeWithJSONRetry(
         runtime,
-        () => runtime.executeAgent(
-            TABLE_PROCESSOR_SYSTEM_PROMPT,
-            userPrompt,
+        (feedback) => runtime.executeAgent(
+            systemPrompt,
+            userPrompt + feedback,
             false, // requiresOnline
-            'TableProcessor'
+            'TableProcessor',
+            TableProcessorOutputSchema
         ),
-        'TableProcessor'
+        'TableProcessor',
+        TableProcessorOutputSchema
     );
-    validateKeys(output, ['find', 'replace']);
 
     runtime['emitLog']({
         agent: 'TableProcessor',
@@ -64,3 +79,93 @@ export async function runTableProcessor(
 
     return output;
 }
+
+/**
+ * Insert an uploaded table into the manuscript. The Table Processor writes the
+ * caption and cites the table in a paragraph; the longtable block is generated
+ * from the table data and placed after that paragraph.
+ * @param runtime Agent runtime instance
+ * @param context Agent context with variables
+ * @param table Uploaded project table
+ * @param manuscript Current manuscript text
+ * @returns Updated manuscript, the find/replace operation applied, and the caption
+ */
+export async function runUploadedTableProcessor(
+    runtime: AgentRuntime,
+    context: AgentContext,
+    table: ProjectTable,
+    manuscript: string
+): Promise<{ manuscript: string; operation: { find: string; replace: string }; caption: string }> {
+    const reference = `\\ref{tab:${table.label}}`;
+    const captionContext: TableCaptionContext = {
+        ...context,
+        table_name: table.name,
+        table_label: table.label,
+        table_data: formatTablePreview(table)
+    };
+    const userPrompt = resolveVariables(await runtime.getPrompt('TABLE_CAPTION_PROMPT'), captionContext);
+    const systemPrompt = await runtime.getPrompt('TABLE_CAPTION_SYSTEM_PROMPT');
+
+    // The paragraph must exist and gain the reference; rejected output is retried with feedback
+    const checkedSchema = TableCaptionOutputSchema
+        .refine(output => output.find.trim().length > 0 && manuscript.includes(output.find), {
+            message: '"find" must be exact text from the current manuscript',
+            path: ['find']
+        })
+        .refine(output => output.replace.includes(reference), {
+            message: `"replace" must contain Table~${reference}`,
+            path: ['replace']
+        });
+
+    const { output } = await executeWithJSONRetry(
+        runtime,
+        (feedback) => runtime.executeAgent(
+            systemPrompt,
+            userPrompt + feedback,
+            false, // requiresOnline
+            'TableProcessor',
+            TableCaptionOutputSchema
+        ),
+        'TableProcessor',
+        checkedSchema
+    );
+
+    const operation = {
+        find: output.find,
+        replace: `${output.replace}\n\n${generateLongtable(table, output.caption)}`
+    };
+
+    runtime['emitLog']({
+        agent: 'TableProcessor',
+        type: 'output',
+        content: `Generated LaTeX table for ${table.name} (tab:${table.label}): ${output.caption}`
+    });
+
+    await runtime.addHistory(
+        'process_uploaded_table',
+        `Inserted uploaded table ${table.name} as tab:${table.label}`,
+        true
+    );
+
+    return { manuscript: manuscript.replace(output.find, () => operation.replace), operation, caption: output.caption };
+}
+
+/**
+ * Find uploaded tables whose label is not yet in the manuscript.
+ * @param manuscript Current manuscript text
+ * @param tables Project tables
+ * @returns Tables still to insert
+ */
+export function getUninsertedTables(manuscript: string, tables: ProjectTable[]): ProjectTable[] {
+    return tables.filter(table => !manuscript.includes(`\\label{tab:${table.label}}`));
+}
+
+/**
+ * List uploaded tables for the Manager prompt, e.g. "- baseline (Baseline.xlsx: 12 rows x 4 columns)".
+ */
+export function formatUploadedTables(tables: ProjectTable[]): string {
+    if (tables.length === 0) return 'None';
+    return tables
+        .map(table => `- ${table.label} (${table.name}: ${table.rows.length - table.headerRows} rows x ${table.rows[0]?.length ?? 0} columns)`)
+        .join('\n');
+}
@@ -1,8 +1,11 @@
 /**
  * TypeScript interfaces for the Manuscript Agent system.
+ * Agent outputs are defined as zod schemas; their types are inferred from the schemas.
  */
 
+import { z } from 'zod';
 import { AgentState } from '@/lib/db/schema';
+import { TokenUsage } from '@/lib/ai/usage';
 
 /**
  * Context object containing all variables available for prompt resolution.
@@ -23,10 +26,17 @@ export interface AgentContext {
     manuscript_word_count: number;
     main_text_word_count: number;
     existing_citations: string;
+    lint_summary: string; // Mechanical formatting findings from ManuscriptLint
+    compact_citations: boolean; // Project cites by [@key] markers resolved from the reference library (citation mode 'keys')
+
+    // Journal profile (from project settings)
+    journal_name: string;
+    journal_profile: string; // Formatted as markdown list of journal rules
 
     // Agent Inputs (Accumulating or Ephemeral)
     format_guidance?: string;
     section_plan?: string; // Formatted as markdown list
+    planned_sections?: PlanSection[]; // Section plan entries, for {#each} loops
     sections_drafted?: string; // Formatted as markdown list
 
     // Ephemeral (passed to specific agents)
@@ -36,6 +46,11 @@ export interface AgentContext {
     critique_summary?: string;
     critique_score?: number;
     action_items?: string; // Formatted as markdown list
+    manuscript_scope?: string; // Set when current_manuscript is limited to some sections
+
+    // Manager only (generated from the action registry)
+    available_actions?: string; // Formatted as numbered markdown list
+    section_budgets?: string; // Planned vs. actual words per section, formatted as markdown list
 
     // Citation workflow (ephemeral)
     sentence_citation_target?: string;
@@ -45,119 +60,199 @@ export interface AgentContext {
     section_title_citation_target?: string;
     evidence_type_citation_target?: string;
     already_identified_targets?: string;
+    library_references?: string; // Matching reference library entries, one "key: summary" line each
+
+    // Reviewer response workflow (ephemeral)
+    reviewer_comment?: string; // Reviewer name, comment number and text
+    revision_changes?: string; // Applied find/replace operations, formatted as markdown
 
     // Figure processor (ephemeral)
     images?: string; // Comma-separated image filenames
+    uploaded_tables?: string; // Uploaded tables not yet in the manuscript, formatted as markdown list
 
     // Formatter only (optional sample paper for format reference)
     sample_paper?: string; // Sample paper content for format guidance extraction
 }
 
+// A Record, so adding an AgentContext key without listing it here is a type error
+const AGENT_CONTEXT_KEY_SET: Record<keyof AgentContext, true> = {
+    instructions: true, current_manuscript: true, max_passes: true, min_score: true, max_hunks: true, max_targets: true,
+    pass_index: true, last_history_entry: true, has_format_guidance: true, manuscript_word_count: true,
+    main_text_word_count: true, existing_citations: true, lint_summary: true, compact_citations: true,
+    journal_name: true, journal_profile: true,
+    format_guidance: true, section_plan: true, planned_sections: true, sections_drafted: true,
+    section_title: true, section_summary: true, section_word_count: true, critique_summary: true, critique_score: true,
+    action_items: true, manuscript_scope: true,
+    available_actions: true, section_budgets: true,
+    sentence_citation_target: true, context_before_citation_target: true, context_after_citation_target: true,
+    reason_citation_target: true, section_title_citation_target: true, evidence_type_citation_target: true,
+    already_identified_targets: true, library_references: true,
+    reviewer_comment: true, revision_changes: true,
+    images: true, uploaded_tables: true,
+    sample_paper: true
+};
+
+/**
+ * Every AgentContext key, i.e. the variables available to prompt templates.
+ */
+export const AGENT_CONTEXT_KEYS = Object.keys(AGENT_CONTEXT_KEY_SET) as Array<keyof AgentContext>;
+
 /**
  * Manager agent decision output
  */
-export interface ManagerDecision {
-    action: 'generate_format_guidance' | 'process_images' | 'process_tables' | 'generate_plan' | 'write_section' | 'critique_and_improve_manuscript' | 'revise_manuscript' | 'finish';
-    parameters?: {
-        section_title?: string;
-        [key: string]: any;
-    };
-    reasoning: string;
-}
+export const ManagerDecisionSchema = z.object({
+    action: z.string(), // One of the registered manager actions (see actions.ts)
+    parameters: z.object({
+        section_title: z.string().optional()
+    }).catchall(z.any()).optional(),
+    reasoning: z.string()
+});
+export type ManagerDecision = z.infer<typeof ManagerDecisionSchema>;
+
+export const PlanSectionSchema = z.object({
+    section_title: z.string(),
+    status: z.enum(['complete', 'todo']).optional(), // Optional - manager determines completeness from manuscript
+    section_summary: z.string(),
+    section_word_count: z.number()
+});
+export type PlanSection = z.infer<typeof PlanSectionSchema>;
 
 /**
  * Planner agent output
  */
-export interface PlannerOutput {
-    sections: PlanSection[];
-}
+export const PlannerOutputSchema = z.object({
+    sections: z.array(PlanSectionSchema)
+});
+export type PlannerOutput = z.infer<typeof PlannerOutputSchema>;
 
-export interface PlanSection {
-    section_title: string;
-    status?: 'complete' | 'todo'; // Optional - manager determines completeness from manuscript
-    section_summary: string;
-    section_word_count: number;
-}
+export const WriteOperationSchema = z.object({
+    find: z.string(),
+    replace: z.string(),
+    section_title: z.string()
+});
+export type WriteOperation = z.infer<typeof WriteOperationSchema>;
 
 /**
  * Writer agent output
  */
-export interface WriterOutput {
-    rationale: string;
-    operations: WriteOperation[];
-}
-
-export interface WriteOperation {
-    find: string;
-    replace: string;
-    section_title: string;
-}
+export const WriterOutputSchema = z.object({
+    rationale: z.string(),
+    operations: z.array(WriteOperationSchema)
+});
+export type WriterOutput = z.infer<typeof WriterOutputSchema>;
 
 /**
  * Critic agent output
  */
-export interface CriticOutput {
-    critic_summary: string;
-    score: number;
-    action_items: string[];
-}
+export const CriticOutputSchema = z.object({
+    critic_summary: z.string(),
+    score: z.number().min(0).max(1),
+    action_items: z.array(z.string())
+});
+export type CriticOutput = z.infer<typeof CriticOutputSchema>;
+
+export const ReviseOperationSchema = z.object({
+    find: z.string(),
+    replace: z.string(),
+    count: z.union([z.number().int().positive(), z.literal('all')]).optional(),
+    reason: z.string().optional()
+});
+export type ReviseOperation = z.infer<typeof ReviseOperationSchema>;
 
 /**
  * Reviser agent output
  */
-export interface ReviserOutput {
-    status: 'continue' | 'satisfied';
-    rationale?: string; // Optional - brief explanation of changes
-    operations: ReviseOperation[];
-}
+export const ReviserOutputSchema = z.object({
+    status: z.enum(['continue', 'satisfied']),
+    rationale: z.string().optional(), // Optional - brief explanation of changes
+    operations: z.array(ReviseOperationSchema)
+});
+export type ReviserOutput = z.infer<typeof ReviserOutputSchema>;
 
-export interface ReviseOperation {
-    find: string;
-    replace: string;
-    count?: number | 'all';
-    reason?: string;
-}
+/**
+ * How an editing agent handles its find/replace operations.
+ * 'apply' edits the manuscript directly; 'propose' returns the operations
+ * as pending hunks for the user to accept or reject.
+ */
+export type EditMode = 'apply' | 'propose';
 
 /**
- * Citation Orchestrator output
+ * Proposed edit awaiting user review (propose-only mode).
+ * The agent determines which matching logic applies the operation on accept.
  */
-export interface CitationOrchestratorOutput {
-    citation_targets: CitationTarget[];
-}
+export type PendingHunk = {
+    id: string;
+    sceneId?: string;
+    createdAt: number;
+} & (
+    | { agent: 'Writer'; operation: WriteOperation }
+    | { agent: 'Reviser'; operation: ReviseOperation }
+);
 
-export interface CitationTarget {
-    sentence_citation_target: string;
-    context_before_citation_target?: string;
-    context_after_citation_target?: string;
-    section_title_citation_target: string;
-    reason_citation_target: string;
-    evidence_type_citation_target: string;
-}
+export const CitationTargetSchema = z.object({
+    sentence_citation_target: z.string(),
+    context_before_citation_target: z.string().optional(),
+    context_after_citation_target: z.string().optional(),
+    section_title_citation_target: z.string(),
+    reason_citation_target: z.string(),
+    evidence_type_citation_target: z.string()
+});
+export type CitationTarget = z.infer<typeof CitationTargetSchema>;
+
+/**
+ * Citation Orchestrator output
+ */
+export const CitationOrchestratorOutputSchema = z.object({
+    citation_targets: z.array(CitationTargetSchema)
+});
+export type CitationOrchestratorOutput = z.infer<typeof CitationOrchestratorOutputSchema>;
 
 /**
  * Citation Generator output
  */
-export interface CitationGeneratorOutput {
-    updated_sentence: string;
-    notes?: string;
-}
+export const CitationGeneratorOutputSchema = z.object({
+    updated_sentence: z.string(),
+    notes: z.string().optional()
+});
+export type CitationGeneratorOutput = z.infer<typeof CitationGeneratorOutputSchema>;
+
+/**
+ * Response Writer output (one point of the response letter)
+ */
+export const ResponseWriterOutputSchema = z.object({
+    response: z.string(),
+    change_summary: z.string()
+});
+export type ResponseWriterOutput = z.infer<typeof ResponseWriterOutputSchema>;
 
 /**
  * Figure Processor agent output
  */
-export interface FigureProcessorOutput {
-    figure_caption: string;
-    find: string;
-    replace: string;
-}
+export const FigureProcessorOutputSchema = z.object({
+    figure_caption: z.string(),
+    find: z.string(),
+    replace: z.string()
+});
+export type FigureProcessorOutput = z.infer<typeof FigureProcessorOutputSchema>;
 
 /**
  * Table Processor agent output
  */
-export interface TableProcessorOutput {
-    find: string;
-    replace: string;
-}
+export const TableProcessorOutputSchema = z.object({
+    find: z.string(),
+    replace: z.string()
+});
+export type TableProcessorOutput = z.infer<typeof TableProcessorOutputSchema>;
+
+/**
+ * Table caption output (uploaded tables; the longtable is generated by code)
+ */
+export const TableCaptionOutputSchema = z.object({
+    caption: z.string(),
+    find: z.string(),
+    replace: z.string()
+});
+export type TableCaptionOutput = z.infer<typeof TableCaptionOutputSchema>;
 
 /**
  * Log entry for UI display
@@ -165,10 +260,20 @@ export interface TableProcessorOutput {
 export interface LogEntry {
     id: string;
     timestamp: number;
-    agent: 'Manager' | 'Formatter' | 'FigureProcessor' | 'TableProcessor' | 'Planner' | 'Writer' | 'Critic' | 'Reviser' | 'CitationOrchestrator' | 'CitationGenerator' | 'System';
+    agent: 'Manager' | 'Formatter' | 'FigureProcessor' | 'TableProcessor' | 'Planner' | 'Writer' | 'Critic' | 'Reviser' | 'CitationOrchestrator' | 'CitationGenerator' | 'ManuscriptLint' | 'AbbreviationAnalyzer' | 'ResponseWriter' | 'System';
     type: 'input' | 'output' | 'error' | 'info';
     content: string;
     metadata?: any;
+    usage?: TokenUsage; // Set on agent output entries for live calls
+    durationMs?: number; // Set on agent output and error entries
+}
+
+/**
+ * Result of one agent call
+ */
+export interface AgentCallResult {
+    response: string; // Raw LLM response text
+    callId?: string; // Trace span of the call (set while a run trace is recorded)
 }
 
 /**
@@ -180,4 +285,17 @@ export interface HistoryEntry {
     summary: string;
     success: boolean;
     error?: string;
+    reviewerScores?: ReviewerScore[]; // Set on critiques by a reviewer panel
+    promptVersions?: Record<string, string>; // Prompt ID -> version ('default' or override hash) used by this step
+}
+
+/**
+ * One reviewer's result in a panel critique
+ */
+export interface ReviewerScore {
+    reviewer: string;
+    score: number;
+    weight: number;
+    actionItems: number;
+    model?: string;
 }
@@ -5,29 +5,20 @@
 
 import { AgentContext, PlanSection } from './types';
 import { countWordsExcludingCitations } from '../word-count';
+import { JournalProfile, getJournalProfile, formatJournalProfile } from '../exporters/journal-profiles';
+import { countPromptTokens } from '../ai/usage';
+import { lintManuscript, formatLintSummary } from '../manuscript-lint';
+import { renderTemplate } from './prompt_template';
 
 /**
- * Resolve variables in a prompt template by replacing {placeholder} with actual values.
+ * Resolve variables in a prompt template: {placeholder} values, {#if}/{#each}
+ * blocks and defaults (see prompt_template.ts for the syntax).
  * @param prompt Template string with {variable} placeholders
  * @param context Object containing variable values
  * @returns Resolved prompt string
  */
 export function resolveVariables(prompt: string, context: Partial<AgentContext>): string {
-    let resolved = prompt;
-
-    // Replace all {variable} placeholders
-    for (const [key, value] of Object.entries(context)) {
-        const placeholder = `{${key}}`;
-        if (resolved.includes(placeholder)) {
-            // Convert value to string if it's not already
-            const stringValue = value === undefined || value === null
-                ? ''
-                : String(value);
-            resolved = resolved.replace(new RegExp(placeholder.replace(/[{}]/g, '\\$&'), 'g'), stringValue);
-        }
-    }
-
-    return resolved;
+    return renderTemplate(prompt, context);
 }
 
 /**
@@ -79,6 +70,8 @@ export function formatSectionPlan(sections: PlanSection[]): string {
  * @param state Agent state from database
  * @param currentManuscript Current manuscript text
  * @param ephemeralVars Optional ephemeral variables for specific agent calls
+ * @param journalProfile Target journal profile (defaults to NEJM)
+ * @param citationMode Project citation mode (defaults to inline BibTeX)
  * @returns Complete agent context
  */
 export function buildAgentContext(
@@ -96,7 +89,9 @@ export function buildAgentContext(
         actionHistory?: any[];
     },
     currentManuscript: string,
-    ephemeralVars: Partial<AgentContext> = {}
+    ephemeralVars: Partial<AgentContext> = {},
+    journalProfile: JournalProfile = getJournalProfile(),
+    citationMode: 'inline' | 'keys' = 'inline'
 ): AgentContext {
     // Get last history entry
     const lastHistory = state.actionHistory && state.actionHistory.length > 0
@@ -104,11 +99,10 @@ export function buildAgentContext(
         : null;
 
     // Format section plan if it exists
-    const sectionPlanFormatted = state.sectionPlan
-        ? (Array.isArray(state.sectionPlan)
-            ? formatSectionPlan(state.sectionPlan)
-            : formatSectionPlan(state.sectionPlan.sections || []))
-        : '';
+    const plannedSections: PlanSection[] = state.sectionPlan
+        ? (Array.isArray(state.sectionPlan) ? state.sectionPlan : state.sectionPlan.sections || [])
+        : [];
+    const sectionPlanFormatted = formatSectionPlan(plannedSections);
 
     // Format sections drafted if it exists
     const sectionsDraftedFormatted = state.sectionsDrafted
@@ -145,11 +139,17 @@ export function buildAgentContext(
         manuscript_word_count: wordCount,
         main_text_word_count: mainTextWordCount,
         existing_citations: existingCitations,
+        lint_summary: formatLintSummary(lintManuscript(currentManuscript)),
+        compact_citations: citationMode === 'keys',
+        journal_name: journalProfile.name,
+        journal_profile: formatJournalProfile(journalProfile),
 
         // Agent Inputs (Accumulating)
         format_guidance: state.formatGuidance,
         section_plan: sectionPlanFormatted,
+        planned_sections: plannedSections,
         sections_drafted: sectionsDraftedFormatted,
+        manuscript_scope: '',
 
         // Ephemeral variables (passed for specific agent calls)
         ...ephemeralVars
@@ -164,3 +164,137 @@ export function buildAgentContext(
 export function countWords(text: string): number {
     return countWordsExcludingCitations(text);
 }
+
+/**
+ * A top-level LaTeX section of the manuscript.
+ */
+export interface ManuscriptSection {
+    /** Section title, or "Front matter" for text before the first \section */
+    title: string;
+    /** Full section text, including its heading */
+    text: string;
+    /** Titles of the \subsection headings inside the section */
+    subsections: string[];
+    wordCount: number;
+    tokenCount: number;
+}
+
+/**
+ * Split the manuscript into top-level sections at \section{} / \section*{} headings.
+ * Text before the first heading (title page, abstract) becomes a "Front matter" section.
+ * Joining the texts of all sections reproduces the manuscript exactly.
+ * @param manuscript Manuscript text
+ * @returns Sections in document order
+ */
+export function splitManuscriptSections(manuscript: string): ManuscriptSection[] {
+    const headingRegex = /^[ \t]*\\section\*?\{([^}]*)\}/gm;
+    const starts: Array<{ index: number; title: string }> = [];
+
+    let match: RegExpExecArray | null;
+    while ((match = headingRegex.exec(manuscript)) !== null) {
+        starts.push({ index: match.index, title: match[1].trim() });
+    }
+
+    if (starts.length === 0 || starts[0].index > 0) {
+        starts.unshift({ index: 0, title: 'Front matter' });
+    }
+
+    return starts
+        .map((start, i) => {
+            const text = manuscript.slice(start.index, starts[i + 1]?.index ?? manuscript.length);
+            const subsections = Array.from(text.matchAll(/\\subsection\*?\{([^}]*)\}/g), m => m[1].trim());
+            return {
+                title: start.title,
+                text,
+                subsections,
+                wordCount: countWordsExcludingCitations(text),
+                tokenCount: countPromptTokens(text)
+            };
+        })
+        .filter(section => section.text.trim().length > 0);
+}
+
+/**
+ * Group consecutive sections so each group stays within a token budget.
+ * A section larger than the budget gets a group of its own.
+ * @param sections Manuscript sections
+ * @param maxTokens Token budget per group
+ * @returns Groups of section indexes
+ */
+export function groupSectionsByTokens(sections: ManuscriptSection[], maxTokens: number): number[][] {
+    const groups: number[][] = [];
+    let current: number[] = [];
+    let currentTokens = 0;
+
+    sections.forEach((section, index) => {
+        if (current.length > 0 && currentTokens + section.tokenCount > maxTokens) {
+            groups.push(current);
+            current = [];
+            currentTokens = 0;
+        }
+        current.push(index);
+        currentTokens += section.tokenCount;
+    });
+
+    if (current.length > 0) groups.push(current);
+    return groups;
+}
+
+/**
+ * Find the sections named in revision instructions (e.g. action items that
+ * say "In the Methods section..."). Matching ignores case and section numbering.
+ * @param sections Manuscript sections
+ * @param instructions Critique summary and/or action items
+ * @returns Indexes of the mentioned sections (empty if none are named)
+ */
+export function findRelevantSections(sections: ManuscriptSection[], instructions: string): number[] {
+    const haystack = instructions.toLowerCase();
+    const normalize = (title: string) => title.replace(/^[\d.\s]+/, '').trim().toLowerCase();
+
+    return sections
+        .map((section, index) => ({ index, titles: [section.title, ...section.subsections].map(normalize) }))
+        .filter(({ titles }) => titles.some(title => title.length > 2 && haystack.includes(title)))
+        .map(({ index }) => index);
+}
+
+/**
+ * Build a section-scoped manuscript: included sections are given in full and
+ * every other section is replaced by a one-line outline comment, in document order.
+ * @param sections Manuscript sections
+ * @param include Indexes of sections to include in full
+ * @returns Scoped manuscript text
+ */
+export function buildScopedManuscript(sections: ManuscriptSection[], include: number[]): string {
+    return sections.map((section, index) => {
+        if (include.includes(index)) return section.text;
+
+        const subsections = section.subsections.length > 0
+            ? `; subsections: ${section.subsections.join(', ')}`
+            : '';
+        return `% [Omitted section: ${section.title} (~${section.wordCount} words${subsections})]\n\n`;
+    }).join('');
+}
+
+/**
+ * Scope an agent context to a subset of manuscript sections.
+ * Sets current_manuscript to the scoped manuscript and manuscript_scope to a
+ * note telling the agent which sections are in view.
+ * @param context Agent context with the full manuscript
+ * @param sections Sections of context.current_manuscript
+ * @param include Indexes of sections to include in full
+ * @returns Scoped context
+ */
+export function scopeContextToSections(
+    context: AgentContext,
+    sections: ManuscriptSection[],
+    include: number[]
+): AgentContext {
+    const titles = include.map(index => sections[index].title).join(', ');
+
+    return {
+        ...context,
+        current_manuscript: buildScopedManuscript(sections, include),
+        manuscript_scope: `The manuscript is too long to show in full. Only these sections are shown in full: ${titles}. ` +
+            'Other sections appear as "% [Omitted section: ...]" outline lines; do not evaluate or edit them.'
+    };
+}
@@ -0,0 +1,107 @@
+/**
+ * Manuscript Versions - Snapshot history of agent edits for diffing and revert.
+ */
+
+import { db } from '@/lib/db';
+import { ManuscriptVersion } from '@/lib/db/schema';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Project/scene a version belongs to.
+ */
+export interface VersionScope {
+    userId: string;
+    novelId: string;
+    sceneId?: string | null;
+}
+
+/**
+ * Details of the step that produced a version.
+ */
+export interface VersionEntry {
+    agent: string;
+    action: string;
+    content: string;
+    operations?: unknown[];
+    summary?: string;
+    passIndex?: number;
+    runId?: string;
+}
+
+/**
+ * Get all versions of a scene's manuscript, oldest first.
+ * @param novelId Novel ID
+ * @param sceneId Scene ID (versions without a scene are project-level)
+ * @returns Versions sorted by creation time
+ */
+export async function getManuscriptVersions(novelId: string, sceneId?: string | null): Promise<ManuscriptVersion[]> {
+    if (sceneId) {
+        return db.manuscript_versions.where('sceneId').equals(sceneId).sortBy('createdAt');
+    }
+    return db.manuscript_versions
+        .where('novelId')
+        .equals(novelId)
+        .filter(v => !v.sceneId)
+        .sortBy('createdAt');
+}
+
+/**
+ * Record a manuscript version for a step.
+ * If the manuscript the step started from is not the latest recorded version
+ * (first step, or the user edited in between), that starting point is recorded
+ * first so every diff has a correct "before" side.
+ * @param scope Project/scene the manuscript belongs to
+ * @param previousContent Manuscript before the step
+ * @param entry Step details and resulting manuscript
+ * @returns The recorded version, or null if the step changed nothing
+ */
+export async function recordManuscriptVersion(
+    scope: VersionScope,
+    previousContent: string,
+    entry: VersionEntry
+): Promise<ManuscriptVersion | null> {
+    if (entry.content === previousContent) {
+        return null;
+    }
+
+    const versions = await getManuscriptVersions(scope.novelId, scope.sceneId);
+    const latest = versions[versions.length - 1];
+    const now = Date.now();
+
+    if ((!latest || latest.content !== previousContent) && previousContent.trim()) {
+        await db.manuscript_versions.add({
+            id: uuidv4(),
+            userId: scope.userId,
+            novelId: scope.novelId,
+            sceneId: scope.sceneId,
+            agent: 'User',
+            action: latest ? 'manual_edit' : 'baseline',
+            passIndex: entry.passIndex ?? 0,
+            runId: entry.runId,
+            summary: latest ? 'Edits made outside the agents' : 'Manuscript before the first recorded step',
+            operations: [],
+            content: previousContent,
+            createdAt: now - 1, // Sort before the step it precedes
+            lastModified: now
+        });
+    }
+
+    const version: ManuscriptVersion = {
+        id: uuidv4(),
+        userId: scope.userId,
+        novelId: scope.novelId,
+        sceneId: scope.sceneId,
+        agent: entry.agent,
+        action: entry.action,
+        passIndex: entry.passIndex ?? 0,
+        runId: entry.runId,
+        summary: entry.summary,
+        operations: entry.operations ?? [],
+        content: entry.content,
+        createdAt: now,
+        lastModified: now
+    };
+
+    await db.manuscript_versions.add(version);
+    return version;
+}
@@ -0,0 +1,162 @@
+/**
+ * Section Word Budgets - Compare the plan's per-section word counts with the manuscript.
+ *
+ * Each planned section is matched to a \section{} of the manuscript and its
+ * words (excluding citations) are compared with section_word_count. Sections
+ * outside the tolerance get deterministic trim/expand instructions for the Reviser.
+ */
+
+import { PlanSection } from './types';
+import { splitManuscriptSections } from './variables';
+import { countWordsExcludingCitations } from '../word-count';
+import { AgentState } from '@/lib/db/schema';
+
+/** Allowed deviation from a section's word budget (fraction of the budget) */
+export const WORD_BUDGET_TOLERANCE = 0.2;
+
+export type SectionBudgetStatus = 'within' | 'over' | 'under' | 'missing';
+
+/**
+ * Budget comparison for one planned section.
+ */
+export interface SectionBudget {
+    title: string; // Planned section title
+    summary: string; // Planned section summary
+    target: number; // Planned word count
+    actual: number; // Words in the matching \section, excluding its heading (0 if missing)
+    difference: number; // actual - target
+    status: SectionBudgetStatus;
+}
+
+/**
+ * Get the section plan from agent state as an array.
+ */
+export function getPlanSections(state: Pick<AgentState, 'sectionPlan'> | null | undefined): PlanSection[] {
+    const sectionPlan = state?.sectionPlan;
+    if (!sectionPlan) return [];
+    return Array.isArray(sectionPlan) ? sectionPlan : sectionPlan.sections || [];
+}
+
+/**
+ * Normalize a section title for matching (case, numbering, LaTeX escapes).
+ */
+export function normalizeSectionTitle(title: string): string {
+    return title
+        .replace(/\\&/g, '&')
+        .trim()
+        .toLowerCase()
+        .replace(/^[\d\s.\-–—)]+/, '')
+        .replace(/\s+/g, ' ');
+}
+
+/**
+ * Match planned sections to the manuscript's \section{} blocks.
+ * Plan titles are matched exactly first, then by containment ("Methods" matches
+ * "Materials and Methods"); each manuscript section is matched at most once.
+ * @param sections Section plan
+ * @param manuscript Current manuscript text
+ * @returns Per planned section (in plan order), the words of the matching section
+ *          excluding its heading, or null if the section is missing
+ */
+export function matchPlanSections(sections: PlanSection[], manuscript: string): Array<{ wordCount: number } | null> {
+    const written = splitManuscriptSections(manuscript)
+        .filter(section => section.title !== 'Front matter' || /^[ \t]*\\section/.test(section.text))
+        .map(section => ({
+            title: normalizeSectionTitle(section.title),
+            wordCount: countWordsExcludingCitations(section.text.replace(/^[ \t]*\\section\*?\{[^}]*\}/, ''))
+        }));
+    const used = new Set<number>();
+
+    const findWritten = (title: string): number => {
+        const exact = written.findIndex((section, i) => !used.has(i) && section.title === title);
+        if (exact >= 0) return exact;
+        return written.findIndex((section, i) => !used.has(i) && section.title.length > 2 && title.length > 2
+            && (section.title.includes(title) || title.includes(section.title)));
+    };
+
+    return sections.map(section => {
+        const index = findWritten(normalizeSectionTitle(section.section_title));
+        if (index < 0) return null;
+        used.add(index);
+        return { wordCount: written[index].wordCount };
+    });
+}
+
+/**
+ * Compare planned section word counts with the manuscript's \section{} blocks
+ * (matched as in matchPlanSections).
+ * @param sections Section plan
+ * @param manuscript Current manuscript text
+ * @param tolerance Allowed deviation as a fraction of each budget
+ * @returns One comparison per planned section with a budget, in plan order
+ */
+export function getSectionBudgets(
+    sections: PlanSection[],
+    manuscript: string,
+    tolerance: number = WORD_BUDGET_TOLERANCE
+): SectionBudget[] {
+    const matches = matchPlanSections(sections, manuscript);
+
+    return sections
+        .map((section, i) => ({ section, match: matches[i] }))
+        .filter(({ section }) => section.section_word_count > 0)
+        .map(({ section, match }) => {
+            const target = section.section_word_count;
+            const budget = {
+                title: section.section_title,
+                summary: section.section_summary,
+                target
+            };
+            if (!match) {
+                return { ...budget, actual: 0, difference: -target, status: 'missing' as const };
+            }
+
+            const actual = match.wordCount;
+            const status: SectionBudgetStatus = actual > target * (1 + tolerance)
+                ? 'over'
+                : actual < target * (1 - tolerance) ? 'under' : 'within';
+            return { ...budget, actual, difference: actual - target, status };
+        });
+}
+
+/**
+ * Sections that were written but fall outside their budget.
+ */
+export function getOutOfBudgetSections(budgets: SectionBudget[]): SectionBudget[] {
+    return budgets.filter(budget => budget.status === 'over' || budget.status === 'under');
+}
+
+/**
+ * Format budgets for prompts, e.g. "- Methods: 1450 / 1000 words (over by 450)".
+ */
+export function formatSectionBudgets(budgets: SectionBudget[]): string {
+    if (budgets.length === 0) return 'No section plan with word budgets.';
+
+    return budgets.map(budget => {
+        const counts = `${budget.actual} / ${budget.target} words`;
+        switch (budget.status) {
+            case 'missing': return `- ${budget.title}: not written yet (${budget.target} words planned)`;
+            case 'over': return `- ${budget.title}: ${counts} (over by ${budget.difference})`;
+            case 'under': return `- ${budget.title}: ${counts} (under by ${-budget.difference})`;
+            default: return `- ${budget.title}: ${counts} (within budget)`;
+        }
+    }).join('\n');
+}
+
+/**
+ * Build Reviser action items that bring out-of-budget sections back to their planned length.
+ * @param budgets Section budget comparisons
+ * @returns One trim or expand instruction per section outside the tolerance
+ */
+export function buildBudgetActionItems(budgets: SectionBudget[]): string[] {
+    return getOutOfBudgetSections(budgets).map(budget => {
+        if (budget.status === 'over') {
+            return `Trim the "${budget.title}" section from ${budget.actual} to about ${budget.target} words ` +
+                `(remove roughly ${budget.difference} words). Tighten wording and cut repetition and secondary detail; ` +
+                'keep all results, citations, and figure/table references.';
+        }
+        return `Expand the "${budget.title}" section from ${budget.actual} to about ${budget.target} words ` +
+            `(add roughly ${-budget.difference} words) by developing what the plan calls for: ${budget.summary} ` +
+            'Do not invent data, results, or citations.';
+    });
+}
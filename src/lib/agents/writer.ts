@@ -3,11 +3,11 @@
  */
 
 import { AgentRuntime } from './runtime';
-import { resolveVariables } from './variables';
-import { validateKeys } from './parser';
-import { WRITER_SYSTEM_PROMPT, WRITER_PROMPT } from './prompts';
-import { AgentContext, WriterOutput, PlanSection } from './types';
+import { resolveVariables, splitManuscriptSections } from './variables';
+import { matchPlanSections, normalizeSectionTitle } from './word_budgets';
+import { AgentContext, WriterOutput, WriteOperation, PlanSection, EditMode, PendingHunk, WriterOutputSchema } from './types';
 import { executeWithJSONRetry } from './json_retry';
+import { createPendingHunks } from './hunks';
 
 /**
  * Escape regex special characters.
@@ -45,9 +45,14 @@ function jaccardSimilarity(setA: Set<string>, setB: Set<string>): number {
  * Tier 4: Append fallback
  * @param manuscript Current manuscript text
  * @param operations Find/replace operations from writer
+ * @param onUnmatched Called for each operation that needed the append fallback (optional)
  * @returns Updated manuscript
  */
-function applyWriteOperations(manuscript: string, operations: WriterOutput['operations']): string {
+export function applyWriteOperations(
+    manuscript: string,
+    operations: WriterOutput['operations'],
+    onUnmatched?: (operation: WriteOperation) => void
+): string {
     let updated = manuscript;
 
     for (const op of operations) {
@@ -114,6 +119,7 @@ function applyWriteOperations(manuscript: string, operations: WriterOutput['oper
 
         // Tier 4: Fallback - Append
         console.warn('[Writer] Could not find match for block, appending.');
+        onUnmatched?.(op);
         updated = updated + '\n\n' + replace;
     }
 
@@ -121,48 +127,90 @@ function applyWriteOperations(manuscript: string, operations: WriterOutput['oper
 }
 
 /**
- * Execute the Writer agent to draft a section.
+ * Call the Writer agent for one section, without touching the manuscript or state.
  * @param runtime Agent runtime instance
  * @param context Agent context with variables (including section_title, section_summary, section_word_count)
- * @param currentManuscript Current manuscript text
- * @returns Updated manuscript text
+ * @returns Validated writer output
  */
-export async function runWriter(
-    runtime: AgentRuntime,
-    context: AgentContext,
-    currentManuscript: string
-): Promise<string> {
+async function draftSection(runtime: AgentRuntime, context: AgentContext): Promise<WriterOutput> {
     // Resolve the prompt with variables
-    const userPrompt = resolveVariables(WRITER_PROMPT, context);
+    const userPrompt = resolveVariables(await runtime.getPrompt('WRITER_PROMPT'), context);
+    const systemPrompt = await runtime.getPrompt('WRITER_SYSTEM_PROMPT');
 
-    // Execute agent (requires online for research/citations) with JSON parse retry
-    const { output } = await executeWithJSONRetry<WriterOutput>(
+    // Execute agent (requires online for research/citations) with schema validation retry
+    const { output } = await executeWithJSONRetry(
         runtime,
-        () => runtime.executeAgent(
-            WRITER_SYSTEM_PROMPT,
-            userPrompt,
+        (feedback) => runtime.executeAgent(
+            systemPrompt,
+            userPrompt + feedback,
             true, // requiresOnline
-            'Writer'
+            'Writer',
+            WriterOutputSchema
         ),
-        'Writer'
+        'Writer',
+        WriterOutputSchema
     );
-    validateKeys(output, ['rationale', 'operations']);
 
-    // Apply operations to manuscript
-    const updatedManuscript = applyWriteOperations(currentManuscript, output.operations);
+    return output;
+}
 
-    // Update sections drafted
+/**
+ * Record sections as drafted in agent state.
+ * @param runtime Agent runtime instance
+ * @param currentManuscript Current manuscript text
+ * @param titles Titles of the drafted sections
+ */
+async function markSectionsDrafted(runtime: AgentRuntime, currentManuscript: string, titles: string[]): Promise<void> {
     const state = await runtime['buildContext'](currentManuscript);
     const sectionsDrafted = state.sections_drafted
         ? state.sections_drafted.split('\n').map(s => s.replace(/^- /, ''))
         : [];
 
-    if (context.section_title && !sectionsDrafted.includes(context.section_title)) {
-        sectionsDrafted.push(context.section_title);
+    for (const title of titles) {
+        if (title && !sectionsDrafted.includes(title)) {
+            sectionsDrafted.push(title);
+        }
     }
 
-    // Update state
     await runtime.updateState({ sectionsDrafted });
+}
+
+/**
+ * Execute the Writer agent to draft a section.
+ * @param runtime Agent runtime instance
+ * @param context Agent context with variables (including section_title, section_summary, section_word_count)
+ * @param currentManuscript Current manuscript text
+ * @param mode 'apply' edits the manuscript; 'propose' leaves it unchanged and returns pending hunks
+ * @returns Object with updated manuscript, the operations, and any pending hunks
+ */
+export async function runWriter(
+    runtime: AgentRuntime,
+    context: AgentContext,
+    currentManuscript: string,
+    mode: EditMode = 'apply'
+): Promise<{ manuscript: string; operations: WriteOperation[]; hunks: PendingHunk[] }> {
+    const output = await draftSection(runtime, context);
+
+    // Propose-only: the section isn't drafted until its hunks are accepted
+    if (mode === 'propose') {
+        await runtime.addHistory(
+            'write_section',
+            `Proposed draft of section: ${context.section_title} for review. ${output.rationale}`,
+            true
+        );
+
+        return {
+            manuscript: currentManuscript,
+            operations: output.operations,
+            hunks: createPendingHunks('Writer', output.operations, runtime['sceneId'])
+        };
+    }
+
+    // Apply operations to manuscript
+    const updatedManuscript = applyWriteOperations(currentManuscript, output.operations, () => runtime.recordFailedOperation('Writer'));
+
+    // Update sections drafted
+    await markSectionsDrafted(runtime, currentManuscript, context.section_title ? [context.section_title] : []);
 
     await runtime.addHistory(
         'write_section',
@@ -170,35 +218,172 @@ export async function runWriter(
         true
     );
 
-    return updatedManuscript;
+    return {
+        manuscript: updatedManuscript,
+        operations: output.operations,
+        hunks: []
+    };
+}
+
+/**
+ * Run tasks with at most `limit` in flight at once.
+ * @returns Settled results in input order
+ */
+async function runWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+    const results: PromiseSettledResult<R>[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            try {
+                results[index] = { status: 'fulfilled', value: await task(items[index]) };
+            } catch (reason) {
+                results[index] = { status: 'rejected', reason };
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+    return results;
+}
+
+/**
+ * Draft several sections concurrently and merge them into the manuscript.
+ *
+ * Every section is written against the same frozen context (section plan and
+ * manuscript as they were before drafting), so drafts don't see each other.
+ * Drafts are then applied in plan order. An operation whose target text was
+ * present before drafting but was changed by an earlier section's draft is a
+ * collision; it is still applied (with the writer's fuzzy/append fallbacks)
+ * and reported in the log.
+ * @param runtime Agent runtime instance
+ * @param sections Sections to draft, in plan order
+ * @param currentManuscript Current manuscript text
+ * @param concurrency Maximum number of Writer calls in flight
+ * @param mode 'apply' edits the manuscript; 'propose' leaves it unchanged and returns pending hunks
+ * @returns Updated manuscript, all operations, drafted section titles, collision messages, and any pending hunks
+ */
+export async function runParallelWriters(
+    runtime: AgentRuntime,
+    sections: PlanSection[],
+    currentManuscript: string,
+    concurrency: number,
+    mode: EditMode = 'apply'
+): Promise<{ manuscript: string; operations: WriteOperation[]; drafted: string[]; collisions: string[]; hunks: PendingHunk[] }> {
+    // 1. Freeze the shared context
+    const baseContext = await runtime.buildContext(currentManuscript);
+
+    runtime['emitLog']({
+        agent: 'Writer',
+        type: 'info',
+        content: `Drafting ${sections.length} sections with up to ${concurrency} in parallel: ${sections.map(s => s.section_title).join(', ')}`
+    });
+
+    // 2. Draft all sections against the frozen context
+    const results = await runWithConcurrency(sections, concurrency, section => draftSection(runtime, {
+        ...baseContext,
+        section_title: section.section_title,
+        section_summary: section.section_summary,
+        section_word_count: section.section_word_count
+    }));
+
+    // 3. Merge drafts in plan order, reporting collisions
+    let manuscript = currentManuscript;
+    const operations: WriteOperation[] = [];
+    const drafted: string[] = [];
+    const collisions: string[] = [];
+
+    results.forEach((result, index) => {
+        const title = sections[index].section_title;
+
+        if (result.status === 'rejected') {
+            const errorMsg = result.reason instanceof Error ? result.reason.message : String(result.reason);
+            runtime['emitLog']({
+                agent: 'Writer',
+                type: 'error',
+                content: `Drafting "${title}" failed: ${errorMsg}`
+            });
+            return;
+        }
+
+        for (const op of result.value.operations) {
+            if (op.find && currentManuscript.includes(op.find) && !manuscript.includes(op.find)) {
+                const collision = `"${title}" targets text already changed by an earlier section: "${op.find.substring(0, 80)}${op.find.length > 80 ? '...' : ''}"`;
+                collisions.push(collision);
+                runtime['emitLog']({
+                    agent: 'Writer',
+                    type: 'info',
+                    content: `Collision: ${collision}. Applying with fuzzy matching.`
+                });
+            }
+            manuscript = applyWriteOperations(manuscript, [op], mode === 'apply' ? () => runtime.recordFailedOperation('Writer') : undefined);
+            operations.push(op);
+        }
+        drafted.push(title);
+    });
+
+    if (drafted.length === 0) {
+        throw new Error('All parallel section drafts failed');
+    }
+
+    // Propose-only: the merge above only detected collisions; the sections aren't drafted until accepted
+    if (mode === 'propose') {
+        await runtime.addHistory(
+            'draft_remaining_sections',
+            `Proposed drafts of ${drafted.length} of ${sections.length} sections for review: ${drafted.join(', ')}.` +
+            (collisions.length > 0 ? ` ${collisions.length} collisions reported.` : ''),
+            drafted.length === sections.length
+        );
+
+        return {
+            manuscript: currentManuscript,
+            operations,
+            drafted,
+            collisions,
+            hunks: createPendingHunks('Writer', operations, runtime['sceneId'])
+        };
+    }
+
+    // 4. Record progress once for the batch
+    await markSectionsDrafted(runtime, currentManuscript, drafted);
+
+    await runtime.addHistory(
+        'draft_remaining_sections',
+        `Drafted ${drafted.length} of ${sections.length} sections in parallel: ${drafted.join(', ')}.` +
+        (collisions.length > 0 ? ` ${collisions.length} collisions reported.` : ''),
+        drafted.length === sections.length
+    );
+
+    return { manuscript, operations, drafted, collisions, hunks: [] };
 }
 
 /**
  * Find the next section to write from the plan by checking the manuscript.
- * A section is considered complete if its heading exists in the manuscript.
+ * A section is considered complete if a matching \section{} or \subsection{} heading exists.
  * @param sections Section plan
  * @param manuscript Current manuscript text
  * @returns Next section to write, or null if all complete
  */
 export function getNextSectionToWrite(sections: PlanSection[], manuscript: string): PlanSection | null {
-    const manuscriptLower = manuscript.toLowerCase();
-
-    for (const section of sections) {
-        // Check if section heading exists in manuscript (any heading level)
-        const titleLower = section.section_title.toLowerCase();
-        const headingPatterns = [
-            `# ${titleLower}`,      // H1
-            `## ${titleLower}`,     // H2
-            `### ${titleLower}`,    // H3
-            `#### ${titleLower}`,   // H4
-        ];
-
-        const exists = headingPatterns.some(pattern => manuscriptLower.includes(pattern));
-
-        if (!exists) {
-            return section; // Found a section that doesn't exist in manuscript
-        }
-    }
+    return getRemainingSections(sections, manuscript)[0] ?? null;
+}
+
+/**
+ * Find all sections from the plan not yet in the manuscript.
+ * @param sections Section plan
+ * @param manuscript Current manuscript text
+ * @returns Missing sections in plan order
+ */
+export function getRemainingSections(sections: PlanSection[], manuscript: string): PlanSection[] {
+    const matches = matchPlanSections(sections, manuscript);
+    // Plans may list subsections (e.g. "Study Design" under Methods)
+    const subsections = new Set(splitManuscriptSections(manuscript)
+        .flatMap(section => section.subsections.map(normalizeSectionTitle)));
 
-    return null; // All sections exist in manuscript
+    return sections.filter((section, i) => !matches[i] && !subsections.has(normalizeSectionTitle(section.section_title)));
 }
@@ -0,0 +1,168 @@
+/**
+ * LLM Fixtures - Record agent prompts/responses and replay them offline.
+ *
+ * In record mode every agent call is stored with its prompts and response.
+ * In replay mode responses are served from a fixture instead of a live
+ * provider, so agent runs are reproducible without API keys or network.
+ */
+
+export type LLMMode = 'live' | 'record' | 'replay';
+
+/**
+ * One recorded agent call.
+ */
+export interface LLMFixtureEntry {
+    agent: string;
+    /** SHA-256 of the system prompt, user prompt and image (if any) */
+    promptHash: string;
+    systemPrompt: string;
+    userPrompt: string;
+    /** Set for executeAgentWithImage calls; the image itself is not stored */
+    imageHash?: string;
+    response: string;
+    recordedAt: number;
+}
+
+/**
+ * Fixture file contents.
+ */
+export interface LLMFixture {
+    version: 1;
+    createdAt: number;
+    entries: LLMFixtureEntry[];
+}
+
+/**
+ * Hash text with SHA-256 (Web Crypto, available in browsers and Node).
+ * @param text Text to hash
+ * @returns Hex digest
+ */
+async function sha256(text: string): Promise<string> {
+    const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hash an agent call's prompts for fixture lookup.
+ * @param systemPrompt System prompt
+ * @param userPrompt User prompt
+ * @param imageBase64 Image sent with the prompt (optional)
+ * @returns Prompt hash and image hash (if an image was given)
+ */
+export async function hashPrompt(
+    systemPrompt: string,
+    userPrompt: string,
+    imageBase64?: string
+): Promise<{ promptHash: string; imageHash?: string }> {
+    const imageHash = imageBase64 ? await sha256(imageBase64) : undefined;
+    const promptHash = await sha256(`${systemPrompt}\u0000${userPrompt}\u0000${imageHash || ''}`);
+    return { promptHash, imageHash };
+}
+
+/**
+ * Parse and validate fixture file contents.
+ * @param json Fixture file text
+ * @returns Parsed fixture
+ * @throws Error if the file is not a fixture
+ */
+export function parseFixture(json: string): LLMFixture {
+    const parsed = JSON.parse(json);
+    if (parsed?.version !== 1 || !Array.isArray(parsed.entries)) {
+        throw new Error('Invalid LLM fixture: expected { version: 1, entries: [...] }');
+    }
+    return parsed as LLMFixture;
+}
+
+/**
+ * Collects agent calls while in record mode.
+ */
+export class FixtureRecorder {
+    private entries: LLMFixtureEntry[] = [];
+
+    get size(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * Record one agent call.
+     */
+    async record(agent: string, systemPrompt: string, userPrompt: string, response: string, imageBase64?: string): Promise<void> {
+        const { promptHash, imageHash } = await hashPrompt(systemPrompt, userPrompt, imageBase64);
+        this.entries.push({
+            agent,
+            promptHash,
+            systemPrompt,
+            userPrompt,
+            imageHash,
+            response,
+            recordedAt: Date.now()
+        });
+    }
+
+    /**
+     * Get the recorded calls as a fixture.
+     */
+    toFixture(): LLMFixture {
+        return { version: 1, createdAt: Date.now(), entries: [...this.entries] };
+    }
+
+    clear(): void {
+        this.entries = [];
+    }
+}
+
+/**
+ * Serves recorded responses in place of a live provider.
+ *
+ * Lookup is by agent name and prompt hash. When the same prompt was recorded
+ * more than once, responses are served in recording order. If a prompt has
+ * no exact match (e.g. the manuscript was edited), the agent's next unused
+ * response in recording order is served instead.
+ */
+export class ReplayProvider {
+    private byKey = new Map<string, LLMFixtureEntry[]>();
+    private byAgent = new Map<string, LLMFixtureEntry[]>();
+    private used = new Set<LLMFixtureEntry>();
+
+    constructor(fixture: LLMFixture) {
+        for (const entry of fixture.entries) {
+            const key = `${entry.agent}:${entry.promptHash}`;
+            this.byKey.set(key, [...(this.byKey.get(key) || []), entry]);
+            this.byAgent.set(entry.agent, [...(this.byAgent.get(entry.agent) || []), entry]);
+        }
+    }
+
+    /**
+     * Get the recorded response for an agent call.
+     * @param agent Agent name
+     * @param systemPrompt System prompt
+     * @param userPrompt User prompt
+     * @param imageBase64 Image sent with the prompt (optional)
+     * @returns Recorded response and whether it matched the prompt exactly
+     * @throws Error if the fixture has no unused response for the agent
+     */
+    async respond(
+        agent: string,
+        systemPrompt: string,
+        userPrompt: string,
+        imageBase64?: string
+    ): Promise<{ response: string; exact: boolean }> {
+        const { promptHash } = await hashPrompt(systemPrompt, userPrompt, imageBase64);
+
+        const exact = this.byKey.get(`${agent}:${promptHash}`)?.find(e => !this.used.has(e));
+        const entry = exact || this.byAgent.get(agent)?.find(e => !this.used.has(e));
+        if (!entry) {
+            throw new Error(`No recorded response for ${agent} (prompt ${promptHash.substring(0, 12)}) in the loaded fixture`);
+        }
+
+        this.used.add(entry);
+        return { response: entry.response, exact: Boolean(exact) };
+    }
+
+    /**
+     * Start serving from the beginning of the fixture again.
+     */
+    reset(): void {
+        this.used.clear();
+    }
+}
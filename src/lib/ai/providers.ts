@@ -1,16 +1,93 @@
-
 import { createOpenAI } from '@ai-sdk/openai';
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { createOllama } from 'ollama-ai-provider';
+import { LLMMode, LLMFixture, FixtureRecorder, ReplayProvider } from './fixtures';
 
 // We need to install @ai-sdk/openai @ai-sdk/anthropic ollama-ai-provider
 // I will run npm install for these next.
 
 export class AIProviderFactory {
-    static async getModel(provider: string) {
+    // Record/replay state (in memory; fixtures are saved/loaded as files)
+    static readonly recorder = new FixtureRecorder();
+    private static replayProvider: ReplayProvider | null = null;
+    private static modeOverride: LLMMode | null = null;
+
+    /**
+     * Get the LLM mode: 'live' calls the provider, 'record' calls it and stores
+     * the call in the recorder, 'replay' serves responses from the loaded fixture.
+     */
+    static getMode(): LLMMode {
+        if (this.modeOverride) return this.modeOverride;
+        const stored = typeof window !== 'undefined'
+            ? localStorage.getItem('novel-architect-llm-mode')
+            : null;
+        return stored === 'record' || stored === 'replay' ? stored : 'live';
+    }
+
+    /**
+     * Set the LLM mode (persisted in the browser; in-memory elsewhere, e.g. scripts).
+     */
+    static setMode(mode: LLMMode) {
+        if (typeof window !== 'undefined') {
+            localStorage.setItem('novel-architect-llm-mode', mode);
+        } else {
+            this.modeOverride = mode;
+        }
+    }
+
+    /**
+     * Load a fixture to serve in replay mode.
+     */
+    static loadFixture(fixture: LLMFixture) {
+        this.replayProvider = new ReplayProvider(fixture);
+    }
+
+    static hasFixture(): boolean {
+        return this.replayProvider !== null;
+    }
+
+    static getReplayProvider(): ReplayProvider {
+        if (!this.replayProvider) {
+            throw new Error('Replay mode is on but no fixture is loaded. Load one in Global AI Settings.');
+        }
+        return this.replayProvider;
+    }
+
+    /**
+     * Get the model ID used for a provider (for logging and cost estimates).
+     */
+    static getModelId(provider: string): string {
+        if (provider === 'ollama') return 'llama3'; // Default to llama3 for now, make configurable later
+        if (provider === 'openai') return 'gpt-4-turbo';
+        if (provider === 'anthropic') return 'claude-3-opus-20240229';
+        if (provider === 'openrouter') {
+            // Get the model from localStorage (provider-specific key) or use a default
+            return typeof window !== 'undefined'
+                ? localStorage.getItem(`novel-architect-model-${provider}`) || 'openai/gpt-4-turbo-preview'
+                : 'openai/gpt-4-turbo-preview';
+        }
+        throw new Error("Unknown provider");
+    }
+
+    /**
+     * Whether a provider supports native structured output (generateObject).
+     * OpenRouter and Ollama support varies by model, so their JSON is only validated after the fact.
+     */
+    static supportsStructuredOutput(provider: string): boolean {
+        return provider === 'openai' || provider === 'anthropic';
+    }
+
+    /**
+     * Get a model instance.
+     * @param provider Provider name
+     * @param modelId Model to use instead of the provider's configured model (optional)
+     */
+    static async getModel(provider: string, modelId?: string) {
+        const id = modelId || this.getModelId(provider);
+
         if (provider === 'ollama') {
             const ollama = createOllama();
-            return ollama('llama3'); // Default to llama3 for now, make configurable later
+            return ollama(id);
         }
 
         // Retrieve key
@@ -19,12 +96,12 @@ export class AIProviderFactory {
 
         if (provider === 'openai') {
             const openai = createOpenAI({ apiKey });
-            return openai('gpt-4-turbo');
+            return openai(id);
         }
 
         if (provider === 'anthropic') {
             const anthropic = createAnthropic({ apiKey });
-            return anthropic('claude-3-opus-20240229');
+            return anthropic(id);
         }
 
         if (provider === 'openrouter') {
@@ -33,11 +110,7 @@ export class AIProviderFactory {
                 apiKey,
                 baseURL: 'https://openrouter.ai/api/v1'
             });
-            // Get the model from localStorage (provider-specific key) or use a default
-            const model = typeof window !== 'undefined'
-                ? localStorage.getItem(`novel-architect-model-${provider}`) || 'openai/gpt-4-turbo-preview'
-                : 'openai/gpt-4-turbo-preview';
-            return openrouter(model);
+            return openrouter(id);
         }
 
         throw new Error("Unknown provider");
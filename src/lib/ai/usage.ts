@@ -0,0 +1,152 @@
+/**
+ * Token Usage - Token counting and cost estimation for agent calls.
+ *
+ * Tokens are counted locally with gpt-tokenizer (o200k_base), so counts are
+ * estimates for non-OpenAI models. Costs come from the price table below.
+ */
+
+import { countTokens } from 'gpt-tokenizer';
+import { UsageTotals } from '@/lib/db/schema';
+
+/**
+ * Price per 1M tokens in USD.
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+/**
+ * Token usage and estimated cost of one agent call.
+ */
+export interface TokenUsage {
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+    /** False when the model is missing from the price table (cost is 0) */
+    priced: boolean;
+}
+
+/**
+ * Known model prices, keyed by model ID (OpenRouter IDs without the vendor prefix
+ * also resolve, e.g. "openai/gpt-4o" → "gpt-4o").
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'gpt-4-turbo-preview': { input: 10, output: 30 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'claude-3-opus-20240229': { input: 15, output: 75 },
+    'claude-3-opus': { input: 15, output: 75 },
+    'claude-3.5-sonnet': { input: 3, output: 15 },
+    'claude-3.5-haiku': { input: 0.8, output: 4 },
+    'gemini-2.0-flash-001': { input: 0.1, output: 0.4 },
+    'llama3': { input: 0, output: 0 },
+};
+
+/**
+ * Look up a model's price.
+ * @param model Model ID (provider model or OpenRouter "vendor/model" ID)
+ * @returns Price, or undefined if the model is not in the table
+ */
+export function getModelPrice(model: string): ModelPrice | undefined {
+    return MODEL_PRICES[model] ?? MODEL_PRICES[model.split('/').pop() || model];
+}
+
+/**
+ * Context window sizes (input + output tokens) for known models.
+ * Unknown models fall back to DEFAULT_CONTEXT_TOKENS.
+ */
+export const MODEL_CONTEXT_TOKENS: Record<string, number> = {
+    'gpt-4-turbo': 128000,
+    'gpt-4-turbo-preview': 128000,
+    'gpt-4o': 128000,
+    'gpt-4o-mini': 128000,
+    'gpt-4.1': 1000000,
+    'gpt-4.1-mini': 1000000,
+    'claude-3-opus-20240229': 200000,
+    'claude-3-opus': 200000,
+    'claude-3.5-sonnet': 200000,
+    'claude-3.5-haiku': 200000,
+    'gemini-2.0-flash-001': 1000000,
+    'llama3': 8192,
+};
+
+export const DEFAULT_CONTEXT_TOKENS = 32000;
+
+/** Tokens kept free for the model's response when sizing prompts */
+export const RESPONSE_TOKEN_RESERVE = 4000;
+
+/**
+ * Get the prompt token ceiling for a model. A per-model override saved in
+ * Global AI Settings takes precedence over the built-in table.
+ * @param model Model ID
+ * @returns Maximum prompt tokens (context window minus the response reserve)
+ */
+export function getContextTokenLimit(model: string): number {
+    const override = typeof window !== 'undefined'
+        ? parseInt(localStorage.getItem(`novel-architect-context-tokens-${model}`) || '', 10)
+        : NaN;
+    const contextTokens = override > 0
+        ? override
+        : MODEL_CONTEXT_TOKENS[model] ?? MODEL_CONTEXT_TOKENS[model.split('/').pop() || model] ?? DEFAULT_CONTEXT_TOKENS;
+    return Math.max(contextTokens - RESPONSE_TOKEN_RESERVE, 1000);
+}
+
+/**
+ * Count tokens in prompt text.
+ */
+export function countPromptTokens(text: string): number {
+    return countTokens(text);
+}
+
+/**
+ * Count tokens for an agent call and estimate its cost.
+ * @param model Model ID
+ * @param systemPrompt System prompt
+ * @param userPrompt User prompt
+ * @param response Response text
+ * @returns Token usage (images are not counted)
+ */
+export function measureUsage(model: string, systemPrompt: string, userPrompt: string, response: string): TokenUsage {
+    const inputTokens = countTokens(systemPrompt) + countTokens(userPrompt);
+    const outputTokens = countTokens(response);
+    const price = getModelPrice(model);
+
+    return {
+        model,
+        inputTokens,
+        outputTokens,
+        cost: price ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000 : 0,
+        priced: Boolean(price)
+    };
+}
+
+/**
+ * Add one call's usage to running totals.
+ * @param totals Existing totals (undefined starts from zero)
+ * @param usage Usage of the call
+ * @returns Updated totals
+ */
+export function addUsage<T extends UsageTotals>(totals: T | undefined, usage: TokenUsage): T {
+    const base = totals ?? { inputTokens: 0, outputTokens: 0, cost: 0, calls: 0 };
+    return {
+        ...base,
+        inputTokens: base.inputTokens + usage.inputTokens,
+        outputTokens: base.outputTokens + usage.outputTokens,
+        cost: base.cost + usage.cost,
+        calls: base.calls + 1
+    } as T;
+}
+
+/**
+ * Format usage totals for display (e.g. "12,345 tokens · $0.0421").
+ */
+export function formatUsage(totals?: UsageTotals): string {
+    if (!totals) return '0 tokens';
+    const tokens = (totals.inputTokens + totals.outputTokens).toLocaleString();
+    return `${tokens} tokens · $${totals.cost.toFixed(4)}`;
+}
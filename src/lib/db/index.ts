@@ -1,6 +1,6 @@
 
-import Dexie, { Table } from 'dexie';
-import { Novel, Act, Chapter, Scene, CodexEntry, AgentState } from './schema';
+import Dexie, { IndexableType, Table } from 'dexie';
+import { Novel, Act, Chapter, Scene, CodexEntry, AgentState, ManuscriptVersion, ReferenceEntry, PromptOverride } from './schema';
 import { syncFlags } from './sync-flags';
 
 // Helper to apply dot-notation mods to an object
@@ -28,6 +28,9 @@ export class PaperArchitectDB extends Dexie {
     scenes!: Table<Scene>;
     codex!: Table<CodexEntry>;
     agent_state!: Table<AgentState>;
+    manuscript_versions!: Table<ManuscriptVersion>;
+    references!: Table<ReferenceEntry>;
+    prompt_overrides!: Table<PromptOverride>;
     prompt_presets!: Table<import('./schema').PromptPreset>;
 
     constructor() {
@@ -101,6 +104,18 @@ export class PaperArchitectDB extends Dexie {
             });
         });
 
+        this.version(9).stores({
+            manuscript_versions: 'id, novelId, sceneId, createdAt'
+        });
+
+        this.version(10).stores({
+            references: 'id, novelId, key, doi, pmid, *tags'
+        });
+
+        this.version(11).stores({
+            prompt_overrides: 'id, novelId, [novelId+promptId]'
+        });
+
         // --- Auto-Sync Hooks ---
 
         // Use this.table() to ensure we attach to the table even if property proxies aren't ready
@@ -204,6 +219,45 @@ export class PaperArchitectDB extends Dexie {
                 import('./sync').then(m => m.syncAgentState(newObj as any));
             }
         });
+
+        this.table('manuscript_versions').hook('creating', (primKey: IndexableType, obj: ManuscriptVersion) => {
+            console.log('[DB] Hook: manuscript_versions.creating');
+            if (!syncFlags.isApplyingCloudUpdate) import('./sync').then(m => m.syncManuscriptVersion(obj));
+        });
+        this.table('manuscript_versions').hook('updating', (mods: object, primKey: IndexableType, obj: ManuscriptVersion) => {
+            console.log('[DB] Hook: manuscript_versions.updating');
+            if (!syncFlags.isApplyingCloudUpdate) import('./sync').then(m => m.syncManuscriptVersion({ ...obj, ...mods } as ManuscriptVersion));
+        });
+        this.table('manuscript_versions').hook('deleting', (primKey: IndexableType) => {
+            console.log('[DB] Hook: manuscript_versions.deleting');
+            if (!syncFlags.isApplyingCloudUpdate) import('./sync').then(m => m.deleteEntity('manuscript_versions', String(primKey)));
+        });
+
+        this.table('references').hook('creating', (primKey: IndexableType, obj: ReferenceEntry) => {
+            console.log('[DB] Hook: references.creating');
+            if (!syncFlags.isApplyingCloudUpdate) import('./sync').then(m => m.syncReference(obj));
+        });
+        this.table('references').hook('updating', (mods: object, primKey: IndexableType, obj: ReferenceEntry) => {
+            console.log('[DB] Hook: references.updating');
+            if (!syncFlags.isApplyingCloudUpdate) import('./sync').then(m => m.syncReference({ ...obj, ...mods } as ReferenceEntry));
+        });
+        this.table('references').hook('deleting', (primKey: IndexableType) => {
+            console.log('[DB] Hook: references.deleting');
+            if (!syncFlags.isApplyingCloudUpdate) import('./sync').then(m => m.deleteEntity('references', String(primKey)));
+        });
+
+        this.table('prompt_overrides').hook('creating', (primKey: IndexableType, obj: PromptOverride) => {
+            console.log('[DB] Hook: prompt_overrides.creating');
+            if (!syncFlags.isApplyingCloudUpdate) import('./sync').then(m => m.syncPromptOverride(obj));
+        });
+        this.table('prompt_overrides').hook('updating', (mods: object, primKey: IndexableType, obj: PromptOverride) => {
+            console.log('[DB] Hook: prompt_overrides.updating');
+            if (!syncFlags.isApplyingCloudUpdate) import('./sync').then(m => m.syncPromptOverride({ ...obj, ...mods } as PromptOverride));
+        });
+        this.table('prompt_overrides').hook('deleting', (primKey: IndexableType) => {
+            console.log('[DB] Hook: prompt_overrides.deleting');
+            if (!syncFlags.isApplyingCloudUpdate) import('./sync').then(m => m.deleteEntity('prompt_overrides', String(primKey)));
+        });
     }
 }
 
@@ -70,6 +70,7 @@ const tableMappings: Record<string, Record<string, string>> = {
         min_score: 'minScore',
         max_hunks: 'maxHunks',
         max_targets: 'maxTargets',
+        writer_concurrency: 'writerConcurrency',
         section_plan: 'sectionPlan',
         sections_drafted: 'sectionsDrafted',
         format_guidance: 'formatGuidance',
@@ -78,6 +79,58 @@ const tableMappings: Record<string, Record<string, string>> = {
         action_history: 'actionHistory',
         citation_targets: 'citationTargets',
         existing_citations: 'existingCitations',
+        reviewer_comments: 'reviewerComments',
+        run_checkpoint: 'runCheckpoint',
+        max_tokens: 'maxTokens',
+        max_cost: 'maxCost',
+        run_usage: 'runUsage',
+        total_usage: 'totalUsage',
+        run_trace: 'runTrace',
+        last_modified: 'lastModified'
+    },
+    manuscript_versions: {
+        id: 'id',
+        user_id: 'userId',
+        novel_id: 'novelId',
+        scene_id: 'sceneId',
+        agent: 'agent',
+        action: 'action',
+        pass_index: 'passIndex',
+        run_id: 'runId',
+        summary: 'summary',
+        operations: 'operations',
+        content: 'content',
+        created_at: 'createdAt',
+        last_modified: 'lastModified'
+    },
+    references: {
+        id: 'id',
+        novel_id: 'novelId',
+        key: 'key',
+        type: 'type',
+        title: 'title',
+        authors: 'authors',
+        year: 'year',
+        journal: 'journal',
+        volume: 'volume',
+        issue: 'issue',
+        pages: 'pages',
+        publisher: 'publisher',
+        doi: 'doi',
+        pmid: 'pmid',
+        url: 'url',
+        abstract: 'abstract',
+        tags: 'tags',
+        notes: 'notes',
+        created_at: 'createdAt',
+        last_modified: 'lastModified'
+    },
+    prompt_overrides: {
+        id: 'id',
+        novel_id: 'novelId',
+        prompt_id: 'promptId',
+        template: 'template',
+        created_at: 'createdAt',
         last_modified: 'lastModified'
     }
 };
@@ -18,6 +18,18 @@ export interface ProjectSettings {
     lastActiveSceneId?: string | null; // Syncs cursor position
     activeAiModel?: string; // Syncs model selection (Can still be per-project if desired, but currently we made it global. Leaving optional)
     images?: ProjectImage[]; // Array of Base64 strings (Book-level references)
+    tables?: ProjectTable[]; // Uploaded CSV/XLSX tables (see lib/tables)
+    journalProfileId?: string; // Target journal profile (see lib/exporters/journal-profiles); defaults to NEJM
+    disabledActions?: string[]; // Manager actions turned off for this project (see lib/agents/actions)
+    reviewerPanel?: ReviewerConfig[]; // Critic reviewer panel (see lib/agents/reviewers); unset = single Critic
+    citationMode?: 'inline' | 'keys'; // 'keys' stores [@key] markers resolved from the reference library; unset = inline BibTeX
+}
+
+export interface ReviewerConfig {
+    id: string; // Reviewer persona ID (e.g. 'methodologist')
+    enabled: boolean;
+    weight: number; // Relative weight in the aggregated score
+    model?: string; // Model ID for this reviewer; empty = global model
 }
 
 export interface ProjectImage {
@@ -26,6 +38,19 @@ export interface ProjectImage {
     data: string; // Base64
 }
 
+export type TableAlignment = 'l' | 'c' | 'r';
+
+export interface ProjectTable {
+    id: string; // UUID
+    name: string; // Source filename (and sheet, for workbooks)
+    label: string; // LaTeX label without the "tab:" prefix
+    rows: string[][]; // Cell text as imported, header rows first
+    headerRows: number; // Leading rows repeated as the header on every page
+    alignments: TableAlignment[]; // One per column
+    footnotes: string[]; // TableNotes items
+    caption?: string; // Set when the table is inserted into the manuscript
+}
+
 export interface Act {
     id: string; // UUID
     novelId: string;
@@ -100,6 +125,7 @@ export interface AgentState {
     minScore: number; // default 0.8
     maxHunks?: number; // default 5
     maxTargets?: number; // default 10
+    writerConcurrency?: number; // default 3 - sections drafted at once by draft_remaining_sections
     sectionPlan?: any; // JSON
     sectionsDrafted?: any; // JSON
     formatGuidance?: string;
@@ -111,4 +137,162 @@ export interface AgentState {
     // Citation Workflow State
     citationTargets?: any[]; // JSON - CitationTarget[]
     existingCitations?: any[]; // JSON - string[] or CitationEntry[]
+
+    // Resubmission Workflow State
+    reviewerComments?: ReviewerComment[]; // JSON - imported from the decision letter
+
+    // Manager Workflow Checkpoint (for resuming interrupted runs)
+    runCheckpoint?: RunCheckpoint; // JSON
+
+    // Token/Cost Accounting
+    maxTokens?: number; // Per-run budget (input + output tokens); unset = unlimited
+    maxCost?: number; // Per-run budget in USD; unset = unlimited
+    runUsage?: RunUsage; // JSON - totals for the current/last manager run
+    totalUsage?: UsageTotals; // JSON - totals across all runs for this project
+    runTrace?: RunTrace; // JSON - timeline of the current/last run
+}
+
+/**
+ * Aggregated token usage and estimated cost (USD).
+ */
+export interface UsageTotals {
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+    calls: number;
+}
+
+/**
+ * Usage totals for one manager workflow run.
+ */
+export interface RunUsage extends UsageTotals {
+    runId?: string;
+}
+
+/**
+ * A bibliographic entry in the project's reference library.
+ */
+export interface ReferenceEntry {
+    id: string; // UUID
+    novelId: string;
+    key: string; // Citation key, unique within the project
+    type: string; // BibTeX entry type (article, book, inproceedings, misc, ...)
+    title: string;
+    authors: string[]; // "Last, First" or a group author name
+    year?: string;
+    journal?: string; // Journal, or book/proceedings title for chapters and conference papers
+    volume?: string;
+    issue?: string;
+    pages?: string; // e.g. "123-135"
+    publisher?: string;
+    doi?: string; // Bare DOI without the https://doi.org/ prefix
+    pmid?: string;
+    url?: string;
+    abstract?: string;
+    tags: string[];
+    notes?: string;
+    createdAt: number;
+    lastModified?: number;
+}
+
+/**
+ * A project's replacement for one of the built-in agent prompts (see agents/prompt_overrides.ts).
+ */
+export interface PromptOverride {
+    id: string; // UUID
+    novelId: string;
+    promptId: string; // Name of the built-in prompt, e.g. 'CRITIC_PROMPT'
+    template: string;
+    createdAt: number;
+    lastModified?: number;
+}
+
+/**
+ * Manuscript snapshot recorded after each agent step (or manual edit/revert).
+ */
+export interface ManuscriptVersion {
+    id: string; // UUID
+    userId: string;
+    novelId: string;
+    sceneId?: string | null;
+    agent: string; // Agent that produced this version ('Writer', 'Reviser', ..., or 'User')
+    action: string; // e.g. 'write_section', 'revise_manuscript', 'manual_edit', 'revert'
+    passIndex: number; // Critique-revision pass at the time of the step
+    runId?: string; // Manager workflow run (see RunCheckpoint)
+    summary?: string;
+    operations: unknown[]; // JSON - applied WriteOperation[] / ReviseOperation[] / find-replace pairs
+    content: string; // Full manuscript after this step
+    createdAt: number;
+    lastModified?: number;
+}
+
+/**
+ * A comment from a journal decision letter, tracked through the resubmission.
+ */
+export interface ReviewerComment {
+    id: string;
+    reviewer: string; // e.g. "Reviewer 1", "Editor"
+    number: number; // Position within the reviewer's comments (1-based)
+    text: string;
+    status: 'open' | 'addressed' | 'no_change' | 'skipped';
+    response?: string; // Reply to the reviewer
+    changeSummary?: string; // What was changed in the manuscript
+    revisedText?: string[]; // Excerpts of the revised manuscript text
+}
+
+/**
+ * Snapshot of the manager workflow's loop-local state, saved after each completed step.
+ */
+export interface RunCheckpoint {
+    runId: string; // UUID of the workflow run
+    status: 'running' | 'failed' | 'stopped' | 'completed';
+    loopCount: number; // Completed manager iterations
+    lastDecision?: {
+        action: string;
+        parameters?: Record<string, unknown>;
+        reasoning: string;
+    };
+    manuscriptHash: string; // Hash of the manuscript after the last completed step
+    lastCritiqueScore?: number;
+    lastCritiqueSummary?: string;
+    lastActionItems: string[];
+    reviserRequestedContinue: boolean;
+    error?: string; // Set when status is 'failed' or 'stopped' (reason)
+    startedAt: number;
+    updatedAt: number;
+}
+
+/**
+ * One timed span of a workflow run: a manager step, or an LLM call made during it.
+ */
+export interface RunTraceSpan {
+    id: string; // UUID
+    kind: 'step' | 'call';
+    parentId?: string; // Manager step a call belongs to
+    name: string; // Action name (steps) or agent name (calls)
+    status: 'running' | 'success' | 'error';
+    startedAt: number;
+    endedAt?: number; // Unset while running
+    error?: string;
+
+    // Steps
+    reasoning?: string; // Manager's reasoning for the action
+    failedOperations?: Record<string, number>; // Agent -> find/replace operations that matched nothing
+
+    // Calls
+    model?: string;
+    inputTokens?: number;
+    outputTokens?: number;
+    cost?: number;
+    replayed?: boolean; // Served from a replay fixture
+    attempt?: number; // 1-based attempt of a schema-validated call; > 1 is a retry
+    invalidOutput?: string; // Parse/validation error that caused a retry
+}
+
+/**
+ * Timeline of one workflow run, for the run timeline and performance view.
+ */
+export interface RunTrace {
+    runId: string;
+    spans: RunTraceSpan[];
 }
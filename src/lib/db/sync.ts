@@ -1,6 +1,6 @@
 import { createClient } from '@/lib/supabase/client'
 import { db } from './index'
-import { Scene, Novel, Act, Chapter, CodexEntry, AgentState } from './schema'
+import { Scene, Novel, Act, Chapter, CodexEntry, AgentState, ManuscriptVersion, ReferenceEntry, PromptOverride } from './schema'
 
 // Queue system to prevent race conditions for dependent entities (Novel -> Act -> Chapter -> Scene)
 let syncQueue: Promise<void> = Promise.resolve();
@@ -348,6 +348,7 @@ async function _syncAgentStateImmediate(state: AgentState): Promise<void> {
         min_score: state.minScore,
         max_hunks: state.maxHunks,
         max_targets: state.maxTargets,
+        writer_concurrency: state.writerConcurrency,
         section_plan: state.sectionPlan,
         sections_drafted: state.sectionsDrafted,
         format_guidance: state.formatGuidance,
@@ -356,6 +357,13 @@ async function _syncAgentStateImmediate(state: AgentState): Promise<void> {
         action_history: state.actionHistory,
         citation_targets: state.citationTargets,
         existing_citations: state.existingCitations,
+        reviewer_comments: state.reviewerComments,
+        run_checkpoint: state.runCheckpoint,
+        max_tokens: state.maxTokens,
+        max_cost: state.maxCost,
+        run_usage: state.runUsage,
+        total_usage: state.totalUsage,
+        run_trace: state.runTrace,
         last_modified: state.lastModified
     });
 
@@ -385,12 +393,20 @@ async function _syncAgentStateImmediate(state: AgentState): Promise<void> {
                 min_score: state.minScore,
                 max_hunks: state.maxHunks,
                 max_targets: state.maxTargets,
+                writer_concurrency: state.writerConcurrency,
                 section_plan: state.sectionPlan,
                 sections_drafted: state.sectionsDrafted,
                 format_guidance: state.formatGuidance,
                 pass_index: state.passIndex,
                 history: state.history,
                 action_history: state.actionHistory,
+                reviewer_comments: state.reviewerComments,
+                run_checkpoint: state.runCheckpoint,
+                max_tokens: state.maxTokens,
+                max_cost: state.maxCost,
+                run_usage: state.runUsage,
+                total_usage: state.totalUsage,
+                run_trace: state.runTrace,
                 last_modified: state.lastModified
             });
             if (retryError) {
@@ -406,3 +422,145 @@ export function syncAgentState(state: AgentState): Promise<void> {
     return debouncedSync(`agent_state_${state.id}`, () => _syncAgentStateImmediate(state));
 }
 
+async function _syncManuscriptVersionImmediate(version: ManuscriptVersion): Promise<void> {
+    if (!db) { console.error('[Sync] ❌ DB instance missing!'); return; }
+    const userId = await getCurrentUserId();
+    if (!userId) return;
+
+    const payload = {
+        id: version.id,
+        user_id: userId,
+        novel_id: version.novelId,
+        scene_id: version.sceneId,
+        agent: version.agent,
+        action: version.action,
+        pass_index: version.passIndex,
+        run_id: version.runId,
+        summary: version.summary,
+        operations: version.operations,
+        content: version.content,
+        created_at: version.createdAt,
+        last_modified: version.lastModified
+    };
+
+    const supabase = createClient();
+    const { error } = await supabase.from('manuscript_versions').upsert(payload);
+
+    if (error) {
+        if (error.code === '23503') {
+            console.warn('Sync ManuscriptVersion failed due to missing parent. Fixing...');
+
+            await _syncNovelImmediate(version.novelId);
+            if (version.sceneId) {
+                const scene = await db.scenes.get(version.sceneId);
+                if (scene) {
+                    await _syncSceneImmediate(scene);
+                }
+            }
+
+            const { error: retryError } = await supabase.from('manuscript_versions').upsert(payload);
+            if (retryError) {
+                console.error('Auto-Sync ManuscriptVersion Retry Error:', retryError);
+            }
+        } else {
+            console.error('Auto-Sync ManuscriptVersion Error:', JSON.stringify(error, null, 2));
+        }
+    }
+}
+
+export function syncManuscriptVersion(version: ManuscriptVersion): Promise<void> {
+    return debouncedSync(`manuscript_version_${version.id}`, () => _syncManuscriptVersionImmediate(version));
+}
+
+
+
+async function _syncReferenceImmediate(reference: ReferenceEntry): Promise<void> {
+    if (!db) { console.error('[Sync] ❌ DB instance missing!'); return; }
+    const userId = await getCurrentUserId();
+    if (!userId) return;
+
+    const payload = {
+        id: reference.id,
+        user_id: userId,
+        novel_id: reference.novelId,
+        key: reference.key,
+        type: reference.type,
+        title: reference.title,
+        authors: reference.authors,
+        year: reference.year,
+        journal: reference.journal,
+        volume: reference.volume,
+        issue: reference.issue,
+        pages: reference.pages,
+        publisher: reference.publisher,
+        doi: reference.doi,
+        pmid: reference.pmid,
+        url: reference.url,
+        abstract: reference.abstract,
+        tags: reference.tags,
+        notes: reference.notes,
+        created_at: reference.createdAt,
+        last_modified: reference.lastModified
+    };
+
+    const supabase = createClient();
+    const { error } = await supabase.from('references').upsert(payload);
+
+    if (error) {
+        if (error.code === '23503') {
+            console.warn('Sync Reference failed due to missing parent. Fixing...');
+
+            await _syncNovelImmediate(reference.novelId);
+
+            const { error: retryError } = await supabase.from('references').upsert(payload);
+            if (retryError) {
+                console.error('Auto-Sync Reference Retry Error:', retryError);
+            }
+        } else {
+            console.error('Auto-Sync Reference Error:', JSON.stringify(error, null, 2));
+        }
+    }
+}
+
+export function syncReference(reference: ReferenceEntry): Promise<void> {
+    return debouncedSync(`reference_${reference.id}`, () => _syncReferenceImmediate(reference));
+}
+
+
+async function _syncPromptOverrideImmediate(override: PromptOverride): Promise<void> {
+    if (!db) { console.error('[Sync] ❌ DB instance missing!'); return; }
+    const userId = await getCurrentUserId();
+    if (!userId) return;
+
+    const payload = {
+        id: override.id,
+        user_id: userId,
+        novel_id: override.novelId,
+        prompt_id: override.promptId,
+        template: override.template,
+        created_at: override.createdAt,
+        last_modified: override.lastModified
+    };
+
+    const supabase = createClient();
+    const { error } = await supabase.from('prompt_overrides').upsert(payload);
+
+    if (error) {
+        if (error.code === '23503') {
+            console.warn('Sync Prompt Override failed due to missing parent. Fixing...');
+
+            await _syncNovelImmediate(override.novelId);
+
+            const { error: retryError } = await supabase.from('prompt_overrides').upsert(payload);
+            if (retryError) {
+                console.error('Auto-Sync Prompt Override Retry Error:', retryError);
+            }
+        } else {
+            console.error('Auto-Sync Prompt Override Error:', JSON.stringify(error, null, 2));
+        }
+    }
+}
+
+export function syncPromptOverride(override: PromptOverride): Promise<void> {
+    return debouncedSync(`prompt_override_${override.id}`, () => _syncPromptOverrideImmediate(override));
+}
@@ -0,0 +1,73 @@
+/**
+ * Line-based diff for side-by-side manuscript comparison.
+ */
+
+export type DiffRowType = 'same' | 'added' | 'removed' | 'changed';
+
+/**
+ * One row of a side-by-side diff. Missing sides are undefined.
+ */
+export interface DiffRow {
+    type: DiffRowType;
+    left?: string;
+    right?: string;
+}
+
+/**
+ * Compute a side-by-side line diff using longest common subsequence.
+ * Adjacent removed/added runs are paired into 'changed' rows.
+ * @param before Original text
+ * @param after Updated text
+ * @returns Diff rows in document order
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    const n = a.length;
+    const m = b.length;
+
+    // LCS length table, filled from the end
+    const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const rows: DiffRow[] = [];
+    let removed: string[] = [];
+    let added: string[] = [];
+
+    const flush = () => {
+        const paired = Math.min(removed.length, added.length);
+        for (let k = 0; k < paired; k++) {
+            rows.push({ type: 'changed', left: removed[k], right: added[k] });
+        }
+        for (const line of removed.slice(paired)) rows.push({ type: 'removed', left: line });
+        for (const line of added.slice(paired)) rows.push({ type: 'added', right: line });
+        removed = [];
+        added = [];
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (a[i] === b[j]) {
+            flush();
+            rows.push({ type: 'same', left: a[i], right: b[j] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            removed.push(a[i++]);
+        } else {
+            added.push(b[j++]);
+        }
+    }
+    while (i < n) removed.push(a[i++]);
+    while (j < m) added.push(b[j++]);
+    flush();
+
+    return rows;
+}
@@ -40,3 +40,18 @@ export function extractTextFromContent(content: any): string {
 
     return "";
 }
+
+export function textToContent(text: string) {
+    // Convert plain text back to ProseMirror JSON format (one paragraph per blank-line block)
+    const paragraphs = text.split('\n\n').filter(p => p.trim());
+    return {
+        type: 'doc',
+        content: paragraphs.map(para => ({
+            type: 'paragraph',
+            content: [{
+                type: 'text',
+                text: para
+            }]
+        }))
+    };
+}
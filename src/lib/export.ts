@@ -11,6 +11,21 @@ export type { LatexMetadata } from './exporters/latex-converter';
 // Word converter for manuscript export
 export { exportToWord } from './exporters/word-converter';
 
+// <supplementary> material is exported as a second, S-numbered document
+export { hasSupplementary } from './exporters/supplementary';
+export type { ManuscriptPart } from './exporters/supplementary';
+
+// Figure/table cross-reference checks run before either export
+export { validateCrossReferences, formatCrossReferenceIssues } from './exporters/cross-references';
+export type { CrossReferenceIssue } from './exporters/cross-references';
+
+// Point-by-point response to reviewers for resubmissions
+export { exportResponseLetter } from './exporters/response-letter';
+
+// Journal profiles (preamble, citation style, limits) for export
+export { getJournalProfile, listJournalProfiles, DEFAULT_JOURNAL_PROFILE_ID } from './exporters/journal-profiles';
+export type { JournalProfile } from './exporters/journal-profiles';
+
 
 // Note: file-saver needs to be installed, or we can use a simple anchor tag hack.
 // I'll assume we can use the hack if I don't want to install another dependency, 
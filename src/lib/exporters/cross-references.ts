@@ -0,0 +1,147 @@
+/**
+ * Cross-Reference Validator - Check figure and table references before export.
+ *
+ * normalizeFigureReferences and reorderFigures patch references as text; this
+ * module checks that the result is consistent:
+ * - every \ref{fig:...} / \ref{tab:...} has a matching \label (error)
+ * - every label is defined once (error)
+ * - every \includegraphics points to an uploaded project image (error)
+ * - every figure and table is referenced (warning)
+ * - figures and tables appear in the order they are first cited (warning);
+ *   main-text and <supplementary> floats are numbered separately
+ */
+
+import type { ProjectImage } from '@/lib/db/schema';
+import { locate } from '@/lib/manuscript-lint';
+
+export type CrossReferenceRule = 'undefined-ref' | 'duplicate-label' | 'missing-image' | 'unreferenced-float' | 'float-order';
+
+/**
+ * One cross-reference problem.
+ */
+export interface CrossReferenceIssue {
+    rule: CrossReferenceRule;
+    /** Errors produce broken output; warnings produce misnumbered or orphaned floats */
+    severity: 'error' | 'warning';
+    message: string;
+    /** Character offset in the manuscript */
+    index: number;
+    /** 1-based line and column */
+    line: number;
+    column: number;
+    /** The offending text */
+    excerpt: string;
+}
+
+const FLOAT_NAMES: Record<string, string> = { fig: 'Figure', tab: 'Table' };
+
+const LABEL_PATTERN = /\\label\{((fig|tab):[^}]+)\}/g;
+const REF_PATTERN = /\\(?:ref|autoref|cref|Cref)\{((fig|tab):[^}]+)\}/g;
+const GRAPHICS_PATTERN = /\\includegraphics(?:\[[^\]]*\])?\{([^}]+)\}/g;
+
+/**
+ * Find LaTeX comment ranges; labels and references inside comments are ignored.
+ */
+function findCommentRanges(text: string): Array<[number, number]> {
+    return Array.from(text.matchAll(/(?<!\\)%[^\n]*/g), match => [match.index!, match.index! + match[0].length] as [number, number]);
+}
+
+/**
+ * Match a pattern outside LaTeX comments.
+ */
+function matchOutsideComments(text: string, pattern: RegExp, comments: Array<[number, number]>): RegExpExecArray[] {
+    return Array.from(text.matchAll(pattern))
+        .filter(match => !comments.some(([start, end]) => match.index! >= start && match.index! < end)) as RegExpExecArray[];
+}
+
+/**
+ * Whether an \includegraphics path names an uploaded image. Matching ignores
+ * the directory and case, and allows the extension to be omitted.
+ */
+function isUploadedImage(path: string, images: ProjectImage[]): boolean {
+    const file = path.trim().split('/').pop()!.toLowerCase();
+    return images.some(image => {
+        const name = image.name.toLowerCase();
+        return name === file || name.replace(/\.[^.]+$/, '') === file;
+    });
+}
+
+/**
+ * Validate figure and table cross-references.
+ * @param manuscript Manuscript text
+ * @param images Uploaded project images; omit to skip the \includegraphics check
+ * @returns Issues in document order
+ */
+export function validateCrossReferences(manuscript: string, images?: ProjectImage[]): CrossReferenceIssue[] {
+    if (!manuscript) return [];
+
+    const comments = findCommentRanges(manuscript);
+    const issues: CrossReferenceIssue[] = [];
+    const issue = (rule: CrossReferenceRule, severity: CrossReferenceIssue['severity'], message: string, match: RegExpExecArray) => {
+        issues.push({ rule, severity, message, index: match.index, ...locate(manuscript, match.index), excerpt: match[0] });
+    };
+
+    // Labels, in document order (first definition wins)
+    const labels = new Map<string, RegExpExecArray>();
+    for (const match of matchOutsideComments(manuscript, LABEL_PATTERN, comments)) {
+        if (labels.has(match[1])) {
+            issue('duplicate-label', 'error', `Label ${match[1]} is defined more than once`, match);
+        } else {
+            labels.set(match[1], match);
+        }
+    }
+
+    // References, keeping the first citation of each label
+    const firstRefs = new Map<string, number>();
+    for (const match of matchOutsideComments(manuscript, REF_PATTERN, comments)) {
+        if (!labels.has(match[1])) {
+            issue('undefined-ref', 'error', `${FLOAT_NAMES[match[2]]} reference ${match[1]} has no matching \\label`, match);
+        } else if (!firstRefs.has(match[1])) {
+            firstRefs.set(match[1], match.index);
+        }
+    }
+
+    for (const [label, match] of labels) {
+        if (!firstRefs.has(label)) {
+            issue('unreferenced-float', 'warning', `${FLOAT_NAMES[match[2]]} ${label} is never referenced in the text`, match);
+        }
+    }
+
+    // Numbering follows placement, so each kind of float must be placed in first-citation order
+    // (separately for the main document and the supplement, which has its own S-numbering)
+    const supplements = Array.from(manuscript.matchAll(/<supplementary>[\s\S]*?<\/supplementary>/g), match => [match.index!, match.index! + match[0].length]);
+    const isSupplementary = (match: RegExpExecArray) => supplements.some(([start, end]) => match.index >= start && match.index < end);
+    const groups = new Map<string, RegExpExecArray[]>();
+    for (const match of labels.values()) {
+        if (!firstRefs.has(match[1])) continue;
+        const group = `${match[2]}${isSupplementary(match) ? ':supplementary' : ''}`;
+        groups.set(group, [...(groups.get(group) ?? []), match]);
+    }
+    for (const cited of groups.values()) {
+        let latest = cited[0];
+        for (const match of cited.slice(1)) {
+            if (firstRefs.get(match[1])! < firstRefs.get(latest[1])!) {
+                issue('float-order', 'warning', `${FLOAT_NAMES[match[2]]} ${match[1]} is cited before ${latest[1]} but placed after it`, match);
+            } else {
+                latest = match;
+            }
+        }
+    }
+
+    if (images) {
+        for (const match of matchOutsideComments(manuscript, GRAPHICS_PATTERN, comments)) {
+            if (!isUploadedImage(match[1], images)) {
+                issue('missing-image', 'error', `Image ${match[1]} is not an uploaded project image`, match);
+            }
+        }
+    }
+
+    return issues.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Format issues as one line each, e.g. "- [undefined-ref] line 12: Figure reference fig:x has no matching \label".
+ */
+export function formatCrossReferenceIssues(issues: CrossReferenceIssue[]): string {
+    return issues.map(issue => `- [${issue.rule}] line ${issue.line}: ${issue.message}`).join('\n');
+}
@@ -0,0 +1,433 @@
+/**
+ * Citation Style Formatter for Client-side Word Export
+ *
+ * Renders in-text markers and the reference list from the manuscript's inline
+ * BibTeX entries, so Word export does not need Pandoc or CSL files.
+ * - Numbered styles (Vancouver, AMA, NEJM) number references in order of first
+ *   citation and compress runs of numbers (1-3,5).
+ * - Author-year styles (APA, Harvard) cite (Smith et al., 2020), sort the
+ *   reference list alphabetically and add a/b to same-author, same-year works.
+ */
+
+import { ReferenceInput, parseBibtex } from '@/lib/references/parsers';
+import type { CitationStyleId, JournalCitationStyle } from './journal-profiles';
+
+/**
+ * A run of reference text. Journal and book titles are italic in some styles.
+ */
+export interface CitationSegment {
+    text: string;
+    italics?: boolean;
+}
+
+/**
+ * A formatted reference list entry.
+ */
+export interface FormattedReference {
+    key: string;
+    label: string; // "1." for numbered styles, empty for author-year styles
+    segments: CitationSegment[];
+}
+
+interface CitedReference {
+    key: string;
+    reference: ReferenceInput;
+    number: number; // Order of first citation
+    suffix: string; // Author-year disambiguation letter (2020a, 2020b)
+}
+
+/**
+ * References cited in a manuscript, keyed by citation key.
+ */
+export interface CitationRegistry {
+    style: JournalCitationStyle;
+    references: Map<string, CitedReference>;
+}
+
+/** Inline BibTeX citation: [[@type{key, ...}]] */
+const INLINE_CITATION = /\[\[@\w+\{[^,]+,[^\]]+\}\]\]/g;
+
+/**
+ * Whether a style cites by author and year rather than by number.
+ */
+export function isAuthorYearStyle(style: CitationStyleId): boolean {
+    return style === 'apa' || style === 'harvard';
+}
+
+/**
+ * Create an empty citation registry for a journal's citation style.
+ */
+export function createCitationRegistry(style: JournalCitationStyle): CitationRegistry {
+    return { style, references: new Map() };
+}
+
+/**
+ * Get the citation key of an inline citation.
+ * @param citation [[@type{key, ...}]]
+ * @returns Key, or "unknown" if the citation is malformed
+ */
+export function getCitationKey(citation: string): string {
+    return citation.match(/@\w+\{([^,]+),/)?.[1].trim() || 'unknown';
+}
+
+/**
+ * Register the inline citations of a text, numbering new keys in order of first citation.
+ * @param registry Citation registry
+ * @param text Text with inline citations
+ */
+export function registerCitations(registry: CitationRegistry, text: string): void {
+    for (const citation of text.match(INLINE_CITATION) || []) {
+        const key = getCitationKey(citation);
+        if (registry.references.has(key)) continue;
+
+        const reference = parseBibtex(citation)[0] || { type: 'misc', title: key, authors: [], tags: [] };
+        registry.references.set(key, { key, reference, number: registry.references.size + 1, suffix: '' });
+    }
+}
+
+// --- Names ---
+
+interface PersonName {
+    family: string;
+    initials: string[]; // One entry per given name; hyphenated names keep the hyphen (J-P)
+}
+
+/**
+ * Split "Last, First Middle" into family name and initials.
+ * Names without a comma are group authors and have no initials.
+ */
+function parseName(author: string): PersonName {
+    const comma = author.indexOf(',');
+    if (comma === -1) return { family: author.trim(), initials: [] };
+
+    const family = author.slice(0, comma).trim();
+    const initials = author.slice(comma + 1)
+        .split(/[\s.]+/)
+        .filter(Boolean)
+        .flatMap(part => {
+            // "JA" is already a run of initials
+            if (/^[A-Z]{2,3}$/.test(part)) return part.split('');
+            return [part.split('-').map(piece => piece.charAt(0).toUpperCase()).join('-')];
+        });
+
+    return { family, initials };
+}
+
+function formatName(author: string, style: CitationStyleId): string {
+    const { family, initials } = parseName(author);
+    if (initials.length === 0) return family;
+
+    switch (style) {
+        case 'apa':
+            return `${family}, ${initials.map(i => `${i.replace(/-/g, '.-')}.`).join(' ')}`;
+        case 'harvard':
+            return `${family}, ${initials.map(i => `${i.replace(/-/g, '.-')}.`).join('')}`;
+        default:
+            return `${family} ${initials.join('')}`;
+    }
+}
+
+/**
+ * Format the author list of a reference list entry.
+ * @returns Authors without trailing punctuation, or an empty string
+ */
+function formatAuthors(authors: string[], citation: JournalCitationStyle): string {
+    if (authors.length === 0) return '';
+    const style = citation.style;
+    const names = authors.map(author => formatName(author, style));
+
+    if (style === 'apa') {
+        if (names.length > citation.maxAuthors) {
+            return `${names.slice(0, citation.truncatedAuthors).join(', ')}, . . . ${names[names.length - 1]}`;
+        }
+        return names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')}, & ${names[names.length - 1]}`;
+    }
+
+    const truncated = names.length > citation.maxAuthors;
+    const listed = truncated ? names.slice(0, citation.truncatedAuthors) : names;
+
+    if (style === 'harvard') {
+        if (truncated) return `${listed.join(', ')} et al.`;
+        return listed.length === 1 ? listed[0] : `${listed.slice(0, -1).join(', ')} and ${listed[listed.length - 1]}`;
+    }
+
+    // AMA omits the period after "et al"
+    return truncated ? `${listed.join(', ')}, et al${style === 'ama' ? '' : '.'}` : listed.join(', ');
+}
+
+/**
+ * Author part of an author-year in-text citation: Smith; Smith & Lee; Smith et al.
+ */
+function formatInTextAuthors(reference: ReferenceInput, style: CitationStyleId): string {
+    const families = reference.authors.map(author => parseName(author).family);
+    const and = style === 'apa' ? '&' : 'and';
+
+    if (families.length === 0) {
+        const words = reference.title.split(/\s+/);
+        return `"${words.slice(0, 4).join(' ')}${words.length > 4 ? '...' : ''}"`;
+    }
+    if (families.length === 1) return families[0];
+    if (families.length === 2) return `${families[0]} ${and} ${families[1]}`;
+    // Harvard names up to three authors in the text
+    if (style === 'harvard' && families.length === 3) return `${families[0]}, ${families[1]} and ${families[2]}`;
+    return `${families[0]} et al.`;
+}
+
+// --- Reference parts ---
+
+/**
+ * End a part with a period unless it already ends with punctuation.
+ */
+function sentence(text: string): string {
+    return /[.?!]$/.test(text) ? text : `${text}.`;
+}
+
+/**
+ * Normalize a page range; NLM styles (Vancouver, NEJM) drop repeated leading digits (1234-45).
+ */
+function formatPages(pages: string | undefined, style: CitationStyleId): string | undefined {
+    if (!pages) return undefined;
+    const [start, end] = pages.split(/\s*[-–—]+\s*/);
+    if (!end || end === start) return start;
+
+    if (style === 'apa' || style === 'harvard') return `${start}–${end}`;
+    if ((style === 'vancouver' || style === 'nejm') && /^\d+$/.test(start) && /^\d+$/.test(end) && start.length === end.length) {
+        let shared = 0;
+        while (shared < end.length - 1 && start[shared] === end[shared]) shared++;
+        return `${start}-${end.slice(shared)}`;
+    }
+    return `${start}-${end}`;
+}
+
+/**
+ * Write a title followed by a period, keeping the period out of italics.
+ */
+function writeTitle(write: (text: string | undefined, italics?: boolean) => void, title: string, italics: boolean): void {
+    const bare = title.replace(/\.$/, '');
+    write(bare, italics);
+    if (!/[?!]$/.test(bare)) write('.');
+}
+
+function isChapter(type: string): boolean {
+    return ['incollection', 'inproceedings', 'inbook', 'conference'].includes(type);
+}
+
+/**
+ * Collects segments, merging neighbouring runs with the same formatting.
+ */
+function segmentWriter() {
+    const segments: CitationSegment[] = [];
+    const write = (text: string | undefined, italics: boolean = false) => {
+        if (!text) return;
+        const last = segments[segments.length - 1];
+        if (last && Boolean(last.italics) === italics) {
+            last.text += text;
+        } else {
+            segments.push(italics ? { text, italics } : { text });
+        }
+    };
+    // Drop the trailing space left when optional parts are missing
+    const finish = () => {
+        const last = segments[segments.length - 1];
+        if (last) last.text = last.text.trimEnd();
+        return segments;
+    };
+    return { write, finish };
+}
+
+/**
+ * Format a reference in a numbered style (Vancouver, AMA, NEJM).
+ */
+function formatNumberedReference(reference: ReferenceInput, citation: JournalCitationStyle): CitationSegment[] {
+    const style = citation.style;
+    const { write, finish } = segmentWriter();
+    const pages = formatPages(reference.pages, style);
+    const authors = formatAuthors(reference.authors, citation);
+    const italicContainer = style === 'ama';
+    const imprint = [reference.publisher, reference.year].filter(Boolean).join('; ');
+
+    if (authors) write(`${sentence(authors)} `);
+
+    if (reference.type === 'article') {
+        write(`${sentence(reference.title)} `);
+        if (style === 'nejm') {
+            // N Engl J Med 2020;382:1234-45.
+            write([reference.journal, reference.year].filter(Boolean).join(' '));
+            if (reference.volume) write(`;${reference.volume}`);
+            if (pages) write(`:${pages}`);
+            write('.');
+            return finish();
+        }
+
+        if (reference.journal) {
+            write(reference.journal, italicContainer);
+            write('. ');
+        }
+        write(reference.year);
+        if (reference.volume) write(`;${reference.volume}`);
+        if (reference.issue) write(`(${reference.issue})`);
+        if (pages) write(`:${pages}`);
+        write('.');
+    } else if (isChapter(reference.type)) {
+        write(`${sentence(reference.title)} `);
+        if (reference.journal) {
+            write('In: ');
+            write(reference.journal, italicContainer);
+            write('. ');
+        }
+        if (imprint) write(sentence(imprint));
+        if (pages) write(` p. ${pages}.`);
+    } else {
+        writeTitle(write, reference.title, italicContainer);
+        if (imprint) write(` ${sentence(imprint)}`);
+        if (reference.url && !reference.doi) write(` Available from: ${reference.url}`);
+    }
+
+    if (reference.doi && style !== 'nejm') {
+        write(style === 'ama' ? ` doi:${reference.doi}` : ` doi: ${reference.doi}`);
+    }
+    return finish();
+}
+
+/**
+ * Format a reference in an author-year style (APA, Harvard).
+ */
+function formatAuthorYearReference(reference: ReferenceInput, citation: JournalCitationStyle, suffix: string): CitationSegment[] {
+    const apa = citation.style === 'apa';
+    const { write, finish } = segmentWriter();
+    const pages = formatPages(reference.pages, citation.style);
+    // Works without authors are listed by title, which then is not repeated
+    const authors = formatAuthors(reference.authors, citation);
+    const title = authors ? reference.title : '';
+    const year = `(${reference.year || 'n.d.'}${suffix})`;
+
+    write(apa ? `${sentence(authors || reference.title)} ${year}. ` : `${authors || reference.title} ${year} `);
+
+    if (reference.type === 'article') {
+        if (title) write(apa ? `${sentence(title)} ` : `'${title}', `);
+        if (reference.journal) write(reference.journal, true);
+        if (apa) {
+            if (reference.volume) {
+                write(', ');
+                write(reference.volume, true);
+            }
+            if (reference.issue) write(`(${reference.issue})`);
+            if (pages) write(`, ${pages}`);
+        } else {
+            if (reference.volume) write(`, ${reference.volume}`);
+            if (reference.issue) write(`(${reference.issue})`);
+            if (pages) write(`, pp. ${pages}`);
+        }
+        write('.');
+    } else if (isChapter(reference.type)) {
+        if (title) write(apa ? `${sentence(title)} ` : `'${title}', `);
+        if (reference.journal) {
+            write(apa ? 'In ' : 'in ');
+            write(reference.journal, true);
+            if (apa && pages) write(` (pp. ${pages})`);
+            write('. ');
+        }
+        if (reference.publisher) write(sentence(reference.publisher));
+        if (!apa && pages) write(` pp. ${pages}.`);
+    } else {
+        if (title) writeTitle(write, title, true);
+        if (reference.publisher) write(` ${sentence(reference.publisher)}`);
+    }
+
+    const link = reference.doi ? `https://doi.org/${reference.doi}` : reference.url;
+    if (link) write(apa ? ` ${link}` : ` Available at: ${link}.`);
+    return finish();
+}
+
+// --- Public formatting ---
+
+/**
+ * Sort key for author-year reference lists: first author, year, title.
+ */
+function authorYearSortKey(reference: ReferenceInput): string {
+    const author = reference.authors.length > 0 ? parseName(reference.authors[0]).family : reference.title;
+    return `${author.toLowerCase()}\u0000${reference.authors.length}\u0000${reference.year || '9999'}\u0000${reference.title.toLowerCase()}`;
+}
+
+/**
+ * Order the registered references for the reference list. For author-year
+ * styles this also assigns the a/b suffixes of same-author, same-year works.
+ */
+function orderReferences(registry: CitationRegistry): CitedReference[] {
+    const cited = Array.from(registry.references.values());
+    if (!isAuthorYearStyle(registry.style.style)) {
+        return cited.sort((a, b) => a.number - b.number);
+    }
+
+    cited.sort((a, b) => authorYearSortKey(a.reference).localeCompare(authorYearSortKey(b.reference)));
+
+    const groups = new Map<string, CitedReference[]>();
+    for (const item of cited) {
+        const label = `${formatInTextAuthors(item.reference, registry.style.style)}|${item.reference.year || 'n.d.'}`;
+        groups.set(label, [...(groups.get(label) || []), item]);
+    }
+    for (const group of groups.values()) {
+        group.forEach((item, index) => {
+            item.suffix = group.length > 1 ? String.fromCharCode(97 + index) : '';
+        });
+    }
+
+    return cited;
+}
+
+/**
+ * Compress sorted citation numbers: [1, 2, 3, 5] -> "1-3,5".
+ */
+function compressNumbers(numbers: number[]): string {
+    const parts: string[] = [];
+    for (let i = 0; i < numbers.length; i++) {
+        let end = i;
+        while (end + 1 < numbers.length && numbers[end + 1] === numbers[end] + 1) end++;
+        parts.push(end - i >= 2 ? `${numbers[i]}-${numbers[end]}` : numbers.slice(i, end + 1).join(','));
+        i = end;
+    }
+    return parts.join(',');
+}
+
+/**
+ * Format the in-text marker for a group of adjacent citations.
+ * Register every citation in the document first, so author-year suffixes are final.
+ * @param registry Citation registry
+ * @param keys Citation keys, in text order
+ * @returns "1-3,5" (superscript), "[1-3,5]" (bracket) or "(Smith, 2020; Lee et al., 2021)"
+ */
+export function formatCitationMarker(registry: CitationRegistry, keys: string[]): string {
+    const cited = Array.from(new Set(keys))
+        .map(key => registry.references.get(key))
+        .filter((item): item is CitedReference => Boolean(item));
+    const { style, marker } = registry.style;
+
+    if (isAuthorYearStyle(style)) {
+        const order = orderReferences(registry);
+        const labels = cited
+            .sort((a, b) => order.indexOf(a) - order.indexOf(b))
+            .map(item => `${formatInTextAuthors(item.reference, style)}, ${item.reference.year || 'n.d.'}${item.suffix}`);
+        return `(${labels.join('; ')})`;
+    }
+
+    const numbers = compressNumbers(cited.map(item => item.number).sort((a, b) => a - b));
+    return marker === 'bracket' ? `[${numbers}]` : numbers;
+}
+
+/**
+ * Format the reference list in the registry's style.
+ * @param registry Citation registry
+ * @returns Entries in reference list order
+ */
+export function formatReferenceList(registry: CitationRegistry): FormattedReference[] {
+    const citation = registry.style;
+    const authorYear = isAuthorYearStyle(citation.style);
+
+    return orderReferences(registry).map(item => ({
+        key: item.key,
+        label: authorYear ? '' : `${item.number}.`,
+        segments: authorYear
+            ? formatAuthorYearReference(item.reference, citation, item.suffix)
+            : formatNumberedReference(item.reference, citation),
+    }));
+}
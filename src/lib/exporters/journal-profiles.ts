@@ -0,0 +1,294 @@
+/**
+ * Journal Profiles for Manuscript Export and Agent Prompts
+ *
+ * A journal profile bundles everything that differs between target journals:
+ * the LaTeX preamble, citation style, heading rules, word limits, abstract
+ * structure and reference limits. Exporters and agent prompts read from the
+ * profile selected in the project's settings instead of assuming NEJM.
+ */
+
+import {
+    NEJM_PREAMBLE,
+    JAMA_PREAMBLE,
+    LANCET_PREAMBLE,
+    VANCOUVER_PREAMBLE,
+    APA_PREAMBLE,
+    HARVARD_PREAMBLE,
+} from './latex-templates';
+
+/**
+ * Built-in citation styles rendered by the Word exporter (see csl-formatter.ts).
+ * Vancouver, AMA and NEJM are numbered; APA and Harvard are author-year.
+ */
+export type CitationStyleId = 'vancouver' | 'ama' | 'nejm' | 'apa' | 'harvard';
+
+/**
+ * Citation style settings for a journal.
+ */
+export interface JournalCitationStyle {
+    /** Human-readable style name (e.g. "NEJM", "AMA") */
+    name: string;
+    /** Built-in style used by the client-side Word exporter */
+    style: CitationStyleId;
+    /**
+     * CSL file name in public/pandoc-assets used by the Pandoc route.
+     * Falls back to nejm.csl when the file is not installed.
+     */
+    cslFile: string;
+    /** In-text marker: superscript numbers (\supercite), bracketed numbers (\cite) or (Author, Year) (\parencite) */
+    marker: 'superscript' | 'bracket' | 'author-year';
+    /** Reference list: list all authors when there are at most this many */
+    maxAuthors: number;
+    /** Reference list: number of authors kept before "et al" when truncating */
+    truncatedAuthors: number;
+}
+
+/**
+ * Heading rules for a journal.
+ */
+export interface JournalHeadingRules {
+    /** Capitalization of main \section{} headings */
+    sectionCase: 'upper' | 'title';
+    /** Canonical main-text sections, in order */
+    mainSections: string[];
+}
+
+/**
+ * Word limits for a journal. Undefined means no fixed limit.
+ */
+export interface JournalWordLimits {
+    /** Main text limit (content inside <main_text>) */
+    mainText?: number;
+    /** Abstract limit */
+    abstract?: number;
+}
+
+/**
+ * Abstract structure for a journal.
+ */
+export interface JournalAbstractStructure {
+    /** Whether the abstract uses labelled headings */
+    structured: boolean;
+    /** Abstract headings, in order (empty for unstructured abstracts) */
+    headings: string[];
+}
+
+/**
+ * Complete journal profile.
+ */
+export interface JournalProfile {
+    id: string;
+    name: string;
+    /** LaTeX preamble template with {BIBLIOGRAPHY} placeholder */
+    preamble: string;
+    citation: JournalCitationStyle;
+    headings: JournalHeadingRules;
+    wordLimits: JournalWordLimits;
+    abstractStructure: JournalAbstractStructure;
+    /** Maximum number of references (undefined means no fixed limit) */
+    referenceLimit?: number;
+}
+
+export const DEFAULT_JOURNAL_PROFILE_ID = 'nejm';
+
+/**
+ * Registry of built-in journal profiles, keyed by profile ID.
+ */
+export const JOURNAL_PROFILES: Record<string, JournalProfile> = {
+    nejm: {
+        id: 'nejm',
+        name: 'New England Journal of Medicine (NEJM)',
+        preamble: NEJM_PREAMBLE,
+        citation: {
+            name: 'NEJM',
+            style: 'nejm',
+            cslFile: 'nejm.csl',
+            marker: 'superscript',
+            maxAuthors: 3,
+            truncatedAuthors: 3,
+        },
+        headings: {
+            sectionCase: 'upper',
+            mainSections: ['INTRODUCTION', 'METHODS', 'RESULTS', 'DISCUSSION'],
+        },
+        wordLimits: { mainText: 2700, abstract: 250 },
+        abstractStructure: {
+            structured: true,
+            headings: ['Background', 'Methods', 'Results', 'Conclusions'],
+        },
+        referenceLimit: 40,
+    },
+    jama: {
+        id: 'jama',
+        name: 'Journal of the American Medical Association (JAMA)',
+        preamble: JAMA_PREAMBLE,
+        citation: {
+            name: 'AMA',
+            style: 'ama',
+            cslFile: 'american-medical-association.csl',
+            marker: 'superscript',
+            maxAuthors: 6,
+            truncatedAuthors: 3,
+        },
+        headings: {
+            sectionCase: 'title',
+            mainSections: ['Introduction', 'Methods', 'Results', 'Discussion', 'Conclusions'],
+        },
+        wordLimits: { mainText: 3000, abstract: 350 },
+        abstractStructure: {
+            structured: true,
+            headings: [
+                'Importance',
+                'Objective',
+                'Design, Setting, and Participants',
+                'Exposures',
+                'Main Outcomes and Measures',
+                'Results',
+                'Conclusions and Relevance',
+            ],
+        },
+        referenceLimit: 75,
+    },
+    lancet: {
+        id: 'lancet',
+        name: 'The Lancet',
+        preamble: LANCET_PREAMBLE,
+        citation: {
+            name: 'Lancet',
+            style: 'vancouver',
+            cslFile: 'the-lancet.csl',
+            marker: 'superscript',
+            maxAuthors: 6,
+            truncatedAuthors: 6,
+        },
+        headings: {
+            sectionCase: 'title',
+            mainSections: ['Introduction', 'Methods', 'Results', 'Discussion'],
+        },
+        wordLimits: { mainText: 4500, abstract: 300 },
+        abstractStructure: {
+            structured: true,
+            headings: ['Background', 'Methods', 'Findings', 'Interpretation', 'Funding'],
+        },
+        referenceLimit: 30,
+    },
+    vancouver: {
+        id: 'vancouver',
+        name: 'Generic (ICMJE / Vancouver)',
+        preamble: VANCOUVER_PREAMBLE,
+        citation: {
+            name: 'Vancouver',
+            style: 'vancouver',
+            cslFile: 'vancouver.csl',
+            marker: 'bracket',
+            maxAuthors: 6,
+            truncatedAuthors: 6,
+        },
+        headings: {
+            sectionCase: 'title',
+            mainSections: ['Introduction', 'Methods', 'Results', 'Discussion'],
+        },
+        wordLimits: {},
+        abstractStructure: {
+            structured: true,
+            headings: ['Background', 'Methods', 'Results', 'Conclusions'],
+        },
+    },
+    apa: {
+        id: 'apa',
+        name: 'Generic (APA 7th, author-year)',
+        preamble: APA_PREAMBLE,
+        citation: {
+            name: 'APA',
+            style: 'apa',
+            cslFile: 'apa.csl',
+            marker: 'author-year',
+            maxAuthors: 20,
+            truncatedAuthors: 19,
+        },
+        headings: {
+            sectionCase: 'title',
+            mainSections: ['Introduction', 'Method', 'Results', 'Discussion'],
+        },
+        wordLimits: { abstract: 250 },
+        abstractStructure: {
+            structured: false,
+            headings: [],
+        },
+    },
+    harvard: {
+        id: 'harvard',
+        name: 'Generic (Harvard, author-year)',
+        preamble: HARVARD_PREAMBLE,
+        citation: {
+            name: 'Harvard',
+            style: 'harvard',
+            cslFile: 'harvard-cite-them-right.csl',
+            marker: 'author-year',
+            maxAuthors: 3,
+            truncatedAuthors: 1,
+        },
+        headings: {
+            sectionCase: 'title',
+            mainSections: ['Introduction', 'Methods', 'Results', 'Discussion'],
+        },
+        wordLimits: {},
+        abstractStructure: {
+            structured: false,
+            headings: [],
+        },
+    },
+};
+
+/**
+ * Get a journal profile by ID.
+ * Unknown or missing IDs resolve to the default (NEJM) profile.
+ *
+ * @param id Journal profile ID (e.g. from ProjectSettings.journalProfileId)
+ * @returns The matching journal profile
+ */
+export function getJournalProfile(id?: string | null): JournalProfile {
+    return (id && JOURNAL_PROFILES[id]) || JOURNAL_PROFILES[DEFAULT_JOURNAL_PROFILE_ID];
+}
+
+/**
+ * List all available journal profiles (for settings pickers).
+ *
+ * @returns Array of journal profiles
+ */
+export function listJournalProfiles(): JournalProfile[] {
+    return Object.values(JOURNAL_PROFILES);
+}
+
+/**
+ * Format a journal profile as a markdown block for prompt injection.
+ *
+ * @param profile Journal profile
+ * @returns Markdown description of the journal's rules
+ */
+export function formatJournalProfile(profile: JournalProfile): string {
+    const { wordLimits, abstractStructure, headings, citation, referenceLimit } = profile;
+    const lines: string[] = [`Target journal: ${profile.name}`];
+
+    lines.push(wordLimits.mainText
+        ? `- Main text word limit: ${wordLimits.mainText} words (main text only, excluding abstract, references, tables and figure legends)`
+        : '- Main text word limit: none specified (follow instructions or format guidance)');
+
+    const abstractLimit = wordLimits.abstract ? `, max ${wordLimits.abstract} words` : '';
+    lines.push(abstractStructure.structured
+        ? `- Abstract: structured${abstractLimit}; headings in order: ${abstractStructure.headings.join('; ')}`
+        : `- Abstract: unstructured single paragraph${abstractLimit}`);
+
+    const exampleSection = headings.mainSections[0] || (headings.sectionCase === 'upper' ? 'INTRODUCTION' : 'Introduction');
+    lines.push(`- Main section headings: ${headings.sectionCase === 'upper' ? 'UPPERCASE' : 'Title Case'} (e.g., \\section{${exampleSection}}); expected order: ${headings.mainSections.join(', ')}`);
+
+    lines.push(referenceLimit
+        ? `- References: at most ${referenceLimit}`
+        : '- References: no fixed limit');
+
+    lines.push(citation.marker === 'author-year'
+        ? `- Citation style: ${citation.name}, author-year ((Author, Year) in-text markers and an alphabetical reference list, rendered at export)`
+        : `- Citation style: ${citation.name}, numbered in order of first citation (${citation.marker === 'superscript' ? 'superscript' : 'bracketed'} in-text markers, rendered at export)`);
+
+    return lines.join('\n');
+}
@@ -6,11 +6,32 @@
  */
 
 import {
-    NEJM_PREAMBLE,
     NEJM_TITLE_AUTHORS,
     NEJM_DOCUMENT_START,
     NEJM_DOCUMENT_END,
+    SUPPLEMENTARY_DOCUMENT_START,
 } from './latex-templates';
+import { JournalProfile, getJournalProfile } from './journal-profiles';
+import type { ReferenceEntry } from '@/lib/db/schema';
+import { formatBibtexEntry } from '@/lib/references/library';
+import { CITATION_KEY_PATTERN } from '@/lib/references/citation-keys';
+import { ManuscriptPart, numberParts, resolveReferences } from './supplementary';
+
+/**
+ * LaTeX citation command used for in-text markers.
+ */
+export type CiteCommand = 'supercite' | 'cite' | 'parencite';
+
+/**
+ * Get the citation command matching a journal profile's in-text marker style.
+ * 
+ * @param profile Journal profile
+ * @returns \supercite for superscript journals, \cite for bracketed ones, \parencite for author-year ones
+ */
+export function getCiteCommand(profile: JournalProfile): CiteCommand {
+    if (profile.citation.marker === 'author-year') return 'parencite';
+    return profile.citation.marker === 'bracket' ? 'cite' : 'supercite';
+}
 
 /**
  * Metadata for LaTeX export.
@@ -27,12 +48,13 @@ export interface LatexMetadata {
 
 /**
  * Extract all inline BibTeX entries from the manuscript.
- * Entries are wrapped in [[@...]] format.
+ * Entries are wrapped in [[@...]] format; [@key] markers are resolved from the library.
  * 
  * @param manuscript The manuscript text
+ * @param library Reference library entries for [@key] markers (compact citation mode)
  * @returns Object with entries array and citation keys map
  */
-export function extractBibliography(manuscript: string): {
+export function extractBibliography(manuscript: string, library: ReferenceEntry[] = []): {
     entries: string[];
     keyToEntry: Map<string, string>;
     citationKeys: string[];
@@ -64,6 +86,21 @@ export function extractBibliography(manuscript: string): {
         citationKeys.push(key);
     }
 
+    // Match citation key markers: [@key]
+    const byKey = new Map(library.map(entry => [entry.key, entry]));
+    for (const keyMatch of manuscript.matchAll(CITATION_KEY_PATTERN)) {
+        const key = keyMatch[1];
+        const libraryEntry = byKey.get(key);
+
+        if (libraryEntry && !keyToEntry.has(key)) {
+            const entry = sanitizeBibTeX(formatBibtexEntry(libraryEntry));
+            keyToEntry.set(key, entry);
+            entries.push(entry);
+        }
+
+        citationKeys.push(key);
+    }
+
     return { entries, keyToEntry, citationKeys };
 }
 
@@ -167,17 +204,21 @@ export function sanitizeBibTeX(entry: string): string {
 }
 
 /**
- * Convert inline BibTeX citations to \supercite{key} format.
+ * Convert inline BibTeX citations and [@key] markers to \supercite{key} (or \cite{key}) format.
  * 
  * @param manuscript The manuscript text
+ * @param command Citation command to emit (defaults to supercite)
  * @returns Manuscript with citations converted
  */
-export function convertCitations(manuscript: string): string {
-    // Match inline BibTeX: [[@type{key, ...}]]
+export function convertCitations(manuscript: string, command: CiteCommand = 'supercite'): string {
+    // Match inline BibTeX: [[@type{key, ...}]] and key markers: [@key]
     // Replace with \supercite{key}
     return manuscript.replace(
         /\[\[@(\w+)\{([^,]+),[^\]]+\}\]\]/g,
-        (_, _entryType, key) => `\\supercite{${key.trim()}}`
+        (_, _entryType, key) => `\\${command}{${key.trim()}}`
+    ).replace(
+        CITATION_KEY_PATTERN,
+        (_, key) => `\\${command}{${key}}`
     );
 }
 
@@ -186,13 +227,15 @@ export function convertCitations(manuscript: string): string {
  * e.g., \supercite{a}\supercite{b} -> \supercite{a,b}
  * 
  * @param text Text with supercite commands
+ * @param command Citation command to merge (defaults to supercite)
  * @returns Text with merged supercites
  */
-export function mergeConsecutiveSupercites(text: string): string {
+export function mergeConsecutiveSupercites(text: string, command: CiteCommand = 'supercite'): string {
     // Match consecutive \supercite{...} commands (with optional whitespace between)
+    const pattern = new RegExp(`\\\\${command}\\{([^}]+)\\}(\\s*)\\\\${command}\\{([^}]+)\\}`, 'g');
     return text.replace(
-        /\\supercite\{([^}]+)\}(\s*)\\supercite\{([^}]+)\}/g,
-        (_, key1, _space, key2) => `\\supercite{${key1},${key2}}`
+        pattern,
+        (_, key1, _space, key2) => `\\${command}{${key1},${key2}}`
     );
 }
 
@@ -429,58 +472,6 @@ export function normalizeFigureReferences(text: string): string {
     return result;
 }
 
-/**
- * Reorder figure environments to match their first citation order in text.
- * LaTeX assigns figure numbers based on the order \begin{figure} environments appear,
- * not the order of \ref{} calls. This function reorders figures to ensure proper numbering.
- * 
- * @param text The text containing figure environments
- * @returns Text with figures reordered by first citation
- */
-export function reorderFigures(text: string): string {
-    // Extract all figure environments
-    const figurePattern = /\\begin\{figure\}[\s\S]*?\\end\{figure\}/g;
-    const figures: { content: string; label: string; firstRefIndex: number }[] = [];
-
-    let match;
-    while ((match = figurePattern.exec(text)) !== null) {
-        const figContent = match[0];
-        // Extract label from figure
-        const labelMatch = figContent.match(/\\label\{(fig:[^}]+)\}/);
-        if (labelMatch) {
-            const label = labelMatch[1];
-            // Find first reference to this figure in the text
-            const refPattern = new RegExp(`\\\\ref\\{${label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\}`);
-            const refMatch = text.match(refPattern);
-            const firstRefIndex = refMatch ? text.indexOf(refMatch[0]) : Infinity;
-
-            figures.push({
-                content: figContent,
-                label,
-                firstRefIndex
-            });
-        }
-    }
-
-    // If no figures or only one, return as-is
-    if (figures.length <= 1) {
-        return text;
-    }
-
-    // Sort figures by their first reference position
-    figures.sort((a, b) => a.firstRefIndex - b.firstRefIndex);
-
-    // Remove all figure environments from the text
-    let result = text.replace(figurePattern, '<<<FIGURE_PLACEHOLDER>>>');
-
-    // Replace placeholders with reordered figures
-    for (const fig of figures) {
-        result = result.replace('<<<FIGURE_PLACEHOLDER>>>', fig.content);
-    }
-
-    return result;
-}
-
 /**
  * Normalize paragraph breaks for LaTeX.
  * Ensures paragraphs are separated by blank lines.
@@ -539,7 +530,7 @@ export function normalizeParagraphs(text: string): string {
 
             // Check if current line ends a sentence and next line starts a new thought
             const endsWithSentence = trimmedLine.match(/[.!?)\d]\s*$/) ||
-                trimmedLine.match(/\\supercite\{[^}]+\}\s*$/);
+                trimmedLine.match(/\\(?:super)?cite\{[^}]+\}\s*$/);
 
             // Next line starts a new paragraph if it:
             // - Starts with a capital letter (new sentence)
@@ -713,57 +704,89 @@ export function formatBibliography(entries: string[]): string {
     return entries.join('\n\n');
 }
 
+/**
+ * Convert manuscript body text to LaTeX: citations, headings, paragraphs,
+ * grammar, and figure/table references.
+ * 
+ * @param content Manuscript content (wrappers and bibliography already handled)
+ * @param citeCommand Citation command for in-text markers
+ * @returns LaTeX body
+ */
+function convertBody(content: string, citeCommand: CiteCommand): string {
+    // Convert inline citations to \supercite (or \cite for bracketed styles)
+    content = convertCitations(content, citeCommand);
+
+    // Merge consecutive supercites
+    // Apply multiple times to handle chains of 3+
+    for (let i = 0; i < 5; i++) {
+        content = mergeConsecutiveSupercites(content, citeCommand);
+    }
+
+    // Convert markdown headings to LaTeX
+    content = convertHeadings(content);
+
+    // Normalize paragraph breaks (must be before grammar conversion)
+    content = normalizeParagraphs(content);
+
+    // Apply LaTeX grammar conversions
+    content = convertLatexGrammar(content);
+
+    // Normalize figure/table references (fix hyphen to tilde)
+    return normalizeFigureReferences(content);
+}
+
 /**
  * Convert an AI-generated manuscript to a complete LaTeX document.
  * 
  * @param manuscript The manuscript text with inline BibTeX citations
  * @param metadata Optional metadata for title/authors
+ * @param profile Target journal profile (defaults to NEJM)
+ * @param library Reference library entries for [@key] markers (compact citation mode)
+ * @param part Document to produce: the main manuscript, or the <supplementary> material with S-numbered floats
  * @returns Complete LaTeX document string
+ * @throws Error if the <supplementary> tags are unbalanced
  */
 export function convertToLatex(
     manuscript: string,
-    metadata?: LatexMetadata
+    metadata?: LatexMetadata,
+    profile: JournalProfile = getJournalProfile(),
+    library: ReferenceEntry[] = [],
+    part: ManuscriptPart = 'main'
 ): string {
-    // 1. Remove main_text wrapper
-    let content = removeMainTextWrapper(manuscript);
+    const citeCommand = getCiteCommand(profile);
+
+    // 1. Remove main_text wrapper, split off the supplementary material and number its floats
+    const { parts, numbers } = numberParts(removeMainTextWrapper(manuscript));
+    let content = parts[part];
 
     // 2. Extract bibliography
-    const { entries } = extractBibliography(content);
+    const { entries } = extractBibliography(content, library);
     const bibliography = formatBibliography(entries);
 
-    // 3. Convert inline citations to \supercite
-    content = convertCitations(content);
+    // 3. Convert citations, headings, grammar and figure references
+    content = convertBody(content, citeCommand);
 
-    // 4. Merge consecutive supercites
-    // Apply multiple times to handle chains of 3+
-    for (let i = 0; i < 5; i++) {
-        content = mergeConsecutiveSupercites(content);
-    }
+    // 4. References to floats in the other document can't be resolved by LaTeX: use literal numbers
+    const otherPart: ManuscriptPart = part === 'main' ? 'supplementary' : 'main';
+    content = resolveReferences(content, numbers[otherPart]);
 
-    // 5. Convert markdown headings to LaTeX
-    content = convertHeadings(content);
-
-    // 6. Normalize paragraph breaks (must be before grammar conversion)
-    content = normalizeParagraphs(content);
-
-    // 7. Apply LaTeX grammar conversions
-    content = convertLatexGrammar(content);
-
-    // 8. Normalize figure/table references (fix hyphen to tilde)
-    content = normalizeFigureReferences(content);
-
-    // 9. Reorder figures based on citation order
-    content = reorderFigures(content);
+    if (part === 'supplementary') {
+        const title = metadata?.title || convertBody(parts.main, citeCommand).match(/\\title\{([^\n]*)\}/)?.[1] || '';
+        return profile.preamble.replace('{BIBLIOGRAPHY}', bibliography)
+            + SUPPLEMENTARY_DOCUMENT_START.replace('{TITLE}', title)
+            + content
+            + NEJM_DOCUMENT_END;
+    }
 
-    // 10. Extract title page elements from content (must be before \begin{document})
+    // 5. Extract title page elements from content (must be before \begin{document})
     const extracted = extractTitlePageElements(content);
     content = extracted.cleanedContent;
 
-    // 8. Build document
+    // 6. Build document
     let doc = '';
 
     // Preamble with embedded bibliography
-    doc += NEJM_PREAMBLE.replace('{BIBLIOGRAPHY}', bibliography);
+    doc += profile.preamble.replace('{BIBLIOGRAPHY}', bibliography);
 
     // Title and authors - either from extracted content or from metadata
     let titleAuthors = NEJM_TITLE_AUTHORS;
@@ -821,11 +844,18 @@ export function convertToLatex(
  * 
  * @param manuscript The AI-generated manuscript
  * @param metadata Optional metadata
+ * @param profile Target journal profile (defaults to NEJM)
+ * @param library Reference library entries for [@key] markers (compact citation mode)
+ * @param part Document to produce: the main manuscript or the supplementary material
  * @returns Complete .tex file content
+ * @throws Error if the <supplementary> tags are unbalanced
  */
 export function exportToLatex(
     manuscript: string,
-    metadata?: LatexMetadata
+    metadata?: LatexMetadata,
+    profile?: JournalProfile,
+    library?: ReferenceEntry[],
+    part?: ManuscriptPart
 ): string {
-    return convertToLatex(manuscript, metadata);
+    return convertToLatex(manuscript, metadata, profile, library, part);
 }
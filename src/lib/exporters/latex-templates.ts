@@ -1,15 +1,22 @@
 /**
- * LaTeX Templates for NEJM-style Manuscript Export
+ * LaTeX Templates for Journal-specific Manuscript Export
  * 
- * These templates define the hardcoded structure for NEJM-formatted LaTeX documents.
+ * These templates define the hardcoded structure for journal-formatted LaTeX documents.
  * The bibliography is embedded using filecontents* and biber is used for processing.
+ * Journal-specific differences (font, biblatex style) live in the preamble only;
+ * see journal-profiles.ts for how each journal picks its preamble.
  */
 
 /**
- * NEJM preamble template.
+ * Build a preamble template from journal-specific options.
  * {BIBLIOGRAPHY} placeholder will be replaced with extracted BibTeX entries.
+ * 
+ * @param fontPackage Font package line (including trailing comment, if any)
+ * @param biblatexOptions Options passed to biblatex after backend=biber
+ * @returns Preamble template string
  */
-export const NEJM_PREAMBLE = `% ---------- Embedded Bibliography ----------
+function buildPreamble(fontPackage: string, biblatexOptions: string): string {
+    return `% ---------- Embedded Bibliography ----------
 \\begin{filecontents*}[overwrite]{\\jobname.bib}
 {BIBLIOGRAPHY}
 \\end{filecontents*}
@@ -21,7 +28,7 @@ export const NEJM_PREAMBLE = `% ---------- Embedded Bibliography ----------
 \\usepackage[T1]{fontenc}
 \\usepackage[utf8]{inputenc}
 \\usepackage[strict]{csquotes}
-\\usepackage{mathptmx}  % Times Roman font (NEJM requirement)
+${fontPackage}
 \\usepackage{setspace}
 \\usepackage{authblk}
 \\usepackage{amsmath, amssymb}
@@ -33,7 +40,7 @@ export const NEJM_PREAMBLE = `% ---------- Embedded Bibliography ----------
 \\usepackage{subcaption}
 \\usepackage[hidelinks]{hyperref}
 \\usepackage{enumitem}
-\\usepackage[backend=biber,style=nejm,sorting=none,maxnames=6,minnames=3,terseinits=true,isbn=false]{biblatex}
+\\usepackage[backend=biber,${biblatexOptions}]{biblatex}
 \\addbibresource{\\jobname.bib}
 \\captionsetup{font=small, labelfont=bf}
 \\usepackage{tabularx}
@@ -45,6 +52,56 @@ export const NEJM_PREAMBLE = `% ---------- Embedded Bibliography ----------
 \\doublespacing
 \\linenumbers
 `;
+}
+
+/**
+ * NEJM preamble template.
+ * {BIBLIOGRAPHY} placeholder will be replaced with extracted BibTeX entries.
+ */
+export const NEJM_PREAMBLE = buildPreamble(
+    '\\usepackage{mathptmx}  % Times Roman font (NEJM requirement)',
+    'style=nejm,sorting=none,maxnames=6,minnames=3,terseinits=true,isbn=false'
+);
+
+/**
+ * JAMA preamble template (AMA style approximated with numeric-comp superscripts).
+ */
+export const JAMA_PREAMBLE = buildPreamble(
+    '\\usepackage{mathptmx}  % Times Roman font',
+    'style=numeric-comp,sorting=none,maxnames=6,minnames=3,giveninits=true,isbn=false'
+);
+
+/**
+ * Lancet preamble template (Vancouver style via biblatex-vancouver).
+ */
+export const LANCET_PREAMBLE = buildPreamble(
+    '\\usepackage{mathptmx}  % Times Roman font',
+    'style=vancouver,sorting=none,maxnames=6,minnames=6,isbn=false'
+);
+
+/**
+ * Generic ICMJE/Vancouver preamble template with bracketed numeric citations.
+ */
+export const VANCOUVER_PREAMBLE = buildPreamble(
+    '\\usepackage{mathptmx}  % Times Roman font',
+    'style=numeric-comp,sorting=none,maxnames=6,minnames=6,giveninits=true,isbn=false'
+);
+
+/**
+ * APA 7th preamble template (author-year citations via biblatex-apa).
+ */
+export const APA_PREAMBLE = buildPreamble(
+    '\\usepackage{mathptmx}  % Times Roman font',
+    'style=apa,isbn=false'
+);
+
+/**
+ * Harvard preamble template (author-year citations, alphabetical bibliography).
+ */
+export const HARVARD_PREAMBLE = buildPreamble(
+    '\\usepackage{mathptmx}  % Times Roman font',
+    'style=authoryear,maxcitenames=3,mincitenames=1,giveninits=true,isbn=false'
+);
 
 /**
  * Document start template.
@@ -71,6 +128,26 @@ export const NEJM_DOCUMENT_START = `
 \\section*{Correspondence}
 `;
 
+/**
+ * Supplementary document start (title, then S-prefixed numbering).
+ * {TITLE} placeholder will be replaced with the manuscript title.
+ */
+export const SUPPLEMENTARY_DOCUMENT_START = `
+% ---------- Title ----------
+\\title{Supplementary Appendix\\\\[0.5em]\\large {TITLE}}
+\\author{}
+\\date{}
+
+% ---------- Document ----------
+\\begin{document}
+\\maketitle
+
+% Supplementary numbering: Figure S1, Table S1, Section S1
+\\renewcommand{\\thefigure}{S\\arabic{figure}}
+\\renewcommand{\\thetable}{S\\arabic{table}}
+\\renewcommand{\\thesection}{S\\arabic{section}}
+`;
+
 /**
  * Document end template.
  */
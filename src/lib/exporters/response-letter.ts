@@ -0,0 +1,179 @@
+/**
+ * Response Letter Converter for Resubmissions
+ *
+ * Builds the point-by-point response to reviewers as a .docx file: each
+ * reviewer comment is quoted, followed by the response, the change made and
+ * the revised manuscript text.
+ */
+
+import {
+    Document,
+    Packer,
+    Paragraph,
+    TextRun,
+    HeadingLevel,
+    AlignmentType,
+    convertInchesToTwip,
+    Footer,
+    PageNumber,
+} from 'docx';
+
+import type { ReviewerComment } from '../db/schema';
+
+/**
+ * Create a Times New Roman text run (12pt unless a size is given)
+ */
+function run(text: string, options: { bold?: boolean; italics?: boolean; size?: number } = {}): TextRun {
+    return new TextRun({
+        text,
+        font: 'Times New Roman',
+        size: options.size ?? 24,
+        bold: options.bold,
+        italics: options.italics,
+    });
+}
+
+/**
+ * Create a paragraph with an optional bold label before the text
+ */
+function labelledParagraph(label: string, text: string): Paragraph {
+    return new Paragraph({
+        children: [run(`${label} `, { bold: true }), run(text)],
+        spacing: { after: 120 },
+    });
+}
+
+/**
+ * Create an indented quotation paragraph
+ */
+function quote(text: string, italics: boolean): Paragraph {
+    return new Paragraph({
+        children: [run(text, { italics })],
+        indent: { left: convertInchesToTwip(0.5) },
+        spacing: { after: 120 },
+    });
+}
+
+/**
+ * Build the paragraphs for one comment
+ */
+function buildComment(comment: ReviewerComment): Paragraph[] {
+    const blocks: Paragraph[] = [
+        new Paragraph({
+            children: [run(`Comment ${comment.number}`, { bold: true })],
+            spacing: { before: 240, after: 120 },
+        }),
+        quote(comment.text, true),
+    ];
+
+    if (comment.status === 'open') {
+        blocks.push(labelledParagraph('Response:', '[Not yet addressed]'));
+        return blocks;
+    }
+
+    if (comment.response) {
+        blocks.push(labelledParagraph('Response:', comment.response));
+    }
+    if (comment.changeSummary) {
+        blocks.push(labelledParagraph('Change:', comment.changeSummary));
+    } else if (comment.status === 'no_change') {
+        blocks.push(labelledParagraph('Change:', 'No change to the manuscript.'));
+    }
+
+    if (comment.revisedText && comment.revisedText.length > 0) {
+        blocks.push(new Paragraph({
+            children: [run('Revised text:', { bold: true })],
+            spacing: { after: 120 },
+        }));
+        for (const text of comment.revisedText) {
+            blocks.push(quote(`"${text}"`, false));
+        }
+    }
+
+    return blocks;
+}
+
+/**
+ * Export the point-by-point response to reviewers as a Word document.
+ * Comments are grouped by reviewer in letter order; skipped comments are omitted.
+ *
+ * @param comments Tracked reviewer comments
+ * @param metadata Optional metadata (manuscript title)
+ * @returns Promise resolving to Blob of the .docx file
+ */
+export async function exportResponseLetter(
+    comments: ReviewerComment[],
+    metadata?: { title?: string }
+): Promise<Blob> {
+    const blocks: Paragraph[] = [
+        new Paragraph({
+            children: [run('Response to Reviewers', { bold: true, size: 32 })],
+            heading: HeadingLevel.TITLE,
+            alignment: AlignmentType.CENTER,
+            spacing: { after: 240 },
+        }),
+    ];
+
+    if (metadata?.title) {
+        blocks.push(new Paragraph({
+            children: [run(`Manuscript: ${metadata.title}`, { italics: true })],
+            alignment: AlignmentType.CENTER,
+            spacing: { after: 240 },
+        }));
+    }
+
+    blocks.push(new Paragraph({
+        children: [run('We thank the editors and reviewers for their comments. Each comment is quoted below, followed by our response and the corresponding changes to the manuscript.')],
+        spacing: { after: 240 },
+    }));
+
+    // Group by reviewer, keeping the order in which reviewers first appear
+    const reviewers = new Map<string, ReviewerComment[]>();
+    for (const comment of comments) {
+        if (comment.status === 'skipped') continue;
+        const group = reviewers.get(comment.reviewer) || [];
+        group.push(comment);
+        reviewers.set(comment.reviewer, group);
+    }
+
+    for (const [reviewer, group] of reviewers) {
+        blocks.push(new Paragraph({
+            children: [run(reviewer, { bold: true, size: 28 })],
+            heading: HeadingLevel.HEADING_1,
+            spacing: { before: 360, after: 120 },
+        }));
+        for (const comment of group) {
+            blocks.push(...buildComment(comment));
+        }
+    }
+
+    const doc = new Document({
+        sections: [{
+            properties: {
+                page: {
+                    margin: {
+                        top: convertInchesToTwip(1),
+                        right: convertInchesToTwip(1),
+                        bottom: convertInchesToTwip(1),
+                        left: convertInchesToTwip(1),
+                    },
+                },
+            },
+            footers: {
+                default: new Footer({
+                    children: [new Paragraph({
+                        children: [new TextRun({
+                            children: [PageNumber.CURRENT],
+                            font: 'Times New Roman',
+                            size: 20,
+                        })],
+                        alignment: AlignmentType.CENTER,
+                    })],
+                }),
+            },
+            children: blocks,
+        }],
+    });
+
+    return await Packer.toBlob(doc);
+}
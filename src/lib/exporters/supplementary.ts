@@ -0,0 +1,162 @@
+/**
+ * Supplementary Material - Split <supplementary> content into its own document.
+ *
+ * Appendices, supplementary tables and figures are wrapped in
+ * <supplementary>...</supplementary> (mirroring <main_text>). The exporters
+ * emit them as a second document whose floats are numbered S1, S2, ...;
+ * references between the two documents are replaced by literal numbers,
+ * since LaTeX cannot resolve labels across separate files.
+ */
+
+/**
+ * Which document of the export to produce.
+ */
+export type ManuscriptPart = 'main' | 'supplementary';
+
+/**
+ * Float number prefix per document.
+ */
+export const PART_NUMBER_PREFIXES: Record<ManuscriptPart, string> = { main: '', supplementary: 'S' };
+
+const SUPPLEMENTARY_PATTERN = /<supplementary>([\s\S]*?)<\/supplementary>/g;
+
+const FLOAT_PATTERN = /\\begin\{(figure\*?|table\*?|longtable)\}[\s\S]*?\\end\{\1\}/g;
+
+const FLOAT_NAMES: Record<string, string> = { fig: 'Figure', tab: 'Table' };
+
+/**
+ * Whether the manuscript has supplementary material.
+ */
+export function hasSupplementary(manuscript: string): boolean {
+    return /<supplementary>/.test(manuscript);
+}
+
+/**
+ * Split a manuscript into main and supplementary content.
+ * Several <supplementary> blocks are joined in document order.
+ * @param manuscript Manuscript text
+ * @returns Main content (wrappers removed) and supplementary content ('' if there is none)
+ * @throws Error if the <supplementary> tags are unbalanced
+ */
+export function splitSupplementary(manuscript: string): Record<ManuscriptPart, string> {
+    const opens = manuscript.match(/<supplementary>/g)?.length ?? 0;
+    const closes = manuscript.match(/<\/supplementary>/g)?.length ?? 0;
+    if (opens !== closes) {
+        throw new Error(`Unbalanced supplementary wrapper: found ${opens} <supplementary> and ${closes} </supplementary>`);
+    }
+
+    const blocks = Array.from(manuscript.matchAll(SUPPLEMENTARY_PATTERN), match => match[1].trim());
+    return {
+        main: manuscript.replace(SUPPLEMENTARY_PATTERN, '').replace(/\n{3,}/g, '\n\n'),
+        supplementary: blocks.join('\n\n')
+    };
+}
+
+/**
+ * Reorder figure environments to match their first citation order in text.
+ * LaTeX assigns figure numbers based on the order \begin{figure} environments appear,
+ * not the order of \ref{} calls. This function reorders figures to ensure proper numbering.
+ * 
+ * @param text The text containing figure environments
+ * @returns Text with figures reordered by first citation
+ */
+export function reorderFigures(text: string): string {
+    // Extract all figure environments
+    const figurePattern = /\\begin\{figure\}[\s\S]*?\\end\{figure\}/g;
+    const figures: { content: string; firstRefIndex: number }[] = [];
+
+    let match;
+    while ((match = figurePattern.exec(text)) !== null) {
+        const figContent = match[0];
+        // Extract label from figure; unlabeled figures can't be cited and go last
+        const labelMatch = figContent.match(/\\label\{(fig:[^}]+)\}/);
+        let firstRefIndex = Infinity;
+        if (labelMatch) {
+            const label = labelMatch[1];
+            // Find first reference to this figure in the text
+            const refPattern = new RegExp(`\\\\ref\\{${label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\}`);
+            const refMatch = text.match(refPattern);
+            if (refMatch) firstRefIndex = text.indexOf(refMatch[0]);
+        }
+
+        figures.push({
+            content: figContent,
+            firstRefIndex
+        });
+    }
+
+    // If no figures or only one, return as-is
+    if (figures.length <= 1) {
+        return text;
+    }
+
+    // Sort figures by their first reference position
+    figures.sort((a, b) => a.firstRefIndex - b.firstRefIndex);
+
+    // Remove all figure environments from the text
+    let result = text.replace(figurePattern, '<<<FIGURE_PLACEHOLDER>>>');
+
+    // Replace placeholders with reordered figures
+    for (const fig of figures) {
+        result = result.replace('<<<FIGURE_PLACEHOLDER>>>', () => fig.content);
+    }
+
+    return result;
+}
+
+/**
+ * Number figures and tables in placement order, the way LaTeX does.
+ * @param content LaTeX content of one document
+ * @param prefix Number prefix ('S' for the supplement)
+ * @returns Map from label (e.g. "fig:flow") to number (e.g. "S1")
+ */
+export function numberFloats(content: string, prefix: string = ''): Map<string, string> {
+    const numbers = new Map<string, string>();
+    const counters = { fig: 0, tab: 0 };
+
+    for (const match of content.matchAll(FLOAT_PATTERN)) {
+        const kind = match[1].startsWith('figure') ? 'fig' : 'tab';
+        counters[kind]++;
+        const label = match[0].match(/\\label\{([^}]+)\}/)?.[1];
+        if (label && !numbers.has(label)) numbers.set(label, `${prefix}${counters[kind]}`);
+    }
+    return numbers;
+}
+
+/**
+ * Split a manuscript and number the floats of both documents.
+ * Figures are put in first-citation order before numbering, so every export
+ * (and every reference to the other document) agrees with LaTeX's numbers.
+ * @param manuscript Manuscript text
+ * @returns Content per document, floats in numbering order, and its label numbers
+ * @throws Error if the <supplementary> tags are unbalanced
+ */
+export function numberParts(manuscript: string): {
+    parts: Record<ManuscriptPart, string>;
+    numbers: Record<ManuscriptPart, Map<string, string>>;
+} {
+    const { main, supplementary } = splitSupplementary(manuscript);
+    const parts = { main: reorderFigures(main), supplementary: reorderFigures(supplementary) };
+    return {
+        parts,
+        numbers: {
+            main: numberFloats(parts.main, PART_NUMBER_PREFIXES.main),
+            supplementary: numberFloats(parts.supplementary, PART_NUMBER_PREFIXES.supplementary)
+        }
+    };
+}
+
+/**
+ * Replace references to the given labels with literal numbers.
+ * \ref becomes the bare number; \autoref and \cref also get the float name.
+ * @param text LaTeX content
+ * @param numbers Label numbers (from numberFloats)
+ * @returns Content with those references resolved
+ */
+export function resolveReferences(text: string, numbers: Map<string, string>): string {
+    return text.replace(/\\(ref|autoref|cref|Cref)\{([^}]+)\}/g, (match, command: string, label: string) => {
+        const number = numbers.get(label);
+        if (!number) return match;
+        return command === 'ref' ? number : `${FLOAT_NAMES[label.split(':')[0]] ?? ''}~${number}`.replace(/^~/, '');
+    });
+}
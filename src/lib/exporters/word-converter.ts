@@ -2,7 +2,8 @@
  * Word Document Converter for AI-Generated Manuscripts
  * 
  * Converts manuscripts with inline BibTeX citations to submission-ready .docx files.
- * Uses the docx npm package for pure client-side generation.
+ * Uses the docx npm package for pure client-side generation; citations and the
+ * reference list are rendered in the journal's style by csl-formatter.ts.
  */
 
 import {
@@ -24,89 +25,62 @@ import {
 } from 'docx';
 
 import type { LatexMetadata } from './latex-converter';
+import { JournalProfile, getJournalProfile } from './journal-profiles';
+import {
+    CitationRegistry,
+    createCitationRegistry,
+    registerCitations,
+    getCitationKey,
+    formatCitationMarker,
+    formatReferenceList,
+} from './csl-formatter';
+import type { ReferenceEntry } from '@/lib/db/schema';
+import { expandCitationKeys } from '@/lib/references/citation-keys';
+import { ManuscriptPart, PART_NUMBER_PREFIXES, numberParts, resolveReferences } from './supplementary';
 
 /**
- * Citation tracking for reference numbering
- */
-interface CitationTracker {
-    keyToNumber: Map<string, number>;
-    nextNumber: number;
-    entries: Array<{ key: string; entry: string }>;
-}
-
-/**
- * Extract citation key from inline BibTeX and track it
- */
-function extractAndTrackCitation(
-    match: string,
-    tracker: CitationTracker
-): { key: string; number: number; entry: string } {
-    // Match inline BibTeX: [[@type{key, ...}]]
-    // Using [\s\S] instead of 's' flag for compatibility
-    const bibPattern = /@(\w+)\{([^,]+),([\s\S]+)\}/;
-    const bibMatch = match.match(bibPattern);
-
-    if (!bibMatch) {
-        return { key: 'unknown', number: tracker.nextNumber, entry: '' };
-    }
-
-    const entryType = bibMatch[1];
-    const key = bibMatch[2].trim();
-    const fields = bibMatch[3];
-
-    // Check if already tracked
-    if (tracker.keyToNumber.has(key)) {
-        return {
-            key,
-            number: tracker.keyToNumber.get(key)!,
-            entry: `@${entryType}{${key},${fields}}`
-        };
-    }
-
-    // Assign new number
-    const number = tracker.nextNumber++;
-    tracker.keyToNumber.set(key, number);
-    const entry = `@${entryType}{${key},${fields}}`;
-    tracker.entries.push({ key, entry });
-
-    return { key, number, entry };
-}
-
-/**
- * Parse a paragraph and convert inline citations to superscript numbers.
+ * Parse a paragraph and convert inline citations to the journal's in-text markers.
+ * Adjacent citations share one marker (e.g. "1-3" or "(Smith, 2020; Lee, 2021)").
  * Returns an array of TextRun objects for the docx paragraph.
  */
 function parseTextWithCitations(
     text: string,
-    tracker: CitationTracker
+    registry: CitationRegistry
 ): TextRun[] {
     const runs: TextRun[] = [];
+    const { marker } = registry.style;
 
-    // Pattern for inline BibTeX: [[@type{key, ...}]]
-    const pattern = /\[\[@\w+\{[^,]+,[^\]]+\}\]\]/g;
+    // Pattern for a group of inline BibTeX citations separated only by whitespace: [[@type{key, ...}]]
+    const pattern = /\[\[@\w+\{[^,]+,[^\]]+\}\]\](?:\s*\[\[@\w+\{[^,]+,[^\]]+\}\]\])*/g;
 
     let lastIndex = 0;
     let match;
 
     while ((match = pattern.exec(text)) !== null) {
+        let before = text.slice(lastIndex, match.index);
+
+        // Author-year citations read as words: "shown (Smith, 2020)."
+        if (marker === 'author-year' && !/\s$/.test(before) && (before || runs.length > 0)) {
+            before += ' ';
+        }
+
         // Add text before the citation
-        if (match.index > lastIndex) {
+        if (before) {
             runs.push(new TextRun({
-                text: text.slice(lastIndex, match.index),
+                text: before,
                 font: 'Times New Roman',
                 size: 24, // 12pt * 2
             }));
         }
 
-        // Extract and track the citation
-        const citation = extractAndTrackCitation(match[0], tracker);
+        const keys = (match[0].match(/\[\[@\w+\{[^,]+,[^\]]+\}\]\]/g) || []).map(getCitationKey);
 
-        // Add superscript citation number
+        // Add the citation marker in the journal's style
         runs.push(new TextRun({
-            text: citation.number.toString(),
+            text: formatCitationMarker(registry, keys),
             font: 'Times New Roman',
             size: 24,
-            superScript: true,
+            superScript: marker === 'superscript',
         }));
 
         lastIndex = match.index + match[0].length;
@@ -187,6 +161,8 @@ function cleanLatexForWord(text: string): string {
         .replace(/\$([^$]+)\$/g, '$1')
         // Clean up thousand separators
         .replace(/\{,\}/g, ',')
+        // Non-breaking space between a float name and its number (Figure~S1)
+        .replace(/([A-Za-z.])~(?=S?\d)/g, '$1\u00A0')
         // Convert dashes
         .replace(/--/g, '–')
         // Clean up extra whitespace
@@ -218,12 +194,60 @@ function cleanCellContent(raw: string): { text: string; bold: boolean; italics:
     return { text, bold, italics };
 }
 
+/**
+ * Read the text of a \caption{...} on a line (balanced braces, so a trailing \label is dropped).
+ * Returns null if the line has no caption; \caption*{...} continuation captions don't count.
+ */
+function readCaption(line: string): string | null {
+    const open = line.indexOf('\\caption{') + '\\caption'.length;
+    if (open < '\\caption'.length) return null;
+
+    let depth = 0;
+    for (let i = open; i < line.length; i++) {
+        if (line[i] === '{') depth++;
+        else if (line[i] === '}' && --depth === 0) return line.slice(open + 1, i).trim();
+    }
+    return line.slice(open + 1).trim();
+}
+
+/**
+ * Read the \label of the float that starts on a line, searching up to its \end.
+ */
+function readFloatLabel(lines: string[], startIndex: number): string | undefined {
+    for (let i = startIndex; i < lines.length; i++) {
+        const label = lines[i].match(/\\label\{([^}]+)\}/)?.[1];
+        if (label) return label;
+        if (/\\end\{(figure|table|longtable)/.test(lines[i])) return undefined;
+    }
+    return undefined;
+}
+
+/**
+ * Build a numbered caption paragraph, e.g. "Table S1. Baseline characteristics".
+ */
+function buildCaption(name: string, number: string, text: string): Paragraph {
+    return new Paragraph({
+        children: [new TextRun({
+            text: `${name} ${number}. `,
+            font: 'Times New Roman',
+            size: 24,
+            bold: true,
+        }), new TextRun({
+            text,
+            font: 'Times New Roman',
+            size: 24,
+        })],
+        spacing: { before: convertInchesToTwip(0.1), after: convertInchesToTwip(0.1) },
+    });
+}
+
 /**
  * Parse a LaTeX longtable block into row data for Word export.
  */
 function parseLongtable(lines: string[], startIndex: number) {
     const rows: Array<Array<{ text: string; bold: boolean; italics: boolean }>> = [];
     let header: Array<{ text: string; bold: boolean; italics: boolean }> | null = null;
+    let caption: string | null = null;
     let i = startIndex + 1;
     let inBody = false;
 
@@ -233,6 +257,8 @@ function parseLongtable(lines: string[], startIndex: number) {
             break;
         }
 
+        caption ??= readCaption(raw);
+
         // Longtable prints header/footers multiple times; start collecting only after the last foot marker
         if (raw.startsWith('\\endlastfoot')) {
             inBody = true;
@@ -242,8 +268,8 @@ function parseLongtable(lines: string[], startIndex: number) {
         // Capture the first header row (before body starts) so we can render a single header in Word
         if (!inBody && !header) {
             const headerLine = raw.replace(/\\\\.*$/, '').trim();
-            if (headerLine && headerLine.includes('&') && !headerLine.startsWith('\\')) {
-                header = headerLine.split('&').map(cell => {
+            if (headerLine && headerLine.includes('&') && (!headerLine.startsWith('\\') || headerLine.startsWith('\\textbf'))) {
+                header = headerLine.split(/(?<!\\)&/).map(cell => {
                     const cleaned = cleanCellContent(cell);
                     return { ...cleaned, bold: true };
                 });
@@ -273,11 +299,11 @@ function parseLongtable(lines: string[], startIndex: number) {
         const cleanedLine = raw.replace(/\\\\.*$/, '').trim();
         if (!cleanedLine || !cleanedLine.includes('&')) continue;
 
-        const cells = cleanedLine.split('&').map(cleanCellContent);
+        const cells = cleanedLine.split(/(?<!\\)&/).map(cleanCellContent);
         rows.push(cells);
     }
 
-    return { header, rows, nextIndex: i + 1 };
+    return { header, rows, caption, nextIndex: i + 1 };
 }
 
 /**
@@ -308,60 +334,9 @@ function buildDocxTable(
 }
 
 /**
- * Format a BibTeX entry as a readable reference string
+ * Build reference paragraphs from the registered citations
  */
-function formatBibEntryAsText(entry: string): string {
-    // Extract fields from BibTeX
-    const authorMatch = entry.match(/author\s*=\s*\{([^}]+)\}/i);
-    const titleMatch = entry.match(/title\s*=\s*\{([^}]+)\}/i);
-    const journalMatch = entry.match(/journal\s*=\s*\{([^}]+)\}/i);
-    const yearMatch = entry.match(/year\s*=\s*\{?(\d{4})\}?/i);
-    const volumeMatch = entry.match(/volume\s*=\s*\{?([^},]+)\}?/i);
-    const pagesMatch = entry.match(/pages\s*=\s*\{([^}]+)\}/i);
-    const doiMatch = entry.match(/doi\s*=\s*\{([^}]+)\}/i);
-
-    const parts: string[] = [];
-
-    if (authorMatch) {
-        // Simplify author list (first 3 authors + et al)
-        const authors = authorMatch[1].split(' and ');
-        if (authors.length <= 3) {
-            parts.push(authors.join(', '));
-        } else {
-            parts.push(authors.slice(0, 3).join(', ') + ', et al');
-        }
-    }
-
-    if (titleMatch) {
-        parts.push(titleMatch[1]);
-    }
-
-    if (journalMatch) {
-        parts.push(journalMatch[1]);
-    }
-
-    if (yearMatch) {
-        let yearPart = yearMatch[1];
-        if (volumeMatch) {
-            yearPart += `;${volumeMatch[1].trim()}`;
-        }
-        if (pagesMatch) {
-            yearPart += `:${pagesMatch[1]}`;
-        }
-        parts.push(yearPart);
-    }
-
-    if (doiMatch) {
-        parts.push(`doi:${doiMatch[1]}`);
-    }
-
-    return parts.join('. ') + '.';
-}
-
-/**
- * Build reference paragraphs from tracked citations
- */
-function buildReferences(tracker: CitationTracker): Paragraph[] {
+function buildReferences(registry: CitationRegistry): Paragraph[] {
     const paragraphs: Paragraph[] = [];
 
     // References heading
@@ -377,22 +352,20 @@ function buildReferences(tracker: CitationTracker): Paragraph[] {
     }));
 
     // Each reference
-    for (const { key, entry } of tracker.entries) {
-        const number = tracker.keyToNumber.get(key)!;
-        const formattedRef = formatBibEntryAsText(entry);
-
+    for (const { label, segments } of formatReferenceList(registry)) {
         paragraphs.push(new Paragraph({
             children: [
-                new TextRun({
-                    text: `${number}. `,
+                ...(label ? [new TextRun({
+                    text: `${label} `,
                     font: 'Times New Roman',
                     size: 24,
-                }),
-                new TextRun({
-                    text: formattedRef,
+                })] : []),
+                ...segments.map(segment => new TextRun({
+                    text: segment.text,
                     font: 'Times New Roman',
                     size: 24,
-                }),
+                    italics: segment.italics,
+                })),
             ],
             spacing: { after: convertInchesToTwip(0.1) },
             indent: { left: convertInchesToTwip(0.5), hanging: convertInchesToTwip(0.5) },
@@ -407,22 +380,44 @@ function buildReferences(tracker: CitationTracker): Paragraph[] {
  * 
  * @param manuscript The manuscript text with inline BibTeX citations
  * @param metadata Optional metadata for title/authors
+ * @param profile Target journal profile (defaults to NEJM)
+ * @param library Reference library entries for [@key] markers (compact citation mode)
+ * @param part Document to produce: the main manuscript, or the <supplementary> material with S-numbered floats
  * @returns Document object ready for packing
+ * @throws Error if the <supplementary> tags are unbalanced
  */
 export function convertToWord(
     manuscript: string,
-    metadata?: LatexMetadata
+    metadata?: LatexMetadata,
+    profile: JournalProfile = getJournalProfile(),
+    library: ReferenceEntry[] = [],
+    part: ManuscriptPart = 'main'
 ): Document {
-    const tracker: CitationTracker = {
-        keyToNumber: new Map(),
-        nextNumber: 1,
-        entries: [],
-    };
+    const registry = createCitationRegistry(profile.citation);
+
+    // Body paragraphs are kept as text until every citation is registered,
+    // since author-year markers (2020a/2020b) depend on the whole reference list
+    const blocks: Array<Paragraph | Table | string> = [];
 
-    const blocks: Array<Paragraph | Table> = [];
+    // Resolve [@key] markers to inline BibTeX, split off the supplementary material and number its floats
+    const { parts, numbers } = numberParts(expandCitationKeys(manuscript, library).text);
 
-    // Clean the manuscript
-    let content = cleanLatexForWord(manuscript);
+    // Word has no \ref: every figure/table reference becomes its number (S-prefixed in the supplement)
+    const content = cleanLatexForWord(resolveReferences(parts[part], new Map([...numbers.main, ...numbers.supplementary])));
+    const isSupplement = part === 'supplementary';
+
+    if (isSupplement) {
+        blocks.push(new Paragraph({
+            children: [new TextRun({
+                text: 'Supplementary Appendix',
+                font: 'Times New Roman',
+                size: 32, // 16pt
+                bold: true,
+            })],
+            alignment: AlignmentType.CENTER,
+            spacing: { after: convertInchesToTwip(0.25) },
+        }));
+    }
 
     // Add title if provided
     if (metadata?.title) {
@@ -438,8 +433,8 @@ export function convertToWord(
         }));
     }
 
-    // Add authors if provided
-    if (metadata?.authors && metadata.authors.length > 0) {
+    // Add authors if provided (the supplement only repeats the title)
+    if (!isSupplement && metadata?.authors && metadata.authors.length > 0) {
         const authorNames = metadata.authors.map(a => a.name).join(', ');
         blocks.push(new Paragraph({
             children: [new TextRun({
@@ -453,7 +448,7 @@ export function convertToWord(
     }
 
     // Add affiliations if provided
-    if (metadata?.affiliations && metadata.affiliations.length > 0) {
+    if (!isSupplement && metadata?.affiliations && metadata.affiliations.length > 0) {
         for (let i = 0; i < metadata.affiliations.length; i++) {
             blocks.push(new Paragraph({
                 children: [new TextRun({
@@ -469,7 +464,7 @@ export function convertToWord(
     }
 
     // Add correspondence if provided
-    if (metadata?.correspondence) {
+    if (!isSupplement && metadata?.correspondence) {
         blocks.push(new Paragraph({
             children: [new TextRun({
                 text: 'Correspondence: ',
@@ -489,6 +484,14 @@ export function convertToWord(
     const lines = content.split('\n');
     let currentParagraph: string[] = [];
 
+    // Captions use the same numbers as the references; floats without a label
+    // get their placement count, which numberFloats gives them too
+    const floatCounters = { fig: 0, tab: 0 };
+    let floatKind: keyof typeof floatCounters | null = null;
+    let floatLabel: string | undefined;
+    const floatNumber = (kind: keyof typeof floatCounters, label?: string) =>
+        (label && numbers[part].get(label)) || `${PART_NUMBER_PREFIXES[part]}${floatCounters[kind]}`;
+
     const flushParagraph = () => {
         if (currentParagraph.length === 0) return;
 
@@ -513,14 +516,9 @@ export function convertToWord(
                 spacing: { before: convertInchesToTwip(0.25), after: convertInchesToTwip(0.1) },
             }));
         } else {
-            // Regular paragraph with citation processing
-            const runs = parseTextWithCitations(text, tracker);
-            if (runs.length > 0) {
-                blocks.push(new Paragraph({
-                    children: runs,
-                    spacing: { after: convertInchesToTwip(0.1), line: 480 }, // Double spacing (240 twips = single)
-                }));
-            }
+            // Regular paragraph; citations are rendered once all are registered
+            registerCitations(registry, text);
+            blocks.push(text);
         }
 
         currentParagraph = [];
@@ -533,7 +531,11 @@ export function convertToWord(
         // Handle LaTeX longtable blocks by converting to native Word tables
         if (trimmed.startsWith('\\begin{longtable')) {
             flushParagraph();
-            const { header, rows, nextIndex } = parseLongtable(lines, i);
+            floatCounters.tab++;
+            const { header, rows, caption, nextIndex } = parseLongtable(lines, i);
+            if (caption) {
+                blocks.push(buildCaption('Table', floatNumber('tab', readFloatLabel(lines, i)), caption));
+            }
             if (rows.length > 0) {
                 blocks.push(buildDocxTable(header, rows));
             }
@@ -541,6 +543,24 @@ export function convertToWord(
             continue;
         }
 
+        // Figure and table environments: keep only the numbered caption
+        if (trimmed.startsWith('\\begin{figure') || trimmed.startsWith('\\begin{table')) {
+            flushParagraph();
+            floatKind = trimmed.startsWith('\\begin{figure') ? 'fig' : 'tab';
+            floatLabel = readFloatLabel(lines, i);
+            floatCounters[floatKind]++;
+            continue;
+        }
+        const caption = floatKind ? readCaption(trimmed) : null;
+        if (floatKind && caption) {
+            blocks.push(buildCaption(floatKind === 'fig' ? 'Figure' : 'Table', floatNumber(floatKind, floatLabel), caption));
+            continue;
+        }
+        if (trimmed.startsWith('\\end{figure') || trimmed.startsWith('\\end{table')) {
+            floatKind = null;
+            continue;
+        }
+
         // Skip LaTeX-only lines
         if (trimmed.startsWith('\\begin{') ||
             trimmed.startsWith('\\end{') ||
@@ -572,9 +592,15 @@ export function convertToWord(
     // Flush any remaining content
     flushParagraph();
 
+    // Render body paragraphs with citation processing
+    const children = blocks.map(block => typeof block !== 'string' ? block : new Paragraph({
+        children: parseTextWithCitations(block, registry),
+        spacing: { after: convertInchesToTwip(0.1), line: 480 }, // Double spacing (240 twips = single)
+    }));
+
     // Add references
-    if (tracker.entries.length > 0) {
-        blocks.push(...buildReferences(tracker));
+    if (registry.references.size > 0) {
+        children.push(...buildReferences(registry));
     }
 
     // Create document
@@ -594,7 +620,8 @@ export function convertToWord(
                 default: new Header({
                     children: [new Paragraph({
                         children: [new TextRun({
-                            text: metadata?.title || 'Manuscript',
+                            text: [isSupplement ? 'Supplementary Appendix' : '', metadata?.title || (isSupplement ? '' : 'Manuscript')]
+                                .filter(Boolean).join(' - '),
                             font: 'Times New Roman',
                             size: 20,
                             italics: true,
@@ -615,7 +642,7 @@ export function convertToWord(
                     })],
                 }),
             },
-            children: blocks,
+            children,
         }],
     });
 
@@ -628,12 +655,19 @@ export function convertToWord(
  * 
  * @param manuscript The AI-generated manuscript
  * @param metadata Optional metadata
+ * @param profile Target journal profile (defaults to NEJM)
+ * @param library Reference library entries for [@key] markers (compact citation mode)
+ * @param part Document to produce: the main manuscript or the supplementary material
  * @returns Promise resolving to Blob of the .docx file
+ * @throws Error if the <supplementary> tags are unbalanced
  */
 export async function exportToWord(
     manuscript: string,
-    metadata?: LatexMetadata
+    metadata?: LatexMetadata,
+    profile?: JournalProfile,
+    library?: ReferenceEntry[],
+    part?: ManuscriptPart
 ): Promise<Blob> {
-    const doc = convertToWord(manuscript, metadata);
+    const doc = convertToWord(manuscript, metadata, profile, library, part);
     return await Packer.toBlob(doc);
 }
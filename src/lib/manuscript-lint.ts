@@ -0,0 +1,279 @@
+/**
+ * Manuscript Lint - Rule-based checks and auto-fixes for mechanical formatting rules.
+ *
+ * Covers the rules that don't need an LLM: em/en dashes, markdown headings
+ * instead of LaTeX \section{} commands, the <main_text> wrapper, and
+ * affiliation formatting. Citations, BibTeX entries and URLs are never touched.
+ */
+
+export type LintRule = 'dash' | 'heading' | 'main-text-wrapper' | 'affiliation';
+
+/**
+ * Replace `length` characters at `index` (in the linted text) with `replacement`.
+ */
+export interface TextEdit {
+    index: number;
+    length: number;
+    replacement: string;
+}
+
+/**
+ * One lint finding.
+ */
+export interface LintFinding {
+    rule: LintRule;
+    message: string;
+    /** Character offset in the linted text */
+    index: number;
+    /** 1-based line and column */
+    line: number;
+    column: number;
+    /** The offending text */
+    excerpt: string;
+    /** Edits that fix the finding; undefined when it needs a human or the Reviser */
+    fix?: TextEdit[];
+}
+
+const MARKDOWN_HEADING_COMMANDS = ['section', 'subsection', 'subsubsection'];
+
+const DEPARTMENT_PATTERN = /\b(department|dept\.?|division|school|faculty|institute|center|centre|unit|laboratory|program|programme|college|section)\b/i;
+
+const COUNTRY_ALIASES: Array<[RegExp, string]> = [
+    [/\b(United States of America|United States|U\.S\.A\.?|U\.S\.)$/, 'USA'],
+    [/\b(United Kingdom|U\.K\.)$/, 'UK']
+];
+
+/**
+ * Get the 1-based line and column of an offset.
+ */
+export function locate(text: string, index: number): { line: number; column: number } {
+    const before = text.slice(0, index);
+    const line = before.split('\n').length;
+    return { line, column: index - before.lastIndexOf('\n') };
+}
+
+/**
+ * Find ranges that rules must not edit: inline citations, BibTeX entries, URLs and comments.
+ */
+function findProtectedRanges(text: string): Array<[number, number]> {
+    const patterns = [
+        /\[\[[\s\S]*?\]\]/g,              // Inline citations [[@article{...}]]
+        /\[@[A-Za-z][\w:.-]*\]/g,        // Citation key markers [@key]
+        /@\w+\{[^\n]*\}/g,                // Bare BibTeX entries
+        /\\(?:url|href|doi)\{[^}]*\}/g,   // URLs
+        /(?<!\\)%[^\n]*/g                 // LaTeX comments
+    ];
+
+    const ranges: Array<[number, number]> = [];
+    for (const pattern of patterns) {
+        for (const match of text.matchAll(pattern)) {
+            ranges.push([match.index!, match.index! + match[0].length]);
+        }
+    }
+    return ranges;
+}
+
+function isProtected(ranges: Array<[number, number]>, index: number): boolean {
+    return ranges.some(([start, end]) => index >= start && index < end);
+}
+
+/**
+ * Em/en dashes: numeric ranges become hyphens, sentence breaks become commas.
+ */
+function lintDashes(text: string, protectedRanges: Array<[number, number]>): LintFinding[] {
+    const findings: LintFinding[] = [];
+
+    for (const match of text.matchAll(/[ \t]*([—–])[ \t]*/g)) {
+        const index = match.index!;
+        const dashIndex = index + match[0].indexOf(match[1]);
+        if (isProtected(protectedRanges, dashIndex)) continue;
+
+        const before = text[index - 1] || '';
+        const after = text[index + match[0].length] || '';
+        const dashName = match[1] === '—' ? 'Em dash' : 'En dash';
+        const base = { rule: 'dash' as const, index: dashIndex, ...locate(text, dashIndex), excerpt: text.slice(Math.max(0, index - 20), index + match[0].length + 20) };
+
+        if (/\d/.test(before) && /\d/.test(after)) {
+            findings.push({ ...base, message: `${dashName} in numeric range; use a hyphen`, fix: [{ index, length: match[0].length, replacement: '-' }] });
+        } else if (/\S/.test(before) && before !== '\n' && /\S/.test(after)) {
+            findings.push({ ...base, message: `${dashName} as sentence break; use a comma`, fix: [{ index, length: match[0].length, replacement: ', ' }] });
+        } else {
+            findings.push({ ...base, message: `${dashName} needs manual rewording` });
+        }
+    }
+
+    return findings;
+}
+
+/**
+ * Markdown headings (#, ##, ###) that should be LaTeX sectioning commands.
+ */
+function lintHeadings(text: string): LintFinding[] {
+    const findings: LintFinding[] = [];
+
+    for (const match of text.matchAll(/^(#{1,4})[ \t]+(.+?)[ \t]*#*[ \t]*$/gm)) {
+        const level = Math.min(match[1].length, MARKDOWN_HEADING_COMMANDS.length) - 1;
+        const title = match[2].replace(/\*\*/g, '').trim();
+        findings.push({
+            rule: 'heading',
+            message: `Markdown heading; use \\${MARKDOWN_HEADING_COMMANDS[level]}{${title}}`,
+            index: match.index!,
+            ...locate(text, match.index!),
+            excerpt: match[0],
+            fix: [{ index: match.index!, length: match[0].length, replacement: `\\${MARKDOWN_HEADING_COMMANDS[level]}{${title}}` }]
+        });
+    }
+
+    return findings;
+}
+
+/**
+ * The <main_text> wrapper: exactly one opening tag followed by one closing tag.
+ * A missing wrapper is added around the numbered \section{} commands before
+ * any <supplementary> material.
+ */
+function lintMainTextWrapper(text: string): LintFinding[] {
+    const opens = [...text.matchAll(/<main_text>/g)];
+    const closes = [...text.matchAll(/<\/main_text>/g)];
+
+    const finding = (message: string, index: number, fix?: TextEdit[]): LintFinding => ({
+        rule: 'main-text-wrapper',
+        message,
+        index,
+        ...locate(text, index),
+        excerpt: text.slice(index, index + 40),
+        fix
+    });
+
+    if (opens.length === 0 && closes.length === 0) {
+        // Level-1 markdown headings count as sections, since they are fixed in the same pass
+        const supplementaryStart = text.indexOf('<supplementary>');
+        const mainScope = supplementaryStart === -1 ? text : text.slice(0, supplementaryStart);
+        const sections = [...mainScope.matchAll(/^[ \t]*(\\section\{|#[ \t])/gm)];
+        if (sections.length === 0) {
+            return text.trim().length > 0 ? [finding('Missing <main_text> wrapper (no \\section{} headings to place it around)', 0)] : [];
+        }
+
+        // Main text runs from the first numbered section to the next unnumbered section after the last one
+        const start = sections[0].index!;
+        const lastSection = sections[sections.length - 1].index!;
+        const trailing = /^[ \t]*\\section\*\{/m.exec(mainScope.slice(lastSection + 1));
+        const end = trailing ? lastSection + 1 + trailing.index : mainScope.length;
+        const closing = text.slice(0, end).endsWith('\n') ? '</main_text>\n\n' : '\n</main_text>\n\n';
+
+        return [finding('Missing <main_text> wrapper', start, [
+            { index: start, length: 0, replacement: '<main_text>\n' },
+            { index: end, length: 0, replacement: trailing || supplementaryStart !== -1 ? closing : closing.trimEnd() + '\n' }
+        ])];
+    }
+
+    if (opens.length !== 1 || closes.length !== 1) {
+        const first = (opens[0] ?? closes[0]).index!;
+        return [finding(`Expected one <main_text> and one </main_text>, found ${opens.length} and ${closes.length}`, first)];
+    }
+    if (closes[0].index! < opens[0].index!) {
+        return [finding('</main_text> appears before <main_text>', closes[0].index!)];
+    }
+    return [];
+}
+
+/**
+ * \affil{} entries: whitespace, trailing periods and country names are
+ * normalized; a missing department or city/country is reported.
+ */
+function lintAffiliations(text: string): LintFinding[] {
+    const findings: LintFinding[] = [];
+
+    for (const match of text.matchAll(/\\affil(\[[^\]]*\])?\{([^{}]*)\}/g)) {
+        const index = match.index!;
+        const original = match[2];
+        const parts = original.split(',').map(part => part.replace(/\s+/g, ' ').trim()).filter(Boolean);
+
+        if (parts.length > 0) {
+            parts[parts.length - 1] = parts[parts.length - 1].replace(/\.$/, '');
+            for (const [pattern, replacement] of COUNTRY_ALIASES) {
+                parts[parts.length - 1] = parts[parts.length - 1].replace(pattern, replacement);
+            }
+        }
+
+        const normalized = parts.join(', ');
+        const base = { rule: 'affiliation' as const, index, ...locate(text, index), excerpt: match[0] };
+
+        if (normalized !== original) {
+            findings.push({
+                ...base,
+                message: 'Affiliation spacing/punctuation is not standard',
+                fix: [{ index, length: match[0].length, replacement: `\\affil${match[1] || ''}{${normalized}}` }]
+            });
+        }
+        if (!DEPARTMENT_PATTERN.test(parts[0] || '')) {
+            findings.push({ ...base, message: 'Affiliation is missing a department/division' });
+        }
+        if (parts.length < 3) {
+            findings.push({ ...base, message: 'Affiliation is missing institution, city or country' });
+        } else if (/^[A-Z]{2}$/.test(parts[parts.length - 1]) && parts[parts.length - 1] !== 'UK') {
+            findings.push({ ...base, message: 'Affiliation ends with a state code; add the country' });
+        }
+    }
+
+    return findings;
+}
+
+/**
+ * Lint a manuscript.
+ * @param text Manuscript text
+ * @returns Findings in document order
+ */
+export function lintManuscript(text: string): LintFinding[] {
+    if (!text) return [];
+
+    const protectedRanges = findProtectedRanges(text);
+    return [
+        ...lintMainTextWrapper(text),
+        ...lintHeadings(text),
+        ...lintDashes(text, protectedRanges),
+        ...lintAffiliations(text)
+    ].sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Apply all auto-fixes to a manuscript.
+ * @param text Manuscript text
+ * @returns Fixed manuscript, the findings that were fixed, and those left for the Reviser
+ */
+export function fixManuscript(text: string): { manuscript: string; fixed: LintFinding[]; remaining: LintFinding[] } {
+    const findings = lintManuscript(text);
+    const fixed = findings.filter(finding => finding.fix);
+
+    // Apply edits from the end so earlier offsets stay valid (insertions go before
+    // a replacement at the same offset); skip overlaps
+    const edits = fixed.flatMap(finding => finding.fix!).sort((a, b) => b.index - a.index || b.length - a.length);
+    let manuscript = text;
+    let limit = Infinity;
+    for (const edit of edits) {
+        if (edit.index + edit.length > limit) continue;
+        manuscript = manuscript.slice(0, edit.index) + edit.replacement + manuscript.slice(edit.index + edit.length);
+        limit = edit.index;
+    }
+
+    return { manuscript, fixed, remaining: lintManuscript(manuscript) };
+}
+
+/**
+ * Summarize findings for an agent prompt.
+ * @param findings Lint findings
+ * @returns One line per finding (grouped counts for auto-fixable dashes)
+ */
+export function formatLintSummary(findings: LintFinding[]): string {
+    if (findings.length === 0) return 'No mechanical formatting issues found.';
+
+    const fixableDashes = findings.filter(f => f.rule === 'dash' && f.fix).length;
+    const lines = findings
+        .filter(f => !(f.rule === 'dash' && f.fix))
+        .map(f => `- [${f.rule}] line ${f.line}: ${f.message}${f.fix ? ' (auto-fixed before critique)' : ''}`);
+
+    if (fixableDashes > 0) {
+        lines.unshift(`- [dash] ${fixableDashes} em/en dashes (auto-fixed before critique)`);
+    }
+    return lines.join('\n');
+}
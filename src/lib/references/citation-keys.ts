@@ -0,0 +1,189 @@
+/**
+ * Citation Keys - Compact manuscripts that cite by key instead of inline BibTeX.
+ *
+ * In compact mode (ProjectSettings.citationMode = 'keys') the manuscript stores
+ * only [@key] markers and the full entries live in the project's reference
+ * library. Exporters and the word count resolve the markers; the conversion
+ * helpers here move a project between the two forms.
+ */
+
+import { db } from '@/lib/db';
+import { ReferenceEntry } from '@/lib/db/schema';
+import { parseBibtex } from './parsers';
+import { getReferences, importReferences, findDuplicateReference, formatInlineCitation } from './library';
+
+/** [@key] citation marker (not the [[@key]] form the Citation Generator emits) */
+export const CITATION_KEY_PATTERN = /(?<!\[)\[@([A-Za-z][\w:.-]*)\](?!\])/g;
+
+/** Inline BibTeX citation, as matched by the exporters */
+const INLINE_CITATION = /\[\[@\w+\{[^,]+,[^\]]+\}\]\]/g;
+
+/** Key-only library citation: [[@key]] */
+const LIBRARY_KEY_CITATION = /\[\[@([A-Za-z][\w:.-]*)\]\]/g;
+
+/**
+ * Outcome of converting a project's manuscripts between inline BibTeX and keys.
+ */
+export interface CitationConversionResult {
+    scenes: number; // Scenes whose content changed
+    citations: number; // Citations converted
+    unknownKeys: string[]; // Keys with no library entry (left as they were)
+}
+
+/**
+ * List the keys cited with [@key] markers, in text order (with repeats).
+ */
+export function findCitationKeys(text: string): string[] {
+    return Array.from(text.matchAll(CITATION_KEY_PATTERN), match => match[1]);
+}
+
+/**
+ * Replace [@key] markers with inline BibTeX from the library.
+ * @param text Text with key markers
+ * @param entries Library entries
+ * @returns Expanded text and any keys not found in the library (left as markers)
+ */
+export function expandCitationKeys(text: string, entries: ReferenceEntry[]): { text: string; unknownKeys: string[] } {
+    const byKey = new Map(entries.map(entry => [entry.key, entry]));
+    const unknownKeys: string[] = [];
+
+    const expanded = text.replace(CITATION_KEY_PATTERN, (match, key: string) => {
+        const entry = byKey.get(key);
+        if (!entry) {
+            if (!unknownKeys.includes(key)) unknownKeys.push(key);
+            return match;
+        }
+        return formatInlineCitation(entry);
+    });
+
+    return { text: expanded, unknownKeys };
+}
+
+/**
+ * Replace inline BibTeX and [[@key]] citations with [@key] markers.
+ * Every inline entry must already be in the library; entries that are not are left inline.
+ * @param text Text with inline citations
+ * @param entries Library entries
+ * @returns Compacted text and the number of citations replaced
+ */
+export function compactCitationText(text: string, entries: ReferenceEntry[]): { text: string; converted: number } {
+    const keys = new Set(entries.map(entry => entry.key));
+    let converted = 0;
+
+    const compacted = text
+        .replace(INLINE_CITATION, match => {
+            const [reference] = parseBibtex(match);
+            const entry = reference && findDuplicateReference(entries, reference);
+            if (!entry) return match;
+            converted++;
+            return `[@${entry.key}]`;
+        })
+        .replace(LIBRARY_KEY_CITATION, (match, key: string) => {
+            if (!keys.has(key)) return match;
+            converted++;
+            return `[@${key}]`;
+        });
+
+    return { text: compacted, converted };
+}
+
+/**
+ * Add a text's inline BibTeX entries to the project library, then replace all
+ * library citations with [@key] markers.
+ * @param novelId Novel ID
+ * @param text Text with inline citations
+ * @returns Compacted text and the number of citations replaced
+ */
+export async function compactCitations(novelId: string, text: string): Promise<{ text: string; converted: number }> {
+    const inline = text.match(INLINE_CITATION) || [];
+    if (inline.length > 0) {
+        await importReferences(novelId, inline.flatMap(citation => parseBibtex(citation)));
+    }
+    return compactCitationText(text, await getReferences(novelId));
+}
+
+/**
+ * Put agent-written text in the project's citation form: in compact mode, move
+ * its inline BibTeX into the library and cite by key. Inline projects keep the text.
+ * @param novelId Novel ID
+ * @param text Text written by an agent
+ * @returns Text to save
+ */
+export async function applyCitationMode(novelId: string, text: string): Promise<string> {
+    const novel = await db.novels.get(novelId);
+    if (novel?.settings?.citationMode !== 'keys') return text;
+    return (await compactCitations(novelId, text)).text;
+}
+
+/**
+ * Apply a text transform to every text node of ProseMirror JSON content.
+ * @returns New content, or the original object if no text changed
+ */
+function mapContentText(content: unknown, transform: (text: string) => string): unknown {
+    if (typeof content === 'string') return transform(content);
+    if (Array.isArray(content)) {
+        const mapped = content.map(node => mapContentText(node, transform));
+        return mapped.some((node, i) => node !== content[i]) ? mapped : content;
+    }
+    if (!content || typeof content !== 'object') return content;
+
+    const node = content as { type?: string; text?: string; content?: unknown };
+    if (node.type === 'text' && typeof node.text === 'string') {
+        const text = transform(node.text);
+        return text === node.text ? content : { ...node, text };
+    }
+    if (node.content) {
+        const children = mapContentText(node.content, transform);
+        return children === node.content ? content : { ...node, content: children };
+    }
+    return content;
+}
+
+/**
+ * Convert every scene of a project to key markers or back to inline BibTeX.
+ * Compacting first adds the scenes' inline entries to the reference library.
+ * @param novelId Novel ID
+ * @param mode 'keys' to compact, 'inline' to expand
+ * @returns Conversion counts
+ */
+export async function convertProjectCitations(novelId: string, mode: 'keys' | 'inline'): Promise<CitationConversionResult> {
+    const scenes = await db.scenes.where('novelId').equals(novelId).toArray();
+    const result: CitationConversionResult = { scenes: 0, citations: 0, unknownKeys: [] };
+
+    if (mode === 'keys') {
+        const inline: string[] = [];
+        mapContentText(scenes.map(scene => scene.content), text => {
+            inline.push(...(text.match(INLINE_CITATION) || []));
+            return text;
+        });
+        if (inline.length > 0) {
+            await importReferences(novelId, inline.flatMap(citation => parseBibtex(citation)));
+        }
+    }
+
+    const entries = await getReferences(novelId);
+
+    for (const scene of scenes) {
+        const content = mapContentText(scene.content, text => {
+            if (mode === 'keys') {
+                const compacted = compactCitationText(text, entries);
+                result.citations += compacted.converted;
+                return compacted.text;
+            }
+
+            const expanded = expandCitationKeys(text, entries);
+            result.citations += findCitationKeys(text).length - findCitationKeys(expanded.text).length;
+            for (const key of expanded.unknownKeys) {
+                if (!result.unknownKeys.includes(key)) result.unknownKeys.push(key);
+            }
+            return expanded.text;
+        });
+
+        if (content !== scene.content) {
+            await db.scenes.update(scene.id, { content, lastModified: Date.now() });
+            result.scenes++;
+        }
+    }
+
+    return result;
+}
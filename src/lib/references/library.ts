@@ -0,0 +1,331 @@
+/**
+ * Reference Library - Per-project store of bibliographic entries.
+ *
+ * Imported references are deduplicated by DOI, PMID and normalized title, and
+ * every entry has a citation key that is unique within the project. Entries are
+ * inserted into the manuscript as inline BibTeX ([[@article{key, ...}]]), the
+ * format the exporters and agents already read.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '@/lib/db';
+import { ReferenceEntry } from '@/lib/db/schema';
+import { ReferenceInput, normalizeDoi, parseReferenceFile } from './parsers';
+
+/**
+ * Outcome of importing a reference file.
+ */
+export interface ReferenceImportResult {
+    added: number;
+    merged: number; // Duplicates whose missing fields were filled from the file
+    total: number; // References found in the file
+}
+
+/** Words skipped when picking the title word of a citation key */
+const KEY_STOPWORDS = new Set(['a', 'an', 'the', 'of', 'in', 'on', 'for', 'and', 'or', 'to', 'with', 'without', 'from', 'by', 'at', 'as', 'into', 'over', 'under']);
+
+const VALID_KEY = /^[A-Za-z][\w:.-]*$/;
+
+/**
+ * Normalize a title for duplicate detection (case, accents, punctuation and spacing ignored).
+ */
+export function normalizeTitle(title: string): string {
+    return title
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+function toAsciiWord(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Find the library entry a reference duplicates: same DOI, same PMID, or same normalized title.
+ * @param entries Library entries
+ * @param reference Reference to check
+ * @returns Matching entry, or undefined
+ */
+export function findDuplicateReference(entries: ReferenceEntry[], reference: ReferenceInput | ReferenceEntry): ReferenceEntry | undefined {
+    const doi = normalizeDoi(reference.doi);
+    const title = normalizeTitle(reference.title);
+
+    return entries.find(entry =>
+        (doi && normalizeDoi(entry.doi) === doi) ||
+        (reference.pmid && entry.pmid === reference.pmid) ||
+        (title.length > 0 && normalizeTitle(entry.title) === title)
+    );
+}
+
+/**
+ * Generate a citation key: first author's last name + year + first significant
+ * title word (e.g. smith2023checkpoint), with a/b/c after the year on collision.
+ * @param reference Reference to key
+ * @param taken Keys already used in the project (compared case-insensitively)
+ * @returns Unique key
+ */
+export function generateCitationKey(reference: ReferenceInput, taken: Set<string>): string {
+    const firstAuthor = reference.authors[0] || '';
+    const lastName = toAsciiWord(firstAuthor.split(',')[0]) || 'anon';
+    const year = reference.year || 'nd';
+    const word = reference.title
+        .split(/\s+/)
+        .map(toAsciiWord)
+        .find(w => w && !KEY_STOPWORDS.has(w)) || '';
+
+    const base = /^[a-z]/.test(lastName) ? lastName : `ref${lastName}`;
+    const lower = new Set(Array.from(taken, key => key.toLowerCase()));
+
+    for (let i = 0; ; i++) {
+        const suffix = i === 0 ? '' : (i <= 26 ? String.fromCharCode(96 + i) : String(i));
+        const key = `${base}${year}${suffix}${word}`;
+        if (!lower.has(key)) return key;
+    }
+}
+
+/**
+ * Fill an entry's missing fields from a duplicate reference and merge tags.
+ * Existing values and the key are never overwritten.
+ * @returns Changed fields (empty if nothing was added)
+ */
+function mergeReference(entry: ReferenceEntry, reference: ReferenceInput): Partial<ReferenceEntry> {
+    const changes: Partial<ReferenceEntry> = {};
+    const fields = ['year', 'journal', 'volume', 'issue', 'pages', 'publisher', 'doi', 'pmid', 'url', 'abstract', 'notes'] as const;
+
+    for (const field of fields) {
+        if (!entry[field] && reference[field]) changes[field] = reference[field];
+    }
+    if (entry.authors.length === 0 && reference.authors.length > 0) {
+        changes.authors = reference.authors;
+    }
+
+    const tags = Array.from(new Set([...entry.tags, ...reference.tags]));
+    if (tags.length !== entry.tags.length) changes.tags = tags;
+
+    return changes;
+}
+
+/**
+ * Get a project's reference library, sorted by key.
+ * @param novelId Novel ID
+ */
+export async function getReferences(novelId: string): Promise<ReferenceEntry[]> {
+    return db.references.where('novelId').equals(novelId).sortBy('key');
+}
+
+/**
+ * Import references into a project library. Duplicates of existing entries (or
+ * of earlier references in the same file) are merged instead of added.
+ * @param novelId Novel ID
+ * @param references Parsed references
+ * @returns Import counts
+ */
+export async function importReferences(novelId: string, references: ReferenceInput[]): Promise<ReferenceImportResult> {
+    const entries = await getReferences(novelId);
+    // BibTeX keys that differ only in case collide
+    const taken = new Set(entries.map(entry => entry.key.toLowerCase()));
+    const result: ReferenceImportResult = { added: 0, merged: 0, total: references.length };
+
+    for (const reference of references) {
+        const duplicate = findDuplicateReference(entries, reference);
+        if (duplicate) {
+            const changes = mergeReference(duplicate, reference);
+            if (Object.keys(changes).length > 0) {
+                Object.assign(duplicate, changes, { lastModified: Date.now() });
+                await db.references.update(duplicate.id, { ...changes, lastModified: duplicate.lastModified });
+            }
+            result.merged++;
+            continue;
+        }
+
+        const key = reference.key && VALID_KEY.test(reference.key) && !taken.has(reference.key.toLowerCase())
+            ? reference.key
+            : generateCitationKey(reference, taken);
+        taken.add(key.toLowerCase());
+
+        const entry: ReferenceEntry = {
+            ...reference,
+            id: uuidv4(),
+            novelId,
+            key,
+            createdAt: Date.now(),
+            lastModified: Date.now()
+        };
+        await db.references.add(entry);
+        entries.push(entry);
+        result.added++;
+    }
+
+    return result;
+}
+
+/**
+ * Parse a .bib, .ris or CSL-JSON file and import it into a project library.
+ * @param novelId Novel ID
+ * @param file Uploaded file
+ * @returns Import counts
+ */
+export async function importReferenceFile(novelId: string, file: File): Promise<ReferenceImportResult> {
+    return importReferences(novelId, parseReferenceFile(file.name, await file.text()));
+}
+
+/**
+ * Update a library entry. A changed key must stay unique within the project,
+ * ignoring case (BibTeX keys that differ only in case collide).
+ * @param entry Entry with its new values
+ */
+export async function updateReference(entry: ReferenceEntry): Promise<void> {
+    const key = entry.key.trim();
+    if (!VALID_KEY.test(key)) {
+        throw new Error(`Invalid citation key "${key}". Use letters, digits, and : . - _ and start with a letter.`);
+    }
+
+    const clash = await db.references.where('key').equalsIgnoreCase(key).filter(other => other.novelId === entry.novelId && other.id !== entry.id).first();
+    if (clash) {
+        throw new Error(`Citation key "${key}" is already used by "${clash.title}".`);
+    }
+
+    await db.references.put({ ...entry, key, doi: normalizeDoi(entry.doi), lastModified: Date.now() });
+}
+
+/**
+ * Delete a library entry.
+ * @param id Entry ID
+ */
+export async function deleteReference(id: string): Promise<void> {
+    await db.references.delete(id);
+}
+
+/**
+ * Whether every closing brace in a value closes an earlier opening brace.
+ */
+function hasBalancedBraces(value: string): boolean {
+    let depth = 0;
+    for (const char of value) {
+        if (char === '{') depth++;
+        else if (char === '}' && --depth < 0) return false;
+    }
+    return depth === 0;
+}
+
+/**
+ * Escape a value for a braced BibTeX field. An outer delimiter pair is removed
+ * and inner braces that protect case ({COVID}) are kept; unbalanced braces
+ * would end the field early, so they are dropped.
+ */
+function bibtexValue(value: string): string {
+    let text = value.replace(/\s+/g, ' ').trim();
+    if (text.startsWith('{') && text.endsWith('}') && hasBalancedBraces(text.slice(1, -1))) {
+        text = text.slice(1, -1).trim();
+    }
+    if (!hasBalancedBraces(text)) {
+        text = text.replace(/[{}]/g, '').replace(/\s+/g, ' ').trim();
+    }
+    return text.replace(/(?<!\\)&/g, '\\&');
+}
+
+/**
+ * Format a library entry as a one-line BibTeX entry, with fields in the order
+ * the Citation Generator is asked to use.
+ * @param entry Library entry
+ * @returns BibTeX entry (without the [[ ]] wrapper)
+ */
+export function formatBibtexEntry(entry: ReferenceEntry): string {
+    const containerField = entry.type === 'article' ? 'journal' : 'booktitle';
+    const fields: Array<[string, string | undefined]> = [
+        ['author', entry.authors.join(' and ')],
+        ['title', entry.title],
+        [containerField, entry.journal],
+        ['publisher', entry.publisher],
+        ['year', entry.year],
+        ['volume', entry.volume],
+        ['number', entry.issue],
+        ['pages', entry.pages?.replace(/-+/g, '--')],
+        ['doi', entry.doi],
+        ['pmid', entry.pmid],
+        ['url', entry.url || (entry.doi ? `https://doi.org/${entry.doi}` : undefined)]
+    ];
+
+    const body = fields
+        .filter((field): field is [string, string] => Boolean(field[1]))
+        .map(([name, value]) => `${name}={${bibtexValue(value)}}`)
+        .join(', ');
+
+    return `@${entry.type}{${entry.key}, ${body}}`;
+}
+
+/**
+ * Format a library entry as an inline manuscript citation.
+ * @param entry Library entry
+ * @returns [[@type{key, ...}]]
+ */
+export function formatInlineCitation(entry: ReferenceEntry): string {
+    return `[[${formatBibtexEntry(entry)}]]`;
+}
+
+/**
+ * Expand key-only citations ([[@key]]) into full inline BibTeX from the library.
+ * @param text Text containing key-only citations
+ * @param entries Library entries
+ * @returns Expanded text and any keys not found in the library (left unexpanded)
+ */
+export function expandLibraryCitations(text: string, entries: ReferenceEntry[]): { text: string; unknownKeys: string[] } {
+    const byKey = new Map(entries.map(entry => [entry.key, entry]));
+    const unknownKeys: string[] = [];
+
+    const expanded = text.replace(/\[\[@([A-Za-z][\w:.-]*)\]\]/g, (match, key: string) => {
+        const entry = byKey.get(key);
+        if (!entry) {
+            unknownKeys.push(key);
+            return match;
+        }
+        return formatInlineCitation(entry);
+    });
+
+    return { text: expanded, unknownKeys };
+}
+
+/**
+ * Short one-line description of an entry: "Smith et al. (2023). Title. Journal."
+ */
+export function formatReferenceSummary(entry: ReferenceEntry): string {
+    const lastName = (author: string) => author.split(',')[0];
+    const authors = entry.authors.length === 0
+        ? 'Anonymous'
+        : entry.authors.length > 2
+            ? `${lastName(entry.authors[0])} et al.`
+            : entry.authors.map(lastName).join(' and ');
+
+    return [
+        `${authors} (${entry.year || 'n.d.'}).`,
+        `${entry.title.replace(/\.$/, '')}.`,
+        entry.journal ? `${entry.journal}.` : '',
+        entry.doi ? `doi:${entry.doi}` : ''
+    ].filter(Boolean).join(' ');
+}
+
+/**
+ * Rank library entries by how many words of the text appear in their title, tags or abstract.
+ * @param entries Library entries
+ * @param text Text to match (e.g. the sentence to cite and its context)
+ * @param limit Maximum number of entries to return
+ * @returns Matching entries, best first (entries without any match are omitted)
+ */
+export function rankReferences(entries: ReferenceEntry[], text: string, limit: number = 20): ReferenceEntry[] {
+    const words = new Set((text.toLowerCase().match(/[a-z][a-z0-9-]{3,}/g) || []).filter(w => !KEY_STOPWORDS.has(w)));
+    if (words.size === 0) return [];
+
+    return entries
+        .map(entry => {
+            const haystack = new Set(`${entry.title} ${entry.tags.join(' ')} ${entry.abstract || ''}`.toLowerCase().match(/[a-z][a-z0-9-]{3,}/g) || []);
+            let score = 0;
+            for (const word of words) if (haystack.has(word)) score++;
+            return { entry, score };
+        })
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ entry }) => entry);
+}
@@ -0,0 +1,404 @@
+/**
+ * Reference Parsers - Read BibTeX, RIS and CSL-JSON files into library entries.
+ *
+ * Parsers are lenient: malformed records are skipped rather than failing the
+ * whole file, and fields the library does not store are ignored.
+ */
+
+import { ReferenceEntry } from '@/lib/db/schema';
+
+/**
+ * A parsed reference before it is stored in a project library.
+ * The key is the source file's key, if it had one.
+ */
+export type ReferenceInput = Omit<ReferenceEntry, 'id' | 'novelId' | 'key' | 'createdAt' | 'lastModified'> & {
+    key?: string;
+};
+
+export type ReferenceFormat = 'bibtex' | 'ris' | 'csl-json';
+
+/**
+ * Normalize a DOI to its bare, lowercase form.
+ */
+export function normalizeDoi(doi: string | undefined): string | undefined {
+    const bare = doi?.trim().replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, '').toLowerCase();
+    return bare || undefined;
+}
+
+/**
+ * Convert "First Middle Last" to "Last, First Middle"; names that already
+ * contain a comma and single-word (group) names are kept.
+ */
+function normalizeAuthorName(name: string): string {
+    const trimmed = name.replace(/\s+/g, ' ').trim();
+    if (trimmed.includes(',')) return trimmed;
+    const parts = trimmed.split(' ');
+    if (parts.length < 2) return trimmed;
+    return `${parts[parts.length - 1]}, ${parts.slice(0, -1).join(' ')}`;
+}
+
+/**
+ * Take the year out of a date string ("2023", "2023/05/01", "May 2023").
+ */
+function parseYear(value: string | undefined): string | undefined {
+    return value?.match(/\b(1[5-9]|20)\d{2}\b/)?.[0];
+}
+
+/**
+ * Join start and end pages as "123-135".
+ */
+function joinPages(start?: string, end?: string): string | undefined {
+    if (!start) return undefined;
+    return end && end !== start ? `${start}-${end}` : start;
+}
+
+function cleanTags(tags: string[]): string[] {
+    return Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean)));
+}
+
+// --- BibTeX ---
+
+const BIBTEX_MONTHS: Record<string, string> = {
+    jan: 'January', feb: 'February', mar: 'March', apr: 'April', may: 'May', jun: 'June',
+    jul: 'July', aug: 'August', sep: 'September', oct: 'October', nov: 'November', dec: 'December'
+};
+
+/**
+ * Read a balanced {...} group starting at text[start] === '{'.
+ * @returns Index just after the closing brace (text.length if unbalanced)
+ */
+function skipBraces(text: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === '\\') { i++; continue; }
+        if (text[i] === '{') depth++;
+        else if (text[i] === '}' && --depth === 0) return i + 1;
+    }
+    return text.length;
+}
+
+/**
+ * Parse the "name = value, ..." list of a BibTeX entry body.
+ * Values keep their inner braces so author lists can be split correctly.
+ */
+function parseBibtexFields(body: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+    let i = 0;
+
+    while (i < body.length) {
+        const nameMatch = /[\s,]*([A-Za-z][\w-]*)\s*=\s*/y;
+        nameMatch.lastIndex = i;
+        const match = nameMatch.exec(body);
+        if (!match) break;
+        i = nameMatch.lastIndex;
+
+        const parts: string[] = [];
+        // A value is one or more pieces joined by #: {braced}, "quoted" or bare
+        for (;;) {
+            if (body[i] === '{') {
+                const end = skipBraces(body, i);
+                parts.push(body.slice(i + 1, end - 1));
+                i = end;
+            } else if (body[i] === '"') {
+                let end = i + 1;
+                let depth = 0;
+                while (end < body.length && !(body[end] === '"' && depth === 0 && body[end - 1] !== '\\')) {
+                    if (body[end] === '{') depth++;
+                    else if (body[end] === '}') depth--;
+                    end++;
+                }
+                parts.push(body.slice(i + 1, end));
+                i = end + 1;
+            } else {
+                const bare = body.slice(i).match(/^[^,#}\s]+/)?.[0] || '';
+                parts.push(BIBTEX_MONTHS[bare.toLowerCase()] || bare);
+                i += bare.length;
+            }
+
+            const next = body.slice(i).match(/^\s*#\s*/);
+            if (!next) break;
+            i += next[0].length;
+        }
+
+        fields[match[1].toLowerCase()] = parts.join('');
+    }
+
+    return fields;
+}
+
+const LATEX_ACCENTS: Record<string, string> = {
+    "'": '\u0301', '`': '\u0300', '^': '\u0302', '"': '\u0308', '~': '\u0303'
+};
+
+/**
+ * Strip LaTeX braces, accents and common escapes from a BibTeX value.
+ */
+function cleanBibtexValue(value: string | undefined): string | undefined {
+    if (value === undefined) return undefined;
+    const cleaned = value
+        .replace(/\\(['`^"~])\{?([A-Za-z])\}?/g, (_, accent: string, letter: string) => letter + LATEX_ACCENTS[accent])
+        .normalize('NFC')
+        .replace(/\\([&%$#_])/g, '$1')
+        .replace(/\\(?:textit|textbf|emph)\{([^{}]*)\}/g, '$1')
+        .replace(/[{}]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return cleaned || undefined;
+}
+
+/**
+ * Split a BibTeX author field at top-level " and ". Fully braced names
+ * ({World Health Organization}) are group authors and are kept as-is.
+ */
+function splitBibtexAuthors(value: string | undefined): string[] {
+    if (!value) return [];
+    const names: string[] = [];
+    const separator = /\s+and\s+/iy;
+    let depth = 0;
+    let start = 0;
+
+    for (let i = 0; i < value.length; i++) {
+        if (value[i] === '{') depth++;
+        else if (value[i] === '}') depth--;
+        else if (depth === 0) {
+            separator.lastIndex = i;
+            if (separator.test(value)) {
+                names.push(value.slice(start, i));
+                start = separator.lastIndex;
+                i = start - 1;
+            }
+        }
+    }
+    names.push(value.slice(start));
+
+    return names
+        .map(name => name.trim())
+        .filter(name => name && name.toLowerCase() !== 'others')
+        .map(name => /^\{[^{}]*\}$/.test(name)
+            ? cleanBibtexValue(name)!
+            : normalizeAuthorName(cleanBibtexValue(name) || ''))
+        .filter(Boolean);
+}
+
+/**
+ * Parse BibTeX text (a .bib file or inline [[@article{...}]] entries).
+ * @param text BibTeX source
+ * @returns Parsed references in file order
+ */
+export function parseBibtex(text: string): ReferenceInput[] {
+    const references: ReferenceInput[] = [];
+    const entryStart = /@(\w+)\s*\{/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = entryStart.exec(text)) !== null) {
+        const type = match[1].toLowerCase();
+        const open = match.index + match[0].length - 1;
+        const end = skipBraces(text, open);
+        entryStart.lastIndex = end;
+
+        if (type === 'comment' || type === 'preamble' || type === 'string') continue;
+
+        const body = text.slice(open + 1, end - 1);
+        const comma = body.indexOf(',');
+        if (comma === -1) continue;
+
+        const fields = parseBibtexFields(body.slice(comma + 1));
+        const title = cleanBibtexValue(fields.title);
+        if (!title) continue;
+
+        const pmid = fields.pmid
+            || (/pubmed/i.test(fields.eprinttype || '') ? fields.eprint : undefined);
+
+        references.push({
+            key: body.slice(0, comma).trim() || undefined,
+            type,
+            title,
+            authors: splitBibtexAuthors(fields.author || fields.editor),
+            year: parseYear(fields.year || fields.date),
+            journal: cleanBibtexValue(fields.journal || fields.journaltitle || fields.booktitle),
+            volume: cleanBibtexValue(fields.volume),
+            issue: cleanBibtexValue(fields.number || fields.issue),
+            pages: cleanBibtexValue(fields.pages)?.replace(/\s*-+\s*/g, '-'),
+            publisher: cleanBibtexValue(fields.publisher || fields.organization || fields.institution),
+            doi: normalizeDoi(cleanBibtexValue(fields.doi)),
+            pmid: cleanBibtexValue(pmid),
+            url: cleanBibtexValue(fields.url),
+            abstract: cleanBibtexValue(fields.abstract),
+            tags: cleanTags((cleanBibtexValue(fields.keywords) || '').split(/[,;]/)),
+            notes: cleanBibtexValue(fields.note)
+        });
+    }
+
+    return references;
+}
+
+// --- RIS ---
+
+const RIS_TYPES: Record<string, string> = {
+    JOUR: 'article', JFULL: 'article', MGZN: 'article', NEWS: 'article',
+    BOOK: 'book', EBOOK: 'book', CHAP: 'incollection', ECHAP: 'incollection',
+    CONF: 'inproceedings', CPAPER: 'inproceedings',
+    RPRT: 'techreport', THES: 'phdthesis', UNPB: 'unpublished'
+};
+
+/**
+ * Parse RIS text (EndNote, Zotero, PubMed exports).
+ * @param text RIS source
+ * @returns Parsed references in file order
+ */
+export function parseRis(text: string): ReferenceInput[] {
+    const references: ReferenceInput[] = [];
+    let record: Record<string, string[]> | null = null;
+    let lastTag = '';
+
+    const finish = () => {
+        if (!record) return;
+        const first = (...tags: string[]) => tags.map(tag => record![tag]?.[0]).find(Boolean);
+        const title = first('TI', 'T1', 'CT', 'BT');
+        if (title) {
+            const accession = first('AN');
+            references.push({
+                key: first('ID'),
+                type: RIS_TYPES[first('TY') || ''] || 'misc',
+                title,
+                authors: [...(record.AU || []), ...(record.A1 || [])].map(normalizeAuthorName),
+                year: parseYear(first('PY', 'Y1', 'DA')),
+                journal: first('JF', 'T2', 'JO', 'JA', 'J2'),
+                volume: first('VL'),
+                issue: first('IS'),
+                pages: joinPages(first('SP'), first('EP')),
+                publisher: first('PB'),
+                doi: normalizeDoi(first('DO')),
+                pmid: accession && /^\d+$/.test(accession) ? accession : undefined,
+                url: first('UR'),
+                abstract: first('AB', 'N2'),
+                tags: cleanTags(record.KW || []),
+                notes: first('N1')
+            });
+        }
+        record = null;
+    };
+
+    for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+        const match = line.match(/^([A-Z][A-Z0-9])  -(?: (.*))?$/);
+        if (!match) {
+            // Continuation of a multi-line value (e.g. long abstracts)
+            const values = record?.[lastTag];
+            if (values && line.trim()) values[values.length - 1] += ` ${line.trim()}`;
+            continue;
+        }
+
+        const [, tag, rawValue = ''] = match;
+        const value = rawValue.trim();
+        if (tag === 'TY') {
+            finish();
+            record = {};
+        }
+        if (tag === 'ER') {
+            finish();
+            continue;
+        }
+        if (!record || !value) continue;
+
+        (record[tag] ||= []).push(value);
+        lastTag = tag;
+    }
+    finish();
+
+    return references;
+}
+
+// --- CSL-JSON ---
+
+const CSL_TYPES: Record<string, string> = {
+    'article-journal': 'article', 'article-magazine': 'article', 'article-newspaper': 'article', article: 'article',
+    book: 'book', chapter: 'incollection', 'paper-conference': 'inproceedings',
+    report: 'techreport', thesis: 'phdthesis', manuscript: 'unpublished'
+};
+
+interface CslName {
+    family?: string;
+    given?: string;
+    literal?: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse CSL-JSON (an array of items, or a single item). Items that are not
+ * objects are skipped.
+ * @param text CSL-JSON source
+ * @returns Parsed references in file order
+ */
+export function parseCslJson(text: string): ReferenceInput[] {
+    const data: unknown = JSON.parse(text);
+    const items = (Array.isArray(data) ? data : [data]).filter(isRecord);
+    const str = (value: unknown) => (value === undefined || value === null || value === '' ? undefined : String(value).trim());
+
+    return items.flatMap(item => {
+        const title = str(item.title);
+        if (!title) return [];
+
+        const issued = isRecord(item.issued) ? item.issued as { 'date-parts'?: unknown[][]; raw?: string; literal?: string } : undefined;
+        const names = (Array.isArray(item.author) ? item.author : Array.isArray(item.editor) ? item.editor : [])
+            .filter(isRecord) as CslName[];
+        const keywords = str(item.keyword);
+
+        return [{
+            key: str(item['citation-key']) || str(item.id),
+            type: CSL_TYPES[str(item.type) || ''] || 'misc',
+            title,
+            authors: names
+                .map(name => name.literal || [name.family, name.given].filter(Boolean).join(', '))
+                .filter(Boolean),
+            year: str(issued?.['date-parts']?.[0]?.[0]) || parseYear(issued?.raw || issued?.literal),
+            journal: str(item['container-title']),
+            volume: str(item.volume),
+            issue: str(item.issue),
+            pages: str(item.page)?.replace(/\s*[-–]+\s*/g, '-'),
+            publisher: str(item.publisher),
+            doi: normalizeDoi(str(item.DOI)),
+            pmid: str(item.PMID),
+            url: str(item.URL),
+            abstract: str(item.abstract),
+            tags: cleanTags(keywords ? keywords.split(/[,;]/) : []),
+            notes: str(item.note)
+        }];
+    });
+}
+
+/**
+ * Detect a reference file's format from its name, falling back to its content.
+ * @param fileName File name (extension decides when known)
+ * @param text File contents
+ * @returns Detected format, or null if unrecognized
+ */
+export function detectReferenceFormat(fileName: string, text: string): ReferenceFormat | null {
+    const extension = fileName.toLowerCase().split('.').pop();
+    if (extension === 'bib' || extension === 'bibtex') return 'bibtex';
+    if (extension === 'ris') return 'ris';
+    if (extension === 'json') return 'csl-json';
+
+    const trimmed = text.trimStart();
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'csl-json';
+    if (/^TY  - /m.test(text)) return 'ris';
+    if (/@\w+\s*\{/.test(text)) return 'bibtex';
+    return null;
+}
+
+/**
+ * Parse a reference file in any supported format.
+ * @param fileName File name
+ * @param text File contents
+ * @returns Parsed references
+ */
+export function parseReferenceFile(fileName: string, text: string): ReferenceInput[] {
+    switch (detectReferenceFormat(fileName, text)) {
+        case 'bibtex': return parseBibtex(text);
+        case 'ris': return parseRis(text);
+        case 'csl-json': return parseCslJson(text);
+        default: throw new Error(`Unrecognized reference format: ${fileName}. Use .bib, .ris or CSL-JSON.`);
+    }
+}
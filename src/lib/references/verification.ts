@@ -0,0 +1,206 @@
+/**
+ * Citation Verification - Check inline citations against the project's reference library.
+ *
+ * Generated citations can be invented by the model. Each inline citation is
+ * matched to an imported reference by DOI, PMID or fuzzy title, then its year,
+ * journal and authors are compared with the imported version:
+ * - verified: a library entry matches and agrees on every compared field
+ * - mismatched: a library entry matches but some fields differ
+ * - unknown: no library entry matches
+ */
+
+import { ReferenceEntry } from '@/lib/db/schema';
+import { ReferenceInput, normalizeDoi, parseBibtex } from './parsers';
+import { formatInlineCitation, normalizeTitle } from './library';
+
+export type CitationStatus = 'verified' | 'mismatched' | 'unknown';
+
+/**
+ * Verification result for one inline citation.
+ */
+export interface CitationCheck {
+    citation: string; // Inline citation as written in the text ([[@type{...}]])
+    key?: string;
+    title?: string;
+    status: CitationStatus;
+    entry?: ReferenceEntry; // Matching library entry
+    matchedBy?: 'doi' | 'pmid' | 'title';
+    differences: string[]; // e.g. "year: 2019 (library: 2020)"
+}
+
+/** Same inline citation pattern the exporters use */
+const INLINE_CITATION = /\[\[@\w+\{[^,]+,[^\]]+\}\]\]/g;
+
+/** Minimum title similarity for a fuzzy title match */
+const TITLE_MATCH_THRESHOLD = 0.85;
+
+/** Words ignored when comparing journal names */
+const JOURNAL_STOPWORDS = new Set(['the', 'of', 'and', 'in', 'for', 'on']);
+
+/**
+ * Dice coefficient of the word sets of two normalized titles (0-1).
+ */
+function titleSimilarity(a: string, b: string): number {
+    const wordsA = new Set(normalizeTitle(a).split(' ').filter(Boolean));
+    const wordsB = new Set(normalizeTitle(b).split(' ').filter(Boolean));
+    if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+    let shared = 0;
+    for (const word of wordsA) if (wordsB.has(word)) shared++;
+    return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+function journalWords(journal: string): string[] {
+    return normalizeTitle(journal.replace(/&/g, ' ')).split(' ').filter(w => w && !JOURNAL_STOPWORDS.has(w));
+}
+
+/**
+ * Whether two journal names refer to the same journal, allowing for
+ * abbreviations ("N Engl J Med") and acronyms ("JAMA").
+ */
+function journalsMatch(a: string, b: string): boolean {
+    const wordsA = journalWords(a);
+    const wordsB = journalWords(b);
+    if (wordsA.join(' ') === wordsB.join(' ')) return true;
+
+    const [short, full] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+    if (short.length === 0) return false;
+
+    // Acronym of the full name
+    if (short.length === 1 && short[0] === full.map(w => w[0]).join('')) return true;
+
+    // Each abbreviated word is a prefix of the next matching word of the full name
+    let index = 0;
+    for (const word of short) {
+        while (index < full.length && !full[index].startsWith(word)) index++;
+        if (index === full.length) return false;
+        index++;
+    }
+    return true;
+}
+
+function lastName(author: string): string {
+    return normalizeTitle(author.split(',')[0]).replace(/ /g, '');
+}
+
+/**
+ * Compare the authors of a citation with its library entry.
+ * The first author must agree, and most of the shorter author list must appear in the longer one.
+ */
+function authorsMatch(cited: string[], library: string[]): boolean {
+    if (cited.length === 0 || library.length === 0) return true;
+    if (lastName(cited[0]) !== lastName(library[0])) return false;
+
+    const [short, long] = cited.length <= library.length ? [cited, library] : [library, cited];
+    const names = new Set(long.map(lastName));
+    const shared = short.filter(author => names.has(lastName(author))).length;
+    return shared / short.length >= 0.5;
+}
+
+/**
+ * Find the library entry a cited reference refers to.
+ */
+function findLibraryMatch(reference: ReferenceInput, library: ReferenceEntry[]): Pick<CitationCheck, 'entry' | 'matchedBy'> {
+    const doi = normalizeDoi(reference.doi);
+    if (doi) {
+        const entry = library.find(e => normalizeDoi(e.doi) === doi);
+        if (entry) return { entry, matchedBy: 'doi' };
+    }
+
+    if (reference.pmid) {
+        const entry = library.find(e => e.pmid === reference.pmid);
+        if (entry) return { entry, matchedBy: 'pmid' };
+    }
+
+    let best: ReferenceEntry | undefined;
+    let bestScore = TITLE_MATCH_THRESHOLD;
+    for (const entry of library) {
+        const score = titleSimilarity(reference.title, entry.title);
+        if (score >= bestScore) {
+            best = entry;
+            bestScore = score;
+        }
+    }
+    return best ? { entry: best, matchedBy: 'title' } : {};
+}
+
+/**
+ * Verify one cited reference against the library.
+ * @param citation Inline citation text the reference was parsed from
+ * @param reference Parsed reference
+ * @param library Library entries
+ * @returns Verification result
+ */
+export function verifyReference(citation: string, reference: ReferenceInput, library: ReferenceEntry[]): CitationCheck {
+    const { entry, matchedBy } = findLibraryMatch(reference, library);
+    const check: CitationCheck = {
+        citation,
+        key: reference.key,
+        title: reference.title,
+        status: 'unknown',
+        entry,
+        matchedBy,
+        differences: []
+    };
+    if (!entry) return check;
+
+    const differences = check.differences;
+    if (matchedBy !== 'title' && titleSimilarity(reference.title, entry.title) < TITLE_MATCH_THRESHOLD) {
+        differences.push(`title: "${reference.title}" (library: "${entry.title}")`);
+    }
+    if (reference.year && entry.year && reference.year !== entry.year) {
+        differences.push(`year: ${reference.year} (library: ${entry.year})`);
+    }
+    if (reference.journal && entry.journal && !journalsMatch(reference.journal, entry.journal)) {
+        differences.push(`journal: ${reference.journal} (library: ${entry.journal})`);
+    }
+    if (!authorsMatch(reference.authors, entry.authors)) {
+        differences.push(`authors: ${reference.authors.join('; ')} (library: ${entry.authors.join('; ')})`);
+    }
+    const doi = normalizeDoi(reference.doi);
+    const entryDoi = normalizeDoi(entry.doi);
+    if (doi && entryDoi && doi !== entryDoi) {
+        differences.push(`doi: ${doi} (library: ${entryDoi})`);
+    }
+
+    check.status = differences.length > 0 ? 'mismatched' : 'verified';
+    return check;
+}
+
+/**
+ * Verify every inline citation in a text. Repeated citations are checked once.
+ * @param text Manuscript or sentence text
+ * @param library Library entries
+ * @returns One result per distinct citation, in order of first appearance
+ */
+export function verifyCitations(text: string, library: ReferenceEntry[]): CitationCheck[] {
+    const citations = Array.from(new Set(text.match(INLINE_CITATION) || []));
+    const checks: CitationCheck[] = [];
+
+    for (const citation of citations) {
+        const [reference] = parseBibtex(citation);
+        if (!reference) continue;
+        checks.push(verifyReference(citation, reference, library));
+    }
+
+    return checks;
+}
+
+/**
+ * Replace every occurrence of a checked citation with its library entry.
+ * @param text Text containing the citation
+ * @param check Check with a matching library entry
+ * @returns Updated text (unchanged if the check has no entry)
+ */
+export function replaceWithLibraryCitation(text: string, check: CitationCheck): string {
+    if (!check.entry) return text;
+    return text.split(check.citation).join(formatInlineCitation(check.entry));
+}
+
+/**
+ * Count checks by status, e.g. "3 verified, 1 mismatched, 0 unknown".
+ */
+export function summarizeCitationChecks(checks: CitationCheck[]): string {
+    const count = (status: CitationStatus) => checks.filter(check => check.status === status).length;
+    return `${count('verified')} verified, ${count('mismatched')} mismatched, ${count('unknown')} unknown`;
+}
@@ -0,0 +1,178 @@
+/**
+ * Longtable Generator - Deterministic LaTeX for uploaded project tables.
+ *
+ * Produces the same ThreePartTable + longtable structure the Table Processor
+ * prompt asks for (caption and label, repeated header, continuation foot,
+ * TableNotes), so uploaded tables export exactly like LLM-formatted ones.
+ */
+
+import { ProjectTable, TableAlignment } from '@/lib/db/schema';
+
+/** Share of \linewidth given to the columns (the rest is column padding) */
+const TABLE_WIDTH = 0.9;
+
+const LATEX_SPECIALS: Record<string, string> = {
+    '\\': '\\textbackslash{}',
+    '&': '\\&',
+    '%': '\\%',
+    '$': '\\$',
+    '#': '\\#',
+    '_': '\\_',
+    '{': '\\{',
+    '}': '\\}',
+    '~': '\\textasciitilde{}',
+    '^': '\\textasciicircum{}',
+    '±': '$\\pm$',
+    '≤': '$\\le$',
+    '≥': '$\\ge$',
+    '×': '$\\times$'
+};
+
+const ALIGNMENT_COMMANDS: Record<TableAlignment, string> = {
+    l: '\\raggedright',
+    c: '\\centering',
+    r: '\\raggedleft'
+};
+
+/**
+ * Escape cell text for LaTeX. Two or more leading spaces become an indent
+ * (subcategory rows, e.g. "  Female").
+ */
+export function escapeLatexText(text: string): string {
+    const indent = /^ {2,}|^\t/.test(text) ? '\\hspace{1em}' : '';
+    const escaped = text
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/[\\&%$#_{}~^±≤≥×]/g, char => LATEX_SPECIALS[char]);
+    return indent + escaped;
+}
+
+/**
+ * Guess column alignments: left for mostly-text columns, centered for mostly-numeric ones.
+ * @param rows Table rows
+ * @param headerRows Leading header rows (not inspected)
+ */
+export function guessAlignments(rows: string[][], headerRows: number): TableAlignment[] {
+    const body = rows.slice(headerRows);
+    const width = rows[0]?.length ?? 0;
+    return Array.from({ length: width }, (_, column) => {
+        const cells = body.map(row => row[column]).filter(Boolean);
+        const numeric = cells.filter(cell => /^[<>≤≥~]?\s*[-+]?[\d.,]+/.test(cell)).length;
+        return column > 0 && cells.length > 0 && numeric / cells.length >= 0.5 ? 'c' : 'l';
+    });
+}
+
+/**
+ * Suggest a LaTeX label from a file or sheet name, unique among existing labels.
+ * @param name Source name (e.g. "Baseline characteristics.xlsx")
+ * @param existing Labels already used in the project
+ */
+export function suggestTableLabel(name: string, existing: string[]): string {
+    const base = name
+        .replace(/\.[a-z0-9]+$/i, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 30) || 'table';
+
+    let label = base;
+    for (let n = 2; existing.includes(label); n++) label = `${base}-${n}`;
+    return label;
+}
+
+/**
+ * Column widths proportional to the longest cell of each column (clamped, so
+ * one long column cannot squeeze the others to nothing).
+ */
+function columnWidths(rows: string[][]): number[] {
+    const width = rows[0]?.length ?? 0;
+    const lengths = Array.from({ length: width }, (_, column) =>
+        Math.min(40, Math.max(4, ...rows.map(row => (row[column] || '').trim().length)))
+    );
+    const total = lengths.reduce((sum, length) => sum + length, 0);
+    return lengths.map(length => Math.floor((TABLE_WIDTH * length / total) * 100) / 100);
+}
+
+function formatRow(row: string[]): string {
+    return `${row.map(escapeLatexText).join(' & ')} \\\\`;
+}
+
+function formatHeaderRow(row: string[]): string {
+    return `${row.map(cell => cell.trim() ? `\\textbf{${escapeLatexText(cell)}}` : '').join(' & ')} \\\\`;
+}
+
+/**
+ * Generate the ThreePartTable + longtable block for a project table.
+ * @param table Project table
+ * @param caption Caption text (LaTeX)
+ * @returns LaTeX table block
+ */
+export function generateLongtable(table: ProjectTable, caption: string): string {
+    const columns = table.rows[0]?.length ?? 0;
+    const widths = columnWidths(table.rows);
+    const spec = widths
+        .map((width, i) => `>{${ALIGNMENT_COMMANDS[table.alignments[i] || 'l']}\\arraybackslash}p{${width}\\linewidth}`)
+        .join(' ');
+
+    const header = table.rows.slice(0, table.headerRows).map(formatHeaderRow);
+    const body = table.rows.slice(table.headerRows).map(formatRow);
+    const footnotes = table.footnotes.map(note => note.trim()).filter(Boolean);
+
+    const lines = ['\\begin{ThreePartTable}'];
+    if (footnotes.length > 0) {
+        lines.push('\\begin{TableNotes}', '\\small', ...footnotes.map(note => `\\item ${escapeLatexText(note)}`), '\\end{TableNotes}');
+    }
+    lines.push(
+        `\\begin{longtable}{${spec}}`,
+        `\\caption{${caption.trim()}}\\label{tab:${table.label}}\\\\`,
+        '\\toprule',
+        ...header,
+        '\\midrule',
+        '\\endfirsthead',
+        '\\caption*{Table~\\thetable\\ (continued)}\\\\',
+        '\\toprule',
+        ...header,
+        '\\midrule',
+        '\\endhead',
+        '\\midrule',
+        `\\multicolumn{${columns}}{r}{\\emph{Continued on next page}}\\\\`,
+        '\\endfoot',
+        '\\bottomrule',
+        ...(footnotes.length > 0 ? ['\\insertTableNotes'] : []),
+        '\\endlastfoot',
+        ...body,
+        '\\end{longtable}',
+        '\\end{ThreePartTable}'
+    );
+    return lines.join('\n');
+}
+
+/**
+ * Format a table as a Markdown pipe table (for agent prompts).
+ * @param table Project table
+ * @param maxRows Body rows to include; the rest are summarized
+ */
+export function formatTablePreview(table: ProjectTable, maxRows: number = 30): string {
+    const line = (row: string[]) => `| ${row.map(cell => cell.replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|')).join(' | ')} |`;
+    const header = table.rows.slice(0, Math.max(1, table.headerRows));
+    const body = table.rows.slice(header.length);
+
+    const lines = [
+        ...header.map(line),
+        `| ${header[0].map(() => '---').join(' | ')} |`,
+        ...body.slice(0, maxRows).map(line)
+    ];
+    if (body.length > maxRows) lines.push(`(${body.length - maxRows} more rows)`);
+    const footnotes = table.footnotes.map(note => note.trim()).filter(Boolean);
+    if (footnotes.length > 0) lines.push('', 'Footnotes:', ...footnotes.map(note => `- ${note}`));
+    return lines.join('\n');
+}
+
+/**
+ * Serialize a table as CSV (for re-export).
+ */
+export function tableToCsv(table: ProjectTable): string {
+    return table.rows
+        .map(row => row.map(cell => /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join(','))
+        .join('\n') + '\n';
+}
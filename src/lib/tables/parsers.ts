@@ -0,0 +1,217 @@
+/**
+ * Table Parsers - Read CSV/TSV files and XLSX workbooks into rows of cell text.
+ *
+ * Cells are kept as the text the user sees in the source file, trailing empty
+ * rows and columns are dropped, and short rows are padded so every row has the
+ * same number of columns. Workbooks are read with JSZip (an .xlsx file is a zip
+ * of XML parts); legacy binary .xls files are not supported.
+ */
+
+import JSZip from 'jszip';
+
+/**
+ * One sheet of an imported file (CSV files have a single sheet).
+ */
+export interface ImportedSheet {
+    name: string;
+    rows: string[][];
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+        if (entity[0] !== '#') return XML_ENTITIES[entity.toLowerCase()];
+        return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    });
+}
+
+/**
+ * Drop trailing empty rows/columns and pad rows to the same width.
+ * Leading spaces are kept: they mark indented subcategory rows.
+ */
+function normalizeRows(rows: string[][]): string[][] {
+    const trimmed = rows.map(row => row.map(cell => cell.trim() ? cell.trimEnd() : ''));
+    while (trimmed.length > 0 && trimmed[trimmed.length - 1].every(cell => !cell)) trimmed.pop();
+
+    const width = Math.max(0, ...trimmed.map(row => {
+        let last = row.length;
+        while (last > 0 && !row[last - 1]) last--;
+        return last;
+    }));
+    return trimmed.map(row => Array.from({ length: width }, (_, i) => row[i] ?? ''));
+}
+
+/**
+ * Guess the delimiter from the first line: the most frequent of comma, semicolon and tab.
+ */
+function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }));
+    return counts.reduce((best, candidate) => candidate.count > best.count ? candidate : best).delimiter;
+}
+
+/**
+ * Parse delimited text (RFC 4180 quoting: "a ""quoted"" cell", embedded newlines).
+ * @param text File contents
+ * @param delimiter Field delimiter; detected from the first line if omitted
+ * @returns Rows of cell text
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    const source = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (quoted) {
+            if (char === '"' && source[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && !cell.trim()) {
+            quoted = true;
+            cell = '';
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    return normalizeRows(rows);
+}
+
+/**
+ * Convert a cell reference's column letters ("AB12") to a 0-based index.
+ */
+function columnIndex(reference: string): number {
+    const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+    return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Text of a rich-text or plain string item (<si> / <is>), without phonetic runs.
+ */
+function readStringItem(xml: string): string {
+    return Array.from(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+}
+
+/**
+ * Format a stored numeric value without floating-point noise (0.30000000000000004 -> 0.3).
+ * Number formats (decimals, percentages, dates) from the workbook styles are not applied.
+ */
+function formatNumber(value: string): string {
+    const number = Number(value);
+    return Number.isFinite(number) ? String(Number(number.toPrecision(15))) : value;
+}
+
+/**
+ * Read the rows of one worksheet part.
+ */
+function parseWorksheet(xml: string, sharedStrings: string[]): string[][] {
+    const rows: string[][] = [];
+
+    for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+        const rowNumber = Number(rowMatch[1].match(/\br="(\d+)"/)?.[1] ?? rows.length + 1);
+        const row: string[] = [];
+
+        for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const attributes = cellMatch[1];
+            const body = cellMatch[2] || '';
+            const reference = attributes.match(/\br="([A-Z]+\d+)"/i)?.[1];
+            const type = attributes.match(/\bt="(\w+)"/)?.[1];
+            const value = decodeXml(body.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '');
+
+            let text: string;
+            switch (type) {
+                case 's': text = sharedStrings[Number(value)] ?? ''; break;
+                case 'inlineStr': text = readStringItem(body.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? ''); break;
+                case 'b': text = value === '1' ? 'TRUE' : 'FALSE'; break;
+                case 'str':
+                case 'e': text = value; break;
+                default: text = value ? formatNumber(value) : '';
+            }
+            row[reference ? columnIndex(reference) : row.length] = text;
+        }
+
+        rows[rowNumber - 1] = Array.from(row, cell => cell ?? '');
+    }
+
+    return normalizeRows(Array.from(rows, row => row ?? []));
+}
+
+/**
+ * Resolve a relationship target ("worksheets/sheet1.xml" or "/xl/worksheets/sheet1.xml") to a zip path.
+ */
+function resolvePartPath(target: string): string {
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Parse an XLSX workbook.
+ * @param data Workbook file contents
+ * @returns Sheets in workbook order
+ */
+export async function parseXlsx(data: ArrayBuffer): Promise<ImportedSheet[]> {
+    const zip = await JSZip.loadAsync(data);
+    const read = async (path: string) => (await zip.file(path)?.async('text')) ?? '';
+
+    const workbook = await read('xl/workbook.xml');
+    if (!workbook) throw new Error('Not an XLSX workbook (xl/workbook.xml is missing)');
+
+    const relationships = new Map(
+        Array.from((await read('xl/_rels/workbook.xml.rels')).matchAll(/<Relationship\b[^>]*>/g), match => [
+            match[0].match(/\bId="([^"]+)"/)?.[1],
+            match[0].match(/\bTarget="([^"]+)"/)?.[1]
+        ])
+    );
+    const sharedStrings = Array.from((await read('xl/sharedStrings.xml')).matchAll(/<si>([\s\S]*?)<\/si>/g), match => readStringItem(match[1]));
+
+    const sheets: ImportedSheet[] = [];
+    for (const match of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+        const name = decodeXml(match[0].match(/\bname="([^"]*)"/)?.[1] ?? `Sheet${sheets.length + 1}`);
+        const target = relationships.get(match[0].match(/\br:id="([^"]+)"/)?.[1]);
+        if (!target) continue;
+        sheets.push({ name, rows: parseWorksheet(await read(resolvePartPath(target)), sharedStrings) });
+    }
+    return sheets;
+}
+
+/**
+ * Read an uploaded table file by its extension (.csv, .tsv, .txt or .xlsx).
+ * @param file Uploaded file
+ * @returns Sheets with at least one row
+ */
+export async function importTableFile(file: File): Promise<ImportedSheet[]> {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    let sheets: ImportedSheet[];
+
+    if (extension === 'xlsx') {
+        sheets = await parseXlsx(await file.arrayBuffer());
+    } else if (extension === 'xls') {
+        throw new Error('Legacy .xls workbooks are not supported. Save the sheet as .xlsx or CSV and upload it again.');
+    } else {
+        const text = await file.text();
+        sheets = [{ name: file.name, rows: parseCsv(text, extension === 'tsv' ? '\t' : undefined) }];
+    }
+
+    return sheets.filter(sheet => sheet.rows.length > 0);
+}
@@ -0,0 +1,29 @@
+/**
+ * Project Tables - Uploaded tables stored in the project settings, next to the project images.
+ */
+
+import { db } from '@/lib/db';
+import { ProjectTable } from '@/lib/db/schema';
+
+/**
+ * Get a project's uploaded tables.
+ * @param novelId Novel ID
+ */
+export async function getProjectTables(novelId: string): Promise<ProjectTable[]> {
+    const novel = await db.novels.get(novelId);
+    return novel?.settings?.tables || [];
+}
+
+/**
+ * Update one uploaded table.
+ * @param novelId Novel ID
+ * @param tableId Table ID
+ * @param updates Fields to change
+ */
+export async function updateProjectTable(novelId: string, tableId: string, updates: Partial<Omit<ProjectTable, 'id'>>): Promise<void> {
+    const tables = await getProjectTables(novelId);
+    await db.novels.update(novelId, {
+        'settings.tables': tables.map(table => table.id === tableId ? { ...table, ...updates } : table),
+        lastModified: Date.now()
+    });
+}
@@ -28,8 +28,8 @@ export function countWords(text: string): number {
 }
 
 /**
- * Removes inline BibTeX citations wrapped in [[...]], bare BibTeX entries,
- * and LaTeX figure citations (inline refs and figure environments).
+ * Removes inline BibTeX citations wrapped in [[...]], [@key] citation markers,
+ * bare BibTeX entries, and LaTeX figure citations (inline refs and figure environments).
  */
 export function stripInlineCitations(text: string): string {
     if (!text) return '';
@@ -37,6 +37,9 @@ export function stripInlineCitations(text: string): string {
     // Remove inline BibTeX wrapped in [[...]]
     let result = text.replace(/\[\[[\s\S]*?@\w+\{[\s\S]*?\}\]\]/g, ' ');
 
+    // Remove citation key markers [@key] (compact citation mode)
+    result = result.replace(/\[@[A-Za-z][\w:.-]*\]/g, ' ');
+
     // Remove bare BibTeX entries
     result = result.replace(/@\w+\{[^\n]*\}/g, ' ');
 
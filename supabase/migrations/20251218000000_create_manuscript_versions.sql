@@ -0,0 +1,35 @@
+create table if not exists manuscript_versions (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid references auth.users(id) not null,
+    novel_id uuid references novels(id) on delete cascade not null,
+    scene_id uuid references scenes(id) on delete cascade,
+    agent text not null,
+    action text not null,
+    pass_index int default 0,
+    run_id uuid,
+    summary text,
+    operations jsonb default '[]',
+    content text not null,
+    created_at bigint not null,
+    last_modified bigint
+);
+
+create index if not exists manuscript_versions_scene_idx on manuscript_versions (scene_id, created_at);
+
+alter table manuscript_versions enable row level security;
+
+create policy "Users can view their own manuscript versions"
+on manuscript_versions for select
+using (auth.uid() = user_id);
+
+create policy "Users can insert their own manuscript versions"
+on manuscript_versions for insert
+with check (auth.uid() = user_id);
+
+create policy "Users can update their own manuscript versions"
+on manuscript_versions for update
+using (auth.uid() = user_id);
+
+create policy "Users can delete their own manuscript versions"
+on manuscript_versions for delete
+using (auth.uid() = user_id);
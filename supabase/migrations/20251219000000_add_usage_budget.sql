@@ -0,0 +1,5 @@
+alter table agent_state 
+add column if not exists max_tokens integer,
+add column if not exists max_cost double precision,
+add column if not exists run_usage jsonb,
+add column if not exists total_usage jsonb;
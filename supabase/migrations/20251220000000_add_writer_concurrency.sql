@@ -0,0 +1,2 @@
+alter table agent_state 
+add column if not exists writer_concurrency int default 3;
@@ -0,0 +1,2 @@
+alter table agent_state 
+add column if not exists reviewer_comments jsonb default '[]';
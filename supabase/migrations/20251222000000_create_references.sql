@@ -0,0 +1,44 @@
+-- "references" is a reserved word in Postgres, so the table name is quoted throughout
+create table if not exists "references" (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid references auth.users(id) not null,
+    novel_id uuid references novels(id) on delete cascade not null,
+    key text not null,
+    type text not null default 'article',
+    title text not null,
+    authors jsonb default '[]',
+    year text,
+    journal text,
+    volume text,
+    issue text,
+    pages text,
+    publisher text,
+    doi text,
+    pmid text,
+    url text,
+    abstract text,
+    tags jsonb default '[]',
+    notes text,
+    created_at bigint not null,
+    last_modified bigint
+);
+
+create index if not exists references_novel_idx on "references" (novel_id, key);
+
+alter table "references" enable row level security;
+
+create policy "Users can view their own references"
+on "references" for select
+using (auth.uid() = user_id);
+
+create policy "Users can insert their own references"
+on "references" for insert
+with check (auth.uid() = user_id);
+
+create policy "Users can update their own references"
+on "references" for update
+using (auth.uid() = user_id);
+
+create policy "Users can delete their own references"
+on "references" for delete
+using (auth.uid() = user_id);
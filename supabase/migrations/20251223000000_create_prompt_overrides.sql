@@ -0,0 +1,30 @@
+create table if not exists prompt_overrides (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid references auth.users(id) not null,
+    novel_id uuid references novels(id) on delete cascade not null,
+    prompt_id text not null,
+    template text not null,
+    created_at bigint not null,
+    last_modified bigint,
+    unique (novel_id, prompt_id)
+);
+
+alter table prompt_overrides enable row level security;
+
+create policy "Users can view their own prompt overrides"
+on prompt_overrides for select
+using (auth.uid() = user_id);
+
+create policy "Users can insert their own prompt overrides"
+on prompt_overrides for insert
+with check (auth.uid() = user_id);
+
+create policy "Users can update their own prompt overrides"
+on prompt_overrides for update
+using (auth.uid() = user_id);
+
+create policy "Users can delete their own prompt overrides"
+on prompt_overrides for delete
+using (auth.uid() = user_id);
+
+alter publication supabase_realtime add table public.prompt_overrides;
@@ -0,0 +1,2 @@
+alter table agent_state 
+add column if not exists run_trace jsonb;